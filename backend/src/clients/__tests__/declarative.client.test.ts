@@ -0,0 +1,192 @@
+/**
+ * Unit tests for DeclarativeBotClient
+ */
+
+import axios from 'axios';
+import { DeclarativeBotClient, DeclarativeBotDescriptor } from '../declarative.client';
+import { ErrorType } from '../../types/api';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+// Fixture descriptor modelled on a GET endpoint with bearer auth and in-body error codes
+const descriptor: DeclarativeBotDescriptor = {
+  botId: 'fixture_db',
+  name: 'FixtureDb',
+  baseUrl: 'https://fixture.example.com',
+  tokenEnv: 'FIXTURE_DB_TOKEN',
+  endpoint: { method: 'GET', path: '/v1/search' },
+  auth: { style: 'header', name: 'Authorization', prefix: 'Bearer ' },
+  request: { queryParam: 'q', typeParam: 'kind', params: { limit: 50 } },
+  searchTypes: { phone: 'phone', email: 'mail' },
+  response: {
+    recordsPath: '$.data.sources[*].items[*]',
+    totalPath: 'data.count',
+    errorCodePath: 'error.code',
+    errorMessagePath: 'error.message'
+  },
+  errors: {
+    statusCodes: { 402: ErrorType.API_UNAVAILABLE },
+    bodyCodes: { '3': ErrorType.RATE_LIMIT }
+  }
+};
+
+describe('DeclarativeBotClient', () => {
+  let client: DeclarativeBotClient;
+
+  beforeEach(() => {
+    client = new DeclarativeBotClient(descriptor, { token: 'fixture-token' });
+    jest.clearAllMocks();
+  });
+
+  describe('Constructor', () => {
+    it('should throw error if token is not provided', () => {
+      delete process.env.FIXTURE_DB_TOKEN;
+
+      expect(() => new DeclarativeBotClient(descriptor))
+        .toThrow('FixtureDb API token is required');
+    });
+
+    it('should read token and base URL from the descriptor env vars', () => {
+      process.env.FIXTURE_DB_TOKEN = 'env-token';
+
+      const envClient = new DeclarativeBotClient({ ...descriptor, baseUrlEnv: 'FIXTURE_DB_BASE_URL' });
+
+      expect(envClient.getConfig().baseUrl).toBe('https://fixture.example.com');
+      expect(envClient.getBotId()).toBe('fixture_db');
+      delete process.env.FIXTURE_DB_TOKEN;
+    });
+  });
+
+  describe('search', () => {
+    it('should build the request and extract records', async () => {
+      mockedAxios.request.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          data: {
+            count: 3,
+            sources: [
+              { items: [{ phone: '79123456789' }, { name: 'Иван' }] },
+              { items: [{ email: 'ivan@example.com' }] }
+            ]
+          }
+        }
+      });
+
+      const result = await client.search(' +79123456789 ', 'phone');
+
+      expect(result.success).toBe(true);
+      expect(result.botId).toBe('fixture_db');
+      expect(result.data.totalRecords).toBe(3);
+      expect(result.data.records).toHaveLength(3);
+      expect(result.data.hasData).toBe(true);
+      expect(mockedAxios.request).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'GET',
+        url: 'https://fixture.example.com/v1/search',
+        params: { q: '+79123456789', kind: 'phone', limit: 50 },
+        headers: expect.objectContaining({ Authorization: 'Bearer fixture-token' })
+      }));
+    });
+
+    it('should reject search types missing from the descriptor', async () => {
+      const result = await client.search('1234567890', 'inn');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ErrorType.VALIDATION_ERROR);
+      expect(result.error).toBe('Unsupported search type: inn');
+      expect(mockedAxios.request).not.toHaveBeenCalled();
+    });
+
+    it('should handle empty query', async () => {
+      const result = await client.search('  ', 'phone');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ErrorType.VALIDATION_ERROR);
+    });
+
+    it('should map in-body error codes', async () => {
+      mockedAxios.request.mockResolvedValueOnce({
+        status: 200,
+        data: { error: { code: 3, message: 'Too many requests' } }
+      });
+
+      const result = await client.search('test@example.com', 'email');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ErrorType.RATE_LIMIT);
+      expect(result.error).toBe('Too many requests');
+    });
+
+    it('should map HTTP status codes', async () => {
+      mockedAxios.request.mockResolvedValueOnce({ status: 401, statusText: 'Unauthorized', data: {} });
+      const unauthorized = await client.search('test@example.com', 'email');
+      expect(unauthorized.errorCode).toBe(ErrorType.INVALID_TOKEN);
+
+      mockedAxios.request.mockResolvedValueOnce({ status: 402, statusText: 'Payment Required', data: {} });
+      const paymentRequired = await client.search('test@example.com', 'email');
+      expect(paymentRequired.errorCode).toBe(ErrorType.API_UNAVAILABLE);
+      expect(paymentRequired.error).toBe('HTTP 402: Payment Required');
+    });
+
+    it('should handle timeout and network errors', async () => {
+      mockedAxios.request.mockRejectedValueOnce({ code: 'ECONNABORTED', message: 'timeout' });
+      const timeout = await client.search('test@example.com', 'email');
+      expect(timeout.errorCode).toBe(ErrorType.TIMEOUT_ERROR);
+
+      mockedAxios.request.mockRejectedValueOnce({ code: 'ENOTFOUND', message: 'not found' });
+      const unavailable = await client.search('test@example.com', 'email');
+      expect(unavailable.errorCode).toBe(ErrorType.API_UNAVAILABLE);
+
+      mockedAxios.request.mockRejectedValueOnce({ code: 'ECONNRESET', message: 'socket hang up' });
+      const network = await client.search('test@example.com', 'email');
+      expect(network.errorCode).toBe(ErrorType.NETWORK_ERROR);
+    });
+
+    it('should send POST payloads with body auth', async () => {
+      const postClient = new DeclarativeBotClient({
+        ...descriptor,
+        endpoint: { method: 'POST', path: '/query' },
+        auth: { style: 'body', name: 'token' },
+        request: { queryParam: 'query' },
+        response: { recordsPath: 'data', totalPath: 'counts', successPath: 'status' }
+      }, { token: 'body-token' });
+
+      mockedAxios.request.mockResolvedValueOnce({ status: 200, data: { status: false, counts: 0, data: [] } });
+
+      const result = await postClient.search('+79123456789', 'phone');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('API returned failure status');
+      expect(mockedAxios.request).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'POST',
+        data: { query: '+79123456789', token: 'body-token' }
+      }));
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('should return false on network failure', async () => {
+      mockedAxios.request.mockRejectedValueOnce(new Error('down'));
+
+      expect(await client.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('getCapabilities', () => {
+    it('should derive search types from the descriptor and apply declared limits', () => {
+      expect(client.getCapabilities()).toMatchObject({
+        supportedSearchTypes: ['phone', 'email'],
+        supportsBatch: false,
+        costPerRequest: 0,
+        requiresAuthentication: true
+      });
+
+      const limited = new DeclarativeBotClient(
+        { ...descriptor, limits: { maxRequestsPerMinute: 10, costPerRequest: 2 } },
+        { token: 'fixture-token' }
+      );
+      expect(limited.getCapabilities()).toMatchObject({ maxRequestsPerMinute: 10, costPerRequest: 2 });
+    });
+  });
+});
@@ -96,6 +96,16 @@ describe('DyxlessClient', () => {
       expect(mockedAxios.post).not.toHaveBeenCalled();
     });
 
+    it('should reject search types the API cannot look up', async () => {
+      const result = await client.search('Иванов Иван', 'name');
+
+      expect(client.getCapabilities().supportedSearchTypes).toEqual(['phone', 'email', 'inn', 'snils', 'passport']);
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ErrorType.VALIDATION_ERROR);
+      expect(result.error).toBe('Unsupported search type: name');
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
     it('should handle API returning false status', async () => {
       const mockResponse = {
         status: 200,
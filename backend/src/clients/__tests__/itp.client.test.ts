@@ -123,6 +123,14 @@ describe('ITPClient', () => {
       expect(mockedAxios.post).not.toHaveBeenCalled();
     });
 
+    it('should declare every search type and batch support', () => {
+      const capabilities = client.getCapabilities();
+
+      expect(capabilities.supportedSearchTypes).toEqual(expect.arrayContaining(['snils', 'plate_number', 'telegram_id']));
+      expect(capabilities.supportedSearchTypes).toHaveLength(11);
+      expect(capabilities.supportsBatch).toBe(true);
+    });
+
     it('should handle 400 validation error', async () => {
       const mockResponse = {
         status: 400,
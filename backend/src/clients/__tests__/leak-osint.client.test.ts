@@ -422,6 +422,18 @@ describe('LeakOsintClient', () => {
     });
   });
 
+  describe('estimateCost', () => {
+    it('should price a query by the number of words it searches', () => {
+      client.updateConfig({ usdRate: 90 });
+
+      // (5 + sqrt(limit * complexity)) / 5000 dollars
+      expect(client.estimateCost('+79123456789')).toBeCloseTo(0.27);
+      expect(client.estimateCost('Иванов 1990-01-01 12')).toBeCloseTo(0.27);
+      expect(client.estimateCost('Иванов Иван')).toBeCloseTo((5 + Math.sqrt(500)) / 5000 * 90);
+      expect(client.estimateCost('Иванов Иван Петрович')).toBeCloseTo((5 + 40) / 5000 * 90);
+    });
+  });
+
   describe('updateConfig', () => {
     it('should update configuration', () => {
       client.updateConfig({ timeout: 10000, defaultLimit: 200 });
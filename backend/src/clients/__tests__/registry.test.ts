@@ -0,0 +1,47 @@
+/**
+ * Unit tests for BotClientRegistry
+ */
+
+import { BotClientRegistry } from '../registry';
+import { BotApiClient } from '../../types/api';
+
+describe('BotClientRegistry', () => {
+  let registry: BotClientRegistry;
+  const mockClient: BotApiClient = {
+    search: jest.fn(),
+    isAvailable: jest.fn(),
+    getBotId: () => 'mock',
+    getCapabilities: jest.fn()
+  };
+
+  beforeEach(() => {
+    registry = new BotClientRegistry();
+  });
+
+  it('should create clients from registered factories', () => {
+    registry.register('MockClient', () => mockClient);
+
+    expect(registry.has('MockClient')).toBe(true);
+    expect(registry.create('MockClient')).toBe(mockClient);
+    expect(registry.getProviderIds()).toEqual(['MockClient']);
+  });
+
+  it('should reject duplicate registrations', () => {
+    registry.register('MockClient', () => mockClient);
+
+    expect(() => registry.register('MockClient', () => mockClient))
+      .toThrow('Bot client provider already registered: MockClient');
+  });
+
+  it('should throw for unknown providers', () => {
+    expect(() => registry.create('UnknownClient'))
+      .toThrow('Unknown bot client provider: UnknownClient');
+  });
+
+  it('should unregister providers', () => {
+    registry.register('MockClient', () => mockClient);
+
+    expect(registry.unregister('MockClient')).toBe(true);
+    expect(registry.has('MockClient')).toBe(false);
+  });
+});
@@ -357,6 +357,59 @@ describe('UserboxClient', () => {
     });
   });
 
+  describe('countHits', () => {
+    it('should count hits per source with /explain', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          status: 'success',
+          data: {
+            count: 15,
+            items: [
+              { source: { database: '500px_com', collection: 'users' }, hits: { count: 1 } },
+              { source: { database: 'vk_com', collection: 'users' }, hits: { count: 14 } },
+              { source: { database: 'yandex', collection: 'eda' }, hits: { count: 0 } }
+            ]
+          }
+        }
+      });
+
+      const result = await client.countHits(' +79123456789 ', 'phone');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        totalRecords: 15,
+        sources: [
+          { source: '500px_com/users', count: 1 },
+          { source: 'vk_com/users', count: 14 }
+        ]
+      });
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        `${mockBaseUrl}/explain`,
+        expect.objectContaining({ params: { q: '+79123456789' } })
+      );
+    });
+
+    it('should handle empty query', async () => {
+      const result = await client.countHits('  ', 'phone');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ErrorType.VALIDATION_ERROR);
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it('should handle timeout error', async () => {
+      const timeoutError = new Error('timeout');
+      (timeoutError as any).code = 'ECONNABORTED';
+      mockedAxios.get.mockRejectedValueOnce(timeoutError);
+
+      const result = await client.countHits('test', 'phone');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ErrorType.TIMEOUT_ERROR);
+    });
+  });
+
   describe('getMe', () => {
     it('should get application information successfully', async () => {
       const mockResponse = {
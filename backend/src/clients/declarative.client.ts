@@ -0,0 +1,320 @@
+/**
+ * Declarative Bot Client
+ * Generic HTTP client driven by a descriptor, for data sources that do not
+ * need custom request logic
+ */
+
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { BotApiClient, ApiResponse, ErrorType } from '../types/api';
+import { SearchType } from '../types/search';
+import { BotCapabilities } from '../types/bot';
+import { extractList, extractPath } from '../utils/json-path';
+
+export type DeclarativeAuthStyle = 'header' | 'query' | 'body' | 'none';
+
+export interface DeclarativeBotDescriptor {
+  botId: string;
+  name: string;
+  baseUrl: string;
+  baseUrlEnv?: string;
+  tokenEnv?: string;
+  timeout?: number;
+  endpoint: {
+    method: 'GET' | 'POST';
+    path: string;
+  };
+  auth: {
+    style: DeclarativeAuthStyle;
+    // Header, query parameter or body field that carries the token
+    name?: string;
+    // Prepended to the token, e.g. "Bearer "
+    prefix?: string;
+  };
+  request: {
+    // Parameter (query string for GET, body field for POST) that carries the search value
+    queryParam: string;
+    // Parameter that carries the mapped search type, if the upstream needs one
+    typeParam?: string;
+    params?: Record<string, string | number | boolean>;
+  };
+  // Our search types mapped to the upstream type value; unmapped types are rejected
+  searchTypes: Partial<Record<SearchType, string>>;
+  response: {
+    recordsPath: string;
+    totalPath?: string;
+    // Path to a flag that must be truthy for the response to count as successful
+    successPath?: string;
+    errorMessagePath?: string;
+    // Path to an in-body error code, mapped through errors.bodyCodes
+    errorCodePath?: string;
+  };
+  errors?: {
+    statusCodes?: Record<number, ErrorType>;
+    bodyCodes?: Record<string, ErrorType>;
+  };
+  // Limits and price of the upstream; search types come from searchTypes
+  limits?: {
+    supportsBatch?: boolean;
+    maxRequestsPerMinute?: number;
+    costPerRequest?: number;
+    supportsParallelRequests?: boolean;
+  };
+}
+
+export interface DeclarativeClientConfig {
+  baseUrl: string;
+  token: string;
+  timeout: number;
+}
+
+const DEFAULT_STATUS_ERRORS: Record<number, ErrorType> = {
+  400: ErrorType.VALIDATION_ERROR,
+  401: ErrorType.INVALID_TOKEN,
+  403: ErrorType.INVALID_TOKEN,
+  429: ErrorType.RATE_LIMIT
+};
+
+export class DeclarativeBotClient implements BotApiClient {
+  private readonly descriptor: DeclarativeBotDescriptor;
+  private readonly config: DeclarativeClientConfig;
+
+  constructor(descriptor: DeclarativeBotDescriptor, config?: Partial<DeclarativeClientConfig>) {
+    this.descriptor = descriptor;
+    this.config = {
+      baseUrl: config?.baseUrl
+        || (descriptor.baseUrlEnv && process.env[descriptor.baseUrlEnv])
+        || descriptor.baseUrl,
+      token: config?.token || (descriptor.tokenEnv && process.env[descriptor.tokenEnv]) || '',
+      timeout: config?.timeout || descriptor.timeout || 30000
+    };
+
+    if (descriptor.auth.style !== 'none' && !this.config.token) {
+      throw new Error(`${descriptor.name} API token is required`);
+    }
+  }
+
+  /**
+   * Search for data using the descriptor's endpoint
+   */
+  async search(query: string, type: SearchType): Promise<ApiResponse> {
+    if (!query || query.trim().length === 0) {
+      return this.failure('Query parameter is required', ErrorType.VALIDATION_ERROR);
+    }
+
+    const upstreamType = this.descriptor.searchTypes[type];
+    if (upstreamType === undefined) {
+      return this.failure(`Unsupported search type: ${type}`, ErrorType.VALIDATION_ERROR);
+    }
+
+    try {
+      const response = await this.execute(query.trim(), upstreamType);
+
+      if (response.status >= 400) {
+        return this.handleErrorStatus(response);
+      }
+
+      const body = response.data;
+      const { response: mapping } = this.descriptor;
+
+      const bodyError = this.extractBodyError(body);
+      if (bodyError) {
+        return bodyError;
+      }
+
+      if (mapping.successPath && !extractPath(body, mapping.successPath)) {
+        return this.failure('API returned failure status', ErrorType.API_UNAVAILABLE);
+      }
+
+      return {
+        success: true,
+        data: this.transformResponseData(body, type),
+        timestamp: new Date(),
+        botId: this.descriptor.botId
+      };
+
+    } catch (error) {
+      return this.handleRequestError(error);
+    }
+  }
+
+  /**
+   * Check if the API is reachable
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await axios.request({
+        ...this.buildRequest('test', Object.values(this.descriptor.searchTypes)[0] || ''),
+        timeout: 5000
+      });
+      return response.status < 500;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get bot identifier
+   */
+  getBotId(): string {
+    return this.descriptor.botId;
+  }
+
+  /**
+   * Search types the descriptor maps, with its declared limits
+   */
+  getCapabilities(): BotCapabilities {
+    const limits = this.descriptor.limits || {};
+
+    return {
+      supportedSearchTypes: (Object.keys(this.descriptor.searchTypes) as SearchType[])
+        .filter(type => this.descriptor.searchTypes[type] !== undefined),
+      supportsBatch: limits.supportsBatch ?? false,
+      maxRequestsPerMinute: limits.maxRequestsPerMinute ?? 60,
+      costPerRequest: limits.costPerRequest ?? 0,
+      requiresAuthentication: this.descriptor.auth.style !== 'none',
+      supportsParallelRequests: limits.supportsParallelRequests ?? true
+    };
+  }
+
+  /**
+   * Get API configuration (for debugging/monitoring)
+   */
+  getConfig(): DeclarativeClientConfig {
+    return {
+      baseUrl: this.config.baseUrl,
+      token: '***masked***',
+      timeout: this.config.timeout
+    };
+  }
+
+  private execute(query: string, upstreamType: string): Promise<AxiosResponse> {
+    return axios.request(this.buildRequest(query, upstreamType));
+  }
+
+  /**
+   * Build the axios request from the descriptor
+   */
+  private buildRequest(query: string, upstreamType: string): AxiosRequestConfig {
+    const { endpoint, auth, request } = this.descriptor;
+
+    const payload: Record<string, unknown> = { ...(request.params || {}) };
+    payload[request.queryParam] = query;
+    if (request.typeParam) {
+      payload[request.typeParam] = upstreamType;
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Privacy-Data-Removal-Service/1.0'
+    };
+    const authValue = `${auth.prefix || ''}${this.config.token}`;
+    const authName = auth.name || 'token';
+
+    if (auth.style === 'header') {
+      headers[auth.name || 'Authorization'] = authValue;
+    } else if (auth.style === 'query' || auth.style === 'body') {
+      payload[authName] = authValue;
+    }
+
+    const config: AxiosRequestConfig = {
+      method: endpoint.method,
+      url: `${this.config.baseUrl}${endpoint.path}`,
+      headers,
+      timeout: this.config.timeout,
+      validateStatus: (status) => status < 500
+    };
+
+    if (endpoint.method === 'GET') {
+      config.params = payload;
+    } else if (auth.style === 'query') {
+      config.params = { [authName]: authValue };
+      delete payload[authName];
+      config.data = payload;
+    } else {
+      config.data = payload;
+    }
+
+    return config;
+  }
+
+  /**
+   * Transform the upstream response to the standardized format
+   */
+  private transformResponseData(body: any, searchType: SearchType) {
+    const { response: mapping } = this.descriptor;
+    const records = extractList(body, mapping.recordsPath);
+    const total = mapping.totalPath ? Number(extractPath(body, mapping.totalPath)) : NaN;
+    const totalRecords = Number.isFinite(total) ? total : records.length;
+
+    return {
+      botId: this.descriptor.botId,
+      searchType,
+      totalRecords,
+      records,
+      hasData: totalRecords > 0,
+      rawResponse: body
+    };
+  }
+
+  private extractBodyError(body: any): ApiResponse | null {
+    const { response: mapping, errors } = this.descriptor;
+    if (!mapping.errorCodePath) {
+      return null;
+    }
+
+    const code = extractPath(body, mapping.errorCodePath);
+    if (code === undefined || code === null) {
+      return null;
+    }
+
+    const message = mapping.errorMessagePath ? extractPath(body, mapping.errorMessagePath) : undefined;
+    return this.failure(
+      message ? String(message) : `API error: ${code}`,
+      errors?.bodyCodes?.[String(code)] || ErrorType.UNKNOWN_ERROR
+    );
+  }
+
+  private handleErrorStatus(response: AxiosResponse): ApiResponse {
+    const { response: mapping, errors } = this.descriptor;
+    const errorCode = errors?.statusCodes?.[response.status]
+      || DEFAULT_STATUS_ERRORS[response.status]
+      || ErrorType.API_UNAVAILABLE;
+    const message = mapping.errorMessagePath ? extractPath(response.data, mapping.errorMessagePath) : undefined;
+
+    return this.failure(
+      `HTTP ${response.status}: ${message || response.statusText || 'Unknown error'}`,
+      errorCode
+    );
+  }
+
+  private handleRequestError(error: unknown): ApiResponse {
+    if (error && typeof error === 'object' && 'code' in error) {
+      const axiosError = error as any;
+
+      if (axiosError.code === 'ECONNABORTED') {
+        return this.failure('Request timeout', ErrorType.TIMEOUT_ERROR);
+      }
+
+      if (axiosError.code === 'ENOTFOUND' || axiosError.code === 'ECONNREFUSED') {
+        return this.failure('API service unavailable', ErrorType.API_UNAVAILABLE);
+      }
+
+      return this.failure(`Network error: ${axiosError.message || 'Network error'}`, ErrorType.NETWORK_ERROR);
+    }
+
+    return this.failure(
+      `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ErrorType.UNKNOWN_ERROR
+    );
+  }
+
+  private failure(error: string, errorCode: ErrorType): ApiResponse {
+    return {
+      success: false,
+      error,
+      errorCode,
+      timestamp: new Date(),
+      botId: this.descriptor.botId
+    };
+  }
+}
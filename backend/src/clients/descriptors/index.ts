@@ -0,0 +1,9 @@
+/**
+ * Declarative Bot Descriptors
+ * Data sources served by DeclarativeBotClient. Each descriptor is registered
+ * under its botId, which is the value to use as `apiClient` in config/bots.json.
+ */
+
+import { DeclarativeBotDescriptor } from '../declarative.client';
+
+export const declarativeDescriptors: DeclarativeBotDescriptor[] = [];
@@ -7,6 +7,7 @@ import axios, { AxiosResponse, AxiosError } from 'axios';
 import { BotApiClient } from '../types/api';
 import { ApiResponse, ErrorType } from '../types/api';
 import { SearchType } from '../types/search';
+import { BotCapabilities } from '../types/bot';
 
 export interface DyxlessApiResponse {
   status: boolean;
@@ -23,6 +24,15 @@ export interface DyxlessConfig {
 export class DyxlessClient implements BotApiClient {
   private readonly config: DyxlessConfig;
   private readonly botId = 'dyxless';
+  // Only document and contact identifiers; names, addresses, vehicles and Telegram accounts are not searchable
+  private readonly capabilities: BotCapabilities = {
+    supportedSearchTypes: ['phone', 'email', 'inn', 'snils', 'passport'],
+    supportsBatch: false,
+    maxRequestsPerMinute: 60,
+    costPerRequest: 1.5,
+    requiresAuthentication: true,
+    supportsParallelRequests: true
+  };
 
   constructor(config?: Partial<DyxlessConfig>) {
     this.config = {
@@ -54,6 +64,16 @@ export class DyxlessClient implements BotApiClient {
         };
       }
 
+      if (!this.capabilities.supportedSearchTypes.includes(type)) {
+        return {
+          success: false,
+          error: `Unsupported search type: ${type}`,
+          errorCode: ErrorType.VALIDATION_ERROR,
+          timestamp: new Date(),
+          botId: this.botId
+        };
+      }
+
       // Prepare request data
       const requestData = {
         query: query.trim(),
@@ -212,6 +232,13 @@ export class DyxlessClient implements BotApiClient {
     return this.botId;
   }
 
+  /**
+   * Search types, limits and price of the Dyxless API
+   */
+  getCapabilities(): BotCapabilities {
+    return { ...this.capabilities, supportedSearchTypes: [...this.capabilities.supportedSearchTypes] };
+  }
+
   /**
    * Transform Dyxless API response to standardized format
    */
@@ -3,11 +3,33 @@
  * Exports all bot API clients for easy importing
  */
 
-export { DyxlessClient } from './dyxless.client';
-export { ITPClient } from './itp.client';
-export { LeakOsintClient } from './leak-osint.client';
-export { UserboxClient } from './userbox.client';
-export { VektorClient } from './vektor.client';
+import { botClientRegistry } from './registry';
+import { DyxlessClient } from './dyxless.client';
+import { ITPClient } from './itp.client';
+import { LeakOsintClient } from './leak-osint.client';
+import { UserboxClient } from './userbox.client';
+import { VektorClient } from './vektor.client';
+import { DeclarativeBotClient, DeclarativeBotDescriptor } from './declarative.client';
+import { declarativeDescriptors } from './descriptors';
+
+// Register built-in providers under the ids used by config/bots.json
+botClientRegistry.register('DyxlessClient', () => new DyxlessClient());
+botClientRegistry.register('ITPClient', () => new ITPClient());
+botClientRegistry.register('LeakOsintClient', () => new LeakOsintClient());
+botClientRegistry.register('UserboxClient', () => new UserboxClient());
+botClientRegistry.register('VektorClient', () => new VektorClient());
+
+/**
+ * Register a descriptor-driven data source under its botId
+ */
+export function registerDeclarativeProvider(descriptor: DeclarativeBotDescriptor): void {
+  botClientRegistry.register(descriptor.botId, () => new DeclarativeBotClient(descriptor));
+}
+
+declarativeDescriptors.forEach(registerDeclarativeProvider);
+
+export { DyxlessClient, ITPClient, LeakOsintClient, UserboxClient, VektorClient, DeclarativeBotClient };
+export { BotClientRegistry, botClientRegistry } from './registry';
 
 // Export types
 export type { DyxlessConfig } from './dyxless.client';
@@ -15,6 +37,8 @@ export type { ITPConfig } from './itp.client';
 export type { LeakOsintConfig } from './leak-osint.client';
 export type { UserboxConfig } from './userbox.client';
 export type { VektorConfig } from './vektor.client';
+export type { BotClientFactory } from './registry';
+export type { DeclarativeBotDescriptor, DeclarativeAuthStyle, DeclarativeClientConfig } from './declarative.client';
 
 // Re-export common interfaces
-export type { BotApiClient } from '../types/api';
\ No newline at end of file
+export type { BotApiClient } from '../types/api';
@@ -7,6 +7,7 @@ import axios, { AxiosResponse, AxiosError } from 'axios';
 import { BotApiClient } from '../types/api';
 import { ApiResponse, ErrorType } from '../types/api';
 import { SearchType } from '../types/search';
+import { BotCapabilities } from '../types/bot';
 
 export interface ITPSearchOption {
   type: ITPSearchType;
@@ -65,7 +66,13 @@ export class ITPClient implements BotApiClient {
     email: 'email',
     inn: 'inn',
     snils: 'snils',
-    passport: 'passport'
+    passport: 'passport',
+    name: 'name',
+    address: 'address',
+    plate_number: 'plate_number',
+    vin: 'vin',
+    username: 'username',
+    telegram_id: 'telegram_id'
   };
 
   constructor(config?: Partial<ITPConfig>) {
@@ -241,6 +248,22 @@ export class ITPClient implements BotApiClient {
     return this.botId;
   }
 
+  /**
+   * Search types, limits and price of the ITP API. Every search type has a
+   * native ITP search type, and several can be sent in one request.
+   */
+  getCapabilities(): BotCapabilities {
+    return {
+      supportedSearchTypes: Object.keys(this.searchTypeMapping) as SearchType[],
+      supportsBatch: true,
+      maxRequestsPerMinute: 60,
+      // Billed by the API key plan rather than per request
+      costPerRequest: 0,
+      requiresAuthentication: true,
+      supportsParallelRequests: true
+    };
+  }
+
   /**
    * Handle error responses from ITP API
    */
@@ -334,6 +357,13 @@ export class ITPClient implements BotApiClient {
     Object.assign(this.config, newConfig);
   }
 
+  /**
+   * Batch search: all queries go in one request as separate search options
+   */
+  async searchBatch(queries: Array<{ query: string; type: SearchType }>): Promise<ApiResponse> {
+    return this.searchMultiple(queries);
+  }
+
   /**
    * Search with multiple options (advanced feature)
    */
@@ -6,7 +6,8 @@
 import axios, { AxiosResponse, AxiosError } from 'axios';
 import { BotApiClient } from '../types/api';
 import { ApiResponse, ErrorType } from '../types/api';
-import { SearchType } from '../types/search';
+import { SearchType, SEARCH_TYPES } from '../types/search';
+import { BotCapabilities } from '../types/bot';
 
 export interface LeakOsintRequestBody {
   token: string;
@@ -36,11 +37,24 @@ export interface LeakOsintConfig {
   timeout: number;
   defaultLimit: number;
   defaultLang: string;
+  // Rubles per dollar, for converting the dollar price of requests
+  usdRate: number;
 }
 
 export class LeakOsintClient implements BotApiClient {
   private readonly config: LeakOsintConfig;
   private readonly botId = 'leak_osint';
+  // Queries are free text, so every search type is accepted
+  private readonly capabilities: BotCapabilities = {
+    supportedSearchTypes: [...SEARCH_TYPES],
+    supportsBatch: true,
+    // One request per second from an IP
+    maxRequestsPerMinute: 60,
+    // $0.003 at the default limit of 100
+    costPerRequest: 0.3,
+    requiresAuthentication: true,
+    supportsParallelRequests: false
+  };
 
   constructor(config?: Partial<LeakOsintConfig>) {
     this.config = {
@@ -48,7 +62,8 @@ export class LeakOsintClient implements BotApiClient {
       token: config?.token || process.env.LEAK_OSINT_TOKEN || '',
       timeout: config?.timeout || 30000,
       defaultLimit: config?.defaultLimit || 100,
-      defaultLang: config?.defaultLang || 'ru'
+      defaultLang: config?.defaultLang || 'ru',
+      usdRate: config?.usdRate || parseFloat(process.env.LEAK_OSINT_USD_RATE || '90')
     };
 
     if (!this.config.token) {
@@ -239,6 +254,13 @@ export class LeakOsintClient implements BotApiClient {
     return this.botId;
   }
 
+  /**
+   * Search types, limits and price of the LeakOsint API
+   */
+  getCapabilities(): BotCapabilities {
+    return { ...this.capabilities, supportedSearchTypes: [...this.capabilities.supportedSearchTypes] };
+  }
+
   /**
    * Transform LeakOsint API response to standardized format
    */
@@ -274,6 +296,42 @@ export class LeakOsintClient implements BotApiClient {
     };
   }
 
+  /**
+   * Batch search: all queries go in one request, which the upstream rate limit
+   * counts once
+   */
+  async searchBatch(queries: Array<{ query: string; type: SearchType }>): Promise<ApiResponse> {
+    return this.searchMultiple(queries.map(option => option.query), queries[0]?.type);
+  }
+
+  /**
+   * Price of a query in rubles: (5 + sqrt(limit * complexity)) / 5000 dollars
+   */
+  estimateCost(query: string): number {
+    const dollars = (5 + Math.sqrt(this.config.defaultLimit * this.getQueryComplexity(query))) / 5000;
+    return dollars * this.config.usdRate;
+  }
+
+  /**
+   * Number of single searches a query takes: words are searched in every order.
+   * Dates, strings under 4 characters and numbers under 6 digits are not words.
+   */
+  private getQueryComplexity(query: string): number {
+    const words = query.trim().split(/\s+/).filter(word =>
+      word.length >= 4 &&
+      !/^\d{1,5}$/.test(word) &&
+      !/^(\d{4}-\d{2}-\d{2}|\d{2}\.\d{2}\.\d{4})$/.test(word)
+    );
+
+    if (words.length <= 1) {
+      return 1;
+    }
+    if (words.length === 2) {
+      return 5;
+    }
+    return words.length === 3 ? 16 : 40;
+  }
+
   /**
    * Get API configuration (for debugging/monitoring)
    */
@@ -283,7 +341,8 @@ export class LeakOsintClient implements BotApiClient {
       token: '***masked***',
       timeout: this.config.timeout,
       defaultLimit: this.config.defaultLimit,
-      defaultLang: this.config.defaultLang
+      defaultLang: this.config.defaultLang,
+      usdRate: this.config.usdRate
     };
   }
 
@@ -0,0 +1,58 @@
+/**
+ * Bot Client Registry
+ * Maps provider ids (the `apiClient` field in config/bots.json) to client factories
+ */
+
+import { BotApiClient } from '../types/api';
+
+export type BotClientFactory = () => BotApiClient;
+
+export class BotClientRegistry {
+  private readonly factories: Map<string, BotClientFactory> = new Map();
+
+  /**
+   * Register a client factory under a provider id
+   */
+  register(providerId: string, factory: BotClientFactory): void {
+    if (this.factories.has(providerId)) {
+      throw new Error(`Bot client provider already registered: ${providerId}`);
+    }
+
+    this.factories.set(providerId, factory);
+  }
+
+  /**
+   * Remove a provider from the registry
+   */
+  unregister(providerId: string): boolean {
+    return this.factories.delete(providerId);
+  }
+
+  /**
+   * Check whether a provider is registered
+   */
+  has(providerId: string): boolean {
+    return this.factories.has(providerId);
+  }
+
+  /**
+   * Instantiate a client for the given provider id
+   */
+  create(providerId: string): BotApiClient {
+    const factory = this.factories.get(providerId);
+    if (!factory) {
+      throw new Error(`Unknown bot client provider: ${providerId}`);
+    }
+
+    return factory();
+  }
+
+  /**
+   * List registered provider ids
+   */
+  getProviderIds(): string[] {
+    return Array.from(this.factories.keys());
+  }
+}
+
+export const botClientRegistry = new BotClientRegistry();
@@ -0,0 +1,180 @@
+/**
+ * Telegram Bot API Client
+ * Sends messages and receives updates for our own notification bot
+ */
+
+import axios, { AxiosError } from 'axios';
+
+export interface TelegramBotConfig {
+  apiUrl: string;
+  token: string;
+  timeout: number;
+}
+
+export interface TelegramUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: 'private' | 'group' | 'supergroup' | 'channel';
+  username?: string;
+  first_name?: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  date: number;
+  chat: TelegramChat;
+  from?: TelegramUser;
+  text?: string;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+}
+
+export interface TelegramInlineKeyboardButton {
+  text: string;
+  url: string;
+}
+
+export interface TelegramSendMessageOptions {
+  parse_mode?: 'HTML' | 'MarkdownV2';
+  disable_notification?: boolean;
+  link_preview_options?: { is_disabled: boolean };
+  reply_markup?: {
+    inline_keyboard: TelegramInlineKeyboardButton[][];
+  };
+}
+
+export interface TelegramGetUpdatesOptions {
+  offset?: number;
+  // Long polling timeout in seconds
+  timeout?: number;
+  allowed_updates?: string[];
+}
+
+// Envelope of every Bot API response
+export interface TelegramApiResponse<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+  error_code?: number;
+  parameters?: {
+    retry_after?: number;
+  };
+}
+
+// Header carrying the secret token set with setWebhook
+export const TELEGRAM_SECRET_HEADER = 'X-Telegram-Bot-Api-Secret-Token';
+
+export class TelegramApiError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number,
+    // Seconds to wait before retrying after a 429
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'TelegramApiError';
+  }
+}
+
+export class TelegramBotClient {
+  private readonly config: TelegramBotConfig;
+
+  constructor(config?: Partial<TelegramBotConfig>) {
+    this.config = {
+      apiUrl: (config?.apiUrl || process.env.TELEGRAM_API_URL || 'https://api.telegram.org').replace(/\/+$/, ''),
+      token: config?.token || process.env.TELEGRAM_BOT_TOKEN || '',
+      timeout: config?.timeout || 15000
+    };
+
+    if (!this.config.token) {
+      throw new Error('Telegram bot token is required');
+    }
+  }
+
+  /**
+   * Get the bot's own account, including its username
+   */
+  async getMe(): Promise<TelegramUser> {
+    return this.call<TelegramUser>('getMe');
+  }
+
+  /**
+   * Send a text message to a chat
+   */
+  async sendMessage(chatId: number, text: string, options: TelegramSendMessageOptions = {}): Promise<TelegramMessage> {
+    return this.call<TelegramMessage>('sendMessage', { chat_id: chatId, text, ...options });
+  }
+
+  /**
+   * Fetch pending updates, waiting up to options.timeout seconds for new ones
+   */
+  async getUpdates(options: TelegramGetUpdatesOptions = {}, signal?: AbortSignal): Promise<TelegramUpdate[]> {
+    return this.call<TelegramUpdate[]>('getUpdates', options, {
+      timeout: this.config.timeout + (options.timeout || 0) * 1000,
+      signal
+    });
+  }
+
+  /**
+   * Deliver updates to a webhook instead of getUpdates
+   */
+  async setWebhook(url: string, secretToken: string): Promise<boolean> {
+    return this.call<boolean>('setWebhook', { url, secret_token: secretToken, allowed_updates: ['message'] });
+  }
+
+  /**
+   * Remove the webhook so getUpdates can be used again
+   */
+  async deleteWebhook(): Promise<boolean> {
+    return this.call<boolean>('deleteWebhook');
+  }
+
+  private async call<T>(
+    method: string,
+    params: object = {},
+    requestOptions: { timeout?: number; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    try {
+      const response = await axios.post<TelegramApiResponse<T>>(
+        `${this.config.apiUrl}/bot${this.config.token}/${method}`,
+        params,
+        {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: requestOptions.timeout || this.config.timeout,
+          signal: requestOptions.signal
+        }
+      );
+
+      if (!response.data.ok) {
+        throw new TelegramApiError(response.data.description || `${method} failed`, response.data.error_code);
+      }
+
+      return response.data.result as T;
+    } catch (error) {
+      if (error instanceof TelegramApiError) {
+        throw error;
+      }
+
+      const axiosError = error as AxiosError<TelegramApiResponse<T>>;
+      const body = axiosError.response?.data;
+
+      // Keep the token, which is part of the URL, out of error messages
+      throw new TelegramApiError(
+        body?.description || (axiosError.code ? `${method} failed: ${axiosError.code}` : `${method} failed`),
+        body?.error_code || axiosError.response?.status,
+        body?.parameters?.retry_after
+      );
+    }
+  }
+}
@@ -4,9 +4,10 @@
  */
 
 import axios, { AxiosResponse, AxiosError } from 'axios';
-import { BotApiClient } from '../types/api';
+import { BotApiClient, HitCountResult } from '../types/api';
 import { ApiResponse, ErrorType } from '../types/api';
-import { SearchType } from '../types/search';
+import { SearchType, SEARCH_TYPES } from '../types/search';
+import { BotCapabilities } from '../types/bot';
 
 export interface UserboxApiResponse {
   status: 'success' | 'error';
@@ -37,6 +38,21 @@ export interface UserboxSearchResponse extends UserboxApiResponse {
   };
 }
 
+export interface UserboxExplainResponse extends UserboxApiResponse {
+  data: {
+    count: number;
+    items: Array<{
+      source: {
+        database: string;
+        collection: string;
+      };
+      hits: {
+        count: number;
+      };
+    }>;
+  };
+}
+
 export interface UserboxConfig {
   baseUrl: string;
   token: string;
@@ -47,6 +63,16 @@ export interface UserboxConfig {
 export class UserboxClient implements BotApiClient {
   private readonly config: UserboxConfig;
   private readonly botId = 'userbox';
+  // Queries are free text, so every search type is accepted
+  private readonly capabilities: BotCapabilities = {
+    supportedSearchTypes: [...SEARCH_TYPES],
+    supportsBatch: false,
+    maxRequestsPerMinute: 300,
+    // Price of the /search method
+    costPerRequest: 2.5,
+    requiresAuthentication: true,
+    supportsParallelRequests: true
+  };
 
   constructor(config?: Partial<UserboxConfig>) {
     this.config = {
@@ -175,6 +201,88 @@ export class UserboxClient implements BotApiClient {
     }
   }
 
+  /**
+   * Count documents per source with the free /explain method, without
+   * fetching them
+   */
+  async countHits(query: string, _type: SearchType): Promise<ApiResponse<HitCountResult>> {
+    if (!query || query.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Query parameter is required',
+        errorCode: ErrorType.VALIDATION_ERROR,
+        timestamp: new Date(),
+        botId: this.botId
+      };
+    }
+
+    try {
+      const response: AxiosResponse<UserboxExplainResponse> = await axios.get(
+        `${this.config.baseUrl}/explain`,
+        {
+          params: {
+            q: query.trim()
+          },
+          headers: {
+            'Authorization': this.config.token,
+            'User-Agent': 'Privacy-Data-Removal-Service/1.0'
+          },
+          timeout: this.config.timeout,
+          validateStatus: (status) => status < 500
+        }
+      );
+
+      if (response.status >= 400) {
+        return this.handleErrorResponse(response.status, response.data);
+      }
+
+      const responseData = response.data;
+      if (responseData.status === 'error') {
+        return this.handleApiError(responseData.error);
+      }
+
+      if (!responseData.data) {
+        return {
+          success: false,
+          error: 'Invalid API response format',
+          errorCode: ErrorType.PARSING_ERROR,
+          timestamp: new Date(),
+          botId: this.botId
+        };
+      }
+
+      const sources = (responseData.data.items || [])
+        .map(item => ({
+          source: `${item.source.database}/${item.source.collection}`,
+          count: item.hits?.count || 0
+        }))
+        .filter(source => source.count > 0);
+
+      return {
+        success: true,
+        data: {
+          totalRecords: responseData.data.count || 0,
+          sources
+        },
+        timestamp: new Date(),
+        botId: this.botId
+      };
+
+    } catch (error) {
+      const axiosError = error as any;
+
+      return {
+        success: false,
+        error: axiosError?.code === 'ECONNABORTED'
+          ? 'Request timeout'
+          : `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorCode: axiosError?.code === 'ECONNABORTED' ? ErrorType.TIMEOUT_ERROR : ErrorType.UNKNOWN_ERROR,
+        timestamp: new Date(),
+        botId: this.botId
+      };
+    }
+  }
+
   /**
    * Check if the API is available
    */
@@ -206,6 +314,13 @@ export class UserboxClient implements BotApiClient {
     return this.botId;
   }
 
+  /**
+   * Search types, limits and price of the Userbox API
+   */
+  getCapabilities(): BotCapabilities {
+    return { ...this.capabilities, supportedSearchTypes: [...this.capabilities.supportedSearchTypes] };
+  }
+
   /**
    * Handle HTTP error responses
    */
@@ -398,6 +513,14 @@ export class UserboxClient implements BotApiClient {
     Object.assign(this.config, newConfig);
   }
 
+  /**
+   * Application balance in rubles, or null when it cannot be read
+   */
+  async getBalance(): Promise<number | null> {
+    const app = await this.getMe();
+    return app.success && typeof app.data?.balance === 'number' ? app.data.balance : null;
+  }
+
   /**
    * Get information about the current application
    */
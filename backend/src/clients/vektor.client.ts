@@ -7,6 +7,7 @@ import axios, { AxiosResponse, AxiosError } from 'axios';
 import { BotApiClient } from '../types/api';
 import { ApiResponse, ErrorType } from '../types/api';
 import { SearchType } from '../types/search';
+import { BotCapabilities } from '../types/bot';
 
 export interface VektorApiResponse {
   result?: Record<string, {
@@ -34,6 +35,16 @@ export interface VektorConfig {
 export class VektorClient implements BotApiClient {
   private readonly config: VektorConfig;
   private readonly botId = 'vektor';
+  // Consumer databases hold contact details and names, not document numbers
+  private readonly capabilities: BotCapabilities = {
+    supportedSearchTypes: ['phone', 'email', 'name', 'address', 'username'],
+    supportsBatch: false,
+    maxRequestsPerMinute: 60,
+    // Not published; spending shows up in the application balance
+    costPerRequest: 0,
+    requiresAuthentication: true,
+    supportsParallelRequests: true
+  };
 
   constructor(config?: Partial<VektorConfig>) {
     this.config = {
@@ -65,6 +76,16 @@ export class VektorClient implements BotApiClient {
         };
       }
 
+      if (!this.capabilities.supportedSearchTypes.includes(type)) {
+        return {
+          success: false,
+          error: `Unsupported search type: ${type}`,
+          errorCode: ErrorType.VALIDATION_ERROR,
+          timestamp: new Date(),
+          botId: this.botId
+        };
+      }
+
       // URL encode the query to handle special characters
       const encodedQuery = encodeURIComponent(query.trim());
 
@@ -235,6 +256,13 @@ export class VektorClient implements BotApiClient {
     return this.botId;
   }
 
+  /**
+   * Search types, limits and price of the Vektor API
+   */
+  getCapabilities(): BotCapabilities {
+    return { ...this.capabilities, supportedSearchTypes: [...this.capabilities.supportedSearchTypes] };
+  }
+
   /**
    * Transform Vektor API response to standardized format
    */
@@ -289,6 +317,14 @@ export class VektorClient implements BotApiClient {
     Object.assign(this.config, newConfig);
   }
 
+  /**
+   * Application balance in rubles, or null when the profile cannot be read
+   */
+  async getBalance(): Promise<number | null> {
+    const profile = await this.getProfile();
+    return profile.success && typeof profile.data?.balance === 'number' ? profile.data.balance : null;
+  }
+
   /**
    * Get profile information
    */
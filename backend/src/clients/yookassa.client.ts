@@ -0,0 +1,176 @@
+/**
+ * YooKassa API Client
+ * Creates and fetches payments through the YooKassa v3 REST API
+ */
+
+import crypto from 'crypto';
+import axios, { AxiosError } from 'axios';
+
+export interface YooKassaConfig {
+  apiUrl: string;
+  shopId: string;
+  secretKey: string;
+  timeout: number;
+}
+
+export interface YooKassaAmount {
+  value: string;
+  currency: string;
+}
+
+export type YooKassaPaymentStatus = 'pending' | 'waiting_for_capture' | 'succeeded' | 'canceled';
+
+export interface YooKassaPayment {
+  id: string;
+  status: YooKassaPaymentStatus;
+  paid: boolean;
+  amount: YooKassaAmount;
+  description?: string;
+  confirmation?: {
+    type: 'redirect';
+    confirmation_url?: string;
+    return_url?: string;
+  };
+  metadata?: Record<string, string>;
+  payment_method?: {
+    type: string;
+    id: string;
+    saved: boolean;
+    title?: string;
+  };
+  cancellation_details?: {
+    party: string;
+    reason: string;
+  };
+  created_at: string;
+  captured_at?: string;
+  test?: boolean;
+}
+
+export interface YooKassaCreatePaymentRequest {
+  amount: YooKassaAmount;
+  capture: boolean;
+  // Required unless charging a saved payment method
+  confirmation?: {
+    type: 'redirect';
+    return_url: string;
+  };
+  // Ask the user to save the method for recurring charges
+  save_payment_method?: boolean;
+  // Charge a previously saved method without user interaction
+  payment_method_id?: string;
+  description: string;
+  metadata?: Record<string, string>;
+}
+
+export type YooKassaWebhookEventType =
+  | 'payment.succeeded'
+  | 'payment.waiting_for_capture'
+  | 'payment.canceled'
+  | 'refund.succeeded';
+
+export interface YooKassaWebhookEvent {
+  type: 'notification';
+  event: YooKassaWebhookEventType;
+  object: YooKassaPayment;
+}
+
+// Header carrying the hex HMAC-SHA256 of the raw webhook body
+export const YOOKASSA_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export class YooKassaApiError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'YooKassaApiError';
+  }
+}
+
+/**
+ * Sign a webhook body with the shared webhook secret
+ */
+export function signWebhookPayload(body: string | Buffer, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Check a webhook signature in constant time
+ */
+export function verifyWebhookSignature(body: string | Buffer, signature: string, secret: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(body, secret), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+export class YooKassaClient {
+  private readonly config: YooKassaConfig;
+
+  constructor(config?: Partial<YooKassaConfig>) {
+    this.config = {
+      apiUrl: (config?.apiUrl || process.env.YOOKASSA_API_URL || 'https://api.yookassa.ru/v3').replace(/\/+$/, ''),
+      shopId: config?.shopId || process.env.YOOKASSA_SHOP_ID || '',
+      secretKey: config?.secretKey || process.env.YOOKASSA_SECRET_KEY || '',
+      timeout: config?.timeout || 15000
+    };
+
+    if (!this.config.shopId || !this.config.secretKey) {
+      throw new Error('YooKassa shop id and secret key are required');
+    }
+  }
+
+  /**
+   * Create a payment. Requests repeated with the same idempotence key
+   * return the payment created by the first one.
+   */
+  async createPayment(request: YooKassaCreatePaymentRequest, idempotenceKey: string): Promise<YooKassaPayment> {
+    return this.request<YooKassaPayment>('POST', '/payments', request, {
+      'Idempotence-Key': idempotenceKey
+    });
+  }
+
+  /**
+   * Get the current state of a payment
+   */
+  async getPayment(paymentId: string): Promise<YooKassaPayment> {
+    return this.request<YooKassaPayment>('GET', `/payments/${encodeURIComponent(paymentId)}`);
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    data?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<T> {
+    try {
+      const response = await axios.request<T>({
+        method,
+        url: `${this.config.apiUrl}${path}`,
+        data,
+        auth: {
+          username: this.config.shopId,
+          password: this.config.secretKey
+        },
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers
+        },
+        timeout: this.config.timeout
+      });
+
+      return response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<{ code?: string; description?: string }>;
+      const body = axiosError.response?.data;
+
+      throw new YooKassaApiError(
+        body?.description || axiosError.message || 'YooKassa request failed',
+        axiosError.response?.status,
+        body?.code
+      );
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Bots Configuration
+ * Loads the active bot set from config/bots.json and watches it for changes
+ */
+
+import fs from 'fs';
+import path from 'path';
+import defaultBotsConfig from './bots.json';
+
+export interface BotProviderEntry {
+  id: string;
+  name: string;
+  encryptedName: string;
+  isActive: boolean;
+  priority: number;
+  apiClient: string;
+}
+
+export interface BotsConfigFile {
+  bots: BotProviderEntry[];
+}
+
+export const BOTS_CONFIG_PATH = process.env.BOTS_CONFIG_PATH || path.join(__dirname, 'bots.json');
+
+/**
+ * Validate a parsed bots config and return its entries
+ */
+export function parseBotsConfig(raw: unknown): BotProviderEntry[] {
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as BotsConfigFile).bots)) {
+    throw new Error('Bots config must contain a "bots" array');
+  }
+
+  const seen = new Set<string>();
+
+  return (raw as BotsConfigFile).bots.map((entry, index) => {
+    if (!entry || typeof entry.id !== 'string' || typeof entry.apiClient !== 'string') {
+      throw new Error(`Bots config entry #${index} must have string "id" and "apiClient"`);
+    }
+
+    if (seen.has(entry.id)) {
+      throw new Error(`Duplicate bot id in bots config: ${entry.id}`);
+    }
+    seen.add(entry.id);
+
+    return {
+      id: entry.id,
+      name: entry.name || entry.id,
+      encryptedName: entry.encryptedName || `Бот ${entry.id.charAt(0).toUpperCase()}`,
+      isActive: entry.isActive !== false,
+      priority: typeof entry.priority === 'number' ? entry.priority : index + 1,
+      apiClient: entry.apiClient
+    };
+  });
+}
+
+/**
+ * Load bot entries from disk, falling back to the bundled config
+ */
+export function loadBotsConfig(configPath: string = BOTS_CONFIG_PATH): BotProviderEntry[] {
+  try {
+    const content = fs.readFileSync(configPath, 'utf8');
+    return parseBotsConfig(JSON.parse(content));
+  } catch (error) {
+    if (configPath !== BOTS_CONFIG_PATH) {
+      throw error;
+    }
+    return parseBotsConfig(defaultBotsConfig);
+  }
+}
+
+/**
+ * Watch the config file and invoke the callback with freshly parsed entries.
+ * Returns a function that stops watching.
+ */
+export function watchBotsConfig(
+  onChange: (entries: BotProviderEntry[]) => void,
+  onError: (error: Error) => void,
+  configPath: string = BOTS_CONFIG_PATH
+): () => void {
+  const listener = (curr: fs.Stats, prev: fs.Stats) => {
+    if (curr.mtimeMs === prev.mtimeMs) {
+      return;
+    }
+
+    try {
+      onChange(parseBotsConfig(JSON.parse(fs.readFileSync(configPath, 'utf8'))));
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error('Failed to reload bots config'));
+    }
+  };
+
+  fs.watchFile(configPath, { interval: 2000, persistent: false }, listener);
+
+  return () => fs.unwatchFile(configPath, listener);
+}
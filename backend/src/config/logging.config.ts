@@ -236,7 +236,7 @@ export const loggerUtils = {
     const sanitized = { ...data };
     const sensitiveFields = [
       'password', 'token', 'apiKey', 'secret', 'phone', 'email', 
-      'inn', 'snils', 'passport', 'value', 'query'
+      'inn', 'snils', 'passport', 'plate_number', 'vin', 'telegram_id', 'value', 'query'
     ];
 
     for (const field of sensitiveFields) {
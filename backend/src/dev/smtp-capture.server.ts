@@ -0,0 +1,222 @@
+/**
+ * Local SMTP Capture Server
+ * Minimal SMTP server that accepts every message and keeps it in memory,
+ * so email notifications can be tested without a real mail server.
+ *
+ * Run with `npm run mock:smtp` and set SMTP_HOST=localhost, SMTP_PORT=2525.
+ */
+
+import net from 'net';
+
+export interface CapturedEmail {
+  from: string;
+  to: string[];
+  // Decoded Subject header
+  subject: string;
+  headers: Record<string, string>;
+  // Full message as received, after dot-unstuffing
+  raw: string;
+  receivedAt: Date;
+}
+
+export interface SmtpCaptureServer {
+  server: net.Server;
+  messages: CapturedEmail[];
+  // Reject the next N messages with a temporary 451 reply
+  failNext(count: number, code?: number): void;
+  // Called for every accepted message
+  onMessage?: (message: CapturedEmail) => void;
+}
+
+/**
+ * Decode RFC 2047 encoded words such as =?UTF-8?B?...?= in a header value
+ */
+export function decodeMimeHeader(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(
+          text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_hex, code: string) =>
+            String.fromCharCode(parseInt(code, 16))),
+          'binary'
+        );
+      return bytes.toString(/^utf-?8$/i.test(charset) ? 'utf8' : 'latin1');
+    });
+}
+
+const parseHeaders = (raw: string): Record<string, string> => {
+  const headerBlock = raw.split(/\r?\n\r?\n/)[0];
+  const headers: Record<string, string> = {};
+
+  // Folded header lines start with whitespace and continue the previous header
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return headers;
+};
+
+const extractAddress = (argument: string): string => {
+  const match = argument.match(/<([^>]*)>/);
+  return (match ? match[1] : argument).trim();
+};
+
+export function createSmtpCaptureServer(): SmtpCaptureServer {
+  const messages: CapturedEmail[] = [];
+  let failures = 0;
+  let failureCode = 451;
+
+  const capture: SmtpCaptureServer = {
+    server: net.createServer(),
+    messages,
+    failNext(count: number, code = 451) {
+      failures = count;
+      failureCode = code;
+    }
+  };
+
+  capture.server.on('connection', socket => {
+    let buffer = '';
+    let inData = false;
+    let authStep: 'username' | 'password' | null = null;
+    let from = '';
+    let to: string[] = [];
+    let data: string[] = [];
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    const reset = () => {
+      from = '';
+      to = [];
+      data = [];
+    };
+
+    const finishMessage = () => {
+      inData = false;
+
+      if (failures > 0) {
+        failures--;
+        reply(`${failureCode} ${failureCode >= 500 ? '5.0.0 Message rejected' : '4.3.0 Try again later'}`);
+        reset();
+        return;
+      }
+
+      const raw = data.join('\r\n');
+      const headers = parseHeaders(raw);
+      const message: CapturedEmail = {
+        from,
+        to,
+        subject: decodeMimeHeader(headers.subject || ''),
+        headers,
+        raw,
+        receivedAt: new Date()
+      };
+
+      messages.push(message);
+      capture.onMessage?.(message);
+      reply('250 2.0.0 Message queued');
+      reset();
+    };
+
+    const handleCommand = (line: string) => {
+      if (authStep) {
+        // AUTH LOGIN sends the username and password on separate lines; any credentials are accepted
+        authStep = authStep === 'username' ? 'password' : null;
+        reply(authStep ? '334 UGFzc3dvcmQ6' : '235 2.7.0 Authentication successful');
+        return;
+      }
+
+      const [verb, ...rest] = line.split(' ');
+      const argument = rest.join(' ');
+
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          socket.write('250-smtp-capture\r\n250-8BITMIME\r\n250-AUTH PLAIN LOGIN\r\n250 SMTPUTF8\r\n');
+          break;
+        case 'HELO':
+          reply('250 smtp-capture');
+          break;
+        case 'AUTH':
+          if (/^LOGIN/i.test(argument)) {
+            authStep = 'username';
+            reply('334 VXNlcm5hbWU6');
+          } else {
+            reply('235 2.7.0 Authentication successful');
+          }
+          break;
+        case 'MAIL':
+          reset();
+          from = extractAddress(argument.replace(/^FROM:/i, '').split(' ')[0]);
+          reply('250 2.1.0 OK');
+          break;
+        case 'RCPT':
+          to.push(extractAddress(argument.replace(/^TO:/i, '')));
+          reply('250 2.1.5 OK');
+          break;
+        case 'DATA':
+          if (!from || to.length === 0) {
+            reply('503 5.5.1 Need MAIL and RCPT first');
+            break;
+          }
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          reset();
+          reply('250 2.0.0 OK');
+          break;
+        case 'NOOP':
+          reply('250 2.0.0 OK');
+          break;
+        case 'QUIT':
+          reply('221 2.0.0 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 5.5.2 Command not implemented');
+      }
+    };
+
+    socket.setEncoding('utf8');
+    reply('220 smtp-capture ESMTP ready');
+
+    socket.on('data', chunk => {
+      buffer += chunk;
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (!inData) {
+          handleCommand(line);
+        } else if (line === '.') {
+          finishMessage();
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+      }
+    });
+
+    socket.on('error', () => socket.destroy());
+  });
+
+  return capture;
+}
+
+if (require.main === module) {
+  const port = Number(process.env.SMTP_CAPTURE_PORT || 2525);
+  const capture = createSmtpCaptureServer();
+
+  capture.onMessage = message => {
+    console.log(`[${message.receivedAt.toISOString()}] ${message.from} -> ${message.to.join(', ')}: ${message.subject}`);
+  };
+
+  capture.server.listen(port, () => {
+    console.log(`SMTP capture server listening on smtp://localhost:${port}`);
+  });
+}
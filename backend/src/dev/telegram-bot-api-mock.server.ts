@@ -0,0 +1,222 @@
+/**
+ * Local Telegram Bot API Mock Server
+ * Fake Bot API implementing the methods our notification bot uses, so linking
+ * and Telegram notifications can be tested without talking to Telegram.
+ *
+ * Run with `npm run mock:telegram` and point TELEGRAM_API_URL at it. Simulate a
+ * user writing to the bot with POST /mock/users/:userId/messages {"text": "/start <token>"}.
+ */
+
+import axios from 'axios';
+import express, { Request, Response } from 'express';
+import {
+  TELEGRAM_SECRET_HEADER,
+  TelegramMessage,
+  TelegramSendMessageOptions,
+  TelegramUpdate,
+  TelegramUser
+} from '../clients/telegram-bot.client';
+
+export interface TelegramBotApiMockConfig {
+  token: string;
+  username: string;
+  // Longest a getUpdates call waits for new updates, whatever timeout the bot asks for
+  maxPollSeconds?: number;
+}
+
+export interface SentTelegramMessage {
+  chatId: number;
+  text: string;
+  options: TelegramSendMessageOptions;
+  sentAt: Date;
+}
+
+export interface TelegramBotApiMock {
+  app: express.Application;
+  sentMessages: SentTelegramMessage[];
+  // Chats where the user blocked the bot; sendMessage answers 403
+  blockedChats: Set<number>;
+  // Deliver a private message from a user to the bot, through the webhook when one is set
+  sendUserMessage(from: Pick<TelegramUser, 'id' | 'first_name' | 'username'>, text: string): Promise<TelegramUpdate>;
+  // Answer pending getUpdates calls so the server can shut down
+  close(): void;
+  // Called for every message the bot sends
+  onMessage?: (message: SentTelegramMessage) => void;
+}
+
+const sendApiError = (res: Response, errorCode: number, description: string) => {
+  res.status(errorCode).json({ ok: false, error_code: errorCode, description });
+};
+
+export function createTelegramBotApiMock(config: TelegramBotApiMockConfig): TelegramBotApiMock {
+  const app = express();
+  const sentMessages: SentTelegramMessage[] = [];
+  const blockedChats = new Set<number>();
+  let updates: TelegramUpdate[] = [];
+  let waiting: Array<() => void> = [];
+  let webhook: { url: string; secretToken?: string } | null = null;
+  let nextUpdateId = 1;
+  let nextMessageId = 1;
+
+  const bot: TelegramUser = {
+    id: 100000,
+    is_bot: true,
+    first_name: 'DataTrace',
+    username: config.username
+  };
+
+  const wakePollers = () => {
+    const pollers = waiting;
+    waiting = [];
+    pollers.forEach(resolve => resolve());
+  };
+
+  const sendUserMessage: TelegramBotApiMock['sendUserMessage'] = async (from, text) => {
+    const message: TelegramMessage = {
+      message_id: nextMessageId++,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: from.id, type: 'private', username: from.username, first_name: from.first_name },
+      from: { ...from, is_bot: false },
+      text
+    };
+    const update: TelegramUpdate = { update_id: nextUpdateId++, message };
+
+    if (webhook) {
+      await axios.post(webhook.url, update, {
+        headers: webhook.secretToken ? { [TELEGRAM_SECRET_HEADER]: webhook.secretToken } : {},
+        timeout: 5000,
+        validateStatus: () => true
+      });
+    } else {
+      updates.push(update);
+      wakePollers();
+    }
+
+    return update;
+  };
+
+  const mock: TelegramBotApiMock = { app, sentMessages, blockedChats, sendUserMessage, close: wakePollers };
+
+  app.use(express.json());
+
+  app.post('/bot:token/:method', async (req: Request, res: Response) => {
+    if (req.params.token !== config.token) {
+      sendApiError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    const params = req.body || {};
+
+    switch (req.params.method) {
+      case 'getMe':
+        res.json({ ok: true, result: bot });
+        return;
+
+      case 'sendMessage': {
+        const chatId = Number(params.chat_id);
+        if (!chatId) {
+          sendApiError(res, 400, 'Bad Request: chat_id is empty');
+          return;
+        }
+        if (!params.text) {
+          sendApiError(res, 400, 'Bad Request: message text is empty');
+          return;
+        }
+        if (blockedChats.has(chatId)) {
+          sendApiError(res, 403, 'Forbidden: bot was blocked by the user');
+          return;
+        }
+
+        const { chat_id: _chatId, text, ...options } = params;
+        const sent: SentTelegramMessage = { chatId, text, options, sentAt: new Date() };
+        sentMessages.push(sent);
+        mock.onMessage?.(sent);
+
+        const message: TelegramMessage = {
+          message_id: nextMessageId++,
+          date: Math.floor(Date.now() / 1000),
+          chat: { id: chatId, type: 'private' },
+          from: bot,
+          text
+        };
+        res.json({ ok: true, result: message });
+        return;
+      }
+
+      case 'getUpdates': {
+        if (webhook) {
+          sendApiError(res, 409, "Conflict: can't use getUpdates method while webhook is active");
+          return;
+        }
+
+        // Asking for an offset confirms every earlier update
+        const offset = Number(params.offset) || 0;
+        updates = updates.filter(update => update.update_id >= offset);
+
+        const timeout = Math.min(Number(params.timeout) || 0, config.maxPollSeconds ?? 25);
+        if (updates.length === 0 && timeout > 0) {
+          await new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, timeout * 1000);
+            waiting.push(() => {
+              clearTimeout(timer);
+              resolve();
+            });
+          });
+        }
+
+        res.json({ ok: true, result: updates });
+        return;
+      }
+
+      case 'setWebhook':
+        if (!params.url) {
+          sendApiError(res, 400, 'Bad Request: bad webhook: an HTTPS URL must be provided for webhook');
+          return;
+        }
+        webhook = { url: params.url, secretToken: params.secret_token };
+        res.json({ ok: true, result: true, description: 'Webhook was set' });
+        return;
+
+      case 'deleteWebhook':
+        webhook = null;
+        res.json({ ok: true, result: true, description: 'Webhook was deleted' });
+        return;
+
+      default:
+        sendApiError(res, 404, 'Not Found');
+    }
+  });
+
+  app.post('/mock/users/:userId/messages', async (req: Request, res: Response) => {
+    const id = Number(req.params.userId);
+    if (!id || typeof req.body?.text !== 'string') {
+      res.status(400).json({ error: 'A numeric user id and text are required' });
+      return;
+    }
+
+    const update = await sendUserMessage({ id, first_name: req.body.firstName || 'Test', username: req.body.username }, req.body.text);
+    res.json(update);
+  });
+
+  app.get('/mock/messages', (_req: Request, res: Response) => {
+    res.json(sentMessages);
+  });
+
+  return mock;
+}
+
+if (require.main === module) {
+  const port = Number(process.env.TELEGRAM_MOCK_PORT || 4020);
+  const mock = createTelegramBotApiMock({
+    token: process.env.TELEGRAM_BOT_TOKEN || 'test-token',
+    username: process.env.TELEGRAM_BOT_USERNAME || 'datatrace_test_bot'
+  });
+
+  mock.onMessage = message => {
+    console.log(`[${message.sentAt.toISOString()}] -> ${message.chatId}: ${message.text}`);
+  };
+
+  mock.app.listen(port, () => {
+    console.log(`Telegram Bot API mock listening on http://localhost:${port}`);
+  });
+}
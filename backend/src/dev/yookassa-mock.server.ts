@@ -0,0 +1,275 @@
+/**
+ * Local YooKassa Mock Server
+ * Fake payment provider implementing the parts of the YooKassa v3 API we use,
+ * a checkout page and signed webhooks, so payments can be tested offline.
+ *
+ * Run with `npm run mock:yookassa` and point YOOKASSA_API_URL at it.
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import express, { Request, Response, NextFunction } from 'express';
+import {
+  YOOKASSA_SIGNATURE_HEADER,
+  YooKassaCreatePaymentRequest,
+  YooKassaPayment,
+  YooKassaWebhookEvent,
+  signWebhookPayload
+} from '../clients/yookassa.client';
+
+export interface YooKassaMockConfig {
+  shopId: string;
+  secretKey: string;
+  webhookSecret: string;
+  // Where payment notifications are delivered; webhooks are skipped when empty
+  webhookUrl?: string;
+}
+
+export type YooKassaMockOutcome = 'succeeded' | 'canceled';
+
+export interface YooKassaMock {
+  app: express.Application;
+  payments: Map<string, YooKassaPayment>;
+  // Saved payment methods whose recurring charges should be declined
+  declinedPaymentMethods: Set<string>;
+  // Complete a payment as the user would on the checkout page and send the webhook
+  settlePayment(paymentId: string, outcome: YooKassaMockOutcome): Promise<YooKassaPayment | null>;
+}
+
+const sendApiError = (res: Response, statusCode: number, code: string, description: string) => {
+  res.status(statusCode).json({
+    type: 'error',
+    id: crypto.randomUUID(),
+    code,
+    description
+  });
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export function createYooKassaMockApp(config: YooKassaMockConfig): YooKassaMock {
+  const app = express();
+  const payments = new Map<string, YooKassaPayment>();
+  const idempotenceKeys = new Map<string, string>();
+  const savedPaymentMethods = new Set<string>();
+  const declinedPaymentMethods = new Set<string>();
+  // Ids of payments that asked to save the payment method
+  const saveMethodRequests = new Set<string>();
+
+  const requireShopAuth = (req: Request, res: Response, next: NextFunction) => {
+    const [scheme, encoded] = (req.get('Authorization') || '').split(' ');
+    const credentials = scheme === 'Basic' && encoded ? Buffer.from(encoded, 'base64').toString('utf8') : '';
+
+    if (credentials !== `${config.shopId}:${config.secretKey}`) {
+      sendApiError(res, 401, 'invalid_credentials', 'Login or password is incorrect');
+      return;
+    }
+
+    next();
+  };
+
+  const sendWebhook = async (payment: YooKassaPayment) => {
+    if (!config.webhookUrl) {
+      return;
+    }
+
+    const event: YooKassaWebhookEvent = {
+      type: 'notification',
+      event: payment.status === 'succeeded' ? 'payment.succeeded' : 'payment.canceled',
+      object: payment
+    };
+    const body = JSON.stringify(event);
+
+    await axios.post(config.webhookUrl, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        [YOOKASSA_SIGNATURE_HEADER]: signWebhookPayload(body, config.webhookSecret)
+      },
+      timeout: 5000,
+      validateStatus: () => true
+    });
+  };
+
+  const settlePayment = async (paymentId: string, outcome: YooKassaMockOutcome) => {
+    const payment = payments.get(paymentId);
+    if (!payment) {
+      return null;
+    }
+
+    if (payment.status === 'pending') {
+      payment.status = outcome;
+      payment.paid = outcome === 'succeeded';
+
+      if (outcome === 'succeeded') {
+        payment.captured_at = new Date().toISOString();
+
+        if (saveMethodRequests.has(payment.id)) {
+          const methodId = crypto.randomUUID();
+          savedPaymentMethods.add(methodId);
+          payment.payment_method = { type: 'bank_card', id: methodId, saved: true, title: 'Bank card *4444' };
+        }
+      } else {
+        payment.cancellation_details = { party: 'yoo_money', reason: 'canceled_by_user' };
+      }
+
+      await sendWebhook(payment);
+    }
+
+    return payment;
+  };
+
+  app.use('/v3', express.json(), requireShopAuth);
+
+  app.post('/v3/payments', (req: Request, res: Response) => {
+    const idempotenceKey = req.get('Idempotence-Key');
+    if (!idempotenceKey) {
+      sendApiError(res, 400, 'invalid_request', 'Idempotence-Key header is required');
+      return;
+    }
+
+    const existingId = idempotenceKeys.get(idempotenceKey);
+    if (existingId) {
+      res.json(payments.get(existingId));
+      return;
+    }
+
+    const body = req.body as YooKassaCreatePaymentRequest;
+    if (!body?.amount?.value || !body.amount.currency) {
+      sendApiError(res, 400, 'invalid_request', 'amount is required');
+      return;
+    }
+
+    const id = crypto.randomUUID();
+
+    // Recurring charge of a saved method: settled immediately, no checkout
+    if (body.payment_method_id) {
+      if (!savedPaymentMethods.has(body.payment_method_id)) {
+        sendApiError(res, 400, 'invalid_request', 'Payment method is not saved');
+        return;
+      }
+
+      const declined = declinedPaymentMethods.has(body.payment_method_id);
+      const payment: YooKassaPayment = {
+        id,
+        status: declined ? 'canceled' : 'succeeded',
+        paid: !declined,
+        amount: body.amount,
+        description: body.description,
+        metadata: body.metadata,
+        payment_method: { type: 'bank_card', id: body.payment_method_id, saved: true, title: 'Bank card *4444' },
+        created_at: new Date().toISOString(),
+        test: true
+      };
+
+      if (declined) {
+        payment.cancellation_details = { party: 'payment_network', reason: 'insufficient_funds' };
+      } else {
+        payment.captured_at = payment.created_at;
+      }
+
+      payments.set(id, payment);
+      idempotenceKeys.set(idempotenceKey, id);
+      res.json(payment);
+
+      sendWebhook(payment).catch(() => undefined);
+      return;
+    }
+
+    if (!body.confirmation?.return_url) {
+      sendApiError(res, 400, 'invalid_request', 'confirmation.return_url is required');
+      return;
+    }
+
+    const payment: YooKassaPayment = {
+      id,
+      status: 'pending',
+      paid: false,
+      amount: body.amount,
+      description: body.description,
+      confirmation: {
+        type: 'redirect',
+        confirmation_url: `${req.protocol}://${req.get('host')}/checkout/${id}`,
+        return_url: body.confirmation.return_url
+      },
+      metadata: body.metadata,
+      created_at: new Date().toISOString(),
+      test: true
+    };
+
+    payments.set(id, payment);
+    idempotenceKeys.set(idempotenceKey, id);
+    if (body.save_payment_method) {
+      saveMethodRequests.add(id);
+    }
+    res.json(payment);
+  });
+
+  app.get('/v3/payments/:paymentId', (req: Request, res: Response) => {
+    const payment = payments.get(req.params.paymentId);
+    if (!payment) {
+      sendApiError(res, 404, 'not_found', 'Payment not found');
+      return;
+    }
+
+    res.json(payment);
+  });
+
+  app.get('/checkout/:paymentId', (req: Request, res: Response) => {
+    const payment = payments.get(req.params.paymentId);
+    if (!payment) {
+      res.status(404).send('Payment not found');
+      return;
+    }
+
+    const action = (outcome: YooKassaMockOutcome, label: string) =>
+      `<form method="post" action="/checkout/${payment.id}/${outcome}"><button type="submit">${label}</button></form>`;
+
+    res.send(`<!doctype html>
+<html lang="ru">
+<head><meta charset="utf-8"><title>Тестовая оплата</title></head>
+<body>
+  <h1>Тестовая оплата ЮKassa</h1>
+  <p>${escapeHtml(payment.description || '')}</p>
+  <p>${escapeHtml(payment.amount.value)} ${escapeHtml(payment.amount.currency)} — статус: ${payment.status}</p>
+  ${payment.status === 'pending' ? action('succeeded', 'Оплатить') + action('canceled', 'Отменить') : ''}
+</body>
+</html>`);
+  });
+
+  app.post('/checkout/:paymentId/:outcome', async (req: Request, res: Response) => {
+    const { paymentId, outcome } = req.params;
+    if (outcome !== 'succeeded' && outcome !== 'canceled') {
+      res.status(400).send('Unknown outcome');
+      return;
+    }
+
+    try {
+      const payment = await settlePayment(paymentId, outcome);
+      if (!payment) {
+        res.status(404).send('Payment not found');
+        return;
+      }
+
+      res.redirect(303, payment.confirmation?.return_url || `/checkout/${paymentId}`);
+    } catch (error) {
+      res.status(502).send(`Webhook delivery failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  return { app, payments, declinedPaymentMethods, settlePayment };
+}
+
+if (require.main === module) {
+  const port = Number(process.env.YOOKASSA_MOCK_PORT || 4010);
+  const { app } = createYooKassaMockApp({
+    shopId: process.env.YOOKASSA_SHOP_ID || 'test-shop',
+    secretKey: process.env.YOOKASSA_SECRET_KEY || 'test-secret',
+    webhookSecret: process.env.YOOKASSA_WEBHOOK_SECRET || 'test-webhook-secret',
+    webhookUrl: process.env.YOOKASSA_WEBHOOK_URL || `http://localhost:${process.env.PORT || 3000}/api/payments/webhooks/yookassa`
+  });
+
+  app.listen(port, () => {
+    console.log(`YooKassa mock listening on http://localhost:${port}/v3`);
+  });
+}
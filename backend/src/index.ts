@@ -3,6 +3,17 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { logger } from './utils/logger';
+import { getStorage, closeStorage } from './storage';
+import { monitoringService } from './services/monitoring.service';
+import { subscriptionLifecycleService } from './services/subscription-lifecycle.service';
+import { emailService } from './services/email.service';
+import { pushService } from './services/push.service';
+import { telegramService } from './services/telegram.service';
+import { searchJobService } from './services/search-job.service';
+import { searchHistoryService } from './services/search-history.service';
+import { exposureMonitorService } from './services/exposure-monitor.service';
+import { removalCaseService } from './services/removal-case.service';
+import { providerBalanceService } from './services/provider-balance.service';
 
 // Import routes
 import searchRoutes from './routes/search.routes';
@@ -10,6 +21,11 @@ import instructionsRoutes from './routes/instructions.routes';
 import tariffsRoutes from './routes/tariffs.routes';
 import notificationsRoutes from './routes/notifications.routes';
 import monitoringRoutes from './routes/monitoring.routes';
+import authRoutes from './routes/auth.routes';
+import paymentsRoutes from './routes/payments.routes';
+import telegramRoutes from './routes/telegram.routes';
+import monitorsRoutes from './routes/monitors.routes';
+import removalCasesRoutes from './routes/removal-cases.routes';
 
 // Import middleware
 import { generalRateLimit } from './middleware/rate-limit.middleware';
@@ -26,6 +42,7 @@ import {
   rateLimitMetricsMiddleware,
   memoryTrackingMiddleware
 } from './middleware/monitoring.middleware';
+import { SEARCH_TYPES } from './types/search';
 
 // Загружаем переменные окружения
 dotenv.config();
@@ -48,13 +65,18 @@ app.use(helmet({
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3001',
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key'],
+  exposedHeaders: ['X-Quota-Limit', 'X-Quota-Remaining', 'X-Quota-Reset', 'Retry-After']
 }));
 
 app.use(express.json({ 
   limit: '1mb',
-  type: 'application/json'
+  type: 'application/json',
+  // Keep the raw body so payment webhook signatures can be verified
+  verify: (req, _res, buf) => {
+    (req as express.Request).rawBody = buf;
+  }
 }));
 
 app.use(express.urlencoded({ 
@@ -99,10 +121,15 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
+app.use('/api/auth', authRoutes);
 app.use('/api/search', searchRoutes);
 app.use('/api/instructions', instructionsRoutes);
 app.use('/api/tariffs', tariffsRoutes);
+app.use('/api/payments', paymentsRoutes);
 app.use('/api/notifications', notificationsRoutes);
+app.use('/api/telegram', telegramRoutes);
+app.use('/api/monitors', monitorsRoutes);
+app.use('/api/removal-cases', removalCasesRoutes);
 app.use('/api/monitoring', monitoringRoutes);
 
 // Root endpoint
@@ -112,9 +139,15 @@ app.get('/', (req, res) => {
     version: '1.0.0',
     documentation: '/api/docs',
     endpoints: {
+      auth: '/api/auth',
       search: '/api/search',
       instructions: '/api/instructions',
       tariffs: '/api/tariffs',
+      payments: '/api/payments',
+      notifications: '/api/notifications',
+      telegram: '/api/telegram',
+      monitors: '/api/monitors',
+      removalCases: '/api/removal-cases',
       health: '/health'
     }
   });
@@ -127,21 +160,117 @@ app.get('/api/docs', (req, res) => {
     version: '1.0.0',
     description: 'API for searching and removing personal data from Telegram bots',
     endpoints: [
+      {
+        path: '/api/auth/register',
+        method: 'POST',
+        description: 'Create an account and receive access and refresh tokens',
+        parameters: {
+          email: 'string',
+          password: 'string - at least 8 characters'
+        }
+      },
+      {
+        path: '/api/auth/login',
+        method: 'POST',
+        description: 'Sign in; send the access token as "Authorization: Bearer <token>"',
+        parameters: {
+          email: 'string',
+          password: 'string'
+        }
+      },
+      {
+        path: '/api/auth/refresh',
+        method: 'POST',
+        description: 'Exchange a refresh token for a new token pair',
+        parameters: {
+          refreshToken: 'string'
+        }
+      },
       {
         path: '/api/search',
         method: 'POST',
         description: 'Search for personal data across all bots',
         parameters: {
-          type: 'phone | email | inn | snils | passport',
-          value: 'string - the value to search for'
+          type: SEARCH_TYPES.join(' | '),
+          value: 'string - the value to search for',
+          stream: 'boolean - optional, start the search in the background and answer 202 with its eventsUrl',
+          mode: "'quick' | 'full' - optional, 'quick' only counts hits per source (available: false when no bot can count the type); full records need a paid plan (402 otherwise). Defaults to the plan's mode"
+        }
+      },
+      {
+        path: '/api/search/search/batch',
+        method: 'POST',
+        description: 'Search several identifiers of the same person at once; each identifier counts as one search against the quota',
+        parameters: {
+          identifiers: `array of { type, value } - up to SEARCH_BATCH_MAX_IDENTIFIERS (default 5), no duplicates`,
+          mode: "'quick' | 'full' - optional, as for /api/search"
+        }
+      },
+      {
+        path: '/api/search/search/jobs',
+        method: 'POST',
+        description: 'Queue a search as a background job that keeps running if you disconnect; answers 202 with the job',
+        parameters: {
+          type: SEARCH_TYPES.join(' | '),
+          value: 'string - the value to search for',
+          botIds: 'array - optional, search only these bots'
+        }
+      },
+      {
+        path: '/api/search/search/jobs/:jobId',
+        method: 'GET',
+        description: 'Get the status, per-bot progress and results so far of one of your search jobs'
+      },
+      {
+        path: '/api/search/search/jobs/:jobId/retry',
+        method: 'POST',
+        description: 'Search the bots of a finished job that failed or timed out again, keeping the other results'
+      },
+      {
+        path: '/api/search/search/history',
+        method: 'GET',
+        description: 'List your past searches with masked queries; how long they are kept depends on your plan',
+        parameters: {
+          limit: 'number - optional, default 20, max 100',
+          offset: 'number - optional'
         }
       },
+      {
+        path: '/api/search/search/history/:id',
+        method: 'GET',
+        description: 'Get a past search with its full results'
+      },
+      {
+        path: '/api/search/search/history/:fromId/diff/:toId',
+        method: 'GET',
+        description: 'Compare two runs of the same search: per bot, the found items that disappeared, remain or are new'
+      },
+      {
+        path: '/api/search/search/history/:id/rerun',
+        method: 'POST',
+        description: 'Run a past search again; counts against your search quota'
+      },
+      {
+        path: '/api/search/search/history/:id',
+        method: 'DELETE',
+        description: 'Delete one past search'
+      },
+      {
+        path: '/api/search/search/history',
+        method: 'DELETE',
+        description: 'Delete your whole search history'
+      },
+      {
+        path: '/api/search/search/:searchId/events',
+        method: 'GET',
+        description: 'Server-Sent Events with per-bot progress of a streaming search (started, completed, error, timeout, then search_completed or search_failed)'
+      },
       {
         path: '/api/search/specific',
         method: 'POST',
         description: 'Search with specific bots only',
         parameters: {
-          type: 'phone | email | inn | snils | passport',
+          type: SEARCH_TYPES.join(' | '),
           value: 'string - the value to search for',
           botIds: 'array - list of bot IDs to search'
         }
@@ -155,6 +284,120 @@ app.get('/api/docs', (req, res) => {
         path: '/api/tariffs',
         method: 'GET',
         description: 'Get all available tariff plans'
+      },
+      {
+        path: '/api/tariffs/trial',
+        method: 'POST',
+        description: 'Start the one-time free trial of a paid plan',
+        parameters: {
+          planId: 'string - paid tariff plan ID'
+        }
+      },
+      {
+        path: '/api/tariffs/subscription/cancel',
+        method: 'POST',
+        description: 'Cancel automatic renewal; the plan stays available until the end of the paid period'
+      },
+      {
+        path: '/api/payments',
+        method: 'POST',
+        description: 'Start a payment for a paid plan and get the confirmation URL; send an Idempotency-Key header to make retries safe',
+        parameters: {
+          planId: 'string - paid tariff plan ID'
+        }
+      },
+      {
+        path: '/api/payments/:paymentId',
+        method: 'GET',
+        description: 'Get the status of one of your payments'
+      },
+      {
+        path: '/api/notifications',
+        method: 'GET',
+        description: 'List your notifications, newest first',
+        parameters: {
+          limit: 'number - 1 to 100, default 20',
+          offset: 'number',
+          status: 'pending | delivered | read | failed | expired',
+          type: 'string - notification type',
+          unread_only: 'boolean'
+        }
+      },
+      {
+        path: '/api/notifications/:notificationId/read',
+        method: 'POST',
+        description: 'Mark a notification as read; POST /api/notifications/read-all marks all of them'
+      },
+      {
+        path: '/api/notifications/push/subscribe',
+        method: 'POST',
+        description: 'Register a browser for Web Push; get the VAPID key from GET /api/notifications/push/public-key',
+        parameters: {
+          endpoint: 'string - push service URL',
+          keys: 'object - p256dh and auth from the browser subscription'
+        }
+      },
+      {
+        path: '/api/telegram/link',
+        method: 'POST',
+        description: 'Get a t.me link that connects your Telegram chat for notifications; DELETE disconnects it'
+      },
+      {
+        path: '/api/monitors',
+        method: 'POST',
+        description: 'Monitor an identifier on paid plans: it is searched again on the plan\'s schedule and new_exposure notifications report new bots or fields',
+        parameters: {
+          type: SEARCH_TYPES.join(' | '),
+          value: 'string - the identifier to monitor'
+        }
+      },
+      {
+        path: '/api/monitors',
+        method: 'GET',
+        description: 'List your monitored identifiers with the scan interval and limit of your plan'
+      },
+      {
+        path: '/api/monitors/:id',
+        method: 'DELETE',
+        description: 'Stop monitoring an identifier'
+      },
+      {
+        path: '/api/removal-cases',
+        method: 'POST',
+        description: 'Track a removal request sent to a bot; stale cases get removal_reminder notifications',
+        parameters: {
+          botId: 'string - bot the request was sent to',
+          identifiers: 'array - up to 5 { type, value } identifiers included in the request',
+          status: 'planned | submitted | confirmed | rejected (optional, default planned)',
+          ticketNumber: 'string - request number given by the bot (optional)',
+          submittedAt: 'string - ISO date the request was sent (optional)',
+          notes: 'string (optional)'
+        }
+      },
+      {
+        path: '/api/removal-cases',
+        method: 'GET',
+        description: 'List your removal cases, optionally for one bot with ?botId='
+      },
+      {
+        path: '/api/removal-cases/:id',
+        method: 'PATCH',
+        description: 'Update the status, ticket number, submission date or notes of a case; DELETE removes it'
+      },
+      {
+        path: '/api/removal-cases/:id/verify',
+        method: 'POST',
+        description: 'Search the bot again now; the case becomes verified and removal_completed is sent once the bot returns no data'
+      },
+      {
+        path: '/api/notifications/preferences',
+        method: 'PUT',
+        description: 'Choose delivery channels and which kinds of notifications to receive',
+        parameters: {
+          channels: 'object - in_app, email, push, sms, telegram flags',
+          types: 'object - search_updates, security_alerts, system_notifications, marketing flags',
+          quietHours: 'object - enabled, start and end as HH:MM, timezone'
+        }
       }
     ]
   });
@@ -167,16 +410,30 @@ app.use(notFoundHandler);
 app.use(errorTrackingMiddleware);
 app.use(errorHandler);
 
-// Graceful shutdown handling
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  process.exit(0);
-});
+// Graceful shutdown handling: flush pending writes before exiting
+const shutdown = (signal: string) => {
+  logger.info(`${signal} received, shutting down gracefully`);
+  subscriptionLifecycleService.stop();
+  emailService.stop();
+  pushService.stop();
+  telegramService.stop();
+  searchJobService.stop();
+  searchHistoryService.stop();
+  exposureMonitorService.stop();
+  removalCaseService.stop();
+  providerBalanceService.stop();
+  monitoringService.persistMetrics()
+    .then(() => closeStorage())
+    .catch(error => {
+      logger.error('Failed to close storage', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    })
+    .finally(() => process.exit(0));
+};
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  process.exit(0);
-});
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 // Unhandled promise rejection handler
 process.on('unhandledRejection', (reason, promise) => {
@@ -190,6 +447,25 @@ process.on('uncaughtException', (error) => {
   process.exit(1);
 });
 
+// Open the database and apply migrations before serving requests,
+// then start renewing subscriptions and delivering notifications
+getStorage().initialize().then(async () => {
+  subscriptionLifecycleService.start();
+  emailService.start();
+  await pushService.start();
+  await telegramService.start();
+  await searchJobService.start();
+  searchHistoryService.start();
+  exposureMonitorService.start();
+  removalCaseService.start();
+  providerBalanceService.start();
+}).catch(error => {
+  logger.error('Failed to initialize storage', {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+  process.exit(1);
+});
+
 // Запуск сервера
 const server = app.listen(PORT, () => {
   logger.info(`Server is running on port ${PORT}`);
@@ -0,0 +1,123 @@
+/**
+ * Tests for the search quota middleware
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { searchQuotaMiddleware, batchSearchQuotaMiddleware } from '../quota.middleware';
+import { tariffService } from '../../services/tariff.service';
+
+jest.mock('../../utils/logger');
+
+describe('searchQuotaMiddleware', () => {
+  let app: express.Application;
+  let userCounter = 0;
+  let userId: string;
+  let responseStatus: number;
+
+  beforeEach(() => {
+    userId = `quota-route-user-${++userCounter}`;
+    responseStatus = 200;
+
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = { id: userId, email: `${userId}@example.com` };
+      next();
+    });
+    app.post('/search', searchQuotaMiddleware, (_req, res) => {
+      res.status(responseStatus).json({ success: responseStatus < 400 });
+    });
+    app.post('/search/batch', batchSearchQuotaMiddleware, (_req, res) => {
+      res.status(responseStatus).json({ success: responseStatus < 400 });
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should expose the remaining quota in headers', async () => {
+    const response = await request(app).post('/search').expect(200);
+
+    expect(response.headers['x-quota-limit']).toBe('3');
+    expect(response.headers['x-quota-remaining']).toBe('2');
+    expect(new Date(response.headers['x-quota-reset']).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should return 402 with resetDate when the free quota is used up', async () => {
+    for (let i = 0; i < 3; i++) {
+      await request(app).post('/search').expect(200);
+    }
+
+    const response = await request(app).post('/search').expect(402);
+
+    expect(response.body.error.type).toBe('PAYMENT_REQUIRED');
+    expect(response.body.error.resetDate).toBeDefined();
+    expect(response.headers['x-quota-remaining']).toBe('0');
+  });
+
+  it('should return 429 with Retry-After when a paid quota is used up', async () => {
+    const basicPlan = tariffService.getTariffPlan('basic')!;
+    jest.spyOn(tariffService, 'getEffectivePlan').mockResolvedValue({ ...basicPlan, searchLimit: 1 });
+
+    await request(app).post('/search').expect(200);
+    const response = await request(app).post('/search').expect(429);
+
+    expect(response.body.error.type).toBe('SEARCH_QUOTA_EXCEEDED');
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('should refund the search when the request fails', async () => {
+    responseStatus = 500;
+    await request(app).post('/search').expect(500);
+
+    // The refund runs after the response is sent
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect((await tariffService.canUserSearch(userId)).remaining).toBe(3);
+  });
+
+  it('should charge a batch one search per identifier', async () => {
+    const response = await request(app)
+      .post('/search/batch')
+      .send({ identifiers: [{ type: 'phone', value: '+79123456789' }, { type: 'email', value: 'a@b.ru' }] })
+      .expect(200);
+
+    expect(response.headers['x-quota-remaining']).toBe('1');
+  });
+
+  it('should refuse a batch larger than the remaining quota without charging it', async () => {
+    await request(app).post('/search').expect(200);
+
+    const response = await request(app)
+      .post('/search/batch')
+      .send({ identifiers: [{ type: 'phone', value: '1' }, { type: 'phone', value: '2' }, { type: 'phone', value: '3' }] })
+      .expect(402);
+
+    expect(response.body.error.remaining).toBe(2);
+    expect((await tariffService.canUserSearch(userId)).remaining).toBe(2);
+  });
+
+  it('should refund every identifier of a failed batch', async () => {
+    responseStatus = 500;
+    await request(app)
+      .post('/search/batch')
+      .send({ identifiers: [{ type: 'phone', value: '1' }, { type: 'phone', value: '2' }] })
+      .expect(500);
+
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect((await tariffService.canUserSearch(userId)).remaining).toBe(3);
+  });
+
+  it('should track anonymous callers by IP', async () => {
+    const anonymousApp = express();
+    anonymousApp.post('/search', searchQuotaMiddleware, (_req, res) => {
+      res.json({ success: true });
+    });
+
+    const response = await request(anonymousApp).post('/search').expect(200);
+    expect(response.headers['x-quota-remaining']).toBeDefined();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for the search request validation middleware
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { validateSearchRequest } from '../validation.middleware';
+import { ApiManagerService } from '../../services/api-manager.service';
+import * as botsConfig from '../../config/bots.config';
+
+jest.mock('../../utils/logger');
+
+describe('validateSearchRequest', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.post('/search', validateSearchRequest, (req, res) => {
+      res.json({ success: true, botIds: req.body.botIds });
+    });
+
+    // A bot added to config/bots.json, replacing the default ones
+    jest.spyOn(botsConfig, 'loadBotsConfig').mockReturnValue([
+      { id: 'new_leak_db', name: 'New leak DB', encryptedName: 'Бот F', isActive: true, priority: 6, apiClient: 'VektorClient' }
+    ]);
+    ApiManagerService.getInstance().reloadBotConfig();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    ApiManagerService.getInstance().reloadBotConfig();
+  });
+
+  it('should accept bots from the current bot config', async () => {
+    const response = await request(app)
+      .post('/search')
+      .send({ type: 'email', value: 'test@example.com', botIds: ['new_leak_db'] })
+      .expect(200);
+
+    expect(response.body.botIds).toEqual(['new_leak_db']);
+  });
+
+  it('should reject bots that are not configured', async () => {
+    const response = await request(app)
+      .post('/search')
+      .send({ type: 'email', value: 'test@example.com', botIds: ['new_leak_db', 'dyxless'] })
+      .expect(400);
+
+    expect(response.body.error.details).toEqual([
+      expect.objectContaining({ field: 'botIds.1', message: 'Invalid bot ID provided' })
+    ]);
+  });
+});
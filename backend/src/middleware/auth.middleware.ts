@@ -0,0 +1,134 @@
+/**
+ * Authentication Middleware
+ * Verifies bearer access tokens and enforces ownership of user-scoped routes
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { authService, AuthError } from '../services/auth.service';
+import { logger } from '../utils/logger';
+import '../types/auth';
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+const getBearerToken = (req: Request): string | null => {
+  const header = req.get('Authorization');
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' && token ? token : null;
+};
+
+const sendAuthError = (res: Response, statusCode: number, message: string, type: string) => {
+  res.status(statusCode).json({
+    success: false,
+    error: {
+      message,
+      code: statusCode,
+      type
+    },
+    meta: {
+      timestamp: new Date().toISOString()
+    }
+  });
+};
+
+/**
+ * Require a valid access token and populate `req.user`
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+
+  if (!token) {
+    sendAuthError(res, 401, 'Authentication required', 'AUTHENTICATION_ERROR');
+    return;
+  }
+
+  try {
+    req.user = authService.verifyAccessToken(token);
+    next();
+  } catch (error) {
+    const message = error instanceof AuthError ? error.message : 'Invalid token';
+    const type = error instanceof AuthError && error.type === 'TOKEN_EXPIRED' ? 'TOKEN_EXPIRED' : 'AUTHENTICATION_ERROR';
+
+    logger.warn('Authentication failed', {
+      path: req.path,
+      ip: req.ip,
+      reason: type
+    });
+
+    sendAuthError(res, 401, message, type);
+  }
+};
+
+/**
+ * Populate `req.user` when a valid token is present, but allow anonymous requests
+ */
+export const optionalAuthenticate = (req: Request, res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+
+  if (token) {
+    try {
+      req.user = authService.verifyAccessToken(token);
+    } catch {
+      // An invalid token is treated as anonymous access
+      req.user = undefined;
+    }
+  }
+
+  next();
+};
+
+/**
+ * Only let the authenticated user access resources addressed by their own id.
+ * Must run after `authenticate`.
+ */
+export const requireOwnership = (paramName: string = 'userId') => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const ownerId = req.params[paramName];
+
+    if (!req.user) {
+      sendAuthError(res, 401, 'Authentication required', 'AUTHENTICATION_ERROR');
+      return;
+    }
+
+    if (ownerId !== req.user.id) {
+      logger.warn('Access to another user\'s resource denied', {
+        userId: req.user.id,
+        path: req.path
+      });
+      sendAuthError(res, 403, 'Access denied', 'AUTHORIZATION_ERROR');
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Only let operators listed in ADMIN_EMAILS through. Must run after `authenticate`.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    sendAuthError(res, 401, 'Authentication required', 'AUTHENTICATION_ERROR');
+    return;
+  }
+
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!adminEmails.includes(req.user.email.toLowerCase())) {
+    logger.warn('Admin access denied', {
+      userId: req.user.id,
+      path: req.path
+    });
+    sendAuthError(res, 403, 'Access denied', 'AUTHORIZATION_ERROR');
+    return;
+  }
+
+  next();
+};
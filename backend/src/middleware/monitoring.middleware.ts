@@ -169,7 +169,7 @@ export const alertsEndpoint = (req: Request, res: Response): void => {
     const { resolved } = req.query;
     const resolvedFilter = resolved === 'true' ? true : resolved === 'false' ? false : undefined;
 
-    const alerts: any[] = []; // Simplified - no alerts system for now
+    const alerts = monitoringService.getAlerts(resolvedFilter);
 
     res.json({
       timestamp: new Date().toISOString(),
@@ -178,7 +178,7 @@ export const alertsEndpoint = (req: Request, res: Response): void => {
         total: alerts.length,
         active: alerts.filter(a => !a.resolved).length,
         resolved: alerts.filter(a => a.resolved).length,
-        critical: alerts.filter(a => a.severity === 'critical' || a.severity === 'emergency').length
+        critical: alerts.filter(a => a.severity === 'critical').length
       }
     });
   } catch (error) {
@@ -205,15 +205,15 @@ export const resolveAlertEndpoint = (req: Request, res: Response): void => {
         error: 'Alert ID is required',
         timestamp: new Date().toISOString()
       });
+      return;
     }
 
-    const resolved = false; // Simplified - no alert resolution for now
-
-    if (!resolved) {
+    if (!monitoringService.resolveAlert(alertId)) {
       res.status(404).json({
         error: 'Alert not found or already resolved',
         timestamp: new Date().toISOString()
       });
+      return;
     }
 
     res.json({
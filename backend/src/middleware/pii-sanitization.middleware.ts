@@ -135,7 +135,7 @@ function clearSensitiveFields(obj: any): void {
   }
 
   const sensitiveFields = [
-    'phone', 'email', 'inn', 'snils', 'passport',
+    'phone', 'email', 'inn', 'snils', 'passport', 'plate_number', 'telegram_id',
     'phoneNumber', 'emailAddress', 'passportNumber',
     'value', 'query', 'searchValue', 'personalData',
     'userData', 'userInput', 'searchQuery'
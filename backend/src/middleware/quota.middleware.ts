@@ -0,0 +1,166 @@
+/**
+ * Search Quota Middleware
+ * Enforces the caller's tariff search quota and reports it in response headers,
+ * and keeps found records to plans that include them
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { tariffService, SearchQuota } from '../services/tariff.service';
+import { logger } from '../utils/logger';
+
+export const QUOTA_HEADERS = {
+  limit: 'X-Quota-Limit',
+  remaining: 'X-Quota-Remaining',
+  reset: 'X-Quota-Reset'
+};
+
+/**
+ * Quota key for the caller: the user id, or the IP for anonymous searches
+ */
+export const getQuotaKey = (req: Request): string => {
+  return req.user ? req.user.id : `anonymous:${req.ip}`;
+};
+
+const setQuotaHeaders = (res: Response, quota: SearchQuota) => {
+  res.setHeader(QUOTA_HEADERS.limit, String(quota.limit));
+  res.setHeader(QUOTA_HEADERS.remaining, String(quota.remaining));
+  res.setHeader(QUOTA_HEADERS.reset, quota.resetDate.toISOString());
+};
+
+/**
+ * Consume the request's searches from the caller's quota: `getCount` says how
+ * many the request costs, from the request or what earlier middleware put in
+ * `res.locals`. Free plans that run out get 402 (upgrade to
+ * continue), paid plans get 429 until the period resets. The searches are
+ * refunded if the request then fails.
+ * Must run after `optionalAuthenticate` so signed-in users are recognized.
+ */
+export const createSearchQuotaMiddleware = (getCount: (req: Request, res: Response) => number) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const quotaKey = getQuotaKey(req);
+    const count = getCount(req, res);
+    let quota: SearchQuota;
+
+    try {
+      quota = await tariffService.consumeSearchQuota(quotaKey, count);
+    } catch (error) {
+      // Quota storage problems should not take search down
+      logger.error('Failed to check search quota', {
+        path: req.path,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      next();
+      return;
+    }
+
+    setQuotaHeaders(res, quota);
+
+    if (!quota.allowed) {
+      const statusCode = quota.isFreePlan ? 402 : 429;
+
+      logger.warn('Search quota exceeded', {
+        planId: quota.planId,
+        limit: quota.limit,
+        statusCode,
+        path: req.path
+      });
+
+      if (statusCode === 429) {
+        res.setHeader('Retry-After', String(Math.max(0, Math.ceil((quota.resetDate.getTime() - Date.now()) / 1000))));
+      }
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          message: quota.message,
+          code: statusCode,
+          type: quota.isFreePlan ? 'PAYMENT_REQUIRED' : 'SEARCH_QUOTA_EXCEEDED',
+          planId: quota.planId,
+          limit: quota.limit,
+          remaining: quota.remaining,
+          resetDate: quota.resetDate.toISOString()
+        },
+        meta: {
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
+    res.on('finish', () => {
+      if (res.statusCode >= 400) {
+        tariffService.releaseSearchQuota(quotaKey, count).catch(error => {
+          logger.error('Failed to release search quota', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+      }
+    });
+
+    next();
+  };
+};
+
+/**
+ * One search per request
+ */
+export const searchQuotaMiddleware = createSearchQuotaMiddleware(() => 1);
+
+/**
+ * One search per identifier of a batch search; must run after the batch is validated
+ */
+export const batchSearchQuotaMiddleware = createSearchQuotaMiddleware(req => req.body.identifiers.length);
+
+/**
+ * 402 for a full search requested on a plan that only includes quick scans
+ */
+export const sendFullSearchRequiresPlan = (res: Response) => {
+  res.status(402).json({
+    success: false,
+    error: {
+      message: 'Просмотр найденных записей доступен на платных тарифах. Выполните быструю проверку или смените тариф.',
+      code: 402,
+      type: 'PAYMENT_REQUIRED'
+    },
+    meta: {
+      timestamp: new Date().toISOString()
+    }
+  });
+};
+
+/**
+ * Refuse routes that return or store found records with 402 on plans
+ * without full searches, before any quota is consumed.
+ * Must run after authentication so the caller's plan is known.
+ */
+export const fullSearchPlanMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const plan = await tariffService.getEffectivePlan(getQuotaKey(req));
+
+    if (!tariffService.allowsFullSearch(plan)) {
+      logger.info('Full search refused on plan without records', { planId: plan.id, path: req.path });
+      sendFullSearchRequiresPlan(res);
+      return;
+    }
+  } catch (error) {
+    // Unlike the quota, records must not leak when the plan cannot be checked
+    logger.error('Failed to check plan for full search', {
+      path: req.path,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    res.status(503).json({
+      success: false,
+      error: {
+        message: 'Unable to check the tariff plan, try again later',
+        code: 503,
+        type: 'SERVICE_UNAVAILABLE'
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  next();
+};
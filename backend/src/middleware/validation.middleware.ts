@@ -6,36 +6,86 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { logger } from '../utils/logger';
+import { ValidationService } from '../services/validation.service';
+import { ApiManagerService } from '../services/api-manager.service';
+import { SEARCH_TYPES, SearchType } from '../types/search';
+
+// Search type and value, shared by single and batch searches
+const searchTypeSchema = Joi.string()
+  .valid(...SEARCH_TYPES)
+  .required()
+  .messages({
+    'any.required': 'Search type is required',
+    'any.only': `Search type must be one of: ${SEARCH_TYPES.join(', ')}`
+  });
+
+const searchValueSchema = Joi.string()
+  .trim()
+  .min(1)
+  .max(200)
+  .required()
+  .messages({
+    'string.empty': 'Search value cannot be empty',
+    'string.min': 'Search value is too short',
+    'string.max': 'Search value is too long',
+    'any.required': 'Search value is required'
+  });
+
+const searchModeSchema = Joi.string()
+  .valid('quick', 'full')
+  .optional()
+  .messages({
+    'any.only': 'mode must be one of: quick, full'
+  });
+
+// Identifiers one batch search may hold
+export const MAX_BATCH_IDENTIFIERS = parseInt(process.env.SEARCH_BATCH_MAX_IDENTIFIERS || '5', 10);
+
+// Bots come from config/bots.json and can change on reload, so ids are checked when the request arrives
+const botIdSchema = Joi.string().custom((botId: string, helpers) =>
+  ApiManagerService.getInstance().hasBot(botId) ? botId : helpers.error('any.only')
+);
 
 // Search request validation schema
 const searchRequestSchema = Joi.object({
-  type: Joi.string()
-    .valid('phone', 'email', 'inn', 'snils', 'passport')
-    .required()
-    .messages({
-      'any.required': 'Search type is required',
-      'any.only': 'Search type must be one of: phone, email, inn, snils, passport'
-    }),
+  type: searchTypeSchema,
   
-  value: Joi.string()
-    .trim()
-    .min(1)
-    .max(100)
-    .required()
-    .messages({
-      'string.empty': 'Search value cannot be empty',
-      'string.min': 'Search value is too short',
-      'string.max': 'Search value is too long',
-      'any.required': 'Search value is required'
-    }),
+  value: searchValueSchema,
 
   botIds: Joi.array()
-    .items(Joi.string().valid('dyxless', 'itp', 'leak_osint', 'userbox', 'vektor'))
+    .items(botIdSchema)
     .optional()
     .messages({
       'array.base': 'botIds must be an array',
       'any.only': 'Invalid bot ID provided'
-    })
+    }),
+
+  stream: Joi.boolean()
+    .optional()
+    .messages({
+      'boolean.base': 'stream must be a boolean'
+    }),
+
+  mode: searchModeSchema
+});
+
+// Batch search request validation schema
+const batchSearchRequestSchema = Joi.object({
+  identifiers: Joi.array()
+    .items(Joi.object({ type: searchTypeSchema, value: searchValueSchema }))
+    .min(1)
+    .max(MAX_BATCH_IDENTIFIERS)
+    .unique((a, b) => a.type === b.type && a.value === b.value)
+    .required()
+    .messages({
+      'array.base': 'identifiers must be an array',
+      'array.min': 'At least one identifier is required',
+      'array.max': `A batch search can hold at most ${MAX_BATCH_IDENTIFIERS} identifiers`,
+      'array.unique': 'Identifiers must not repeat',
+      'any.required': 'identifiers is required'
+    }),
+
+  mode: searchModeSchema
 });
 
 // Specific validation functions for different search types
@@ -67,6 +117,57 @@ const validatePassport = (value: string): boolean => {
   return /^\d{4}\s?\d{6}$/.test(value);
 };
 
+/**
+ * Check a search value against the format of its type. Names, addresses,
+ * vehicles and Telegram accounts are normalized before searching (e.g. plates
+ * to Cyrillic, usernames without @), so the value to search is returned too.
+ */
+const checkSearchValueFormat = (
+  type: SearchType,
+  searchValue: string
+): { isValid: boolean; error: string; value: string } => {
+  switch (type) {
+    case 'phone':
+      return {
+        isValid: validatePhone(searchValue),
+        error: 'Invalid phone number format. Expected: 7-15 digits with optional formatting',
+        value: searchValue
+      };
+    case 'email':
+      return {
+        isValid: validateEmail(searchValue),
+        error: 'Invalid email format. Expected: user@domain.com',
+        value: searchValue
+      };
+    case 'inn':
+      return {
+        isValid: validateINN(searchValue),
+        error: 'Invalid INN format. Expected: 10 or 12 digits',
+        value: searchValue
+      };
+    case 'snils':
+      return {
+        isValid: validateSNILS(searchValue),
+        error: 'Invalid SNILS format. Expected: 11 digits with optional formatting',
+        value: searchValue
+      };
+    case 'passport':
+      return {
+        isValid: validatePassport(searchValue),
+        error: 'Invalid passport format. Expected: 4 digits + space + 6 digits (e.g., 1234 567890)',
+        value: searchValue
+      };
+    default: {
+      const result = ValidationService.getInstance().validate(searchValue, type);
+      return {
+        isValid: result.isValid,
+        error: result.errors[0]?.message || 'Invalid format',
+        value: result.isValid && result.sanitizedValue ? result.sanitizedValue : searchValue
+      };
+    }
+  }
+};
+
 /**
  * Middleware to validate search requests
  */
@@ -105,31 +206,7 @@ export const validateSearchRequest = (req: Request, res: Response, next: NextFun
 
     // Now validate the specific format based on type
     const { type, value: searchValue } = value;
-    let isValidFormat = true;
-    let formatError = '';
-
-    switch (type) {
-      case 'phone':
-        isValidFormat = validatePhone(searchValue);
-        formatError = 'Invalid phone number format. Expected: 7-15 digits with optional formatting';
-        break;
-      case 'email':
-        isValidFormat = validateEmail(searchValue);
-        formatError = 'Invalid email format. Expected: user@domain.com';
-        break;
-      case 'inn':
-        isValidFormat = validateINN(searchValue);
-        formatError = 'Invalid INN format. Expected: 10 or 12 digits';
-        break;
-      case 'snils':
-        isValidFormat = validateSNILS(searchValue);
-        formatError = 'Invalid SNILS format. Expected: 11 digits with optional formatting';
-        break;
-      case 'passport':
-        isValidFormat = validatePassport(searchValue);
-        formatError = 'Invalid passport format. Expected: 4 digits + space + 6 digits (e.g., 1234 567890)';
-        break;
-    }
+    const { isValid: isValidFormat, error: formatError, value: formattedValue } = checkSearchValueFormat(type, searchValue);
 
     if (!isValidFormat) {
       logger.warn('Format validation failed', {
@@ -152,6 +229,7 @@ export const validateSearchRequest = (req: Request, res: Response, next: NextFun
     }
 
     // If validation passes, attach the validated data to request
+    value.value = formattedValue;
     req.body = value;
     next();
 
@@ -175,6 +253,88 @@ export const validateSearchRequest = (req: Request, res: Response, next: NextFun
   }
 };
 
+/**
+ * Middleware to validate batch search requests: every identifier is checked
+ * like a single search
+ */
+export const validateBatchSearchRequest = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const { error, value } = batchSearchRequestSchema.validate(req.body, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+
+    if (error) {
+      const validationErrors = error.details.map(detail => ({
+        field: detail.path.join('.'),
+        message: detail.message,
+        value: detail.context?.value
+      }));
+
+      logger.warn('Batch validation failed', {
+        errors: validationErrors,
+        ip: req.ip
+      });
+
+      res.status(400).json({
+        success: false,
+        error: {
+          message: 'Validation failed',
+          code: 400,
+          type: 'VALIDATION_ERROR',
+          details: validationErrors
+        }
+      });
+      return;
+    }
+
+    for (const [index, identifier] of (value.identifiers as Array<{ type: SearchType; value: string }>).entries()) {
+      const format = checkSearchValueFormat(identifier.type, identifier.value);
+
+      if (!format.isValid) {
+        logger.warn('Batch format validation failed', {
+          type: identifier.type,
+          index,
+          formatError: format.error,
+          ip: req.ip
+        });
+
+        res.status(400).json({
+          success: false,
+          error: {
+            message: format.error,
+            code: 400,
+            type: 'FORMAT_VALIDATION_ERROR',
+            searchType: identifier.type,
+            field: `identifiers.${index}.value`
+          }
+        });
+        return;
+      }
+
+      identifier.value = format.value;
+    }
+
+    req.body = value;
+    next();
+
+  } catch (error) {
+    logger.error('Batch validation middleware error', {
+      error: error instanceof Error ? error.message : 'Unknown validation error',
+      ip: req.ip
+    });
+
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Internal validation error',
+        code: 500,
+        type: 'VALIDATION_MIDDLEWARE_ERROR'
+      }
+    });
+  }
+};
+
 /**
  * Generic validation middleware factory
  */
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for person record normalizers
+ */
+
+import {
+  normalizeBotRecords,
+  personRecordToFoundData,
+  normalizePhone,
+  extractLeakDate,
+  lookupField
+} from '../index';
+
+describe('Person record normalizers', () => {
+  describe('field dictionary', () => {
+    it('should resolve Russian and English keys to the same field', () => {
+      expect(lookupField('Телефон')?.field).toBe('phone');
+      expect(lookupField('phone_number')?.field).toBe('phone');
+      expect(lookupField('Дата рождения')?.field).toBe('birth_date');
+      expect(lookupField('ИНН')?.documentType).toBe('inn');
+      expect(lookupField('unknown_key')).toBeUndefined();
+    });
+  });
+
+  describe('value normalization', () => {
+    it('should normalize Russian phone numbers', () => {
+      expect(normalizePhone('8 (912) 345-67-89')).toBe('+79123456789');
+      expect(normalizePhone('+7 912 345 67 89')).toBe('+79123456789');
+      expect(normalizePhone('9123456789')).toBe('+79123456789');
+    });
+
+    it('should extract leak dates from descriptions', () => {
+      expect(extractLeakDate('Утечка от 15.03.2021')).toBe('2021-03-15');
+      expect(extractLeakDate('Leaked 2022-07')).toBe('2022-07');
+      expect(extractLeakDate('База клиентов 2019 года')).toBe('2019');
+      expect(extractLeakDate('нет даты')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeBotRecords', () => {
+    it('should normalize ITP records with source database', () => {
+      const [record] = normalizeBotRecords('itp', [{
+        'ФИО': 'Иванов Иван Иванович',
+        'Телефон': '89123456789',
+        'Email': 'Ivan@Example.com',
+        source_database: 'delivery_2021'
+      }]);
+
+      expect(record.names).toEqual(['Иванов Иван Иванович']);
+      expect(record.phones).toEqual(['+79123456789']);
+      expect(record.emails).toEqual(['ivan@example.com']);
+      expect(record.sourceDatabase).toBe('delivery_2021');
+    });
+
+    it('should take leak date from LeakOsint InfoLeak', () => {
+      const [record] = normalizeBotRecords('leak_osint', [{
+        FullName: 'Petrov Petr',
+        Passport: '4510 123456',
+        source_database: 'Gibdd',
+        info_leak: 'Данные утекли 01.02.2020'
+      }]);
+
+      expect(record.documents).toEqual([{ type: 'passport', value: '4510123456' }]);
+      expect(record.leakDate).toBe('2020-02-01');
+      expect(record.sourceDatabase).toBe('Gibdd');
+    });
+
+    it('should compose names from separate parts and flatten nested objects', () => {
+      const [record] = normalizeBotRecords('userbox', [{
+        _id: 'abc',
+        'фамилия': 'Сидоров',
+        'имя': 'Сидор',
+        contacts: { phone: ['79001112233', '79001112233'] },
+        source_database: 'vk/users',
+        source_info: { database: 'vk', collection: 'users' }
+      }]);
+
+      expect(record.names).toEqual(['Сидоров Сидор']);
+      expect(record.phones).toEqual(['+79001112233']);
+      expect(record.other).toEqual([]);
+    });
+
+    it('should keep unknown fields as other attributes', () => {
+      const [record] = normalizeBotRecords('vektor', [{ database: 'shop', 'Сумма заказа': 1500, record_index: 0 }]);
+
+      expect(record.sourceDatabase).toBe('shop');
+      expect(record.other).toEqual([{ field: 'Сумма заказа', value: '1500' }]);
+    });
+
+    it('should accept field/value pairs', () => {
+      const [record] = normalizeBotRecords('dyxless', [{ fieldName: 'email', fieldValue: 'test@example.com' }]);
+
+      expect(record.emails).toEqual(['test@example.com']);
+    });
+  });
+
+  describe('personRecordToFoundData', () => {
+    it('should produce categorized found data items', () => {
+      const [record] = normalizeBotRecords('leak_osint', [{
+        Phone: '79123456789',
+        'Адрес': 'Москва, ул. Ленина, 1',
+        source_database: 'Shop',
+        info_leak: '2021'
+      }]);
+
+      expect(personRecordToFoundData(record)).toEqual([
+        { field: 'phone', value: '+79123456789', category: 'phone', source: 'Shop', leakDate: '2021' },
+        { field: 'address', value: 'Москва, ул. Ленина, 1', category: 'address', source: 'Shop', leakDate: '2021' }
+      ]);
+    });
+  });
+});
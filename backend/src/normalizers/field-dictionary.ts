@@ -0,0 +1,150 @@
+/**
+ * Field Dictionary
+ * Maps upstream field names (Russian and English) to canonical person fields
+ */
+
+import { FieldDefinition } from '../types/person';
+
+const NAME: FieldDefinition = { category: 'name', field: 'full_name' };
+const LAST_NAME: FieldDefinition = { category: 'name', field: 'full_name', namePart: 'last' };
+const FIRST_NAME: FieldDefinition = { category: 'name', field: 'full_name', namePart: 'first' };
+const MIDDLE_NAME: FieldDefinition = { category: 'name', field: 'full_name', namePart: 'middle' };
+const PHONE: FieldDefinition = { category: 'phone', field: 'phone' };
+const EMAIL: FieldDefinition = { category: 'email', field: 'email' };
+const ADDRESS: FieldDefinition = { category: 'address', field: 'address' };
+const PASSPORT: FieldDefinition = { category: 'document', field: 'passport', documentType: 'passport' };
+const INN: FieldDefinition = { category: 'document', field: 'inn', documentType: 'inn' };
+const SNILS: FieldDefinition = { category: 'document', field: 'snils', documentType: 'snils' };
+const DRIVER_LICENSE: FieldDefinition = { category: 'document', field: 'driver_license', documentType: 'driver_license' };
+const BIRTH_DATE: FieldDefinition = { category: 'date', field: 'birth_date', dateType: 'birth' };
+const PLATE_NUMBER: FieldDefinition = { category: 'vehicle', field: 'plate_number', vehicleType: 'plate_number' };
+const VIN: FieldDefinition = { category: 'vehicle', field: 'vin', vehicleType: 'vin' };
+const SOCIAL: FieldDefinition = { category: 'social', field: 'social_account' };
+const RELATIVES: FieldDefinition = { category: 'other', field: 'relatives' };
+
+export const FIELD_DICTIONARY: Record<string, FieldDefinition> = {
+  // Names
+  name: NAME,
+  full_name: NAME,
+  fullname: NAME,
+  fio: NAME,
+  'фио': NAME,
+  'имя_полностью': NAME,
+  'полное_имя': NAME,
+  last_name: LAST_NAME,
+  lastname: LAST_NAME,
+  surname: LAST_NAME,
+  'фамилия': LAST_NAME,
+  first_name: FIRST_NAME,
+  firstname: FIRST_NAME,
+  'имя': FIRST_NAME,
+  middle_name: MIDDLE_NAME,
+  middlename: MIDDLE_NAME,
+  patronymic: MIDDLE_NAME,
+  'отчество': MIDDLE_NAME,
+
+  // Phones
+  phone: PHONE,
+  phone_number: PHONE,
+  phonenumber: PHONE,
+  mobile: PHONE,
+  mobile_phone: PHONE,
+  tel: PHONE,
+  telephone: PHONE,
+  'телефон': PHONE,
+  'номер_телефона': PHONE,
+  'мобильный_телефон': PHONE,
+  'моб_телефон': PHONE,
+
+  // Emails
+  email: EMAIL,
+  e_mail: EMAIL,
+  mail: EMAIL,
+  'почта': EMAIL,
+  'емейл': EMAIL,
+  'электронная_почта': EMAIL,
+
+  // Addresses
+  address: ADDRESS,
+  full_address: ADDRESS,
+  registration_address: ADDRESS,
+  'адрес': ADDRESS,
+  'адрес_регистрации': ADDRESS,
+  'адрес_проживания': ADDRESS,
+  'адрес_доставки': ADDRESS,
+
+  // Documents
+  passport: PASSPORT,
+  passport_number: PASSPORT,
+  'паспорт': PASSPORT,
+  'серия_и_номер_паспорта': PASSPORT,
+  'номер_паспорта': PASSPORT,
+  inn: INN,
+  'инн': INN,
+  snils: SNILS,
+  'снилс': SNILS,
+  driver_license: DRIVER_LICENSE,
+  'водительское_удостоверение': DRIVER_LICENSE,
+  'ву': DRIVER_LICENSE,
+
+  // Dates
+  birth_date: BIRTH_DATE,
+  birthdate: BIRTH_DATE,
+  birthday: BIRTH_DATE,
+  date_of_birth: BIRTH_DATE,
+  dob: BIRTH_DATE,
+  'дата_рождения': BIRTH_DATE,
+  'др': BIRTH_DATE,
+
+  // Vehicles
+  plate_number: PLATE_NUMBER,
+  car_number: PLATE_NUMBER,
+  'госномер': PLATE_NUMBER,
+  'гос_номер': PLATE_NUMBER,
+  'номер_автомобиля': PLATE_NUMBER,
+  'номер_авто': PLATE_NUMBER,
+  license_plate: PLATE_NUMBER,
+  vin: VIN,
+  vin_code: VIN,
+  'вин': VIN,
+
+  // Social accounts
+  telegram: SOCIAL,
+  telegram_id: SOCIAL,
+  tg_id: SOCIAL,
+  telegram_username: SOCIAL,
+  username: SOCIAL,
+  nickname: SOCIAL,
+  vk: SOCIAL,
+  'ник': SOCIAL,
+
+  // Relatives
+  relatives: RELATIVES,
+  relative: RELATIVES,
+  'родственники': RELATIVES,
+  'родственник': RELATIVES
+};
+
+// Upstream metadata keys that describe where a record came from rather than the person
+export const SOURCE_DATABASE_KEYS = ['source_database', 'database', 'source', 'base', 'источник', 'база'];
+export const LEAK_DATE_KEYS = ['leak_date', 'info_leak', 'дата_утечки', 'утечка'];
+export const IGNORED_KEYS = ['source_info', 'record_index', '_id', 'id', '_score'];
+
+/**
+ * Normalize an upstream key for dictionary lookup
+ */
+export function normalizeFieldKey(key: string): string {
+  return key
+    .trim()
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[\s\-.]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Look up the canonical definition of an upstream field name
+ */
+export function lookupField(key: string): FieldDefinition | undefined {
+  return FIELD_DICTIONARY[normalizeFieldKey(key)];
+}
@@ -0,0 +1,56 @@
+/**
+ * Normalizers Index
+ * Per-client record normalizers keyed by bot id
+ */
+
+import { PersonRecord } from '../types/person';
+import { createRecordNormalizer, RecordNormalizer } from './person-record.normalizer';
+
+// Each client tags records with its own metadata keys (see clients/*.transformResponseData)
+const clientNormalizers: Record<string, RecordNormalizer> = {
+  dyxless: createRecordNormalizer('dyxless'),
+  itp: createRecordNormalizer('itp', {
+    sourceKeys: ['source_database']
+  }),
+  leak_osint: createRecordNormalizer('leak_osint', {
+    sourceKeys: ['source_database'],
+    leakDateKeys: ['info_leak']
+  }),
+  userbox: createRecordNormalizer('userbox', {
+    sourceKeys: ['source_database'],
+    ignoredKeys: ['source_info', '_id', '_score']
+  }),
+  vektor: createRecordNormalizer('vektor', {
+    sourceKeys: ['source_database', 'database'],
+    ignoredKeys: ['record_index']
+  })
+};
+
+/**
+ * Get the normalizer for a bot, falling back to the generic dictionary-based one
+ */
+export function getRecordNormalizer(botId: string): RecordNormalizer {
+  if (!clientNormalizers[botId]) {
+    clientNormalizers[botId] = createRecordNormalizer(botId);
+  }
+  return clientNormalizers[botId];
+}
+
+/**
+ * Normalize all raw records returned by a bot
+ */
+export function normalizeBotRecords(botId: string, records: unknown[]): PersonRecord[] {
+  const normalize = getRecordNormalizer(botId);
+  return records.map(record => normalize(record));
+}
+
+export {
+  createRecordNormalizer,
+  personRecordToFoundData,
+  normalizePhone,
+  normalizeEmail,
+  extractLeakDate
+} from './person-record.normalizer';
+export { FIELD_DICTIONARY, lookupField, normalizeFieldKey } from './field-dictionary';
+
+export type { RecordNormalizer, RecordNormalizerOptions } from './person-record.normalizer';
@@ -0,0 +1,262 @@
+/**
+ * Person Record Normalizer
+ * Converts raw upstream records into canonical PersonRecord objects
+ */
+
+import { FoundDataItem } from '../types/search';
+import { PersonRecord, FieldDefinition } from '../types/person';
+import {
+  lookupField,
+  normalizeFieldKey,
+  SOURCE_DATABASE_KEYS,
+  LEAK_DATE_KEYS,
+  IGNORED_KEYS
+} from './field-dictionary';
+
+export interface RecordNormalizerOptions {
+  // Keys holding the upstream database name, checked in order
+  sourceKeys?: string[];
+  // Keys holding the leak date or a leak description containing a date
+  leakDateKeys?: string[];
+  // Keys dropped from the record entirely
+  ignoredKeys?: string[];
+}
+
+export type RecordNormalizer = (raw: unknown) => PersonRecord;
+
+const MAX_NESTING_DEPTH = 2;
+
+/**
+ * Normalize a phone number to +7XXXXXXXXXX for Russian numbers, digits otherwise
+ */
+export function normalizePhone(value: string): string {
+  const digits = value.replace(/\D/g, '');
+
+  if (digits.length === 11 && (digits.startsWith('7') || digits.startsWith('8'))) {
+    return `+7${digits.slice(1)}`;
+  }
+  if (digits.length === 10 && digits.startsWith('9')) {
+    return `+7${digits}`;
+  }
+
+  return digits.length > 0 ? `+${digits}` : value.trim();
+}
+
+export function normalizeEmail(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export function normalizeText(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Extract a date (YYYY-MM-DD, YYYY-MM or YYYY) from a leak description
+ */
+export function extractLeakDate(text: string): string | undefined {
+  const dotted = text.match(/\b(\d{2})\.(\d{2})\.(\d{4})\b/);
+  if (dotted) {
+    return `${dotted[3]}-${dotted[2]}-${dotted[1]}`;
+  }
+
+  const iso = text.match(/\b(\d{4})-(\d{2})(?:-(\d{2}))?\b/);
+  if (iso) {
+    return iso[3] ? `${iso[1]}-${iso[2]}-${iso[3]}` : `${iso[1]}-${iso[2]}`;
+  }
+
+  const year = text.match(/\b(19\d{2}|20\d{2})\b/);
+  return year ? year[1] : undefined;
+}
+
+export function createEmptyPersonRecord(botId: string): PersonRecord {
+  return {
+    botId,
+    names: [],
+    phones: [],
+    emails: [],
+    addresses: [],
+    documents: [],
+    dates: [],
+    vehicles: [],
+    socialAccounts: [],
+    other: []
+  };
+}
+
+function pushUnique<T>(list: T[], item: T, isSame: (a: T, b: T) => boolean): void {
+  if (!list.some(existing => isSame(existing, item))) {
+    list.push(item);
+  }
+}
+
+function toPrimitiveStrings(value: unknown): string[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(toPrimitiveStrings);
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    const text = normalizeText(String(value));
+    return text.length > 0 ? [text] : [];
+  }
+  return [];
+}
+
+/**
+ * Turn `{ fieldName, fieldValue }` / `{ field, value }` pairs into plain records
+ */
+function unwrapFieldPair(raw: Record<string, any>): Record<string, any> {
+  const field = raw.fieldName ?? raw.field;
+  const value = raw.fieldValue ?? raw.value;
+
+  if (typeof field === 'string' && value !== undefined && Object.keys(raw).length <= 4) {
+    return { [field]: value };
+  }
+
+  return raw;
+}
+
+function applyField(
+  record: PersonRecord,
+  definition: FieldDefinition,
+  value: string,
+  nameParts: Record<string, string>
+): void {
+  switch (definition.category) {
+    case 'name':
+      if (definition.namePart) {
+        nameParts[definition.namePart] = value;
+      } else {
+        pushUnique(record.names, value, (a, b) => a.toLowerCase() === b.toLowerCase());
+      }
+      break;
+    case 'phone':
+      pushUnique(record.phones, normalizePhone(value), (a, b) => a === b);
+      break;
+    case 'email':
+      pushUnique(record.emails, normalizeEmail(value), (a, b) => a === b);
+      break;
+    case 'address':
+      pushUnique(record.addresses, value, (a, b) => a.toLowerCase() === b.toLowerCase());
+      break;
+    case 'document':
+      pushUnique(
+        record.documents,
+        { type: definition.documentType || 'other', value: value.replace(/[\s-]/g, '') },
+        (a, b) => a.type === b.type && a.value === b.value
+      );
+      break;
+    case 'date':
+      pushUnique(record.dates, { type: definition.dateType || 'other', value }, (a, b) => a.type === b.type && a.value === b.value);
+      break;
+    case 'vehicle':
+      pushUnique(
+        record.vehicles,
+        { type: definition.vehicleType || 'plate_number', value: value.replace(/\s/g, '').toUpperCase() },
+        (a, b) => a.type === b.type && a.value === b.value
+      );
+      break;
+    case 'social':
+      pushUnique(record.socialAccounts, value, (a, b) => a === b);
+      break;
+    default:
+      record.other.push({ field: definition.field, value });
+  }
+}
+
+/**
+ * Create a normalizer for one client's record layout
+ */
+export function createRecordNormalizer(botId: string, options: RecordNormalizerOptions = {}): RecordNormalizer {
+  const sourceKeys = (options.sourceKeys || SOURCE_DATABASE_KEYS).map(normalizeFieldKey);
+  const leakDateKeys = (options.leakDateKeys || LEAK_DATE_KEYS).map(normalizeFieldKey);
+  const ignoredKeys = new Set((options.ignoredKeys || IGNORED_KEYS).map(normalizeFieldKey));
+
+  return (raw: unknown): PersonRecord => {
+    const record = createEmptyPersonRecord(botId);
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      toPrimitiveStrings(raw).forEach(value => record.other.push({ field: 'value', value }));
+      return record;
+    }
+
+    const nameParts: Record<string, string> = {};
+
+    const visit = (source: Record<string, any>, depth: number) => {
+      Object.entries(unwrapFieldPair(source)).forEach(([key, value]) => {
+        const normalizedKey = normalizeFieldKey(key);
+
+        if (ignoredKeys.has(normalizedKey)) {
+          return;
+        }
+
+        if (sourceKeys.includes(normalizedKey) && typeof value === 'string') {
+          record.sourceDatabase = record.sourceDatabase || normalizeText(value);
+          return;
+        }
+
+        if (leakDateKeys.includes(normalizedKey) && typeof value === 'string') {
+          record.leakDate = record.leakDate || extractLeakDate(value);
+          return;
+        }
+
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+          if (depth < MAX_NESTING_DEPTH) {
+            visit(value, depth + 1);
+          }
+          return;
+        }
+
+        const definition = lookupField(key);
+        toPrimitiveStrings(value).forEach(text => {
+          if (definition) {
+            applyField(record, definition, text, nameParts);
+          } else {
+            record.other.push({ field: key, value: text });
+          }
+        });
+      });
+    };
+
+    visit(raw as Record<string, any>, 0);
+
+    const composedName = [nameParts.last, nameParts.first, nameParts.middle].filter(Boolean).join(' ');
+    if (composedName) {
+      pushUnique(record.names, composedName, (a, b) => a.toLowerCase() === b.toLowerCase());
+    }
+
+    return record;
+  };
+}
+
+/**
+ * Flatten a PersonRecord into FoundDataItem entries with categories
+ */
+export function personRecordToFoundData(record: PersonRecord): FoundDataItem[] {
+  const source = record.sourceDatabase || record.botId;
+  const items: FoundDataItem[] = [];
+
+  record.names.forEach(value => items.push({ field: 'full_name', value, category: 'name', source }));
+  record.phones.forEach(value => items.push({ field: 'phone', value, category: 'phone', source }));
+  record.emails.forEach(value => items.push({ field: 'email', value, category: 'email', source }));
+  record.addresses.forEach(value => items.push({ field: 'address', value, category: 'address', source }));
+  record.documents.forEach(doc => items.push({ field: doc.type, value: doc.value, category: 'document', source }));
+  record.dates.forEach(date => items.push({
+    field: date.type === 'birth' ? 'birth_date' : 'date',
+    value: date.value,
+    category: 'date',
+    source
+  }));
+  record.vehicles.forEach(vehicle => items.push({ field: vehicle.type, value: vehicle.value, category: 'vehicle', source }));
+  record.socialAccounts.forEach(value => items.push({ field: 'social_account', value, category: 'social', source }));
+  record.other.forEach(attr => items.push({ field: attr.field, value: attr.value, category: 'other', source }));
+
+  if (record.leakDate) {
+    items.forEach(item => {
+      item.leakDate = record.leakDate;
+    });
+  }
+
+  return items;
+}
@@ -0,0 +1,54 @@
+/**
+ * Transliteration Utilities
+ * Cyrillic → Latin transliteration used to compare names across bots
+ */
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh',
+  'з': 'z', 'и': 'i', 'й': 'i', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o',
+  'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts',
+  'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'iu',
+  'я': 'ia'
+};
+
+// Latin spellings that commonly appear for the same Cyrillic sound
+const LATIN_VARIANTS: Array<[RegExp, string]> = [
+  [/yu/g, 'iu'],
+  [/ya/g, 'ia'],
+  [/yo/g, 'e'],
+  [/(?<![ck])h/g, 'kh'],
+  [/kkh/g, 'kh'],
+  [/iy\b/g, 'i'],
+  [/y\b/g, 'i'],
+  [/ii\b/g, 'i'],
+  [/x/g, 'ks']
+];
+
+/**
+ * Transliterate Cyrillic text to lowercase Latin
+ */
+export function transliterate(text: string): string {
+  return text
+    .toLowerCase()
+    .split('')
+    .map(char => CYRILLIC_TO_LATIN[char] ?? char)
+    .join('');
+}
+
+/**
+ * Build a comparison key for a person name: transliterated, variant-folded
+ * and with tokens sorted so that word order does not matter
+ */
+export function nameComparisonKey(name: string): string {
+  let latin = transliterate(name).replace(/[^a-z\s]/g, ' ');
+
+  for (const [pattern, replacement] of LATIN_VARIANTS) {
+    latin = latin.replace(pattern, replacement);
+  }
+
+  return latin
+    .split(/\s+/)
+    .filter(token => token.length > 0)
+    .sort()
+    .join(' ');
+}
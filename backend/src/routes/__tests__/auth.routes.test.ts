@@ -0,0 +1,158 @@
+/**
+ * Tests for Auth Routes and ownership checks on user-scoped routes
+ */
+
+import request from 'supertest';
+import express from 'express';
+import authRoutes from '../auth.routes';
+import tariffsRoutes from '../tariffs.routes';
+
+jest.mock('../../utils/logger');
+
+describe('Auth Routes', () => {
+  let app: express.Application;
+  let emailCounter = 0;
+  const nextEmail = () => `route-user${++emailCounter}@example.com`;
+
+  const register = async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ email: nextEmail(), password: 'password123' });
+    return response.body.data as {
+      user: { id: string; email: string };
+      tokens: { accessToken: string; refreshToken: string };
+    };
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/auth', authRoutes);
+    app.use('/api/tariffs', tariffsRoutes);
+  });
+
+  describe('POST /api/auth/register', () => {
+    it('should create an account', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email: nextEmail(), password: 'password123' })
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.tokens.accessToken).toBeDefined();
+    });
+
+    it('should return 400 for invalid input', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'invalid', password: 'password123' })
+        .expect(400);
+
+      expect(response.body.error.type).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('should return 401 for wrong credentials', async () => {
+      const { user } = await register();
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: user.email, password: 'wrong-password' })
+        .expect(401);
+
+      expect(response.body.error.type).toBe('INVALID_CREDENTIALS');
+    });
+
+    it('should return 400 for non-string credentials', async () => {
+      const { user } = await register();
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: user.email, password: { length: 12 } })
+        .expect(400);
+
+      expect(response.body.error.type).toBe('VALIDATION_ERROR');
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: ['a@example.com'], password: 'password123' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should issue a new token pair', async () => {
+      const { tokens } = await register();
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: tokens.refreshToken })
+        .expect(200);
+
+      expect(response.body.data.tokens.refreshToken).not.toBe(tokens.refreshToken);
+    });
+
+    it('should require a refresh token', async () => {
+      await request(app).post('/api/auth/refresh').send({}).expect(400);
+    });
+  });
+
+  describe('GET /api/auth/me', () => {
+    it('should return the current user', async () => {
+      const { user, tokens } = await register();
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${tokens.accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.user.id).toBe(user.id);
+    });
+
+    it('should require a token', async () => {
+      const response = await request(app).get('/api/auth/me').expect(401);
+      expect(response.body.error.type).toBe('AUTHENTICATION_ERROR');
+    });
+  });
+
+  describe('Ownership checks', () => {
+    it('should let users read their own subscription', async () => {
+      const { user, tokens } = await register();
+
+      const response = await request(app)
+        .get(`/api/tariffs/user/${user.id}/subscription`)
+        .set('Authorization', `Bearer ${tokens.accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.subscription.userId).toBe(user.id);
+    });
+
+    it('should forbid reading another user\'s subscription', async () => {
+      const owner = await register();
+      const other = await register();
+
+      const response = await request(app)
+        .get(`/api/tariffs/user/${owner.user.id}/subscription`)
+        .set('Authorization', `Bearer ${other.tokens.accessToken}`)
+        .expect(403);
+
+      expect(response.body.error.type).toBe('AUTHORIZATION_ERROR');
+    });
+
+    it('should reject anonymous subscription requests', async () => {
+      await request(app).get('/api/tariffs/user/user_1/subscription').expect(401);
+      await request(app).post('/api/tariffs/subscribe').send({ planId: 'basic', userId: 'user_1' }).expect(401);
+    });
+
+    it('should forbid subscribing on behalf of another user', async () => {
+      const { tokens } = await register();
+
+      await request(app)
+        .post('/api/tariffs/subscribe')
+        .set('Authorization', `Bearer ${tokens.accessToken}`)
+        .send({ planId: 'basic', userId: 'someone-else' })
+        .expect(403);
+    });
+  });
+});
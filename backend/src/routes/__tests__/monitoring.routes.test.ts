@@ -0,0 +1,77 @@
+/**
+ * Tests for Monitoring Routes
+ */
+
+import request from 'supertest';
+import express from 'express';
+import monitoringRoutes from '../monitoring.routes';
+import { authService } from '../../services/auth.service';
+import { providerBalanceService } from '../../services/provider-balance.service';
+
+jest.mock('../../utils/logger');
+
+describe('Monitoring Routes', () => {
+  let app: express.Application;
+  let emailCounter = 0;
+  const originalAdminEmails = process.env.ADMIN_EMAILS;
+
+  const signIn = async (email = `monitoring${++emailCounter}@example.com`) => {
+    const { tokens } = await authService.register(email, 'password123');
+    return `Bearer ${tokens.accessToken}`;
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/monitoring', monitoringRoutes);
+  });
+
+  beforeEach(() => {
+    process.env.ADMIN_EMAILS = 'ops@example.com';
+  });
+
+  afterEach(() => {
+    process.env.ADMIN_EMAILS = originalAdminEmails;
+    jest.restoreAllMocks();
+  });
+
+  it('should require authentication for costs and balances', async () => {
+    await request(app).get('/api/monitoring/costs?entries=true').expect(401);
+    await request(app).get('/api/monitoring/balances').expect(401);
+  });
+
+  it('should refuse costs and balances to non-admin users', async () => {
+    const pollBalances = jest.spyOn(providerBalanceService, 'pollBalances');
+    const authorization = await signIn();
+
+    const costs = await request(app)
+      .get('/api/monitoring/costs?entries=true')
+      .set('Authorization', authorization)
+      .expect(403);
+    await request(app)
+      .get('/api/monitoring/balances?refresh=true')
+      .set('Authorization', authorization)
+      .expect(403);
+
+    expect(costs.body.error.type).toBe('AUTHORIZATION_ERROR');
+    expect(costs.body.data).toBeUndefined();
+    expect(pollBalances).not.toHaveBeenCalled();
+  });
+
+  it('should serve costs and refreshed balances to admins', async () => {
+    const pollBalances = jest.spyOn(providerBalanceService, 'pollBalances').mockResolvedValue([]);
+    const authorization = await signIn('ops@example.com');
+
+    const costs = await request(app)
+      .get('/api/monitoring/costs?entries=true')
+      .set('Authorization', authorization)
+      .expect(200);
+    await request(app)
+      .get('/api/monitoring/balances?refresh=true')
+      .set('Authorization', authorization)
+      .expect(200);
+
+    expect(costs.body.entries).toEqual(expect.any(Array));
+    expect(pollBalances).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for Exposure Monitor Routes
+ */
+
+import request from 'supertest';
+import express from 'express';
+import monitorsRoutes from '../monitors.routes';
+import { authService } from '../../services/auth.service';
+import { tariffService } from '../../services/tariff.service';
+
+jest.mock('../../utils/logger');
+
+describe('Exposure Monitor Routes', () => {
+  let app: express.Application;
+  let emailCounter = 0;
+
+  const signIn = async (planId?: string) => {
+    const { user, tokens } = await authService.register(`monitors${++emailCounter}@example.com`, 'password123');
+
+    if (planId) {
+      const now = new Date();
+      await tariffService.saveSubscription({
+        userId: user.id,
+        planId,
+        status: 'active',
+        startDate: now,
+        endDate: new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000),
+        autoRenew: false
+      });
+    }
+
+    return `Bearer ${tokens.accessToken}`;
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/monitors', monitorsRoutes);
+  });
+
+  it('should require authentication', async () => {
+    await request(app).get('/api/monitors').expect(401);
+    await request(app).post('/api/monitors').send({ type: 'email', value: 'test@example.com' }).expect(401);
+  });
+
+  it('should refuse monitoring on the free plan', async () => {
+    const authorization = await signIn();
+
+    const response = await request(app)
+      .post('/api/monitors')
+      .set('Authorization', authorization)
+      .send({ type: 'email', value: 'test@example.com' })
+      .expect(403);
+
+    expect(response.body.error.type).toBe('MONITORING_NOT_AVAILABLE');
+  });
+
+  it('should create, list and delete monitors', async () => {
+    const authorization = await signIn('premium');
+
+    const created = await request(app)
+      .post('/api/monitors')
+      .set('Authorization', authorization)
+      .send({ type: 'email', value: 'test@example.com' })
+      .expect(201);
+
+    expect(created.body.data).toMatchObject({ searchType: 'email', maskedQuery: 'te***@example.com', status: 'pending' });
+    expect(created.body.data.request).toBeUndefined();
+
+    const list = await request(app).get('/api/monitors').set('Authorization', authorization).expect(200);
+    expect(list.body.data).toMatchObject({ intervalHours: 24, limit: 10 });
+    expect(list.body.data.monitors).toHaveLength(1);
+
+    await request(app).delete(`/api/monitors/${created.body.data.id}`).set('Authorization', authorization).expect(200);
+    await request(app).get(`/api/monitors/${created.body.data.id}`).set('Authorization', authorization).expect(404);
+  });
+
+  it('should validate the identifier', async () => {
+    const authorization = await signIn('premium');
+
+    await request(app)
+      .post('/api/monitors')
+      .set('Authorization', authorization)
+      .send({ type: 'phone', value: 'not a phone' })
+      .expect(400);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for Notifications Routes
+ */
+
+import request from 'supertest';
+import express from 'express';
+import notificationsRoutes from '../notifications.routes';
+import { authService } from '../../services/auth.service';
+import { notificationService } from '../../services/notification.service';
+
+jest.mock('../../utils/logger');
+
+describe('Notifications Routes', () => {
+  let app: express.Application;
+  let emailCounter = 0;
+
+  const signIn = async () => {
+    const { user, tokens } = await authService.register(`inbox${++emailCounter}@example.com`, 'password123');
+    return { userId: user.id, authorization: `Bearer ${tokens.accessToken}` };
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/notifications', notificationsRoutes);
+  });
+
+  it('should require authentication', async () => {
+    await request(app).get('/api/notifications').expect(401);
+  });
+
+  it('should list notifications with pagination', async () => {
+    const { userId, authorization } = await signIn();
+    for (let i = 0; i < 3; i++) {
+      await notificationService.createNotification(userId, 'info', {});
+    }
+
+    const response = await request(app)
+      .get('/api/notifications?limit=2&offset=0')
+      .set('Authorization', authorization)
+      .expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(response.body.data.notifications).toHaveLength(2);
+    expect(response.body.data.pagination).toEqual({ total: 3, unread: 3, limit: 2, offset: 0, hasMore: true });
+  });
+
+  it('should reject invalid list parameters', async () => {
+    const { authorization } = await signIn();
+
+    const response = await request(app)
+      .get('/api/notifications?limit=abc')
+      .set('Authorization', authorization)
+      .expect(400);
+
+    expect(response.body.error.type).toBe('VALIDATION_ERROR');
+  });
+
+  it('should mark notifications as read and report the unread count', async () => {
+    const { userId, authorization } = await signIn();
+    const first = (await notificationService.createNotification(userId, 'search_started', {}))!;
+    await notificationService.createNotification(userId, 'search_completed', {});
+
+    const read = await request(app)
+      .post(`/api/notifications/${first.id}/read`)
+      .set('Authorization', authorization)
+      .expect(200);
+    expect(read.body.data).toEqual({ notificationId: first.id, status: 'read' });
+
+    const count = await request(app)
+      .get('/api/notifications/unread/count')
+      .set('Authorization', authorization)
+      .expect(200);
+    expect(count.body.data.count).toBe(1);
+
+    const all = await request(app)
+      .post('/api/notifications/read-all')
+      .set('Authorization', authorization)
+      .expect(200);
+    expect(all.body.data.markedCount).toBe(1);
+
+    const unread = await request(app)
+      .get('/api/notifications?unread_only=true')
+      .set('Authorization', authorization)
+      .expect(200);
+    expect(unread.body.data.notifications).toHaveLength(0);
+  });
+
+  it('should delete only the caller\'s notifications', async () => {
+    const owner = await signIn();
+    const other = await signIn();
+    const notification = (await notificationService.createNotification(owner.userId, 'info', {}))!;
+
+    await request(app)
+      .delete(`/api/notifications/${notification.id}`)
+      .set('Authorization', other.authorization)
+      .expect(404);
+
+    await request(app)
+      .delete(`/api/notifications/${notification.id}`)
+      .set('Authorization', owner.authorization)
+      .expect(200);
+
+    expect((await notificationService.getUserNotifications(owner.userId)).total).toBe(0);
+  });
+
+  it('should read and update preferences', async () => {
+    const { userId, authorization } = await signIn();
+
+    const updated = await request(app)
+      .put('/api/notifications/preferences')
+      .set('Authorization', authorization)
+      .send({ types: { search_updates: false } })
+      .expect(200);
+    expect(updated.body.data.types.search_updates).toBe(false);
+    expect(updated.body.data.channels.in_app).toBe(true);
+
+    const fetched = await request(app)
+      .get('/api/notifications/preferences')
+      .set('Authorization', authorization)
+      .expect(200);
+    expect(fetched.body.data.types.search_updates).toBe(false);
+
+    expect(await notificationService.createNotification(userId, 'search_started', {})).toBeNull();
+
+    await request(app)
+      .put('/api/notifications/preferences')
+      .set('Authorization', authorization)
+      .send({ channels: { email: 'no' } })
+      .expect(400);
+  });
+
+  it('should manage push subscriptions', async () => {
+    const { authorization } = await signIn();
+    const endpoint = 'https://push.example.com/send/route-test';
+
+    const subscribed = await request(app)
+      .post('/api/notifications/push/subscribe')
+      .set('Authorization', authorization)
+      .send({ endpoint, keys: { p256dh: 'key', auth: 'auth' }, userAgent: 'Test' })
+      .expect(201);
+    expect(subscribed.body.data).toEqual({ subscribed: true, endpoint });
+
+    const unsubscribed = await request(app)
+      .post('/api/notifications/push/unsubscribe')
+      .set('Authorization', authorization)
+      .send({ endpoint })
+      .expect(200);
+    expect(unsubscribed.body.data).toEqual({ unsubscribed: true, endpoint });
+
+    await request(app)
+      .post('/api/notifications/push/subscribe')
+      .set('Authorization', authorization)
+      .send({ endpoint: 'not-a-url' })
+      .expect(400);
+  });
+
+  it('should create test notifications outside production', async () => {
+    const { authorization } = await signIn();
+
+    const response = await request(app)
+      .post('/api/notifications/test')
+      .set('Authorization', authorization)
+      .send({ type: 'warning', title: 'Проверка', message: 'Тестовое уведомление' })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({ type: 'warning', title: 'Проверка', status: 'pending' });
+  });
+});
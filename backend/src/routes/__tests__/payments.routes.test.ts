@@ -0,0 +1,144 @@
+/**
+ * Tests for Payments Routes: the full checkout flow against the local YooKassa mock
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import paymentsRoutes from '../payments.routes';
+import { authService } from '../../services/auth.service';
+import { tariffService } from '../../services/tariff.service';
+import { createYooKassaMockApp, YooKassaMock } from '../../dev/yookassa-mock.server';
+
+jest.mock('../../utils/logger');
+
+const WEBHOOK_SECRET = 'route-webhook-secret';
+
+describe('Payments Routes', () => {
+  let app: express.Application;
+  let mock: YooKassaMock;
+  let appServer: Server;
+  let mockServer: Server;
+  let emailCounter = 0;
+
+  const listen = (handler: express.Application) => new Promise<Server>(resolve => {
+    const server = handler.listen(0, '127.0.0.1', () => resolve(server));
+  });
+  const baseUrl = (server: Server) => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const signIn = async () => {
+    const { user, tokens } = await authService.register(`payer${++emailCounter}@example.com`, 'password123');
+    return { user, authorization: `Bearer ${tokens.accessToken}` };
+  };
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json({
+      verify: (req, _res, buf) => {
+        (req as express.Request).rawBody = buf;
+      }
+    }));
+    app.use('/api/payments', paymentsRoutes);
+    appServer = await listen(app);
+
+    mock = createYooKassaMockApp({
+      shopId: 'route-shop',
+      secretKey: 'route-secret',
+      webhookSecret: WEBHOOK_SECRET,
+      webhookUrl: `${baseUrl(appServer)}/api/payments/webhooks/yookassa`
+    });
+    mockServer = await listen(mock.app);
+
+    tariffService.configurePaymentProvider('yookassa', true, {
+      apiUrl: `${baseUrl(mockServer)}/v3`,
+      shopId: 'route-shop',
+      secretKey: 'route-secret',
+      returnUrl: 'http://localhost:3001/tariffs',
+      webhookSecret: WEBHOOK_SECRET
+    });
+  });
+
+  afterAll(async () => {
+    tariffService.configurePaymentProvider('yookassa', false);
+    await new Promise(resolve => appServer.close(resolve));
+    await new Promise(resolve => mockServer.close(resolve));
+  });
+
+  it('should activate the plan after checkout on the provider page', async () => {
+    const { user, authorization } = await signIn();
+
+    const created = await request(app)
+      .post('/api/payments')
+      .set('Authorization', authorization)
+      .send({ planId: 'basic' })
+      .expect(201);
+
+    const { payment } = created.body.data;
+    const checkoutUrl = new URL(payment.confirmationUrl);
+
+    const checkout = await request(mock.app)
+      .post(`${checkoutUrl.pathname}/succeeded`)
+      .expect(303);
+    expect(checkout.headers.location).toBe(`http://localhost:3001/tariffs?paymentId=${payment.id}`);
+
+    const status = await request(app)
+      .get(`/api/payments/${payment.id}`)
+      .set('Authorization', authorization)
+      .expect(200);
+
+    expect(status.body.data.payment.status).toBe('succeeded');
+    expect((await tariffService.getEffectivePlan(user.id)).id).toBe('basic');
+  });
+
+  it('should replay the response for a repeated Idempotency-Key', async () => {
+    const { authorization } = await signIn();
+
+    const first = await request(app)
+      .post('/api/payments')
+      .set('Authorization', authorization)
+      .set('Idempotency-Key', 'retry-me')
+      .send({ planId: 'premium' })
+      .expect(201);
+
+    const second = await request(app)
+      .post('/api/payments')
+      .set('Authorization', authorization)
+      .set('Idempotency-Key', 'retry-me')
+      .send({ planId: 'premium' })
+      .expect(200);
+
+    expect(second.body.data.payment.id).toBe(first.body.data.payment.id);
+  });
+
+  it('should require authentication to create payments', async () => {
+    await request(app).post('/api/payments').send({ planId: 'basic' }).expect(401);
+  });
+
+  it('should return 404 for another user\'s payment', async () => {
+    const owner = await signIn();
+    const other = await signIn();
+
+    const created = await request(app)
+      .post('/api/payments')
+      .set('Authorization', owner.authorization)
+      .send({ planId: 'basic' })
+      .expect(201);
+
+    const response = await request(app)
+      .get(`/api/payments/${created.body.data.payment.id}`)
+      .set('Authorization', other.authorization)
+      .expect(404);
+
+    expect(response.body.error.type).toBe('PAYMENT_NOT_FOUND');
+  });
+
+  it('should reject unsigned webhooks', async () => {
+    const response = await request(app)
+      .post('/api/payments/webhooks/yookassa')
+      .send({ type: 'notification', event: 'payment.succeeded', object: { id: 'forged' } })
+      .expect(401);
+
+    expect(response.body.error.type).toBe('INVALID_SIGNATURE');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for Removal Case Routes
+ */
+
+import request from 'supertest';
+import express from 'express';
+import removalCasesRoutes from '../removal-cases.routes';
+import { authService } from '../../services/auth.service';
+import { SearchService, AggregatedSearchResults } from '../../services/search.service';
+import { SearchStatus } from '../../types/search';
+
+jest.mock('../../utils/logger');
+
+describe('Removal Case Routes', () => {
+  let app: express.Application;
+  let emailCounter = 0;
+
+  const signIn = async () => {
+    const { tokens } = await authService.register(`removal-cases${++emailCounter}@example.com`, 'password123');
+    return `Bearer ${tokens.accessToken}`;
+  };
+
+  const openCase = (authorization: string, body: Record<string, unknown> = {}) =>
+    request(app)
+      .post('/api/removal-cases')
+      .set('Authorization', authorization)
+      .send({ botId: 'dyxless', identifiers: [{ type: 'email', value: 'test@example.com' }], ...body });
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/removal-cases', removalCasesRoutes);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    await request(app).get('/api/removal-cases').expect(401);
+    await request(app).post('/api/removal-cases').send({ botId: 'dyxless' }).expect(401);
+  });
+
+  it('should open, list, update and delete cases', async () => {
+    const authorization = await signIn();
+
+    const created = await openCase(authorization, { ticketNumber: 'A-1' }).expect(201);
+    expect(created.body.data).toMatchObject({
+      botId: 'dyxless',
+      status: 'planned',
+      ticketNumber: 'A-1',
+      identifiers: [{ searchType: 'email', maskedQuery: 'te***@example.com' }]
+    });
+    const id = created.body.data.id;
+
+    const list = await request(app)
+      .get('/api/removal-cases?botId=dyxless')
+      .set('Authorization', authorization)
+      .expect(200);
+    expect(list.body.data).toHaveLength(1);
+
+    const updated = await request(app)
+      .patch(`/api/removal-cases/${id}`)
+      .set('Authorization', authorization)
+      .send({ status: 'submitted', submittedAt: '2026-01-15T10:00:00.000Z' })
+      .expect(200);
+    expect(updated.body.data).toMatchObject({ status: 'submitted', submittedAt: '2026-01-15T10:00:00.000Z' });
+
+    await request(app).delete(`/api/removal-cases/${id}`).set('Authorization', authorization).expect(200);
+    await request(app).get(`/api/removal-cases/${id}`).set('Authorization', authorization).expect(404);
+  });
+
+  it('should reject unknown bots, bad dates and manual verification', async () => {
+    const authorization = await signIn();
+
+    const unknown = await openCase(authorization, { botId: 'nope' }).expect(400);
+    expect(unknown.body.error.type).toBe('UNKNOWN_BOT');
+
+    const badDate = await openCase(authorization, { submittedAt: 'yesterday' }).expect(400);
+    expect(badDate.body.error.type).toBe('VALIDATION_ERROR');
+
+    const created = await openCase(authorization).expect(201);
+    const verified = await request(app)
+      .patch(`/api/removal-cases/${created.body.data.id}`)
+      .set('Authorization', authorization)
+      .send({ status: 'verified' })
+      .expect(400);
+    expect(verified.body.error.type).toBe('INVALID_STATUS');
+  });
+
+  it('should verify a case by searching the bot again', async () => {
+    const authorization = await signIn();
+    jest.spyOn(SearchService.getInstance(), 'searchWithSpecificBots').mockResolvedValue({
+      results: [{ botId: 'dyxless', botName: 'Бот A', foundData: [], hasData: false, status: SearchStatus.NO_DATA }]
+    } as unknown as AggregatedSearchResults);
+
+    const created = await openCase(authorization, { status: 'submitted' }).expect(201);
+    const response = await request(app)
+      .post(`/api/removal-cases/${created.body.data.id}/verify`)
+      .set('Authorization', authorization)
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ status: 'verified', lastVerification: { result: 'cleared' } });
+  });
+
+  it('should refuse verifying a case again during the cooldown', async () => {
+    const authorization = await signIn();
+    const searchWithSpecificBots = jest.spyOn(SearchService.getInstance(), 'searchWithSpecificBots').mockResolvedValue({
+      results: [{ botId: 'dyxless', botName: 'Бот A', foundData: [], hasData: false, status: SearchStatus.TIMEOUT }]
+    } as unknown as AggregatedSearchResults);
+
+    const created = await openCase(authorization, { status: 'submitted' }).expect(201);
+    const verify = () => request(app)
+      .post(`/api/removal-cases/${created.body.data.id}/verify`)
+      .set('Authorization', authorization);
+
+    await verify().expect(200);
+    const repeated = await verify().expect(429);
+
+    expect(repeated.body.error.type).toBe('VERIFY_COOLDOWN');
+    expect(searchWithSpecificBots).toHaveBeenCalledTimes(1);
+  });
+
+  it('should charge one search per identifier and refuse a verification over the quota', async () => {
+    const authorization = await signIn();
+    const searchWithSpecificBots = jest.spyOn(SearchService.getInstance(), 'searchWithSpecificBots');
+
+    // The free plan allows three searches a day
+    const created = await openCase(authorization, {
+      status: 'submitted',
+      identifiers: ['a', 'b', 'c', 'd'].map(name => ({ type: 'email', value: `${name}@example.com` }))
+    }).expect(201);
+
+    const response = await request(app)
+      .post(`/api/removal-cases/${created.body.data.id}/verify`)
+      .set('Authorization', authorization)
+      .expect(402);
+
+    expect(response.body.error.type).toBe('PAYMENT_REQUIRED');
+    expect(searchWithSpecificBots).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for POST /search/batch
+ */
+
+import request from 'supertest';
+import express from 'express';
+import searchRoutes from '../search.routes';
+import { SearchService, AggregatedBatchResults, AggregatedQuickScanResults } from '../../services/search.service';
+import { tariffService } from '../../services/tariff.service';
+
+jest.mock('../../utils/logger');
+
+const identifiers = [
+  { type: 'phone', value: '+79123456789' },
+  { type: 'email', value: 'test@example.com' }
+];
+
+describe('Batch search', () => {
+  let app: express.Application;
+  let quickScan: jest.SpyInstance;
+  let searchBatch: jest.SpyInstance;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/search', searchRoutes);
+  });
+
+  beforeEach(() => {
+    quickScan = jest
+      .spyOn(SearchService.getInstance(), 'quickScan')
+      .mockImplementation(async searchRequest => ({ mode: 'quick', searchType: searchRequest.type } as AggregatedQuickScanResults));
+    searchBatch = jest
+      .spyOn(SearchService.getInstance(), 'searchBatch')
+      .mockResolvedValue({ batchId: 'batch_1', searches: [] } as unknown as AggregatedBatchResults);
+    jest.spyOn(tariffService, 'getEffectivePlan').mockResolvedValue(tariffService.getTariffPlan('basic')!);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should search every identifier on paid plans', async () => {
+    const response = await request(app)
+      .post('/api/search/search/batch')
+      .send({ identifiers })
+      .expect(200);
+
+    expect(response.body.data.batchId).toBe('batch_1');
+    expect(searchBatch).toHaveBeenCalledWith(
+      [{ type: 'phone', value: '+79123456789' }, { type: 'email', value: 'test@example.com' }],
+      'anonymous'
+    );
+  });
+
+  it('should quick scan each identifier when asked to', async () => {
+    const response = await request(app)
+      .post('/api/search/search/batch')
+      .send({ identifiers, mode: 'quick' })
+      .expect(200);
+
+    expect(response.body.data.mode).toBe('quick');
+    expect(response.body.data.searches.map((scan: AggregatedQuickScanResults) => scan.searchType)).toEqual(['phone', 'email']);
+    expect(quickScan).toHaveBeenCalledTimes(2);
+    expect(searchBatch).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a full batch on the free plan', async () => {
+    jest.spyOn(tariffService, 'getEffectivePlan').mockResolvedValue(tariffService.getTariffPlan('free')!);
+
+    const response = await request(app)
+      .post('/api/search/search/batch')
+      .send({ identifiers, mode: 'full' })
+      .expect(402);
+
+    expect(response.body.error.type).toBe('PAYMENT_REQUIRED');
+    expect(searchBatch).not.toHaveBeenCalled();
+  });
+
+  it('should reject empty, duplicate and oversized batches', async () => {
+    await request(app).post('/api/search/search/batch').send({ identifiers: [] }).expect(400);
+    await request(app).post('/api/search/search/batch').send({ identifiers: [identifiers[0], identifiers[0]] }).expect(400);
+    await request(app)
+      .post('/api/search/search/batch')
+      .send({ identifiers: Array.from({ length: 6 }, (_, i) => ({ type: 'inn', value: `77070838${i}3` })) })
+      .expect(400);
+
+    expect(searchBatch).not.toHaveBeenCalled();
+  });
+
+  it('should point at the identifier with an invalid value', async () => {
+    const response = await request(app)
+      .post('/api/search/search/batch')
+      .send({ identifiers: [identifiers[0], { type: 'email', value: 'not-an-email' }] })
+      .expect(400);
+
+    expect(response.body.error.field).toBe('identifiers.1.value');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for the streaming search routes
+ */
+
+import request from 'supertest';
+import express from 'express';
+import searchRoutes from '../search.routes';
+import { SearchService } from '../../services/search.service';
+import { searchProgressService } from '../../services/search-progress.service';
+import { tariffService } from '../../services/tariff.service';
+import { authService } from '../../services/auth.service';
+
+jest.mock('../../utils/logger');
+
+const parseEvents = (body: string) =>
+  body
+    .split('\n\n')
+    .filter(frame => frame.startsWith('id:'))
+    .map(frame => {
+      const [id, event, data] = frame.split('\n').map(line => line.slice(line.indexOf(':') + 1).trim());
+      return { id: Number(id), event, data: JSON.parse(data) };
+    });
+
+describe('Search event stream routes', () => {
+  let app: express.Application;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/search', searchRoutes);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should start a streaming search and point at its events', async () => {
+    // Streaming is for full searches, which free plans do not include
+    jest.spyOn(tariffService, 'allowsFullSearch').mockReturnValue(true);
+    const startSearch = jest
+      .spyOn(SearchService.getInstance(), 'startSearch')
+      .mockResolvedValue({ searchId: 'search_stream_1' });
+
+    const response = await request(app)
+      .post('/api/search/search')
+      .send({ type: 'email', value: 'test@example.com', stream: true })
+      .expect(202);
+
+    expect(response.body.data).toEqual({
+      searchId: 'search_stream_1',
+      status: 'running',
+      eventsUrl: '/api/search/search/search_stream_1/events'
+    });
+    expect(startSearch).toHaveBeenCalledWith({ type: 'email', value: 'test@example.com' }, 'anonymous');
+  });
+
+  it('should stream events until the search finishes', async () => {
+    searchProgressService.open('search_stream_2');
+    searchProgressService.publish('search_stream_2', { type: 'search_started' });
+    searchProgressService.publish('search_stream_2', { type: 'started', botId: 'dyxless', botName: 'Бот A' });
+
+    setTimeout(() => {
+      searchProgressService.publish('search_stream_2', { type: 'timeout', botId: 'dyxless', botName: 'Бот A' });
+      searchProgressService.publish('search_stream_2', { type: 'search_failed', error: 'Search timeout' });
+    }, 20);
+
+    const response = await request(app).get('/api/search/search/search_stream_2/events').expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/event-stream/);
+    expect(response.text).toMatch(/^retry: \d+/);
+    expect(parseEvents(response.text).map(({ id, event }) => [id, event])).toEqual([
+      [1, 'search_started'],
+      [2, 'started'],
+      [3, 'timeout'],
+      [4, 'search_failed']
+    ]);
+  });
+
+  it('should resume after Last-Event-ID', async () => {
+    searchProgressService.open('search_stream_3');
+    searchProgressService.publish('search_stream_3', { type: 'search_started' });
+    searchProgressService.publish('search_stream_3', { type: 'started', botId: 'itp' });
+    searchProgressService.publish('search_stream_3', { type: 'search_failed', error: 'boom' });
+
+    const response = await request(app)
+      .get('/api/search/search/search_stream_3/events')
+      .set('Last-Event-ID', '2')
+      .expect(200);
+
+    expect(parseEvents(response.text).map(({ event }) => event)).toEqual(['search_failed']);
+  });
+
+  it('should only stream a signed-in user\'s search to that user', async () => {
+    const owner = await authService.register(`events-owner-${Date.now()}@example.com`, 'password123');
+    const other = await authService.register(`events-other-${Date.now()}@example.com`, 'password123');
+
+    searchProgressService.open('search_stream_4', owner.user.id);
+    searchProgressService.publish('search_stream_4', { type: 'search_started' });
+    searchProgressService.publish('search_stream_4', { type: 'search_failed', error: 'boom' });
+
+    const anonymous = await request(app).get('/api/search/search/search_stream_4/events').expect(401);
+    expect(anonymous.body.error.type).toBe('AUTHENTICATION_ERROR');
+
+    const forbidden = await request(app)
+      .get('/api/search/search/search_stream_4/events')
+      .query({ token: other.tokens.accessToken })
+      .expect(403);
+    expect(forbidden.body.error.type).toBe('AUTHORIZATION_ERROR');
+
+    const response = await request(app)
+      .get('/api/search/search/search_stream_4/events')
+      .query({ token: owner.tokens.accessToken })
+      .expect(200);
+    expect(parseEvents(response.text).map(({ event }) => event)).toEqual(['search_started', 'search_failed']);
+  });
+
+  it('should answer 404 for unknown searches', async () => {
+    const response = await request(app).get('/api/search/search/search_unknown/events').expect(404);
+
+    expect(response.body.error.type).toBe('SEARCH_NOT_FOUND');
+  });
+});
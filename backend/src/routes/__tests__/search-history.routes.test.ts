@@ -0,0 +1,104 @@
+/**
+ * Tests for the search history routes
+ */
+
+import request from 'supertest';
+import express from 'express';
+import searchRoutes from '../search.routes';
+import { authService } from '../../services/auth.service';
+import { searchHistoryService } from '../../services/search-history.service';
+import { SearchService } from '../../services/search.service';
+import { tariffService } from '../../services/tariff.service';
+
+jest.mock('../../utils/logger');
+
+describe('Search history routes', () => {
+  let app: express.Application;
+  let emailCounter = 0;
+
+  const signIn = async () => {
+    const { user, tokens } = await authService.register(`search-history${++emailCounter}@example.com`, 'password123');
+    return { userId: user.id, authorization: `Bearer ${tokens.accessToken}` };
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/search', searchRoutes);
+  });
+
+  beforeEach(() => {
+    // Jobs and re-runs return found records, which need a paid plan
+    jest.spyOn(tariffService, 'getEffectivePlan').mockResolvedValue(tariffService.getTariffPlan('basic')!);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    await request(app).get('/api/search/search/history').expect(401);
+    await request(app).delete('/api/search/search/history').expect(401);
+    await request(app).post('/api/search/search/history/search_1/rerun').expect(401);
+  });
+
+  it('should list the signed-in user\'s history', async () => {
+    const list = jest.spyOn(searchHistoryService, 'list').mockResolvedValue({ entries: [], total: 0, retentionDays: 30 });
+    const { userId, authorization } = await signIn();
+
+    const response = await request(app)
+      .get('/api/search/search/history?limit=5&offset=10')
+      .set('Authorization', authorization)
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ total: 0, retentionDays: 30 });
+    expect(list).toHaveBeenCalledWith(userId, { limit: 5, offset: 10 });
+  });
+
+  it('should answer 404 for unknown entries', async () => {
+    const { authorization } = await signIn();
+
+    const response = await request(app)
+      .get('/api/search/search/history/search_missing')
+      .set('Authorization', authorization)
+      .expect(404);
+    expect(response.body.error.type).toBe('HISTORY_NOT_FOUND');
+
+    await request(app)
+      .delete('/api/search/search/history/search_missing')
+      .set('Authorization', authorization)
+      .expect(404);
+  });
+
+  it('should compare two saved searches', async () => {
+    const { userId, authorization } = await signIn();
+    const diff = jest.spyOn(searchHistoryService, 'diff').mockResolvedValue({
+      bots: [],
+      totals: { removed: 0, remaining: 0, added: 0 }
+    } as any);
+
+    const response = await request(app)
+      .get('/api/search/search/history/search_1/diff/search_2')
+      .set('Authorization', authorization)
+      .expect(200);
+
+    expect(response.body.data.totals).toEqual({ removed: 0, remaining: 0, added: 0 });
+    expect(diff).toHaveBeenCalledWith(userId, 'search_1', 'search_2');
+  });
+
+  it('should run a saved search again', async () => {
+    const { userId, authorization } = await signIn();
+    jest.spyOn(searchHistoryService, 'getRequest').mockResolvedValue({ type: 'phone', value: '+79991234567' });
+    const searchAllBots = jest
+      .spyOn(SearchService.getInstance(), 'searchAllBots')
+      .mockResolvedValue({ searchId: 'search_rerun' } as any);
+
+    const response = await request(app)
+      .post('/api/search/search/history/search_1/rerun')
+      .set('Authorization', authorization)
+      .expect(200);
+
+    expect(response.body.data.searchId).toBe('search_rerun');
+    expect(searchAllBots).toHaveBeenCalledWith({ type: 'phone', value: '+79991234567' }, userId);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for the search job routes
+ */
+
+import request from 'supertest';
+import express from 'express';
+import searchRoutes from '../search.routes';
+import { authService } from '../../services/auth.service';
+import { searchJobService } from '../../services/search-job.service';
+import { tariffService } from '../../services/tariff.service';
+
+jest.mock('../../utils/logger');
+
+describe('Search job routes', () => {
+  let app: express.Application;
+  let emailCounter = 0;
+
+  const signIn = async () => {
+    const { tokens } = await authService.register(`search-jobs${++emailCounter}@example.com`, 'password123');
+    return `Bearer ${tokens.accessToken}`;
+  };
+
+  const job = {
+    id: 'job_1',
+    status: 'queued',
+    searchType: 'email',
+    bots: [],
+    attempts: 0,
+    createdAt: new Date(),
+    expiresAt: new Date(),
+    results: null
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/search', searchRoutes);
+  });
+
+  beforeEach(() => {
+    // Jobs and re-runs return found records, which need a paid plan
+    jest.spyOn(tariffService, 'getEffectivePlan').mockResolvedValue(tariffService.getTariffPlan('basic')!);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should require authentication', async () => {
+    await request(app).post('/api/search/search/jobs').send({ type: 'email', value: 'test@example.com' }).expect(401);
+    await request(app).get('/api/search/search/jobs/job_1').expect(401);
+  });
+
+  it('should queue a job for the signed-in user', async () => {
+    const createJob = jest.spyOn(searchJobService, 'createJob').mockResolvedValue(job as any);
+    const authorization = await signIn();
+
+    const response = await request(app)
+      .post('/api/search/search/jobs')
+      .set('Authorization', authorization)
+      .send({ type: 'email', value: 'test@example.com', botIds: ['dyxless'] })
+      .expect(202);
+
+    expect(response.body.data).toMatchObject({ id: 'job_1', status: 'queued' });
+    expect(createJob).toHaveBeenCalledWith(
+      expect.any(String),
+      { type: 'email', value: 'test@example.com' },
+      ['dyxless']
+    );
+  });
+
+  it('should validate the search request', async () => {
+    const authorization = await signIn();
+
+    await request(app)
+      .post('/api/search/search/jobs')
+      .set('Authorization', authorization)
+      .send({ type: 'email' })
+      .expect(400);
+  });
+
+  it('should answer 404 for unknown jobs', async () => {
+    const authorization = await signIn();
+
+    const response = await request(app)
+      .get('/api/search/search/jobs/job_missing')
+      .set('Authorization', authorization)
+      .expect(404);
+    expect(response.body.error.type).toBe('JOB_NOT_FOUND');
+
+    await request(app)
+      .post('/api/search/search/jobs/job_missing/retry')
+      .set('Authorization', authorization)
+      .expect(404);
+  });
+});
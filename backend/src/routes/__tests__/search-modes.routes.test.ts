@@ -0,0 +1,164 @@
+/**
+ * Tests for quick scan and full search modes, and for keeping found records
+ * off the free plan on every search route
+ */
+
+import request from 'supertest';
+import express from 'express';
+import searchRoutes from '../search.routes';
+import { SearchService, AggregatedQuickScanResults, AggregatedSearchResults } from '../../services/search.service';
+import { tariffService } from '../../services/tariff.service';
+import { authService } from '../../services/auth.service';
+import { searchJobService } from '../../services/search-job.service';
+import { searchHistoryService } from '../../services/search-history.service';
+import { SearchStatus } from '../../types/search';
+
+jest.mock('../../utils/logger');
+
+const quickScanResults: AggregatedQuickScanResults = {
+  searchId: 'search_quick_1',
+  timestamp: new Date(),
+  query: '[16 characters]',
+  searchType: 'email',
+  mode: 'quick',
+  available: true,
+  results: [{ botId: 'userbox', botName: 'Бот D', status: SearchStatus.SUCCESS, totalRecords: 15, sourcesFound: 4 }],
+  totalBotsSearched: 1,
+  totalBotsWithData: 1,
+  totalSourcesFound: 4,
+  totalRecords: 15,
+  searchDuration: 120
+};
+
+describe('Search modes', () => {
+  let app: express.Application;
+  let quickScan: jest.SpyInstance;
+  let searchAllBots: jest.SpyInstance;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/search', searchRoutes);
+  });
+
+  beforeEach(() => {
+    quickScan = jest.spyOn(SearchService.getInstance(), 'quickScan').mockResolvedValue(quickScanResults);
+    searchAllBots = jest
+      .spyOn(SearchService.getInstance(), 'searchAllBots')
+      .mockResolvedValue({ searchId: 'search_full_1' } as AggregatedSearchResults);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should quick scan by default on the free plan', async () => {
+    const response = await request(app)
+      .post('/api/search/search')
+      .send({ type: 'email', value: 'test@example.com' })
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ mode: 'quick', totalSourcesFound: 4 });
+    expect(quickScan).toHaveBeenCalledWith({ type: 'email', value: 'test@example.com' }, 'anonymous');
+    expect(searchAllBots).not.toHaveBeenCalled();
+  });
+
+  it('should answer an unavailable quick scan as such rather than with a server error', async () => {
+    quickScan.mockResolvedValue({ ...quickScanResults, available: false, results: [], totalSourcesFound: 0, totalRecords: 0 });
+
+    const response = await request(app)
+      .post('/api/search/search')
+      .send({ type: 'email', value: 'test@example.com' })
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ mode: 'quick', available: false, totalSourcesFound: 0 });
+  });
+
+  it('should refuse a full search on the free plan', async () => {
+    const response = await request(app)
+      .post('/api/search/search')
+      .send({ type: 'email', value: 'test@example.com', mode: 'full' })
+      .expect(402);
+
+    expect(response.body.error.type).toBe('PAYMENT_REQUIRED');
+    expect(quickScan).not.toHaveBeenCalled();
+    expect(searchAllBots).not.toHaveBeenCalled();
+  });
+
+  it('should run full searches on paid plans unless a quick scan is asked for', async () => {
+    jest.spyOn(tariffService, 'getEffectivePlan').mockResolvedValue(tariffService.getTariffPlan('basic')!);
+
+    await request(app)
+      .post('/api/search/search')
+      .send({ type: 'email', value: 'test@example.com' })
+      .expect(200);
+    expect(searchAllBots).toHaveBeenCalledWith({ type: 'email', value: 'test@example.com' }, 'anonymous');
+
+    await request(app)
+      .post('/api/search/search')
+      .send({ type: 'email', value: 'test@example.com', mode: 'quick' })
+      .expect(200);
+    expect(quickScan).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject an unknown mode', async () => {
+    await request(app)
+      .post('/api/search/search')
+      .send({ type: 'email', value: 'test@example.com', mode: 'deep' })
+      .expect(400);
+  });
+
+  describe('on the free plan', () => {
+    let emailCounter = 0;
+
+    const signIn = async () => {
+      const { tokens } = await authService.register(`search-modes${++emailCounter}@example.com`, 'password123');
+      return `Bearer ${tokens.accessToken}`;
+    };
+
+    it('should refuse searching specific bots', async () => {
+      const searchWithSpecificBots = jest.spyOn(SearchService.getInstance(), 'searchWithSpecificBots');
+
+      const response = await request(app)
+        .post('/api/search/search/specific')
+        .send({ type: 'email', value: 'test@example.com', botIds: ['dyxless'] })
+        .expect(402);
+
+      expect(response.body.error.type).toBe('PAYMENT_REQUIRED');
+      expect(searchWithSpecificBots).not.toHaveBeenCalled();
+    });
+
+    it('should refuse queueing and retrying search jobs', async () => {
+      const createJob = jest.spyOn(searchJobService, 'createJob');
+      const retryFailedBots = jest.spyOn(searchJobService, 'retryFailedBots');
+      const authorization = await signIn();
+
+      await request(app)
+        .post('/api/search/search/jobs')
+        .set('Authorization', authorization)
+        .send({ type: 'email', value: 'test@example.com' })
+        .expect(402);
+      await request(app)
+        .post('/api/search/search/jobs/job_1/retry')
+        .set('Authorization', authorization)
+        .expect(402);
+
+      expect(createJob).not.toHaveBeenCalled();
+      expect(retryFailedBots).not.toHaveBeenCalled();
+    });
+
+    it('should refuse re-running a saved search without spending the quota', async () => {
+      const getRequest = jest.spyOn(searchHistoryService, 'getRequest');
+      const authorization = await signIn();
+
+      const response = await request(app)
+        .post('/api/search/search/history/search_1/rerun')
+        .set('Authorization', authorization)
+        .expect(402);
+
+      expect(response.headers['x-quota-remaining']).toBeUndefined();
+      expect(getRequest).not.toHaveBeenCalled();
+      expect(searchAllBots).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -178,7 +178,8 @@ describe('Search Routes', () => {
       expect(response.body.success).toBe(true);
       expect(mockSearchService.searchWithSpecificBots).toHaveBeenCalledWith(
         { type: 'phone', value: '+1234567890' },
-        ['dyxless', 'itp']
+        ['dyxless', 'itp'],
+        { userId: undefined }
       );
     });
 
@@ -0,0 +1,74 @@
+/**
+ * Tests for Telegram Routes
+ */
+
+import request from 'supertest';
+import express from 'express';
+import telegramRoutes from '../telegram.routes';
+import { authService } from '../../services/auth.service';
+import { telegramService } from '../../services/telegram.service';
+import { TELEGRAM_SECRET_HEADER } from '../../clients/telegram-bot.client';
+
+jest.mock('../../utils/logger');
+
+describe('Telegram Routes', () => {
+  let app: express.Application;
+  let emailCounter = 0;
+
+  const signIn = async () => {
+    const { user, tokens } = await authService.register(`telegram${++emailCounter}@example.com`, 'password123');
+    return { userId: user.id, authorization: `Bearer ${tokens.accessToken}` };
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/telegram', telegramRoutes);
+  });
+
+  afterEach(() => {
+    telegramService.configure({ token: '', botUsername: '', webhookSecret: '' });
+  });
+
+  it('should require authentication to manage the link', async () => {
+    await request(app).get('/api/telegram/link').expect(401);
+    await request(app).post('/api/telegram/link').expect(401);
+  });
+
+  it('should report an unlinked account and refuse links without a bot', async () => {
+    const { authorization } = await signIn();
+
+    const status = await request(app).get('/api/telegram/link').set('Authorization', authorization).expect(200);
+    expect(status.body.data).toEqual({ enabled: false, linked: false });
+
+    const response = await request(app).post('/api/telegram/link').set('Authorization', authorization).expect(503);
+    expect(response.body.error.type).toBe('TELEGRAM_DISABLED');
+  });
+
+  it('should create a deep link when the bot is configured', async () => {
+    telegramService.configure({ token: 'test-token', botUsername: 'datatrace_test_bot' });
+    const { authorization } = await signIn();
+
+    const response = await request(app).post('/api/telegram/link').set('Authorization', authorization).expect(201);
+
+    expect(response.body.data.url).toMatch(/^https:\/\/t\.me\/datatrace_test_bot\?start=[A-Za-z0-9_-]+$/);
+    expect(response.body.data.token).toBeUndefined();
+  });
+
+  it('should reject webhook updates without the secret token', async () => {
+    telegramService.configure({ token: 'test-token', webhookSecret: 'webhook-secret' });
+
+    const response = await request(app)
+      .post('/api/telegram/webhook')
+      .set(TELEGRAM_SECRET_HEADER, 'wrong-secret')
+      .send({ update_id: 1 })
+      .expect(401);
+    expect(response.body.error.type).toBe('INVALID_WEBHOOK_SECRET');
+
+    await request(app)
+      .post('/api/telegram/webhook')
+      .set(TELEGRAM_SECRET_HEADER, 'webhook-secret')
+      .send({ update_id: 2 })
+      .expect(200);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Auth API Routes
+ * Registration, login and token refresh for user accounts
+ */
+
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { authService, AuthError } from '../services/auth.service';
+import { authenticate } from '../middleware/auth.middleware';
+import { createRateLimit } from '../middleware/rate-limit.middleware';
+
+const router = Router();
+
+// Slow down password guessing: 20 attempts per 15 minutes per IP
+const credentialsRateLimit = createRateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  message: 'Too many authentication attempts. Please try again later.'
+});
+
+/**
+ * Send an auth failure, mapping AuthError to its status code
+ */
+const handleAuthError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof AuthError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.statusCode,
+        type: error.type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  logger.error(`Failed to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      message: `Failed to ${action}`,
+      code: 500,
+      type: 'AUTH_ERROR'
+    }
+  });
+};
+
+/**
+ * POST /api/auth/register
+ * Create an account with email and password
+ */
+router.post('/register', credentialsRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { email, password } = req.body || {};
+    const result = await authService.register(email, password);
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handleAuthError(res, error, 'register user');
+  }
+});
+
+/**
+ * POST /api/auth/login
+ * Exchange email and password for access and refresh tokens
+ */
+router.post('/login', credentialsRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { email, password } = req.body || {};
+    const result = await authService.login(email, password);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handleAuthError(res, error, 'log in');
+  }
+});
+
+/**
+ * POST /api/auth/refresh
+ * Rotate a refresh token into a new token pair
+ */
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body || {};
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      throw new AuthError('Refresh token is required', 'VALIDATION_ERROR', 400);
+    }
+
+    const result = await authService.refresh(refreshToken);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handleAuthError(res, error, 'refresh token');
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Revoke a refresh token
+ */
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body || {};
+
+    if (typeof refreshToken === 'string') {
+      await authService.logout(refreshToken);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        message: 'Logged out'
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handleAuthError(res, error, 'log out');
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Get the authenticated user's profile
+ */
+router.get('/me', authenticate, async (req: Request, res: Response) => {
+  try {
+    const user = await authService.getUser(req.user!.id);
+
+    if (!user) {
+      throw new AuthError('User not found', 'INVALID_TOKEN', 401);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { user },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handleAuthError(res, error, 'get user');
+  }
+});
+
+export default router;
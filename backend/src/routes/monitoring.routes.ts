@@ -11,6 +11,9 @@ import {
   resolveAlertEndpoint 
 } from '../middleware/monitoring.middleware';
 import { monitoringService } from '../services/monitoring.service';
+import { costLedgerService } from '../services/cost-ledger.service';
+import { providerBalanceService } from '../services/provider-balance.service';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -59,8 +62,8 @@ router.get('/status', (req, res) => {
       environment: process.env.NODE_ENV || 'development',
       metrics: recentMetrics,
       alerts: {
-        active: 0,
-        critical: 0
+        active: monitoringService.getAlerts(false).length,
+        critical: monitoringService.getAlerts(false).filter(alert => alert.severity === 'critical').length
       },
       services: {
         monitoring: 'operational',
@@ -304,7 +307,7 @@ router.get('/dashboard', (req, res) => {
     const healthStatus = monitoringService.getHealthStatus();
     const recentSystemMetrics = monitoringService.getMetrics('system', new Date(Date.now() - 600000));
     const recentAppMetrics = monitoringService.getMetrics('application', new Date(Date.now() - 600000));
-    const activeAlerts: any[] = [];
+    const activeAlerts = monitoringService.getAlerts(false);
     const recentPerformanceMetrics = monitoringService.getMetrics('performance', new Date(Date.now() - 3000000));
 
     // Calculate trends
@@ -347,9 +350,9 @@ router.get('/dashboard', (req, res) => {
         active: activeAlerts,
         summary: {
           total: activeAlerts.length,
-          critical: activeAlerts.filter((a: any) => a.severity === 'critical' || a.severity === 'emergency').length,
-          warning: activeAlerts.filter((a: any) => a.severity === 'warning').length,
-          info: activeAlerts.filter((a: any) => a.severity === 'info').length
+          critical: activeAlerts.filter(a => a.severity === 'critical').length,
+          warning: activeAlerts.filter(a => a.severity === 'warning').length,
+          info: activeAlerts.filter(a => a.severity === 'info').length
         }
       }
     });
@@ -365,4 +368,77 @@ router.get('/dashboard', (req, res) => {
   }
 });
 
+/**
+ * Upstream spend endpoint
+ * GET /monitoring/costs?since=ISO&botId=&userId=&searchId=&entries=true
+ * Admin only: entries expose per-user spend and upstream bot ids
+ */
+router.get('/costs', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const { since, botId, userId, searchId, entries } = req.query;
+    const sinceDate = since ? new Date(since as string) : undefined;
+
+    if (sinceDate && isNaN(sinceDate.getTime())) {
+      res.status(400).json({
+        error: 'since must be a valid date',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const filter = {
+      since: sinceDate,
+      botId: botId as string | undefined,
+      userId: userId as string | undefined,
+      searchId: searchId as string | undefined
+    };
+
+    const summary = await costLedgerService.getSummary(filter);
+
+    res.json({
+      timestamp: new Date().toISOString(),
+      currency: 'RUB',
+      ...summary,
+      ...(entries === 'true' ? { entries: await costLedgerService.listEntries(filter) } : {})
+    });
+  } catch (error) {
+    logger.error('Failed to get upstream costs', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    res.status(500).json({
+      error: 'Failed to get upstream costs',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * Provider balances endpoint
+ * GET /monitoring/balances?refresh=true
+ * Admin only: refresh polls every upstream provider
+ */
+router.get('/balances', authenticate, requireAdmin, async (req, res) => {
+  try {
+    const balances = req.query.refresh === 'true'
+      ? await providerBalanceService.pollBalances()
+      : providerBalanceService.getBalances();
+
+    res.json({
+      timestamp: new Date().toISOString(),
+      currency: 'RUB',
+      balances
+    });
+  } catch (error) {
+    logger.error('Failed to get provider balances', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    res.status(500).json({
+      error: 'Failed to get provider balances',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,110 @@
+/**
+ * Exposure Monitor Routes
+ * Identifiers users have us re-scan on a schedule for new leaks
+ */
+
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { authenticate } from '../middleware/auth.middleware';
+import { validateSearchRequest } from '../middleware/validation.middleware';
+import { exposureMonitorService, ExposureMonitorError } from '../services/exposure-monitor.service';
+import { SearchType } from '../types/search';
+
+const router = Router();
+
+/**
+ * Send a monitor failure, mapping ExposureMonitorError to its status code
+ */
+const handleMonitorError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof ExposureMonitorError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.statusCode,
+        type: error.type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  logger.error(`Failed to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      message: `Failed to ${action}`,
+      code: 500,
+      type: 'MONITOR_ERROR'
+    }
+  });
+};
+
+const sendData = (res: Response, data: unknown, statusCode = 200) => {
+  res.status(statusCode).json({
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString()
+    }
+  });
+};
+
+/**
+ * GET /api/monitors
+ * Monitored identifiers with the plan's scan interval and limit
+ */
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    sendData(res, await exposureMonitorService.list(req.user!.id));
+  } catch (error) {
+    handleMonitorError(res, error, 'list monitors');
+  }
+});
+
+/**
+ * POST /api/monitors
+ * Start monitoring an identifier; body is a search request ({ type, value })
+ */
+router.post('/', authenticate, validateSearchRequest, async (req: Request, res: Response) => {
+  try {
+    const monitor = await exposureMonitorService.create(req.user!.id, {
+      type: req.body.type as SearchType,
+      value: req.body.value
+    });
+    sendData(res, monitor, 201);
+  } catch (error) {
+    handleMonitorError(res, error, 'create monitor');
+  }
+});
+
+/**
+ * GET /api/monitors/:id
+ */
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    sendData(res, await exposureMonitorService.get(req.user!.id, req.params.id));
+  } catch (error) {
+    handleMonitorError(res, error, 'get monitor');
+  }
+});
+
+/**
+ * DELETE /api/monitors/:id
+ * Stop monitoring an identifier
+ */
+router.delete('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    await exposureMonitorService.delete(req.user!.id, req.params.id);
+    sendData(res, { id: req.params.id, deleted: true });
+  } catch (error) {
+    handleMonitorError(res, error, 'delete monitor');
+  }
+});
+
+export default router;
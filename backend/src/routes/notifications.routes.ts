@@ -1,116 +1,264 @@
 /**
  * Notifications Routes
- * API endpoints for notification management
+ * API endpoints for the user's notification inbox, preferences and push subscriptions
  */
 
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { logger } from '../utils/logger';
+import { authenticate } from '../middleware/auth.middleware';
+import { pushService } from '../services/push.service';
+import {
+  notificationService,
+  NotificationError,
+  NotificationStatus,
+  NotificationType,
+  NOTIFICATION_TYPES
+} from '../services/notification.service';
 
 const router = Router();
 
+// Notifications belong to the signed-in user
+router.use(authenticate);
+
 /**
- * Get user notifications
- * GET /notifications
+ * Send a notification failure, mapping NotificationError to its status code
  */
-router.get('/', (req, res) => {
-  try {
-    // This is a placeholder for future notification functionality
-    res.json({
-      notifications: [],
-      total: 0,
-      unread: 0,
-      timestamp: new Date().toISOString()
-    });
-  } catch (error) {
-    logger.error('Failed to get notifications', {
-      error: error instanceof Error ? error.message : 'Unknown error'
+const handleNotificationError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof NotificationError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.statusCode,
+        type: error.type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
     });
+    return;
+  }
+
+  logger.error(`Failed to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      message: `Failed to ${action}`,
+      code: 500,
+      type: 'NOTIFICATION_ERROR'
+    }
+  });
+};
 
-    res.status(500).json({
-      error: 'Failed to get notifications',
+const sendData = (res: Response, data: unknown, statusCode = 200) => {
+  res.status(statusCode).json({
+    success: true,
+    data,
+    meta: {
       timestamp: new Date().toISOString()
+    }
+  });
+};
+
+const parseInteger = (value: unknown): number | undefined =>
+  value === undefined ? undefined : Number(value);
+
+/**
+ * GET /api/notifications
+ * List the user's notifications, newest first.
+ * Query: limit, offset, status, type, unread_only
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const limit = parseInteger(req.query.limit) ?? 20;
+    const offset = parseInteger(req.query.offset) ?? 0;
+
+    const { notifications, total, unread } = await notificationService.getUserNotifications(req.user!.id, {
+      limit,
+      offset,
+      status: req.query.status as NotificationStatus | undefined,
+      type: req.query.type as NotificationType | undefined,
+      unreadOnly: req.query.unread_only === 'true'
+    });
+
+    sendData(res, {
+      notifications,
+      pagination: {
+        total,
+        unread,
+        limit,
+        offset,
+        hasMore: offset + notifications.length < total
+      }
     });
+  } catch (error) {
+    handleNotificationError(res, error, 'get notifications');
   }
 });
 
 /**
- * Mark notification as read
- * PUT /notifications/:id/read
+ * GET /api/notifications/unread/count
+ * Number of unread notifications
  */
-router.put('/:id/read', (req, res) => {
+router.get('/unread/count', async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
-    
-    // This is a placeholder for future notification functionality
-    res.json({
-      message: 'Notification marked as read',
-      notificationId: id,
-      timestamp: new Date().toISOString()
-    });
+    const count = await notificationService.getUnreadCount(req.user!.id);
+    sendData(res, { count });
   } catch (error) {
-    logger.error('Failed to mark notification as read', {
-      notificationId: req.params.id,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    handleNotificationError(res, error, 'count unread notifications');
+  }
+});
 
-    res.status(500).json({
-      error: 'Failed to mark notification as read',
-      timestamp: new Date().toISOString()
-    });
+/**
+ * POST /api/notifications/read-all
+ * Mark every notification as read
+ */
+router.post('/read-all', async (req: Request, res: Response) => {
+  try {
+    const markedCount = await notificationService.markAllAsRead(req.user!.id);
+    sendData(res, { markedCount });
+  } catch (error) {
+    handleNotificationError(res, error, 'mark notifications as read');
   }
 });
 
 /**
- * Get notification preferences
- * GET /notifications/preferences
+ * GET /api/notifications/preferences
+ * Channels and notification kinds the user wants
  */
-router.get('/preferences', (req, res) => {
+router.get('/preferences', async (req: Request, res: Response) => {
   try {
-    // This is a placeholder for future notification functionality
-    res.json({
-      preferences: {
-        email: true,
-        push: false,
-        sms: false
-      },
-      timestamp: new Date().toISOString()
-    });
+    sendData(res, await notificationService.getUserPreferences(req.user!.id));
   } catch (error) {
-    logger.error('Failed to get notification preferences', {
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    handleNotificationError(res, error, 'get notification preferences');
+  }
+});
 
-    res.status(500).json({
-      error: 'Failed to get notification preferences',
-      timestamp: new Date().toISOString()
+/**
+ * PUT /api/notifications/preferences
+ * Update channels, notification kinds, language or quiet hours; omitted fields are kept
+ */
+router.put('/preferences', async (req: Request, res: Response) => {
+  try {
+    const { channels, types, language, quietHours } = req.body || {};
+    const preferences = await notificationService.updateUserPreferences(req.user!.id, {
+      channels,
+      types,
+      language,
+      quietHours
     });
+
+    sendData(res, preferences);
+  } catch (error) {
+    handleNotificationError(res, error, 'update notification preferences');
   }
 });
 
 /**
- * Update notification preferences
- * PUT /notifications/preferences
+ * GET /api/notifications/push/public-key
+ * VAPID public key to pass as applicationServerKey when subscribing a browser
  */
-router.put('/preferences', (req, res) => {
+router.get('/push/public-key', async (req: Request, res: Response) => {
   try {
-    const { preferences } = req.body;
-    
-    // This is a placeholder for future notification functionality
-    res.json({
-      message: 'Notification preferences updated',
-      preferences,
-      timestamp: new Date().toISOString()
-    });
+    sendData(res, { publicKey: await pushService.getPublicKey() });
   } catch (error) {
-    logger.error('Failed to update notification preferences', {
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    handleNotificationError(res, error, 'get push public key');
+  }
+});
 
-    res.status(500).json({
-      error: 'Failed to update notification preferences',
-      timestamp: new Date().toISOString()
+/**
+ * POST /api/notifications/push/subscribe
+ * Register a browser push subscription and turn on the push channel
+ */
+router.post('/push/subscribe', async (req: Request, res: Response) => {
+  try {
+    const subscription = await notificationService.subscribeToPush(req.user!.id, req.body);
+    sendData(res, { subscribed: true, endpoint: subscription.endpoint }, 201);
+  } catch (error) {
+    handleNotificationError(res, error, 'subscribe to push notifications');
+  }
+});
+
+/**
+ * POST /api/notifications/push/unsubscribe
+ * Remove a browser push subscription
+ */
+router.post('/push/unsubscribe', async (req: Request, res: Response) => {
+  try {
+    const { endpoint } = req.body || {};
+    const unsubscribed = await notificationService.unsubscribeFromPush(req.user!.id, endpoint);
+    sendData(res, { unsubscribed, endpoint });
+  } catch (error) {
+    handleNotificationError(res, error, 'unsubscribe from push notifications');
+  }
+});
+
+/**
+ * POST /api/notifications/test
+ * Create a notification for the current user. Not available in production.
+ */
+router.post('/test', async (req: Request, res: Response) => {
+  if (process.env.NODE_ENV === 'production') {
+    res.status(404).json({
+      success: false,
+      error: {
+        message: 'Not found',
+        code: 404,
+        type: 'NOT_FOUND'
+      }
     });
+    return;
+  }
+
+  try {
+    const { type = 'info', title, message, data } = req.body || {};
+    if (!NOTIFICATION_TYPES.includes(type)) {
+      throw new NotificationError('Unknown notification type', 'VALIDATION_ERROR', 400);
+    }
+
+    const notification = await notificationService.createNotification(
+      req.user!.id,
+      type,
+      data && typeof data === 'object' ? data : {},
+      {
+        title: typeof title === 'string' ? title : undefined,
+        message: typeof message === 'string' ? message : undefined
+      }
+    );
+
+    sendData(res, notification, notification ? 201 : 200);
+  } catch (error) {
+    handleNotificationError(res, error, 'create test notification');
+  }
+});
+
+/**
+ * POST /api/notifications/:notificationId/read
+ * Mark a notification as read
+ */
+router.post('/:notificationId/read', async (req: Request, res: Response) => {
+  try {
+    const notification = await notificationService.markAsRead(req.params.notificationId, req.user!.id);
+    sendData(res, { notificationId: notification.id, status: notification.status });
+  } catch (error) {
+    handleNotificationError(res, error, 'mark notification as read');
+  }
+});
+
+/**
+ * DELETE /api/notifications/:notificationId
+ * Delete a notification
+ */
+router.delete('/:notificationId', async (req: Request, res: Response) => {
+  try {
+    await notificationService.deleteNotification(req.params.notificationId, req.user!.id);
+    sendData(res, { notificationId: req.params.notificationId, status: 'deleted' });
+  } catch (error) {
+    handleNotificationError(res, error, 'delete notification');
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,131 @@
+/**
+ * Payments API Routes
+ * Paid plan checkout through YooKassa and the provider webhook
+ */
+
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { paymentService, PaymentError } from '../services/payment.service';
+import { authenticate } from '../middleware/auth.middleware';
+import { YOOKASSA_SIGNATURE_HEADER } from '../clients/yookassa.client';
+import '../types/payment';
+
+const router = Router();
+
+/**
+ * Send a payment failure, mapping PaymentError to its status code
+ */
+const handlePaymentError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof PaymentError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.statusCode,
+        type: error.type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  logger.error(`Failed to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      message: `Failed to ${action}`,
+      code: 500,
+      type: 'PAYMENT_ERROR'
+    }
+  });
+};
+
+/**
+ * POST /api/payments
+ * Start a payment for a paid plan. Send an Idempotency-Key header to make
+ * retries safe; the response carries the confirmation URL to redirect to.
+ */
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { planId } = req.body || {};
+    const idempotencyKey = req.get('Idempotency-Key');
+
+    const { payment, created } = await paymentService.createPayment(req.user!.id, planId, idempotencyKey);
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: { payment },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handlePaymentError(res, error, 'create payment');
+  }
+});
+
+/**
+ * GET /api/payments
+ * List the authenticated user's payments
+ */
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const payments = await paymentService.getUserPayments(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: { payments },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handlePaymentError(res, error, 'list payments');
+  }
+});
+
+/**
+ * GET /api/payments/:paymentId
+ * Get the status of one of the authenticated user's payments
+ */
+router.get('/:paymentId', authenticate, async (req: Request, res: Response) => {
+  try {
+    const payment = await paymentService.getPayment(req.user!.id, req.params.paymentId);
+
+    res.status(200).json({
+      success: true,
+      data: { payment },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handlePaymentError(res, error, 'get payment');
+  }
+});
+
+/**
+ * POST /api/payments/webhooks/yookassa
+ * Payment status notifications from YooKassa, signed with the webhook secret
+ */
+router.post('/webhooks/yookassa', async (req: Request, res: Response) => {
+  try {
+    const payment = await paymentService.handleWebhook(req.rawBody, req.get(YOOKASSA_SIGNATURE_HEADER));
+
+    res.status(200).json({
+      success: true,
+      data: {
+        processed: payment !== null
+      }
+    });
+  } catch (error) {
+    handlePaymentError(res, error, 'process payment webhook');
+  }
+});
+
+export default router;
@@ -0,0 +1,176 @@
+/**
+ * Removal Case Routes
+ * Removal requests users have sent to bots, with their status and re-search checks
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { authenticate } from '../middleware/auth.middleware';
+import { rateLimitMiddleware } from '../middleware/rate-limit.middleware';
+import { createSearchQuotaMiddleware } from '../middleware/quota.middleware';
+import { removalCaseService, RemovalCaseError } from '../services/removal-case.service';
+
+const router = Router();
+
+/**
+ * Send a removal case failure, mapping RemovalCaseError to its status code
+ */
+const handleRemovalCaseError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof RemovalCaseError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.statusCode,
+        type: error.type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  logger.error(`Failed to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      message: `Failed to ${action}`,
+      code: 500,
+      type: 'REMOVAL_CASE_ERROR'
+    }
+  });
+};
+
+const sendData = (res: Response, data: unknown, statusCode = 200) => {
+  res.status(statusCode).json({
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString()
+    }
+  });
+};
+
+// Dates arrive as ISO strings; null clears the field and a missing one leaves it alone
+const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  return new Date(String(value));
+};
+
+/**
+ * Load the case to verify, refusing it during the cooldown after its last
+ * check, and note how many searches the verification costs
+ */
+const loadCaseToVerify = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const removalCase = await removalCaseService.getForVerification(req.user!.id, req.params.id);
+    res.locals.identifierCount = removalCase.identifiers.length;
+    next();
+  } catch (error) {
+    handleRemovalCaseError(res, error, 'verify removal case');
+  }
+};
+
+// A verification searches the bot once per identifier of the case
+const verificationQuotaMiddleware = createSearchQuotaMiddleware((_req, res) => res.locals.identifierCount);
+
+/**
+ * GET /api/removal-cases
+ * The user's removal cases; ?botId= narrows them to one bot
+ */
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const botId = typeof req.query.botId === 'string' ? req.query.botId : undefined;
+    sendData(res, await removalCaseService.list(req.user!.id, botId));
+  } catch (error) {
+    handleRemovalCaseError(res, error, 'list removal cases');
+  }
+});
+
+/**
+ * POST /api/removal-cases
+ * Open a case: { botId, identifiers: [{ type, value }], status?, ticketNumber?, submittedAt?, notes? }
+ */
+router.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const removalCase = await removalCaseService.create(req.user!.id, {
+      botId: req.body.botId,
+      identifiers: req.body.identifiers,
+      status: req.body.status,
+      ticketNumber: req.body.ticketNumber,
+      submittedAt: parseDate(req.body.submittedAt) ?? undefined,
+      notes: req.body.notes
+    });
+    sendData(res, removalCase, 201);
+  } catch (error) {
+    handleRemovalCaseError(res, error, 'create removal case');
+  }
+});
+
+/**
+ * GET /api/removal-cases/:id
+ */
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    sendData(res, await removalCaseService.get(req.user!.id, req.params.id));
+  } catch (error) {
+    handleRemovalCaseError(res, error, 'get removal case');
+  }
+});
+
+/**
+ * PATCH /api/removal-cases/:id
+ * Change the status, ticket number, submission date or notes
+ */
+router.patch('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const removalCase = await removalCaseService.update(req.user!.id, req.params.id, {
+      status: req.body.status,
+      ticketNumber: req.body.ticketNumber,
+      submittedAt: parseDate(req.body.submittedAt),
+      notes: req.body.notes
+    });
+    sendData(res, removalCase);
+  } catch (error) {
+    handleRemovalCaseError(res, error, 'update removal case');
+  }
+});
+
+/**
+ * DELETE /api/removal-cases/:id
+ */
+router.delete('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    await removalCaseService.delete(req.user!.id, req.params.id);
+    sendData(res, { id: req.params.id, deleted: true });
+  } catch (error) {
+    handleRemovalCaseError(res, error, 'delete removal case');
+  }
+});
+
+/**
+ * POST /api/removal-cases/:id/verify
+ * Search the bot again now; the case becomes verified if it no longer returns data.
+ * Costs one search per identifier and is refused with 429 shortly after the last check.
+ */
+router.post('/:id/verify',
+  rateLimitMiddleware,
+  authenticate,
+  loadCaseToVerify,
+  verificationQuotaMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      sendData(res, await removalCaseService.verify(req.user!.id, req.params.id));
+    } catch (error) {
+      handleRemovalCaseError(res, error, 'verify removal case');
+    }
+  }
+);
+
+export default router;
@@ -4,23 +4,152 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { SearchService } from '../services/search.service';
+import { SearchService, SearchMode } from '../services/search.service';
+import { searchProgressService, SearchProgressEvent } from '../services/search-progress.service';
+import { searchJobService, SearchJobError } from '../services/search-job.service';
+import { searchHistoryService, SearchHistoryError } from '../services/search-history.service';
 import { SearchRequest, SearchType } from '../types/search';
 import { logger } from '../utils/logger';
-import { validateSearchRequest } from '../middleware/validation.middleware';
+import { validateSearchRequest, validateBatchSearchRequest } from '../middleware/validation.middleware';
 import { rateLimitMiddleware } from '../middleware/rate-limit.middleware';
+import { authenticate, optionalAuthenticate } from '../middleware/auth.middleware';
+import {
+  searchQuotaMiddleware,
+  batchSearchQuotaMiddleware,
+  fullSearchPlanMiddleware,
+  sendFullSearchRequiresPlan,
+  getQuotaKey
+} from '../middleware/quota.middleware';
+import { tariffService } from '../services/tariff.service';
+import { authService } from '../services/auth.service';
 import { searchMetricsMiddleware, apiPerformanceMiddleware } from '../middleware/monitoring.middleware';
 
 const router = Router();
 const searchService = SearchService.getInstance();
 
+// Comment line sent to idle event streams so proxies keep the connection open
+const SSE_HEARTBEAT_INTERVAL = 15000;
+// How long browsers wait before reconnecting a dropped event stream
+const SSE_RETRY_MS = 3000;
+
+/**
+ * Send a search job failure, mapping SearchJobError to its status code
+ */
+const handleSearchJobError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof SearchJobError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.statusCode,
+        type: error.type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  logger.error(`Failed to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      message: `Failed to ${action}`,
+      code: 500,
+      type: 'SEARCH_JOB_ERROR'
+    }
+  });
+};
+
+/**
+ * Send a search history failure, mapping SearchHistoryError to its status code
+ */
+const handleSearchHistoryError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof SearchHistoryError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.statusCode,
+        type: error.type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  logger.error(`Failed to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      message: `Failed to ${action}`,
+      code: 500,
+      type: 'SEARCH_HISTORY_ERROR'
+    }
+  });
+};
+
+const sendData = (res: Response, data: unknown, statusCode = 200) => {
+  res.status(statusCode).json({
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString()
+    }
+  });
+};
+
+/**
+ * Search mode for the caller's plan: the requested one, or full searches on
+ * plans that include records and quick scans on the rest. Null when a full
+ * search is requested on a plan without it.
+ */
+const resolveSearchMode = async (req: Request): Promise<SearchMode | null> => {
+  const plan = await tariffService.getEffectivePlan(getQuotaKey(req));
+  const fullSearch = tariffService.allowsFullSearch(plan);
+  const mode: SearchMode = req.body.mode || (fullSearch ? 'full' : 'quick');
+
+  return mode === 'full' && !fullSearch ? null : mode;
+};
+
+/**
+ * Status code for a failed search, from the error the search service threw
+ */
+const getSearchErrorStatus = (errorMessage: string): number => {
+  if (errorMessage.includes('Invalid') || errorMessage.includes('format')) {
+    return 400;
+  }
+  if (errorMessage.includes('timeout')) {
+    return 408;
+  }
+  if (errorMessage.includes('No active bot')) {
+    return 503;
+  }
+  return 500;
+};
+
 /**
  * POST /api/search
- * Main search endpoint for finding data across all bots
+ * Main search endpoint for finding data across all bots.
+ * `mode: 'quick'` only counts hits per source with the bots that offer a
+ * count-only method; it is the default, and the only mode, on free plans.
+ * With `stream: true` a full search runs in the background and the response
+ * is a 202 pointing at its event stream.
  */
 router.post('/search', 
   rateLimitMiddleware,
+  optionalAuthenticate,
   validateSearchRequest,
+  searchQuotaMiddleware,
   searchMetricsMiddleware,
   apiPerformanceMiddleware('search'),
   async (req: Request, res: Response) => {
@@ -39,8 +168,49 @@ router.post('/search',
         ip: req.ip
       });
 
-      // Get user ID from headers
-      const userId = req.headers['x-user-id'] as string || 'anonymous';
+      // Searches are attributed to the signed-in user when a token is sent
+      const userId = req.user?.id || 'anonymous';
+
+      const mode = await resolveSearchMode(req);
+
+      if (!mode) {
+        sendFullSearchRequiresPlan(res);
+        return;
+      }
+
+      if (mode === 'quick') {
+        const scan = await searchService.quickScan(searchRequest, userId);
+
+        res.status(200).json({
+          success: true,
+          data: scan,
+          meta: {
+            requestId: scan.searchId,
+            timestamp: new Date().toISOString(),
+            processingTime: Date.now() - startTime
+          }
+        });
+        return;
+      }
+
+      if (req.body.stream === true) {
+        const { searchId } = await searchService.startSearch(searchRequest, userId);
+
+        res.status(202).json({
+          success: true,
+          data: {
+            searchId,
+            status: 'running',
+            eventsUrl: `${req.baseUrl}/search/${searchId}/events`
+          },
+          meta: {
+            requestId: searchId,
+            timestamp: new Date().toISOString(),
+            processingTime: Date.now() - startTime
+          }
+        });
+        return;
+      }
 
       // Execute search
       const results = await searchService.searchAllBots(searchRequest, userId);
@@ -77,16 +247,104 @@ router.post('/search',
         ip: req.ip
       });
 
-      // Determine appropriate status code
-      let statusCode = 500;
-      if (errorMessage.includes('Invalid') || errorMessage.includes('format')) {
-        statusCode = 400;
-      } else if (errorMessage.includes('timeout')) {
-        statusCode = 408;
-      } else if (errorMessage.includes('No active bot')) {
-        statusCode = 503;
+      const statusCode = getSearchErrorStatus(errorMessage);
+
+      res.status(statusCode).json({
+        success: false,
+        error: {
+          message: errorMessage,
+          code: statusCode,
+          type: 'SEARCH_ERROR'
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          processingTime: duration
+        }
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/search/search/batch
+ * Search several identifiers of the same person at once. Each identifier
+ * counts against the search quota; bots whose upstream batches get them in
+ * one call. Full results come per identifier plus one merged profile; quick
+ * scans come per identifier.
+ */
+router.post('/search/batch',
+  rateLimitMiddleware,
+  optionalAuthenticate,
+  validateBatchSearchRequest,
+  batchSearchQuotaMiddleware,
+  apiPerformanceMiddleware('search_batch'),
+  async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    try {
+      const searchRequests: SearchRequest[] = req.body.identifiers.map(
+        (identifier: { type: string; value: string }) => ({
+          type: identifier.type as SearchType,
+          value: identifier.value
+        })
+      );
+
+      logger.info('Batch search request received', {
+        searchTypes: searchRequests.map(searchRequest => searchRequest.type),
+        userAgent: req.get('User-Agent'),
+        ip: req.ip
+      });
+
+      const userId = req.user?.id || 'anonymous';
+
+      const mode = await resolveSearchMode(req);
+
+      if (!mode) {
+        sendFullSearchRequiresPlan(res);
+        return;
+      }
+
+      if (mode === 'quick') {
+        const searches = await Promise.all(
+          searchRequests.map(searchRequest => searchService.quickScan(searchRequest, userId))
+        );
+
+        res.status(200).json({
+          success: true,
+          data: { mode, searches },
+          meta: {
+            timestamp: new Date().toISOString(),
+            processingTime: Date.now() - startTime
+          }
+        });
+        return;
       }
 
+      const results = await searchService.searchBatch(searchRequests, userId);
+
+      res.status(200).json({
+        success: true,
+        data: results,
+        meta: {
+          requestId: results.batchId,
+          timestamp: new Date().toISOString(),
+          processingTime: Date.now() - startTime
+        }
+      });
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('Batch search request failed', {
+        error: errorMessage,
+        duration,
+        userAgent: req.get('User-Agent'),
+        ip: req.ip
+      });
+
+      const statusCode = getSearchErrorStatus(errorMessage);
+
       res.status(statusCode).json({
         success: false,
         error: {
@@ -103,13 +361,260 @@ router.post('/search',
   }
 );
 
+/**
+ * POST /api/search/search/jobs
+ * Queue a search as a background job; poll GET /search/jobs/:jobId for results
+ */
+router.post('/search/jobs',
+  rateLimitMiddleware,
+  authenticate,
+  validateSearchRequest,
+  fullSearchPlanMiddleware,
+  searchQuotaMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const searchRequest: SearchRequest = {
+        type: req.body.type as SearchType,
+        value: req.body.value
+      };
+
+      const job = await searchJobService.createJob(req.user!.id, searchRequest, req.body.botIds);
+      sendData(res, job, 202);
+    } catch (error) {
+      handleSearchJobError(res, error, 'create search job');
+    }
+  }
+);
+
+/**
+ * GET /api/search/search/jobs/:jobId
+ * Job status with its results so far; complete once the status is `completed`
+ */
+router.get('/search/jobs/:jobId', authenticate, async (req: Request, res: Response) => {
+  try {
+    sendData(res, await searchJobService.getJob(req.params.jobId, req.user!.id));
+  } catch (error) {
+    handleSearchJobError(res, error, 'get search job');
+  }
+});
+
+/**
+ * POST /api/search/search/jobs/:jobId/retry
+ * Search the bots that failed or timed out again, keeping the other results
+ */
+router.post('/search/jobs/:jobId/retry',
+  rateLimitMiddleware,
+  authenticate,
+  fullSearchPlanMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      sendData(res, await searchJobService.retryFailedBots(req.params.jobId, req.user!.id), 202);
+    } catch (error) {
+      handleSearchJobError(res, error, 'retry search job');
+    }
+  }
+);
+
+/**
+ * GET /api/search/search/history
+ * The signed-in user's past searches, newest first, with masked queries
+ */
+router.get('/search/history', authenticate, async (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
+
+    sendData(res, await searchHistoryService.list(req.user!.id, {
+      limit: Number.isNaN(limit) ? undefined : limit,
+      offset: Number.isNaN(offset) ? undefined : offset
+    }));
+  } catch (error) {
+    handleSearchHistoryError(res, error, 'list search history');
+  }
+});
+
+/**
+ * DELETE /api/search/search/history
+ * Forget every saved search of the signed-in user
+ */
+router.delete('/search/history', authenticate, async (req: Request, res: Response) => {
+  try {
+    sendData(res, { deleted: await searchHistoryService.clear(req.user!.id) });
+  } catch (error) {
+    handleSearchHistoryError(res, error, 'clear search history');
+  }
+});
+
+/**
+ * GET /api/search/search/history/:id
+ * A saved search with its full results, decrypted for its owner
+ */
+router.get('/search/history/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    sendData(res, await searchHistoryService.get(req.user!.id, req.params.id));
+  } catch (error) {
+    handleSearchHistoryError(res, error, 'get search history entry');
+  }
+});
+
+/**
+ * GET /api/search/search/history/:fromId/diff/:toId
+ * Per bot, the found items that disappeared, remain or are new between two
+ * runs of the same search
+ */
+router.get('/search/history/:fromId/diff/:toId', authenticate, async (req: Request, res: Response) => {
+  try {
+    sendData(res, await searchHistoryService.diff(req.user!.id, req.params.fromId, req.params.toId));
+  } catch (error) {
+    handleSearchHistoryError(res, error, 'compare searches');
+  }
+});
+
+/**
+ * DELETE /api/search/search/history/:id
+ */
+router.delete('/search/history/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    await searchHistoryService.delete(req.user!.id, req.params.id);
+    sendData(res, { id: req.params.id, deleted: true });
+  } catch (error) {
+    handleSearchHistoryError(res, error, 'delete search history entry');
+  }
+});
+
+/**
+ * POST /api/search/search/history/:id/rerun
+ * Run a saved search again; the new run is saved as a separate entry
+ */
+router.post('/search/history/:id/rerun',
+  rateLimitMiddleware,
+  authenticate,
+  fullSearchPlanMiddleware,
+  searchQuotaMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const searchRequest = await searchHistoryService.getRequest(req.user!.id, req.params.id);
+      sendData(res, await searchService.searchAllBots(searchRequest, req.user!.id));
+    } catch (error) {
+      handleSearchHistoryError(res, error, 're-run search');
+    }
+  }
+);
+
+/**
+ * GET /api/search/search/:searchId/events
+ * Server-Sent Events stream of a search started with `stream: true`: a
+ * `started`, then `completed`, `error` or `timeout` event per bot, ending with
+ * `search_completed` or `search_failed`. Reconnecting with Last-Event-ID
+ * resumes after the last event received.
+ *
+ * EventSource cannot send headers, so a signed-in user's search is opened with
+ * their access token as `?token=`; anonymous searches need none.
+ */
+router.get('/search/:searchId/events', (req: Request, res: Response) => {
+  const { searchId } = req.params;
+  const stream = searchProgressService.getStream(searchId);
+
+  const sendStreamError = (statusCode: number, message: string, type: string) => {
+    res.status(statusCode).json({
+      success: false,
+      error: {
+        message,
+        code: statusCode,
+        type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  };
+
+  if (!stream) {
+    sendStreamError(404, 'Search not found or already expired', 'SEARCH_NOT_FOUND');
+    return;
+  }
+
+  if (stream.userId && stream.userId !== 'anonymous') {
+    let viewerId: string | null = null;
+
+    try {
+      viewerId = typeof req.query.token === 'string'
+        ? authService.verifyAccessToken(req.query.token).id
+        : null;
+    } catch {
+      viewerId = null;
+    }
+
+    if (!viewerId) {
+      sendStreamError(401, 'Authentication required', 'AUTHENTICATION_ERROR');
+      return;
+    }
+
+    if (viewerId !== stream.userId) {
+      logger.warn('Access to another user\'s search events denied', { searchId, userId: viewerId });
+      sendStreamError(403, 'Access denied', 'AUTHORIZATION_ERROR');
+      return;
+    }
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop nginx from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  let unsubscribe: () => void = () => undefined;
+  let closed = false;
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_INTERVAL);
+
+  const close = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  const send = (event: SearchProgressEvent) => {
+    if (closed) {
+      return;
+    }
+
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+    if (searchProgressService.isFinalEvent(event)) {
+      close();
+    }
+  };
+
+  const lastEventId = Number(req.get('Last-Event-ID')) || 0;
+  unsubscribe = searchProgressService.subscribe(searchId, send, lastEventId);
+
+  // The search may have finished before this client caught up with it
+  if (stream.finished) {
+    close();
+  }
+
+  req.on('close', close);
+});
+
 /**
  * POST /api/search/specific
  * Search with specific bots only
  */
 router.post('/search/specific',
   rateLimitMiddleware,
+  optionalAuthenticate,
   validateSearchRequest,
+  fullSearchPlanMiddleware,
+  searchQuotaMiddleware,
   async (req: Request, res: Response) => {
     const startTime = Date.now();
     
@@ -139,7 +644,7 @@ router.post('/search/specific',
         queryLength: searchRequest.value.length
       });
 
-      const results = await searchService.searchWithSpecificBots(searchRequest, botIds);
+      const results = await searchService.searchWithSpecificBots(searchRequest, botIds, { userId: req.user?.id });
 
       const duration = Date.now() - startTime;
       logger.info('Specific bot search completed', {
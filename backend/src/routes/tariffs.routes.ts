@@ -6,9 +6,47 @@
 import { Router, Request, Response } from 'express';
 import { logger } from '../utils/logger';
 import { tariffService } from '../services/tariff.service';
+import {
+  subscriptionLifecycleService,
+  SubscriptionLifecycleError
+} from '../services/subscription-lifecycle.service';
+import { authenticate, requireOwnership } from '../middleware/auth.middleware';
 
 const router = Router();
 
+/**
+ * Send a lifecycle failure, mapping SubscriptionLifecycleError to its status code
+ */
+const handleLifecycleError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof SubscriptionLifecycleError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.statusCode,
+        type: error.type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  logger.error(`Failed to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      message: `Failed to ${action}`,
+      code: 500,
+      type: 'SUBSCRIPTION_ERROR'
+    }
+  });
+};
+
 /**
  * GET /api/tariffs
  * Get all available tariff plans
@@ -176,11 +214,12 @@ router.get('/compare/all', (req: Request, res: Response) => {
 
 /**
  * POST /api/tariffs/subscribe
- * Create or update user subscription (placeholder for future payment integration)
+ * Activate the free plan; paid plans are purchased through /api/payments
  */
-router.post('/subscribe', (req: Request, res: Response) => {
+router.post('/subscribe', authenticate, async (req: Request, res: Response) => {
   try {
-    const { planId, userId } = req.body;
+    const { planId } = req.body;
+    const userId = req.user!.id;
     
     logger.info('Subscription request', { 
       planId,
@@ -189,11 +228,23 @@ router.post('/subscribe', (req: Request, res: Response) => {
       ip: req.ip
     });
 
-    if (!planId || !userId) {
+    if (req.body.userId && req.body.userId !== userId) {
+      res.status(403).json({
+        success: false,
+        error: {
+          message: 'Access denied',
+          code: 403,
+          type: 'AUTHORIZATION_ERROR'
+        }
+      });
+      return;
+    }
+
+    if (!planId) {
       res.status(400).json({
         success: false,
         error: {
-          message: 'Plan ID and User ID are required',
+          message: 'Plan ID is required',
           code: 400,
           type: 'VALIDATION_ERROR'
         }
@@ -201,7 +252,7 @@ router.post('/subscribe', (req: Request, res: Response) => {
       return;
     }
 
-    const result = tariffService.createSubscription(userId, planId);
+    const result = await tariffService.createSubscription(userId, planId);
     
     if (!result.success) {
       res.status(400).json({
@@ -218,9 +269,7 @@ router.post('/subscribe', (req: Request, res: Response) => {
     res.status(200).json({
       success: true,
       data: {
-        message: planId === 'free' 
-          ? 'Бесплатный план активирован'
-          : 'Подписка будет активирована после настройки платежей',
+        message: result.message,
         planId,
         userId
       },
@@ -235,7 +284,7 @@ router.post('/subscribe', (req: Request, res: Response) => {
     logger.error('Failed to create subscription', {
       error: errorMessage,
       planId: req.body?.planId,
-      userId: req.body?.userId
+      userId: req.user?.id
     });
 
     res.status(500).json({
@@ -253,7 +302,7 @@ router.post('/subscribe', (req: Request, res: Response) => {
  * GET /api/tariffs/user/:userId/subscription
  * Get user subscription status
  */
-router.get('/user/:userId/subscription', (req: Request, res: Response) => {
+router.get('/user/:userId/subscription', authenticate, requireOwnership('userId'), async (req: Request, res: Response) => {
   try {
     const { userId } = req.params;
     
@@ -275,10 +324,10 @@ router.get('/user/:userId/subscription', (req: Request, res: Response) => {
       return;
     }
 
-    const subscription = tariffService.getUserSubscription(userId);
+    const subscription = await tariffService.getUserSubscription(userId);
     const currentPlan = subscription ? tariffService.getTariffPlan(subscription.planId) : null;
-    const usageStats = tariffService.getUsageStats(userId);
-    const canSearch = tariffService.canUserSearch(userId);
+    const usageStats = await tariffService.getUsageStats(userId);
+    const canSearch = await tariffService.canUserSearch(userId);
 
     res.status(200).json({
       success: true,
@@ -312,4 +361,44 @@ router.get('/user/:userId/subscription', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/tariffs/trial
+ * Start the one-time free trial of a paid plan
+ */
+router.post('/trial', authenticate, async (req: Request, res: Response) => {
+  try {
+    const subscription = await subscriptionLifecycleService.startTrial(req.user!.id, req.body?.planId);
+
+    res.status(201).json({
+      success: true,
+      data: { subscription },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handleLifecycleError(res, error, 'start trial');
+  }
+});
+
+/**
+ * POST /api/tariffs/subscription/cancel
+ * Turn off renewal; the plan stays available until the paid period ends
+ */
+router.post('/subscription/cancel', authenticate, async (req: Request, res: Response) => {
+  try {
+    const subscription = await subscriptionLifecycleService.cancel(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: { subscription },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    handleLifecycleError(res, error, 'cancel subscription');
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,114 @@
+/**
+ * Telegram Routes
+ * Linking accounts to our Telegram bot and receiving the bot's webhook updates
+ */
+
+import { Router, Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { authenticate } from '../middleware/auth.middleware';
+import { TELEGRAM_SECRET_HEADER } from '../clients/telegram-bot.client';
+import { telegramService, TelegramError } from '../services/telegram.service';
+
+const router = Router();
+
+/**
+ * Send a Telegram failure, mapping TelegramError to its status code
+ */
+const handleTelegramError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof TelegramError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.statusCode,
+        type: error.type
+      },
+      meta: {
+        timestamp: new Date().toISOString()
+      }
+    });
+    return;
+  }
+
+  logger.error(`Failed to ${action}`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  res.status(500).json({
+    success: false,
+    error: {
+      message: `Failed to ${action}`,
+      code: 500,
+      type: 'TELEGRAM_ERROR'
+    }
+  });
+};
+
+const sendData = (res: Response, data: unknown, statusCode = 200) => {
+  res.status(statusCode).json({
+    success: true,
+    data,
+    meta: {
+      timestamp: new Date().toISOString()
+    }
+  });
+};
+
+/**
+ * GET /api/telegram/link
+ * Whether Telegram is available and which chat is linked to the account
+ */
+router.get('/link', authenticate, async (req: Request, res: Response) => {
+  try {
+    const link = await telegramService.getLink(req.user!.id);
+
+    sendData(res, {
+      enabled: telegramService.isEnabled(),
+      linked: link !== null,
+      username: link?.username,
+      linkedAt: link?.linkedAt
+    });
+  } catch (error) {
+    handleTelegramError(res, error, 'get Telegram link');
+  }
+});
+
+/**
+ * POST /api/telegram/link
+ * Create a t.me deep link; opening it and pressing Start links the chat
+ */
+router.post('/link', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { url, expiresAt } = await telegramService.createLinkToken(req.user!.id);
+    sendData(res, { url, expiresAt }, 201);
+  } catch (error) {
+    handleTelegramError(res, error, 'create Telegram link');
+  }
+});
+
+/**
+ * DELETE /api/telegram/link
+ * Disconnect the linked chat and turn Telegram notifications off
+ */
+router.delete('/link', authenticate, async (req: Request, res: Response) => {
+  try {
+    sendData(res, { unlinked: await telegramService.unlink(req.user!.id) });
+  } catch (error) {
+    handleTelegramError(res, error, 'remove Telegram link');
+  }
+});
+
+/**
+ * POST /api/telegram/webhook
+ * Bot updates from Telegram, authenticated with the webhook secret token
+ */
+router.post('/webhook', async (req: Request, res: Response) => {
+  try {
+    await telegramService.handleWebhook(req.get(TELEGRAM_SECRET_HEADER), req.body);
+    sendData(res, { processed: true });
+  } catch (error) {
+    handleTelegramError(res, error, 'process Telegram update');
+  }
+});
+
+export default router;
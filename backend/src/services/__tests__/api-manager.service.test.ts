@@ -3,17 +3,38 @@
  */
 
 import { ApiManagerService } from '../api-manager.service';
+import { costLedgerService } from '../cost-ledger.service';
 import { BotApiClient, ApiResponse, ErrorType } from '../../types/api';
-import { SearchType } from '../../types/search';
+import { SearchType, SEARCH_TYPES } from '../../types/search';
+import { BotCapabilities } from '../../types/bot';
+import * as botsConfig from '../../config/bots.config';
 
 // Mock all bot clients
-jest.mock('../../clients', () => ({
-  DyxlessClient: jest.fn(),
-  ITPClient: jest.fn(),
-  LeakOsintClient: jest.fn(),
-  UserboxClient: jest.fn(),
-  VektorClient: jest.fn()
-}));
+jest.mock('../../clients', () => {
+  const { BotClientRegistry } = jest.requireActual('../../clients/registry');
+  const clients = {
+    DyxlessClient: jest.fn(),
+    ITPClient: jest.fn(),
+    LeakOsintClient: jest.fn(),
+    UserboxClient: jest.fn(),
+    VektorClient: jest.fn()
+  };
+  const botClientRegistry = new BotClientRegistry();
+  Object.entries(clients).forEach(([providerId, Client]) => {
+    botClientRegistry.register(providerId, () => new Client());
+  });
+
+  return { ...clients, botClientRegistry };
+});
+
+const capabilities = (supportedSearchTypes: SearchType[] = [...SEARCH_TYPES]): BotCapabilities => ({
+  supportedSearchTypes,
+  supportsBatch: false,
+  maxRequestsPerMinute: 60,
+  costPerRequest: 0,
+  requiresAuthentication: true,
+  supportsParallelRequests: true
+});
 
 describe('ApiManagerService', () => {
   let apiManager: ApiManagerService;
@@ -28,27 +49,32 @@ describe('ApiManagerService', () => {
       dyxless: {
         search: jest.fn(),
         isAvailable: jest.fn(),
-        getBotId: jest.fn().mockReturnValue('dyxless')
+        getBotId: jest.fn().mockReturnValue('dyxless'),
+        getCapabilities: jest.fn().mockReturnValue(capabilities())
       } as jest.Mocked<BotApiClient>,
       itp: {
         search: jest.fn(),
         isAvailable: jest.fn(),
-        getBotId: jest.fn().mockReturnValue('itp')
+        getBotId: jest.fn().mockReturnValue('itp'),
+        getCapabilities: jest.fn().mockReturnValue(capabilities())
       } as jest.Mocked<BotApiClient>,
       leak_osint: {
         search: jest.fn(),
         isAvailable: jest.fn(),
-        getBotId: jest.fn().mockReturnValue('leak_osint')
+        getBotId: jest.fn().mockReturnValue('leak_osint'),
+        getCapabilities: jest.fn().mockReturnValue(capabilities())
       } as jest.Mocked<BotApiClient>,
       userbox: {
         search: jest.fn(),
         isAvailable: jest.fn(),
-        getBotId: jest.fn().mockReturnValue('userbox')
+        getBotId: jest.fn().mockReturnValue('userbox'),
+        getCapabilities: jest.fn().mockReturnValue(capabilities())
       } as jest.Mocked<BotApiClient>,
       vektor: {
         search: jest.fn(),
         isAvailable: jest.fn(),
-        getBotId: jest.fn().mockReturnValue('vektor')
+        getBotId: jest.fn().mockReturnValue('vektor'),
+        getCapabilities: jest.fn().mockReturnValue(capabilities())
       } as jest.Mocked<BotApiClient>
     };
 
@@ -434,6 +460,70 @@ describe('ApiManagerService', () => {
     });
   });
 
+  describe('Bot configuration', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should load bots from config/bots.json', async () => {
+      Object.values(mockClients).forEach(client => client.isAvailable.mockResolvedValue(true));
+
+      const statuses = await apiManager.getBotStatuses();
+
+      expect(statuses.map(s => s.botId)).toEqual(['dyxless', 'itp', 'leak_osint', 'userbox', 'vektor']);
+      expect(statuses.map(s => s.encryptedName)).toEqual(['Бот A', 'Бот B', 'Бот C', 'Бот D', 'Бот E']);
+    });
+
+    it('should apply reloaded config without dropping circuit breaker state', async () => {
+      mockClients.dyxless.search.mockResolvedValue({
+        success: false,
+        error: 'API Error',
+        errorCode: ErrorType.API_UNAVAILABLE,
+        timestamp: new Date(),
+        botId: 'dyxless'
+      });
+      await apiManager.searchWithBots({ type: 'phone', value: 'test' }, ['dyxless']);
+
+      jest.spyOn(botsConfig, 'loadBotsConfig').mockReturnValue([
+        { id: 'dyxless', name: 'Dyxless', encryptedName: 'Бот Z', isActive: true, priority: 2, apiClient: 'DyxlessClient' },
+        { id: 'itp', name: 'InfoTrackPeople', encryptedName: 'Бот B', isActive: false, priority: 1, apiClient: 'ITPClient' }
+      ]);
+
+      apiManager.reloadBotConfig();
+
+      const statuses = await apiManager.getBotStatuses();
+      expect(statuses.map(s => s.botId)).toEqual(['itp', 'dyxless']);
+      expect(statuses[1].encryptedName).toBe('Бот Z');
+      expect(statuses[0].isActive).toBe(false);
+      expect(apiManager.getCircuitBreakerStates().dyxless.failureCount).toBe(1);
+      expect(apiManager.getCircuitBreakerStates().vektor).toBeUndefined();
+    });
+
+    it('should keep suspended bots inactive when the config is reloaded', async () => {
+      apiManager.setBotSuspended('vektor', true);
+
+      apiManager.reloadBotConfig();
+      expect(apiManager.getBots().find(bot => bot.id === 'vektor')!.isActive).toBe(false);
+      expect(apiManager.getBots().find(bot => bot.id === 'userbox')!.isActive).toBe(true);
+
+      apiManager.setBotSuspended('vektor', false);
+      apiManager.reloadBotConfig();
+      expect(apiManager.getBots().find(bot => bot.id === 'vektor')!.isActive).toBe(true);
+    });
+
+    it('should mark bots with unknown providers as inactive', async () => {
+      jest.spyOn(botsConfig, 'loadBotsConfig').mockReturnValue([
+        { id: 'new_leak_db', name: 'New', encryptedName: 'Бот F', isActive: true, priority: 6, apiClient: 'MissingClient' }
+      ]);
+
+      apiManager.reloadBotConfig();
+
+      const statuses = await apiManager.getBotStatuses();
+      expect(statuses).toHaveLength(1);
+      expect(statuses[0].isActive).toBe(false);
+    });
+  });
+
   describe('searchWithBots', () => {
     it('should search with specific bots only', async () => {
       // Mock responses for specific bots
@@ -466,12 +556,244 @@ describe('ApiManagerService', () => {
       expect(mockClients.vektor.search).not.toHaveBeenCalled();
     });
 
+    it('should report progress as each bot starts and finishes', async () => {
+      mockClients.dyxless.search.mockResolvedValue({
+        success: true,
+        data: { hasData: true, totalRecords: 1, records: [{}] },
+        timestamp: new Date(),
+        botId: 'dyxless'
+      });
+
+      mockClients.userbox.search.mockResolvedValue({
+        success: false,
+        error: 'Request timed out',
+        errorCode: ErrorType.TIMEOUT_ERROR,
+        timestamp: new Date(),
+        botId: 'userbox'
+      });
+
+      const onProgress = jest.fn();
+      const result = await apiManager.searchWithBots(
+        { type: 'phone', value: '+79123456789' },
+        ['dyxless', 'userbox'],
+        { searchId: 'search_progress', onProgress }
+      );
+
+      const events = onProgress.mock.calls.map(([event]) => [event.type, event.botId]);
+      expect(result.searchId).toBe('search_progress');
+      expect(events).toHaveLength(4);
+      expect(events.slice(0, 2)).toEqual([['started', 'dyxless'], ['started', 'userbox']]);
+      expect(events.slice(2)).toEqual(expect.arrayContaining([['completed', 'dyxless'], ['timeout', 'userbox']]));
+      expect(result.results.find(r => r.botId === 'userbox')!.status).toBe('timeout');
+    });
+
+    it('should record the spend of every upstream call', async () => {
+      const record = jest.spyOn(costLedgerService, 'record').mockResolvedValue(null);
+      mockClients.dyxless.getCapabilities.mockReturnValue({ ...capabilities(), costPerRequest: 1.5 });
+      mockClients.dyxless.search.mockResolvedValue({
+        success: true,
+        data: { hasData: true, totalRecords: 1, records: [{}] },
+        timestamp: new Date(),
+        botId: 'dyxless'
+      });
+      mockClients.userbox.estimateCost = jest.fn().mockReturnValue(2.5);
+      mockClients.userbox.search.mockResolvedValue({
+        success: false,
+        error: 'Request timed out',
+        errorCode: ErrorType.TIMEOUT_ERROR,
+        timestamp: new Date(),
+        botId: 'userbox'
+      });
+
+      await apiManager.searchWithBots(
+        { type: 'phone', value: '+79123456789' },
+        ['dyxless', 'userbox'],
+        { searchId: 'search_spend', userId: 'user-1' }
+      );
+
+      expect(record).toHaveBeenCalledTimes(2);
+      expect(record).toHaveBeenCalledWith({
+        searchId: 'search_spend',
+        userId: 'user-1',
+        botId: 'dyxless',
+        searchType: 'phone',
+        estimatedCost: 1.5,
+        billed: true
+      });
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({
+        botId: 'userbox',
+        estimatedCost: 2.5,
+        billed: false
+      }));
+      record.mockRestore();
+    });
+
     it('should throw error when no specified bots are active', async () => {
       await expect(apiManager.searchWithBots(
         { type: 'phone', value: '+79123456789' },
         ['nonexistent1', 'nonexistent2']
       )).rejects.toThrow('No active bot clients available from the specified list');
     });
+
+    it('should skip bots that cannot search by the requested type', async () => {
+      mockClients.dyxless.getCapabilities.mockReturnValue(capabilities(['phone', 'email']));
+      mockClients.itp.search.mockResolvedValue({
+        success: true,
+        data: { hasData: true, totalRecords: 1, records: [{}] },
+        timestamp: new Date(),
+        botId: 'itp'
+      });
+
+      const onProgress = jest.fn();
+      const result = await apiManager.searchWithBots(
+        { type: 'snils', value: '12345678901' },
+        ['dyxless', 'itp'],
+        { onProgress }
+      );
+
+      expect(mockClients.dyxless.search).not.toHaveBeenCalled();
+      expect(result.totalBotsSearched).toBe(1);
+      expect(result.results.map(r => [r.botId, r.status])).toEqual([['itp', 'success'], ['dyxless', 'not_supported']]);
+      expect(onProgress.mock.calls.map(([event]) => event.botId)).not.toContain('dyxless');
+    });
+
+    it('should throw error when no specified bot supports the search type', async () => {
+      mockClients.dyxless.getCapabilities.mockReturnValue(capabilities(['phone']));
+
+      await expect(apiManager.searchWithBots(
+        { type: 'name', value: 'Иванов Иван' },
+        ['dyxless']
+      )).rejects.toThrow('No active bot supports search type: name');
+    });
+  });
+
+  describe('quickScan', () => {
+    it('should count hits only with bots that offer a count-only method', async () => {
+      const record = jest.spyOn(costLedgerService, 'record').mockResolvedValue(null);
+      mockClients.userbox.countHits = jest.fn().mockResolvedValue({
+        success: true,
+        data: { totalRecords: 15, sources: [{ source: 'vk_com/users', count: 14 }, { source: '500px_com/users', count: 1 }] },
+        timestamp: new Date(),
+        botId: 'userbox'
+      });
+
+      const result = await apiManager.quickScan({ type: 'phone', value: '+79123456789' }, { userId: 'user-1' });
+
+      expect(result.available).toBe(true);
+      expect(result.totalBotsSearched).toBe(1);
+      expect(result.totalSourcesFound).toBe(2);
+      expect(result.totalRecords).toBe(15);
+      expect(result.results).toEqual([expect.objectContaining({ botId: 'userbox', status: 'success', sourcesFound: 2 })]);
+      Object.values(mockClients).forEach(client => expect(client.search).not.toHaveBeenCalled());
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({ botId: 'userbox', estimatedCost: 0, billed: true }));
+      record.mockRestore();
+    });
+
+    it('should report the scan as unavailable when no active bot can count hits', async () => {
+      const result = await apiManager.quickScan({ type: 'phone', value: '+79123456789' });
+
+      expect(result).toMatchObject({ available: false, results: [], totalBotsSearched: 0, totalSourcesFound: 0 });
+      Object.values(mockClients).forEach(client => expect(client.search).not.toHaveBeenCalled());
+    });
+
+    it('should report the scan as unavailable when no counting bot supports the type', async () => {
+      mockClients.userbox.countHits = jest.fn();
+      mockClients.userbox.getCapabilities.mockReturnValue(capabilities(['email']));
+
+      const result = await apiManager.quickScan({ type: 'phone', value: '+79123456789' });
+
+      expect(result.available).toBe(false);
+      expect(mockClients.userbox.countHits).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchBatch', () => {
+    const requests = [
+      { type: 'phone' as SearchType, value: '+79123456789' },
+      { type: 'email' as SearchType, value: 'ivanov@example.com' }
+    ];
+    const response = (botId: string, records: any[]): ApiResponse => ({
+      success: true,
+      data: { hasData: records.length > 0, records, totalRecords: records.length },
+      timestamp: new Date(),
+      botId
+    });
+
+    let record: jest.SpyInstance;
+
+    beforeEach(() => {
+      record = jest.spyOn(costLedgerService, 'record').mockResolvedValue(null);
+      Object.values(mockClients).forEach(client => client.search.mockResolvedValue(response(client.getBotId(), [])));
+    });
+
+    afterEach(() => {
+      record.mockRestore();
+    });
+
+    it('should send every identifier to a batch-capable bot in one call and attribute the records', async () => {
+      mockClients.leak_osint.getCapabilities.mockReturnValue({ ...capabilities(), supportsBatch: true });
+      mockClients.leak_osint.searchBatch = jest.fn().mockResolvedValue(response('leak_osint', [
+        { phone: '79123456789', name: 'Иванов Иван' },
+        { email: 'IVANOV@example.com' },
+        { name: 'Иванов Иван' }
+      ]));
+
+      const result = await apiManager.searchBatch(requests, { userId: 'user-1' });
+
+      expect(mockClients.leak_osint.searchBatch).toHaveBeenCalledTimes(1);
+      expect(mockClients.leak_osint.searchBatch).toHaveBeenCalledWith([
+        { query: '+79123456789', type: 'phone' },
+        { query: 'ivanov@example.com', type: 'email' }
+      ]);
+      expect(mockClients.leak_osint.search).not.toHaveBeenCalled();
+      expect(mockClients.itp.search).toHaveBeenCalledTimes(2);
+
+      // 4 other bots × 2 identifiers, plus one batch call
+      expect(result.upstreamCalls).toBe(9);
+      expect(result.searches.map(search => search.query)).toEqual(['+79123456789', 'ivanov@example.com']);
+
+      const leakOsint = result.searches.map(search => search.results.find(r => r.botId === 'leak_osint')!);
+      expect(leakOsint[0].foundFields).toEqual([{ phone: '79123456789', name: 'Иванов Иван' }, { name: 'Иванов Иван' }]);
+      expect(leakOsint[1].foundFields).toEqual([{ email: 'IVANOV@example.com' }, { name: 'Иванов Иван' }]);
+      expect(leakOsint.map(r => r.status)).toEqual(['success', 'success']);
+
+      // The upstream bills each query of the batch
+      expect(record.mock.calls.filter(([entry]) => entry.botId === 'leak_osint')).toHaveLength(2);
+    });
+
+    it('should mark identifiers a bot cannot search as not supported', async () => {
+      mockClients.dyxless.getCapabilities.mockReturnValue(capabilities(['phone']));
+
+      const result = await apiManager.searchBatch(requests);
+
+      expect(mockClients.dyxless.search).toHaveBeenCalledTimes(1);
+      expect(result.searches[1].results.find(r => r.botId === 'dyxless')!.status).toBe('not_supported');
+      expect(result.searches[1].totalBotsSearched).toBe(4);
+    });
+
+    it('should fail every identifier of a failed batch call', async () => {
+      mockClients.leak_osint.getCapabilities.mockReturnValue({ ...capabilities(), supportsBatch: true });
+      mockClients.leak_osint.searchBatch = jest.fn().mockResolvedValue({
+        success: false,
+        error: 'Upstream unavailable',
+        errorCode: ErrorType.API_UNAVAILABLE,
+        timestamp: new Date(),
+        botId: 'leak_osint'
+      });
+
+      const result = await apiManager.searchBatch(requests);
+
+      expect(result.searches.map(search => search.results.find(r => r.botId === 'leak_osint')!.status))
+        .toEqual(['error', 'error']);
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({ botId: 'leak_osint', billed: false }));
+    });
+
+    it('should throw error when no active bot supports any of the types', async () => {
+      Object.values(mockClients).forEach(client => client.getCapabilities.mockReturnValue(capabilities(['inn'])));
+
+      await expect(apiManager.searchBatch(requests))
+        .rejects.toThrow('No active bot supports search types: phone, email');
+    });
   });
 
   describe('Configuration management', () => {
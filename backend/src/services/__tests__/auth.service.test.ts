@@ -0,0 +1,149 @@
+/**
+ * Unit tests for AuthService
+ */
+
+import jwt from 'jsonwebtoken';
+import { AuthService, AuthError, authService } from '../auth.service';
+
+jest.mock('../../utils/logger');
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let emailCounter = 0;
+  const nextEmail = () => `user${++emailCounter}@example.com`;
+
+  beforeEach(() => {
+    service = AuthService.getInstance();
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(authService);
+  });
+
+  describe('Password hashing', () => {
+    it('should verify the original password only', async () => {
+      const hash = await service.hashPassword('correct horse');
+
+      expect(hash.startsWith('scrypt$')).toBe(true);
+      expect(await service.verifyPassword('correct horse', hash)).toBe(true);
+      expect(await service.verifyPassword('wrong horse', hash)).toBe(false);
+    });
+
+    it('should salt every hash', async () => {
+      const first = await service.hashPassword('same-password');
+      const second = await service.hashPassword('same-password');
+      expect(first).not.toBe(second);
+    });
+
+    it('should reject malformed hashes', async () => {
+      expect(await service.verifyPassword('password', 'plain-text')).toBe(false);
+    });
+  });
+
+  describe('register', () => {
+    it('should create a user and issue tokens', async () => {
+      const email = nextEmail();
+      const result = await service.register(email, 'password123');
+
+      expect(result.user.email).toBe(email);
+      expect(result.user).not.toHaveProperty('passwordHash');
+      expect(result.tokens.tokenType).toBe('Bearer');
+      expect(service.verifyAccessToken(result.tokens.accessToken)).toEqual({
+        id: result.user.id,
+        email
+      });
+    });
+
+    it('should normalize the email', async () => {
+      const email = nextEmail();
+      const result = await service.register(`  ${email.toUpperCase()} `, 'password123');
+      expect(result.user.email).toBe(email);
+    });
+
+    it('should reject duplicate emails', async () => {
+      const email = nextEmail();
+      await service.register(email, 'password123');
+
+      await expect(service.register(email, 'password456')).rejects.toMatchObject({
+        type: 'EMAIL_TAKEN',
+        statusCode: 409
+      });
+    });
+
+    it('should validate email and password', async () => {
+      await expect(service.register('not-an-email', 'password123')).rejects.toMatchObject({
+        type: 'VALIDATION_ERROR'
+      });
+      await expect(service.register(nextEmail(), 'short')).rejects.toMatchObject({
+        type: 'VALIDATION_ERROR'
+      });
+    });
+  });
+
+  describe('login', () => {
+    it('should sign in with valid credentials', async () => {
+      const email = nextEmail();
+      const registered = await service.register(email, 'password123');
+      const result = await service.login(email, 'password123');
+
+      expect(result.user.id).toBe(registered.user.id);
+    });
+
+    it('should reject a wrong password or unknown email the same way', async () => {
+      const email = nextEmail();
+      await service.register(email, 'password123');
+
+      await expect(service.login(email, 'wrong-password')).rejects.toMatchObject({
+        type: 'INVALID_CREDENTIALS',
+        statusCode: 401
+      });
+      await expect(service.login(nextEmail(), 'password123')).rejects.toMatchObject({
+        type: 'INVALID_CREDENTIALS',
+        statusCode: 401
+      });
+    });
+  });
+
+  describe('Tokens', () => {
+    it('should rotate refresh tokens', async () => {
+      const { tokens } = await service.register(nextEmail(), 'password123');
+      const refreshed = await service.refresh(tokens.refreshToken);
+
+      expect(refreshed.tokens.refreshToken).not.toBe(tokens.refreshToken);
+      await expect(service.refresh(tokens.refreshToken)).rejects.toBeInstanceOf(AuthError);
+      await expect(service.refresh(refreshed.tokens.refreshToken)).resolves.toBeDefined();
+    });
+
+    it('should revoke refresh tokens on logout', async () => {
+      const { tokens } = await service.register(nextEmail(), 'password123');
+
+      await service.logout(tokens.refreshToken);
+
+      await expect(service.refresh(tokens.refreshToken)).rejects.toMatchObject({ type: 'INVALID_TOKEN' });
+    });
+
+    it('should not accept a refresh token as an access token', async () => {
+      const { tokens } = await service.register(nextEmail(), 'password123');
+
+      expect(() => service.verifyAccessToken(tokens.refreshToken)).toThrow(AuthError);
+      await expect(service.refresh(tokens.accessToken)).rejects.toMatchObject({ type: 'INVALID_TOKEN' });
+    });
+
+    it('should reject tokens signed with another secret', () => {
+      const forged = jwt.sign({ sub: 'user_1', email: 'a@b.c', type: 'access' }, 'other-secret');
+      expect(() => service.verifyAccessToken(forged)).toThrow('Invalid token');
+    });
+
+    it('should report expired tokens', async () => {
+      const { tokens } = await service.register(nextEmail(), 'password123');
+      const decoded = jwt.decode(tokens.accessToken) as { exp: number };
+
+      jest.useFakeTimers({ now: (decoded.exp + 1) * 1000 });
+      try {
+        expect(() => service.verifyAccessToken(tokens.accessToken)).toThrow('Token has expired');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for attributing batch records to identifiers
+ */
+
+import { attributeRecords } from '../batch-attribution';
+import { SearchRequest } from '../../types/search';
+
+describe('attributeRecords', () => {
+  const requests: SearchRequest[] = [
+    { type: 'phone', value: '+7 (912) 345-67-89' },
+    { type: 'email', value: 'Ivanov@Example.com' },
+    { type: 'inn', value: '7707083893' }
+  ];
+
+  it('should attribute records to the identifiers whose value they contain', () => {
+    const byPhone = { phone: '89123456789', source_database: 'db1' };
+    const byEmail = { contacts: { emails: ['ivanov@example.com'] } };
+    const byInnAndPhone = { inn: 7707083893, phones: ['79123456789'] };
+
+    expect(attributeRecords([byPhone, byEmail, byInnAndPhone], requests)).toEqual([
+      [byPhone, byInnAndPhone],
+      [byEmail],
+      [byInnAndPhone]
+    ]);
+  });
+
+  it('should compare digit types exactly rather than by containment', () => {
+    const record = { inn: '770708389300' };
+
+    expect(attributeRecords([record], [{ type: 'inn', value: '7707083893' }, { type: 'email', value: 'a@b.ru' }]))
+      .toEqual([[record], [record]]);
+  });
+
+  it('should attribute records matching no identifier to all of them', () => {
+    const record = { name: 'Иванов Иван' };
+
+    expect(attributeRecords([record], requests)).toEqual([[record], [record], [record]]);
+  });
+
+  it('should ignore a leading @ on usernames', () => {
+    const record = { username: 'ivanov_ivan' };
+
+    expect(attributeRecords([record], [{ type: 'username', value: '@Ivanov_Ivan' }, { type: 'phone', value: '+79123456789' }]))
+      .toEqual([[record], []]);
+  });
+});
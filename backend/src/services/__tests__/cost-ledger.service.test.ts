@@ -0,0 +1,84 @@
+/**
+ * Unit tests for CostLedgerService
+ */
+
+import { CostLedgerService, costLedgerService } from '../cost-ledger.service';
+import { BotApiClient } from '../../types/api';
+import { SEARCH_TYPES } from '../../types/search';
+
+jest.mock('../../utils/logger');
+
+const client = (costPerRequest: number, estimateCost?: BotApiClient['estimateCost']): BotApiClient => ({
+  search: jest.fn(),
+  isAvailable: jest.fn(),
+  getBotId: () => 'test_bot',
+  getCapabilities: () => ({
+    supportedSearchTypes: [...SEARCH_TYPES],
+    supportsBatch: false,
+    maxRequestsPerMinute: 60,
+    costPerRequest,
+    requiresAuthentication: true,
+    supportsParallelRequests: true
+  }),
+  estimateCost
+});
+
+describe('CostLedgerService', () => {
+  let service: CostLedgerService;
+  let userCounter = 0;
+  let userId: string;
+
+  beforeEach(() => {
+    service = CostLedgerService.getInstance();
+    userId = `cost-ledger-user-${++userCounter}`;
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(costLedgerService);
+  });
+
+  it('should estimate with the client estimate and fall back to the declared price', () => {
+    expect(service.estimateCost(client(1.5), '+79123456789', 'phone')).toBe(1.5);
+    expect(service.estimateCost(client(1.5, () => 0.018123456), 'Иванов Иван', 'name')).toBe(0.0181);
+  });
+
+  it('should record billed calls at their estimate and failed calls at zero', async () => {
+    const billed = await service.record({
+      searchId: 'search_1', userId, botId: 'dyxless', searchType: 'phone', estimatedCost: 1.5, billed: true
+    });
+    const failed = await service.record({
+      searchId: 'search_1', userId, botId: 'userbox', searchType: 'phone', estimatedCost: 2.5, billed: false
+    });
+
+    expect(billed).toMatchObject({ cost: 1.5, billed: true });
+    expect(billed!.id).toMatch(/^cost_[0-9a-f]{16}$/);
+    expect(failed).toMatchObject({ cost: 0, estimatedCost: 2.5, billed: false });
+  });
+
+  it('should summarise spend per bot for one user', async () => {
+    const input = { searchId: 'search_2', userId, searchType: 'phone' as const, billed: true };
+    await service.record({ ...input, botId: 'dyxless', estimatedCost: 1.5 });
+    await service.record({ ...input, botId: 'dyxless', estimatedCost: 1.5 });
+    await service.record({ ...input, botId: 'userbox', estimatedCost: 2.5, billed: false });
+    await service.record({ ...input, userId: `${userId}-other`, botId: 'dyxless', estimatedCost: 1.5 });
+
+    const summary = await service.getSummary({ userId });
+
+    expect(summary.totalRequests).toBe(3);
+    expect(summary.totalCost).toBe(3);
+    expect(summary.bots).toEqual([
+      { botId: 'dyxless', requests: 2, billedRequests: 2, estimatedCost: 3, cost: 3 },
+      { botId: 'userbox', requests: 1, billedRequests: 0, estimatedCost: 2.5, cost: 0 }
+    ]);
+  });
+
+  it('should filter entries by bot and date', async () => {
+    await service.record({
+      searchId: 'search_3', userId, botId: 'leak_osint', searchType: 'email', estimatedCost: 0.1, billed: true
+    });
+
+    expect(await service.listEntries({ userId, botId: 'leak_osint' })).toHaveLength(1);
+    expect(await service.listEntries({ userId, botId: 'dyxless' })).toHaveLength(0);
+    expect(await service.listEntries({ userId, since: new Date(Date.now() + 60000) })).toHaveLength(0);
+  });
+});
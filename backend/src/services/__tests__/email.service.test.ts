@@ -0,0 +1,172 @@
+/**
+ * Unit tests for EmailService against the local SMTP capture server
+ */
+
+import { AddressInfo } from 'net';
+import { EmailService, emailService } from '../email.service';
+import { renderEmail } from '../email-templates';
+import { authService } from '../auth.service';
+import { notificationService } from '../notification.service';
+import { createSmtpCaptureServer, SmtpCaptureServer } from '../../dev/smtp-capture.server';
+
+jest.mock('../../utils/logger');
+
+const RETRY_BASE_MS = 1000;
+
+describe('EmailService', () => {
+  let service: EmailService;
+  let sink: SmtpCaptureServer;
+  let emailCounter = 0;
+
+  const register = async () => {
+    const { user } = await authService.register(`mail${++emailCounter}@example.com`, 'password123');
+    return user;
+  };
+  const messagesTo = (address: string) => sink.messages.filter(message => message.to.includes(address));
+
+  beforeAll(done => {
+    sink = createSmtpCaptureServer();
+    sink.server.listen(0, '127.0.0.1', () => {
+      const { port } = sink.server.address() as AddressInfo;
+      emailService.configure({
+        host: '127.0.0.1',
+        port,
+        secure: false,
+        appUrl: 'https://app.example.com',
+        maxAttempts: 3,
+        retryBaseMs: RETRY_BASE_MS
+      });
+      emailService.start();
+      done();
+    });
+  });
+
+  afterAll(done => {
+    emailService.stop();
+    sink.server.close(done);
+  });
+
+  beforeEach(() => {
+    service = EmailService.getInstance();
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(emailService);
+  });
+
+  it('should email search results in Russian by default', async () => {
+    const user = await register();
+    const notification = await notificationService.createNotification(user.id, 'search_completed', {
+      totalBotsSearched: 5,
+      totalBotsWithData: 2,
+      totalRecords: 3
+    });
+
+    expect(await service.processOutbox()).toMatchObject({ sent: 1 });
+
+    const [message] = messagesTo(user.email);
+    expect(message.subject).toBe('Поиск завершён');
+    expect(message.headers['content-type']).toContain('multipart/alternative');
+
+    const { notifications } = await notificationService.getUserNotifications(user.id);
+    expect(notifications[0]).toMatchObject({ id: notification!.id, status: 'delivered' });
+    expect(notifications[0].deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('should use the language from the user preferences', async () => {
+    const user = await register();
+    await notificationService.updateUserPreferences(user.id, { language: 'en' });
+
+    await notificationService.createNotification(user.id, 'data_found', {
+      botName: 'Test Bot',
+      foundDataCount: 2,
+      foundFields: ['phone', 'email']
+    });
+    await service.processOutbox();
+
+    expect(messagesTo(user.email).map(message => message.subject)).toEqual(['Your data was found: Test Bot']);
+  });
+
+  it('should only email types with a template to users who want email', async () => {
+    const user = await register();
+    await notificationService.createNotification(user.id, 'search_started', {});
+
+    await notificationService.updateUserPreferences(user.id, { channels: { email: false } });
+    await notificationService.createNotification(user.id, 'search_completed', {});
+
+    await service.processOutbox();
+    expect(messagesTo(user.email)).toHaveLength(0);
+  });
+
+  it('should retry temporary failures with backoff', async () => {
+    const user = await register();
+    const entry = await service.enqueue({ userId: user.id, to: user.email, subject: 'Retry', html: '<p>Retry</p>', text: 'Retry' });
+    const now = new Date();
+
+    sink.failNext(1);
+    await service.processOutbox(now);
+
+    const queued = (await service.getOutboxEntry(entry.id))!;
+    expect(queued).toMatchObject({ status: 'queued', attempts: 1 });
+    expect(queued.lastError).toContain('451');
+    expect(queued.nextAttemptAt.getTime()).toBe(now.getTime() + RETRY_BASE_MS);
+
+    // Not due yet
+    await service.processOutbox(now);
+    expect(messagesTo(user.email)).toHaveLength(0);
+
+    await service.processOutbox(new Date(now.getTime() + RETRY_BASE_MS));
+    expect(messagesTo(user.email)).toHaveLength(1);
+    expect(await service.getOutboxEntry(entry.id)).toBeNull();
+  });
+
+  it('should give up after the last attempt', async () => {
+    const user = await register();
+    const entry = await service.enqueue({ userId: user.id, to: user.email, subject: 'Fail', html: '', text: 'Fail' });
+    const now = Date.now();
+
+    sink.failNext(3);
+    await service.processOutbox(new Date(now));
+    await service.processOutbox(new Date(now + RETRY_BASE_MS));
+    await service.processOutbox(new Date(now + 3 * RETRY_BASE_MS));
+
+    expect(await service.getOutboxEntry(entry.id)).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+
+  it('should not retry permanent rejections and mark the notification failed', async () => {
+    const user = await register();
+    const notification = await notificationService.createNotification(user.id, 'subscription_expiring', {
+      planId: 'basic',
+      endDate: new Date().toISOString()
+    });
+
+    sink.failNext(1, 550);
+    expect(await service.processOutbox()).toMatchObject({ failed: 1 });
+
+    const { notifications } = await notificationService.getUserNotifications(user.id);
+    expect(notifications[0]).toMatchObject({ id: notification!.id, status: 'failed' });
+  });
+
+  describe('renderEmail', () => {
+    it('should render HTML and text with a link back to the app', () => {
+      const email = renderEmail('subscription_expiring', {
+        planId: 'premium',
+        endDate: '2026-03-01T12:00:00.000Z'
+      }, 'ru', { appUrl: 'https://app.example.com/' });
+
+      expect(email.subject).toBe('Подписка скоро закончится');
+      expect(email.text).toContain('Тариф premium действует до 01.03.2026');
+      expect(email.text).toContain('https://app.example.com/tariffs');
+      expect(email.html).toContain('href="https://app.example.com/tariffs"');
+    });
+
+    it('should escape notification data in HTML', () => {
+      const email = renderEmail('data_found', { botName: '<script>alert(1)</script>' }, 'en', {
+        appUrl: 'https://app.example.com'
+      });
+
+      expect(email.html).not.toContain('<script>');
+      expect(email.html).toContain('&#60;script&#62;');
+    });
+  });
+});
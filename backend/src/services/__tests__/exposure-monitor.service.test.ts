@@ -0,0 +1,276 @@
+/**
+ * Unit tests for ExposureMonitorService
+ */
+
+import {
+  ExposureMonitorService,
+  exposureMonitorService,
+  findNewExposure
+} from '../exposure-monitor.service';
+import { SearchService, AggregatedSearchResults } from '../search.service';
+import { ApiManagerService, BotConfig } from '../api-manager.service';
+import { costLedgerService } from '../cost-ledger.service';
+import { searchHistoryService } from '../search-history.service';
+import { notificationService } from '../notification.service';
+import { tariffService } from '../tariff.service';
+import { getStorage } from '../../storage';
+import { SearchRequest, SearchResult, SearchStatus } from '../../types/search';
+
+jest.mock('../../utils/logger');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const request: SearchRequest = { type: 'phone', value: '+79991234567' };
+
+const bot = (botId: string, status: `${SearchStatus}`, fields: string[] = []): SearchResult => ({
+  botId,
+  botName: `Бот ${botId.toUpperCase()}`,
+  foundData: fields.map(field => ({ field, value: `${field} value` })),
+  hasData: fields.length > 0,
+  status: status as SearchStatus
+});
+
+const resultsOf = (...results: SearchResult[]): AggregatedSearchResults => ({
+  searchId: `search_${results.map(result => result.botId).join('_')}`,
+  timestamp: new Date(),
+  query: '[12 characters]',
+  searchType: 'phone',
+  results,
+  totalBotsSearched: results.length,
+  totalBotsWithData: results.filter(result => result.hasData).length,
+  totalRecords: results.reduce((sum, result) => sum + result.foundData.length, 0),
+  searchDuration: 10,
+  encryptionEnabled: true
+} as unknown as AggregatedSearchResults);
+
+describe('findNewExposure', () => {
+  it('should report bots that had no data before', () => {
+    const changes = findNewExposure(
+      resultsOf(bot('a', 'success', ['phone']), bot('b', 'no_data')),
+      resultsOf(bot('a', 'success', ['phone']), bot('b', 'success', ['phone', 'full_name']), bot('c', 'success', ['email']))
+    );
+
+    expect(changes).toEqual([
+      { botId: 'b', botName: 'Бот B', newBot: true, fields: ['phone', 'full_name'] },
+      { botId: 'c', botName: 'Бот C', newBot: true, fields: ['email'] }
+    ]);
+  });
+
+  it('should report only the new fields of known bots', () => {
+    const changes = findNewExposure(
+      resultsOf(bot('a', 'success', ['phone', 'full_name'])),
+      resultsOf(bot('a', 'success', ['phone', 'full_name', 'address']))
+    );
+
+    expect(changes).toEqual([{ botId: 'a', botName: 'Бот A', newBot: false, fields: ['address'] }]);
+  });
+
+  it('should report nothing when data only disappeared', () => {
+    expect(findNewExposure(
+      resultsOf(bot('a', 'success', ['phone', 'address'])),
+      resultsOf(bot('a', 'success', ['phone']), bot('b', 'no_data'))
+    )).toEqual([]);
+  });
+});
+
+describe('ExposureMonitorService', () => {
+  let service: ExposureMonitorService;
+  let searchAllBots: jest.SpyInstance;
+  let userCounter = 0;
+  let userId: string;
+
+  const subscribe = async (planId: string) => {
+    const now = new Date();
+    await tariffService.saveSubscription({
+      userId,
+      planId,
+      status: 'active',
+      startDate: now,
+      endDate: new Date(now.getTime() + 30 * 24 * HOUR_MS),
+      autoRenew: false
+    });
+  };
+
+  const exposureNotifications = async () => {
+    const { notifications } = await notificationService.getUserNotifications(userId);
+    return notifications.filter(notification => notification.type === 'new_exposure');
+  };
+
+  // Scan every monitor due by `hours` from now
+  const scanAfter = (hours: number) => service.scanDue(new Date(Date.now() + hours * HOUR_MS));
+
+  beforeEach(async () => {
+    service = ExposureMonitorService.getInstance();
+    userId = `exposure-monitor-user-${++userCounter}`;
+    await subscribe('premium');
+    searchAllBots = jest.spyOn(SearchService.getInstance(), 'searchAllBots');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    // Keep other tests' monitors from being scanned
+    const { monitors } = await service.list(userId);
+    for (const monitor of monitors) {
+      await service.delete(userId, monitor.id);
+    }
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(exposureMonitorService);
+  });
+
+  it('should refuse monitoring on the free plan', async () => {
+    await subscribe('free');
+
+    await expect(service.create(userId, request)).rejects.toMatchObject({
+      type: 'MONITORING_NOT_AVAILABLE',
+      statusCode: 403
+    });
+  });
+
+  it('should enforce the plan limit and refuse duplicates', async () => {
+    await subscribe('basic');
+
+    await service.create(userId, request);
+    await expect(service.create(userId, request)).rejects.toMatchObject({ type: 'MONITOR_EXISTS', statusCode: 409 });
+
+    await service.create(userId, { type: 'email', value: 'one@example.com' });
+    await service.create(userId, { type: 'email', value: 'two@example.com' });
+    await expect(service.create(userId, { type: 'email', value: 'three@example.com' })).rejects.toMatchObject({
+      type: 'MONITOR_LIMIT_REACHED',
+      statusCode: 409
+    });
+
+    await expect(service.list(userId)).resolves.toMatchObject({ intervalHours: 168, limit: 3 });
+  });
+
+  it('should store the identifier encrypted', async () => {
+    const monitor = await service.create(userId, request);
+
+    expect(monitor.maskedQuery).toBe('+7********67');
+    const stored = JSON.stringify(await getStorage().repository('exposure_monitors').get(monitor.id));
+    expect(stored).not.toContain('9991234567');
+  });
+
+  it('should notify only when a later scan finds new exposure', async () => {
+    const monitor = await service.create(userId, request);
+
+    searchAllBots.mockResolvedValue(resultsOf(bot('a', 'success', ['phone']), bot('b', 'no_data')));
+    await scanAfter(0);
+    expect(searchAllBots).toHaveBeenCalledWith(request, undefined, { userId });
+    await expect(service.get(userId, monitor.id)).resolves.toMatchObject({ status: 'ok' });
+    expect(await exposureNotifications()).toHaveLength(0);
+
+    // Not due again until the plan interval passes
+    await scanAfter(23);
+    expect(searchAllBots).toHaveBeenCalledTimes(1);
+
+    await scanAfter(25);
+    expect(searchAllBots).toHaveBeenCalledTimes(2);
+    expect(await exposureNotifications()).toHaveLength(0);
+
+    searchAllBots.mockResolvedValue(resultsOf(bot('a', 'success', ['phone', 'address']), bot('b', 'success', ['email'])));
+    await scanAfter(50);
+
+    const notifications = await exposureNotifications();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].data).toMatchObject({
+      monitorId: monitor.id,
+      maskedQuery: '+7********67',
+      newBots: ['Бот B'],
+      foundFields: ['address', 'email']
+    });
+    expect((await service.get(userId, monitor.id)).lastExposureAt).toBeInstanceOf(Date);
+  });
+
+  it('should record the scan\'s upstream spend against the owner without saving it as their search', async () => {
+    searchAllBots.mockRestore();
+    const botClients: Map<string, BotConfig> = (ApiManagerService.getInstance() as any).botClients;
+    const configuredBots = new Map(botClients);
+    botClients.clear();
+    botClients.set('monitor_bot', {
+      id: 'monitor_bot',
+      name: 'Monitor bot',
+      encryptedName: 'Бот M',
+      isActive: true,
+      priority: 1,
+      apiClient: 'MonitorClient',
+      client: {
+        search: jest.fn().mockResolvedValue({
+          success: true,
+          data: { hasData: false, records: [], totalRecords: 0 },
+          timestamp: new Date(),
+          botId: 'monitor_bot'
+        }),
+        isAvailable: jest.fn().mockResolvedValue(true),
+        getBotId: () => 'monitor_bot',
+        getCapabilities: () => ({
+          supportedSearchTypes: ['phone'],
+          supportsBatch: false,
+          maxRequestsPerMinute: 60,
+          costPerRequest: 5,
+          requiresAuthentication: true,
+          supportsParallelRequests: true
+        })
+      }
+    });
+
+    try {
+      await service.create(userId, request);
+      await scanAfter(0);
+
+      expect(await costLedgerService.listEntries({ userId })).toEqual([
+        expect.objectContaining({ botId: 'monitor_bot', userId, estimatedCost: 5, billed: true })
+      ]);
+      expect((await searchHistoryService.list(userId)).total).toBe(0);
+      const { notifications } = await notificationService.getUserNotifications(userId);
+      expect(notifications.filter(notification => notification.type.startsWith('search_'))).toHaveLength(0);
+    } finally {
+      botClients.clear();
+      configuredBots.forEach((bot, id) => botClients.set(id, bot));
+    }
+  });
+
+  it('should not report data again after a bot fails for one scan', async () => {
+    await service.create(userId, request);
+
+    searchAllBots.mockResolvedValueOnce(resultsOf(bot('a', 'success', ['phone'])));
+    searchAllBots.mockResolvedValueOnce(resultsOf(bot('a', 'timeout')));
+    searchAllBots.mockResolvedValueOnce(resultsOf(bot('a', 'success', ['phone'])));
+
+    await scanAfter(0);
+    await scanAfter(25);
+    await scanAfter(50);
+
+    expect(searchAllBots).toHaveBeenCalledTimes(3);
+    expect(await exposureNotifications()).toHaveLength(0);
+  });
+
+  it('should record failed scans and try again next interval', async () => {
+    const monitor = await service.create(userId, request);
+    searchAllBots.mockRejectedValue(new Error('No active bot clients available'));
+
+    await scanAfter(0);
+
+    await expect(service.get(userId, monitor.id)).resolves.toMatchObject({
+      status: 'failed',
+      lastError: 'No active bot clients available'
+    });
+  });
+
+  it('should pause scans while the plan has no monitoring', async () => {
+    await service.create(userId, request);
+    await subscribe('free');
+
+    await scanAfter(0);
+
+    expect(searchAllBots).not.toHaveBeenCalled();
+  });
+
+  it('should hide other users\' monitors', async () => {
+    const monitor = await service.create(userId, request);
+
+    await expect(service.get('someone-else', monitor.id)).rejects.toMatchObject({ type: 'MONITOR_NOT_FOUND' });
+    await expect(service.delete('someone-else', monitor.id)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Unit tests for NotificationService
+ */
+
+import {
+  NotificationService,
+  notificationService,
+  StoredNotification,
+  isWithinQuietHours
+} from '../notification.service';
+
+jest.mock('../../utils/logger');
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let userCounter = 0;
+  let userId: string;
+
+  const create = async (type: Parameters<NotificationService['createNotification']>[1] = 'info') =>
+    (await service.createNotification(userId, type, {}))!;
+
+  beforeEach(() => {
+    service = NotificationService.getInstance();
+    userId = `notification-user-${++userCounter}`;
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(notificationService);
+  });
+
+  describe('createNotification', () => {
+    it('should store a pending notification with a title and message', async () => {
+      const notification = await service.createNotification(userId, 'search_completed', {
+        searchId: 'search-1',
+        totalBotsSearched: 4,
+        totalRecords: 7
+      });
+
+      expect(notification).toMatchObject({
+        userId,
+        type: 'search_completed',
+        title: 'Поиск завершён',
+        status: 'pending',
+        priority: 'normal',
+        channels: ['in_app', 'email']
+      });
+      expect(notification!.message).toContain('7');
+
+      const { notifications } = await service.getUserNotifications(userId);
+      expect(notifications.map(item => item.id)).toEqual([notification!.id]);
+    });
+
+    it('should let callers override the template', async () => {
+      const notification = await service.createNotification(userId, 'info', {}, {
+        title: 'Заголовок',
+        message: 'Текст',
+        priority: 'urgent'
+      });
+
+      expect(notification).toMatchObject({ title: 'Заголовок', message: 'Текст', priority: 'urgent' });
+    });
+
+    it('should reject unknown types', async () => {
+      await expect(service.createNotification(userId, 'unknown' as any, {}))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR', statusCode: 400 });
+    });
+
+    it('should skip kinds of notifications the user turned off', async () => {
+      await service.updateUserPreferences(userId, { types: { search_updates: false } });
+
+      expect(await service.createNotification(userId, 'search_started', {})).toBeNull();
+      expect(await service.createNotification(userId, 'payment_succeeded', {})).not.toBeNull();
+      expect((await service.getUserNotifications(userId)).total).toBe(1);
+    });
+
+    it('should only list channels the user has enabled', async () => {
+      await service.updateUserPreferences(userId, { channels: { email: false, push: true } });
+
+      const notification = await create();
+      expect(notification.channels).toEqual(['in_app', 'push']);
+    });
+
+    it('should emit notification_created', async () => {
+      const listener = jest.fn();
+      service.on('notification_created', listener);
+
+      const notification = await create();
+      service.off('notification_created', listener);
+
+      expect(listener).toHaveBeenCalledWith(notification);
+    });
+  });
+
+  describe('Inbox', () => {
+    it('should paginate newest first and count unread notifications', async () => {
+      const created: StoredNotification[] = [];
+      for (let i = 0; i < 5; i++) {
+        created.push(await create());
+      }
+
+      const firstPage = await service.getUserNotifications(userId, { limit: 2 });
+      const secondPage = await service.getUserNotifications(userId, { limit: 2, offset: 2 });
+
+      expect(firstPage.total).toBe(5);
+      expect(firstPage.unread).toBe(5);
+      expect(firstPage.notifications.map(item => item.id)).toEqual([created[4].id, created[3].id]);
+      expect(secondPage.notifications.map(item => item.id)).toEqual([created[2].id, created[1].id]);
+    });
+
+    it('should filter by type, status and unread state', async () => {
+      const started = await create('search_started');
+      const completed = await create('search_completed');
+      await service.markAsRead(started.id, userId);
+
+      const unread = await service.getUserNotifications(userId, { unreadOnly: true });
+      expect(unread.notifications.map(item => item.id)).toEqual([completed.id]);
+
+      const read = await service.getUserNotifications(userId, { status: 'read' });
+      expect(read.notifications.map(item => item.id)).toEqual([started.id]);
+
+      const byType = await service.getUserNotifications(userId, { type: 'search_completed' });
+      expect(byType.notifications.map(item => item.id)).toEqual([completed.id]);
+    });
+
+    it('should validate list options', async () => {
+      await expect(service.getUserNotifications(userId, { limit: 0 })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(service.getUserNotifications(userId, { limit: 101 })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(service.getUserNotifications(userId, { offset: -1 })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(service.getUserNotifications(userId, { status: 'unknown' as any }))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should mark notifications as read', async () => {
+      const first = await create();
+      await create();
+
+      const read = await service.markAsRead(first.id, userId);
+      expect(read.status).toBe('read');
+      expect(read.readAt).toBeInstanceOf(Date);
+      expect(await service.getUnreadCount(userId)).toBe(1);
+
+      expect(await service.markAllAsRead(userId)).toBe(1);
+      expect(await service.getUnreadCount(userId)).toBe(0);
+      expect(await service.markAllAsRead(userId)).toBe(0);
+    });
+
+    it('should delete notifications', async () => {
+      const notification = await create();
+
+      await service.deleteNotification(notification.id, userId);
+
+      expect((await service.getUserNotifications(userId)).total).toBe(0);
+      await expect(service.deleteNotification(notification.id, userId))
+        .rejects.toMatchObject({ type: 'NOTIFICATION_NOT_FOUND', statusCode: 404 });
+    });
+
+    it('should not let other users touch a notification', async () => {
+      const notification = await create();
+
+      await expect(service.markAsRead(notification.id, 'someone-else'))
+        .rejects.toMatchObject({ type: 'NOTIFICATION_NOT_FOUND' });
+      await expect(service.deleteNotification(notification.id, 'someone-else'))
+        .rejects.toMatchObject({ type: 'NOTIFICATION_NOT_FOUND' });
+      expect(await service.getUnreadCount(userId)).toBe(1);
+    });
+  });
+
+  describe('Preferences', () => {
+    it('should return defaults and merge partial updates', async () => {
+      const defaults = await service.getUserPreferences(userId);
+      expect(defaults.channels).toEqual({ in_app: true, email: true, push: false, sms: false, telegram: false });
+      expect(defaults.types.marketing).toBe(false);
+
+      await service.updateUserPreferences(userId, { types: { marketing: true } });
+      const updated = await service.updateUserPreferences(userId, {
+        quietHours: { enabled: true, start: '23:00', end: '08:00', timezone: 'Europe/Moscow' }
+      });
+
+      expect(updated.types).toMatchObject({ marketing: true, search_updates: true });
+      expect(updated.quietHours).toEqual({ enabled: true, start: '23:00', end: '08:00', timezone: 'Europe/Moscow' });
+      expect(await service.getUserPreferences(userId)).toEqual(updated);
+    });
+
+    it('should reject malformed preferences', async () => {
+      await expect(service.updateUserPreferences(userId, { channels: { fax: true } as any }))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+      await expect(service.updateUserPreferences(userId, { types: { marketing: 'yes' } as any }))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+      await expect(service.updateUserPreferences(userId, {
+        quietHours: { enabled: true, start: '25:00', end: '08:00', timezone: 'Europe/Moscow' }
+      })).rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+      await expect(service.updateUserPreferences(userId, {
+        quietHours: { enabled: true, start: '23:00', end: '08:00', timezone: 'Mars/Olympus' }
+      })).rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+    });
+  });
+
+  describe('Push subscriptions', () => {
+    const subscription = {
+      endpoint: 'https://push.example.com/send/abc',
+      keys: { p256dh: 'p256dh-key', auth: 'auth-key' },
+      userAgent: 'Test Browser'
+    };
+
+    it('should add and remove subscriptions', async () => {
+      await service.subscribeToPush(userId, subscription);
+      expect(await service.getPushSubscriptions(userId)).toHaveLength(1);
+
+      expect(await service.unsubscribeFromPush('someone-else', subscription.endpoint)).toBe(false);
+      expect(await service.unsubscribeFromPush(userId, subscription.endpoint)).toBe(true);
+      expect(await service.unsubscribeFromPush(userId, subscription.endpoint)).toBe(false);
+    });
+
+    it('should turn on the push channel', async () => {
+      await service.subscribeToPush(userId, subscription);
+
+      expect((await service.getUserPreferences(userId)).channels.push).toBe(true);
+    });
+
+    it('should move an endpoint to the user who subscribed last', async () => {
+      const endpoint = 'https://push.example.com/send/shared';
+      await service.subscribeToPush('previous-owner', { ...subscription, endpoint });
+      await service.subscribeToPush(userId, { ...subscription, endpoint });
+
+      expect(await service.getPushSubscriptions('previous-owner')).toHaveLength(0);
+      expect(await service.getPushSubscriptions(userId)).toHaveLength(1);
+    });
+
+    it('should reject invalid subscriptions', async () => {
+      await expect(service.subscribeToPush(userId, { ...subscription, endpoint: 'http://insecure.example.com' }))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+      await expect(service.subscribeToPush(userId, { ...subscription, keys: { p256dh: '', auth: 'x' } }))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+    });
+  });
+
+  describe('isWithinQuietHours', () => {
+    const quietHours = { enabled: true, start: '23:00', end: '08:00', timezone: 'Europe/Moscow' };
+
+    it('should handle windows that cross midnight in the user timezone', () => {
+      // 21:30 UTC is 00:30 in Moscow
+      expect(isWithinQuietHours(quietHours, new Date('2026-01-10T21:30:00Z'))).toBe(true);
+      expect(isWithinQuietHours(quietHours, new Date('2026-01-10T04:59:00Z'))).toBe(true);
+      expect(isWithinQuietHours(quietHours, new Date('2026-01-10T05:00:00Z'))).toBe(false);
+      expect(isWithinQuietHours(quietHours, new Date('2026-01-10T12:00:00Z'))).toBe(false);
+    });
+
+    it('should ignore disabled quiet hours', () => {
+      expect(isWithinQuietHours({ ...quietHours, enabled: false }, new Date('2026-01-10T21:30:00Z'))).toBe(false);
+      expect(isWithinQuietHours(undefined)).toBe(false);
+    });
+  });
+});
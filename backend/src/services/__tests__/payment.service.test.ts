@@ -0,0 +1,188 @@
+/**
+ * Unit tests for PaymentService against the local YooKassa mock
+ */
+
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { PaymentService, PaymentError, paymentService } from '../payment.service';
+import { tariffService } from '../tariff.service';
+import { signWebhookPayload, YooKassaPayment } from '../../clients/yookassa.client';
+import { createYooKassaMockApp, YooKassaMock } from '../../dev/yookassa-mock.server';
+
+jest.mock('../../utils/logger');
+
+const WEBHOOK_SECRET = 'test-webhook-secret';
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  let mock: YooKassaMock;
+  let server: Server;
+  let userCounter = 0;
+  let userId: string;
+
+  const webhookBody = (payment: YooKassaPayment) => Buffer.from(JSON.stringify({
+    type: 'notification',
+    event: `payment.${payment.status}`,
+    object: payment
+  }));
+
+  const providerPayment = (confirmationUrl: string) => {
+    const providerPaymentId = confirmationUrl.split('/').pop()!;
+    return mock.payments.get(providerPaymentId)!;
+  };
+
+  beforeAll(done => {
+    mock = createYooKassaMockApp({
+      shopId: 'test-shop',
+      secretKey: 'test-secret',
+      webhookSecret: WEBHOOK_SECRET
+    });
+
+    server = mock.app.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      tariffService.configurePaymentProvider('yookassa', true, {
+        apiUrl: `http://127.0.0.1:${port}/v3`,
+        shopId: 'test-shop',
+        secretKey: 'test-secret',
+        returnUrl: 'http://localhost:3001/tariffs',
+        webhookSecret: WEBHOOK_SECRET
+      });
+      done();
+    });
+  });
+
+  afterAll(done => {
+    tariffService.configurePaymentProvider('yookassa', false);
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    service = PaymentService.getInstance();
+    userId = `payment-user-${++userCounter}`;
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(paymentService);
+  });
+
+  describe('createPayment', () => {
+    it('should create a pending payment with a confirmation URL', async () => {
+      const { payment, created } = await service.createPayment(userId, 'basic');
+
+      expect(created).toBe(true);
+      expect(payment.status).toBe('pending');
+      expect(payment.amount).toBe('299.00');
+      expect(payment.confirmationUrl).toContain('/checkout/');
+
+      const remote = providerPayment(payment.confirmationUrl!);
+      expect(remote.confirmation?.return_url).toContain(`paymentId=${payment.id}`);
+      expect(remote.metadata).toMatchObject({ paymentId: payment.id, userId, planId: 'basic' });
+    });
+
+    it('should return the original payment for a repeated idempotency key', async () => {
+      const first = await service.createPayment(userId, 'basic', 'checkout-1');
+      const second = await service.createPayment(userId, 'basic', 'checkout-1');
+
+      expect(second.created).toBe(false);
+      expect(second.payment.id).toBe(first.payment.id);
+    });
+
+    it('should not share idempotency keys between users', async () => {
+      const first = await service.createPayment(userId, 'basic', 'shared-key');
+      const other = await service.createPayment(`${userId}-other`, 'basic', 'shared-key');
+
+      expect(other.created).toBe(true);
+      expect(other.payment.id).not.toBe(first.payment.id);
+    });
+
+    it('should reject reusing a key for another plan', async () => {
+      await service.createPayment(userId, 'basic', 'plan-switch');
+
+      await expect(service.createPayment(userId, 'premium', 'plan-switch'))
+        .rejects.toMatchObject({ type: 'IDEMPOTENCY_CONFLICT', statusCode: 409 });
+    });
+
+    it('should reject plans that cannot be bought online', async () => {
+      await expect(service.createPayment(userId, 'free')).rejects.toBeInstanceOf(PaymentError);
+      await expect(service.createPayment(userId, 'enterprise')).rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+      await expect(service.createPayment(userId, 'missing')).rejects.toMatchObject({ type: 'PLAN_NOT_FOUND' });
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should activate the subscription when the payment succeeds', async () => {
+      const { payment } = await service.createPayment(userId, 'premium');
+      const remote = await mock.settlePayment(providerPayment(payment.confirmationUrl!).id, 'succeeded');
+      const body = webhookBody(remote!);
+
+      const updated = await service.handleWebhook(body, signWebhookPayload(body, WEBHOOK_SECRET));
+
+      expect(updated?.status).toBe('succeeded');
+      expect(updated?.paidAt).toBeInstanceOf(Date);
+      expect((await tariffService.getEffectivePlan(userId)).id).toBe('premium');
+    });
+
+    it('should activate the subscription only once for repeated webhooks', async () => {
+      const { payment } = await service.createPayment(userId, 'basic');
+      const remote = await mock.settlePayment(providerPayment(payment.confirmationUrl!).id, 'succeeded');
+      const body = webhookBody(remote!);
+      const signature = signWebhookPayload(body, WEBHOOK_SECRET);
+
+      await service.handleWebhook(body, signature);
+      const firstEnd = (await tariffService.getUserSubscription(userId))!.endDate;
+      await service.handleWebhook(body, signature);
+
+      expect((await tariffService.getUserSubscription(userId))!.endDate).toEqual(firstEnd);
+    });
+
+    it('should trust the provider API over the webhook body', async () => {
+      const { payment } = await service.createPayment(userId, 'basic');
+      const remote = providerPayment(payment.confirmationUrl!);
+      const body = webhookBody({ ...remote, status: 'succeeded', paid: true });
+
+      const updated = await service.handleWebhook(body, signWebhookPayload(body, WEBHOOK_SECRET));
+
+      expect(updated?.status).toBe('pending');
+      expect((await tariffService.getEffectivePlan(userId)).id).toBe('free');
+    });
+
+    it('should record the reason for canceled payments', async () => {
+      const { payment } = await service.createPayment(userId, 'basic');
+      const remote = await mock.settlePayment(providerPayment(payment.confirmationUrl!).id, 'canceled');
+      const body = webhookBody(remote!);
+
+      const updated = await service.handleWebhook(body, signWebhookPayload(body, WEBHOOK_SECRET));
+
+      expect(updated?.status).toBe('canceled');
+      expect(updated?.failureReason).toBe('canceled_by_user');
+    });
+
+    it('should reject webhooks with an invalid signature', async () => {
+      const body = Buffer.from('{"type":"notification"}');
+
+      await expect(service.handleWebhook(body, signWebhookPayload(body, 'wrong-secret')))
+        .rejects.toMatchObject({ type: 'INVALID_SIGNATURE', statusCode: 401 });
+      await expect(service.handleWebhook(body, undefined))
+        .rejects.toMatchObject({ type: 'INVALID_SIGNATURE' });
+    });
+  });
+
+  describe('getPayment', () => {
+    it('should pick up a missed webhook from the provider', async () => {
+      const { payment } = await service.createPayment(userId, 'basic');
+      await mock.settlePayment(providerPayment(payment.confirmationUrl!).id, 'succeeded');
+
+      const refreshed = await service.getPayment(userId, payment.id);
+
+      expect(refreshed.status).toBe('succeeded');
+      expect(refreshed.confirmationUrl).toBeUndefined();
+    });
+
+    it('should hide other users\' payments', async () => {
+      const { payment } = await service.createPayment(userId, 'basic');
+
+      await expect(service.getPayment('someone-else', payment.id))
+        .rejects.toMatchObject({ type: 'PAYMENT_NOT_FOUND', statusCode: 404 });
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for ProfileMergeService
+ */
+
+import { ProfileMergeService } from '../profile-merge.service';
+import { SearchResult, SearchStatus } from '../../types/search';
+
+describe('ProfileMergeService', () => {
+  const service = ProfileMergeService.getInstance();
+
+  const botResult = (botId: string, botName: string, foundData: SearchResult['foundData']): SearchResult => ({
+    botId,
+    botName,
+    foundData,
+    hasData: foundData.length > 0,
+    status: SearchStatus.SUCCESS
+  });
+
+  it('should cluster equivalent phones, emails and names across bots', () => {
+    const profile = service.buildProfile([
+      botResult('dyxless', 'Бот A', [
+        { field: 'phone', value: '+79123456789', category: 'phone', source: 'dyxless' },
+        { field: 'full_name', value: 'Иванов Юрий', category: 'name', source: 'dyxless' }
+      ]),
+      botResult('itp', 'Бот B', [
+        { field: 'phone', value: '89123456789', category: 'phone', source: 'delivery_2021' },
+        { field: 'email', value: 'Yuri@Example.com', category: 'email', source: 'delivery_2021' },
+        { field: 'full_name', value: 'Yuriy Ivanov', category: 'name', source: 'delivery_2021' }
+      ]),
+      botResult('leak_osint', 'Бот C', [
+        { field: 'phone', value: '+7 912 345-67-89', category: 'phone', source: 'Gibdd', leakDate: '2020' },
+        { field: 'email', value: 'yuri@example.com', category: 'email', source: 'Gibdd' }
+      ])
+    ]);
+
+    expect(profile.totalUniqueValues).toBe(3);
+    expect(profile.totalBotsContributing).toBe(3);
+
+    const [phone] = profile.byCategory.phone!;
+    expect(phone.botCount).toBe(3);
+    expect(phone.confidence).toBe(0.88);
+    expect(phone.sources.map(s => s.botId)).toEqual(['dyxless', 'itp', 'leak_osint']);
+    expect(phone.sources[0].sourceDatabase).toBeUndefined();
+    expect(phone.sources[2]).toEqual({ botId: 'leak_osint', botName: 'Бот C', sourceDatabase: 'Gibdd', leakDate: '2020' });
+
+    const [name] = profile.byCategory.name!;
+    expect(name.botCount).toBe(2);
+    expect(name.value).toBe('Иванов Юрий');
+    expect(name.variants).toEqual(['Иванов Юрий', 'Yuriy Ivanov']);
+
+    const [email] = profile.byCategory.email!;
+    expect(email.botCount).toBe(2);
+    expect(email.confidence).toBe(0.75);
+  });
+
+  it('should keep distinct values separate', () => {
+    const profile = service.buildProfile([
+      botResult('dyxless', 'Бот A', [
+        { field: 'inn', value: '123456789012', category: 'document' },
+        { field: 'snils', value: '123456789012', category: 'document' }
+      ])
+    ]);
+
+    expect(profile.totalUniqueValues).toBe(2);
+    expect(profile.values.every(value => value.confidence === 0.5)).toBe(true);
+  });
+
+  it('should return an empty profile when nothing was found', () => {
+    const profile = service.buildProfile([botResult('vektor', 'Бот E', [])]);
+
+    expect(profile).toEqual({ values: [], byCategory: {}, totalUniqueValues: 0, totalBotsContributing: 0 });
+  });
+});
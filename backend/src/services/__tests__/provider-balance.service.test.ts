@@ -0,0 +1,111 @@
+/**
+ * Unit tests for ProviderBalanceService
+ */
+
+import { ProviderBalanceService, providerBalanceService } from '../provider-balance.service';
+import { ApiManagerService, BotConfig } from '../api-manager.service';
+import { monitoringService } from '../monitoring.service';
+import { BotApiClient } from '../../types/api';
+
+jest.mock('../../utils/logger');
+
+describe('ProviderBalanceService', () => {
+  let service: ProviderBalanceService;
+  let bot: BotConfig;
+  let getBalance: jest.Mock;
+  let setBotSuspended: jest.SpyInstance;
+
+  const openAlerts = () => monitoringService.getAlerts(false)
+    .filter(alert => alert.key === 'provider_balance_low:vektor');
+
+  beforeEach(() => {
+    service = ProviderBalanceService.getInstance();
+    service.configure({ lowBalanceThreshold: 100, thresholds: {}, autoDisable: true });
+    (service as any).balances.clear();
+    (service as any).autoDisabled.clear();
+    monitoringService.resetMetrics();
+
+    getBalance = jest.fn();
+    bot = {
+      id: 'vektor',
+      name: 'Vektor',
+      encryptedName: 'Бот E',
+      isActive: true,
+      priority: 5,
+      apiClient: 'VektorClient',
+      client: { getBalance } as unknown as BotApiClient
+    };
+
+    const apiManager = ApiManagerService.getInstance();
+    jest.spyOn(apiManager, 'getBots').mockImplementation(() => [bot]);
+    setBotSuspended = jest.spyOn(apiManager, 'setBotSuspended').mockImplementation((_botId, suspended) => {
+      bot.isActive = !suspended;
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(providerBalanceService);
+  });
+
+  it('should alert on and disable a bot whose balance runs low', async () => {
+    getBalance.mockResolvedValue(40);
+
+    const [balance] = await service.pollBalances();
+
+    expect(balance).toMatchObject({ botId: 'vektor', balance: 40, threshold: 100, low: true, autoDisabled: true });
+    expect(setBotSuspended).toHaveBeenCalledWith('vektor', true);
+    expect(openAlerts()).toHaveLength(1);
+    expect(openAlerts()[0]).toMatchObject({ severity: 'critical', details: { balance: 40 } });
+
+    // A second low reading keeps the one alert open
+    await service.pollBalances();
+    expect(openAlerts()).toHaveLength(1);
+  });
+
+  it('should re-enable the bot and resolve the alert once topped up', async () => {
+    getBalance.mockResolvedValueOnce(40).mockResolvedValueOnce(500);
+
+    await service.pollBalances();
+    const [balance] = await service.pollBalances();
+
+    expect(balance).toMatchObject({ balance: 500, low: false, autoDisabled: false });
+    expect(setBotSuspended).toHaveBeenLastCalledWith('vektor', false);
+    expect(openAlerts()).toHaveLength(0);
+  });
+
+  it('should not re-enable a bot an operator disabled', async () => {
+    bot.isActive = false;
+    getBalance.mockResolvedValueOnce(40).mockResolvedValueOnce(500);
+
+    await service.pollBalances();
+    await service.pollBalances();
+
+    expect(setBotSuspended).not.toHaveBeenCalled();
+    expect(bot.isActive).toBe(false);
+  });
+
+  it('should only alert when auto-disable is off', async () => {
+    service.configure({ autoDisable: false });
+    getBalance.mockResolvedValue(40);
+
+    await service.pollBalances();
+
+    expect(setBotSuspended).not.toHaveBeenCalled();
+    expect(openAlerts()).toHaveLength(1);
+  });
+
+  it('should keep the last known state when the balance cannot be read', async () => {
+    getBalance.mockResolvedValueOnce(40).mockRejectedValueOnce(new Error('Network error'));
+
+    await service.pollBalances();
+    const [balance] = await service.pollBalances();
+
+    expect(balance).toMatchObject({ balance: null, low: true, autoDisabled: true });
+    expect(setBotSuspended).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for PushService
+ */
+
+import webpush, { WebPushError } from 'web-push';
+import { PushService, pushService, PushPayload } from '../push.service';
+import { notificationService } from '../notification.service';
+
+jest.mock('../../utils/logger');
+jest.mock('web-push', () => ({
+  ...jest.requireActual('web-push'),
+  sendNotification: jest.fn()
+}));
+
+const sendNotification = webpush.sendNotification as jest.MockedFunction<typeof webpush.sendNotification>;
+
+describe('PushService', () => {
+  let service: PushService;
+  let userCounter = 0;
+  let userId: string;
+
+  const subscribe = (name: string) => notificationService.subscribeToPush(userId, {
+    endpoint: `https://push.example.com/send/${userId}/${name}`,
+    keys: { p256dh: `${name}-p256dh`, auth: `${name}-auth` }
+  });
+  const sentPayloads = () =>
+    sendNotification.mock.calls.map(([, payload]) => JSON.parse(String(payload)) as PushPayload);
+
+  beforeAll(async () => {
+    await pushService.start();
+  });
+
+  afterAll(() => {
+    pushService.stop();
+  });
+
+  beforeEach(() => {
+    service = PushService.getInstance();
+    userId = `push-user-${++userCounter}`;
+    sendNotification.mockReset();
+    sendNotification.mockResolvedValue({ statusCode: 201, body: '', headers: {} });
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(pushService);
+  });
+
+  it('should keep the same VAPID key pair', async () => {
+    const publicKey = await service.getPublicKey();
+
+    expect(publicKey).toMatch(/^[A-Za-z0-9_-]{80,}$/);
+    expect(await service.getPublicKey()).toBe(publicKey);
+  });
+
+  it('should send new notifications to every subscribed browser', async () => {
+    await subscribe('laptop');
+    await subscribe('phone');
+
+    const notification = await notificationService.createNotification(userId, 'payment_succeeded', {
+      planId: 'basic',
+      amount: '299.00',
+      currency: 'RUB'
+    });
+
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+    const [subscription, , options] = sendNotification.mock.calls[0];
+    expect(subscription.endpoint).toContain('/laptop');
+    expect(options).toMatchObject({
+      vapidDetails: { publicKey: await service.getPublicKey() },
+      urgency: 'normal'
+    });
+    expect(sentPayloads()[0]).toMatchObject({
+      notificationId: notification!.id,
+      title: 'Оплата прошла',
+      url: '/tariffs'
+    });
+
+    const { notifications } = await notificationService.getUserNotifications(userId);
+    expect(notifications[0].status).toBe('delivered');
+  });
+
+  it('should not push users without a subscription', async () => {
+    await notificationService.updateUserPreferences(userId, { channels: { push: true } });
+    await notificationService.createNotification(userId, 'search_completed', {});
+
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should remove subscriptions the push service reports as gone', async () => {
+    await subscribe('expired');
+    await subscribe('active');
+    sendNotification.mockRejectedValueOnce(
+      new WebPushError('Gone', 410, {}, 'push subscription has unsubscribed or expired', 'https://push.example.com')
+    );
+
+    await notificationService.createNotification(userId, 'data_found', { botName: 'Bot' });
+
+    const remaining = await notificationService.getPushSubscriptions(userId);
+    expect(remaining.map(subscription => subscription.endpoint)).toEqual([
+      `https://push.example.com/send/${userId}/active`
+    ]);
+  });
+
+  it('should keep subscriptions after other push errors', async () => {
+    await subscribe('flaky');
+    sendNotification.mockRejectedValueOnce(
+      new WebPushError('Server error', 500, {}, '', 'https://push.example.com')
+    );
+
+    const notification = await notificationService.createNotification(userId, 'search_failed', {});
+
+    expect(await notificationService.getPushSubscriptions(userId)).toHaveLength(1);
+    const { notifications } = await notificationService.getUserNotifications(userId);
+    expect(notifications[0]).toMatchObject({ id: notification!.id, status: 'failed' });
+  });
+
+  it('should hold back all but urgent notifications during quiet hours', async () => {
+    const hour = new Date().getUTCHours();
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    await subscribe('night');
+    await notificationService.updateUserPreferences(userId, {
+      quietHours: { enabled: true, start: `${pad((hour + 23) % 24)}:00`, end: `${pad((hour + 1) % 24)}:59`, timezone: 'UTC' }
+    });
+
+    await notificationService.createNotification(userId, 'search_completed', {});
+    expect(sendNotification).not.toHaveBeenCalled();
+
+    await notificationService.createNotification(userId, 'security_alert', {});
+    expect(sentPayloads().map(payload => payload.type)).toEqual(['security_alert']);
+  });
+});
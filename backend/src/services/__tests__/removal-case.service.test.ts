@@ -0,0 +1,182 @@
+/**
+ * Unit tests for RemovalCaseService
+ */
+
+import { RemovalCaseService, removalCaseService } from '../removal-case.service';
+import { SearchService, AggregatedSearchResults } from '../search.service';
+import { notificationService } from '../notification.service';
+import { getStorage } from '../../storage';
+import { SearchResult, SearchStatus } from '../../types/search';
+
+jest.mock('../../utils/logger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const identifiers = [{ type: 'email' as const, value: 'ivan.petrov@example.com' }];
+
+const dyxless = (status: `${SearchStatus}`, fields: string[] = []): AggregatedSearchResults => ({
+  searchId: 'search_removal_case',
+  results: [{
+    botId: 'dyxless',
+    botName: 'Бот A',
+    foundData: fields.map(field => ({ field, value: `${field} value` })),
+    hasData: fields.length > 0,
+    status: status as SearchStatus
+  } as SearchResult]
+} as unknown as AggregatedSearchResults);
+
+describe('RemovalCaseService', () => {
+  let service: RemovalCaseService;
+  let searchWithSpecificBots: jest.SpyInstance;
+  let userCounter = 0;
+  let userId: string;
+
+  const notificationsOfType = async (type: string) => {
+    const { notifications } = await notificationService.getUserNotifications(userId);
+    return notifications.filter(notification => notification.type === type);
+  };
+
+  beforeEach(() => {
+    service = RemovalCaseService.getInstance();
+    userId = `removal-case-user-${++userCounter}`;
+    searchWithSpecificBots = jest.spyOn(SearchService.getInstance(), 'searchWithSpecificBots');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    // Keep other tests' cases out of processDue
+    for (const removalCase of await service.list(userId)) {
+      await service.delete(userId, removalCase.id);
+    }
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(removalCaseService);
+  });
+
+  it('should open a case with masked identifiers and keep them encrypted at rest', async () => {
+    const removalCase = await service.create(userId, { botId: 'dyxless', identifiers, ticketNumber: 'A-123' });
+
+    expect(removalCase).toMatchObject({
+      botId: 'dyxless',
+      status: 'planned',
+      ticketNumber: 'A-123',
+      identifiers: [{ searchType: 'email', maskedQuery: 'iv***@example.com' }]
+    });
+    expect(removalCase.submittedAt).toBeUndefined();
+
+    const stored = JSON.stringify(await getStorage().repository('removal_cases').get(removalCase.id));
+    expect(stored).not.toContain('ivan.petrov');
+  });
+
+  it('should reject unknown bots and invalid identifiers', async () => {
+    await expect(service.create(userId, { botId: 'nope', identifiers })).rejects.toMatchObject({
+      type: 'UNKNOWN_BOT',
+      statusCode: 400
+    });
+    await expect(service.create(userId, { botId: 'dyxless', identifiers: [] })).rejects.toMatchObject({
+      type: 'VALIDATION_ERROR'
+    });
+    await expect(service.create(userId, {
+      botId: 'dyxless',
+      identifiers: [{ type: 'email', value: 'not-an-email' }]
+    })).rejects.toMatchObject({ type: 'VALIDATION_ERROR' });
+  });
+
+  it('should record status changes and date the submission', async () => {
+    const { id } = await service.create(userId, { botId: 'dyxless', identifiers });
+
+    const submitted = await service.update(userId, id, { status: 'submitted', ticketNumber: '42' });
+    expect(submitted.status).toBe('submitted');
+    expect(submitted.ticketNumber).toBe('42');
+    expect(submitted.submittedAt).toBeInstanceOf(Date);
+    expect(submitted.statusHistory.map(entry => entry.status)).toEqual(['planned', 'submitted']);
+
+    const cleared = await service.update(userId, id, { ticketNumber: null });
+    expect(cleared.ticketNumber).toBeUndefined();
+  });
+
+  it('should not let users mark a case verified', async () => {
+    const { id } = await service.create(userId, { botId: 'dyxless', identifiers });
+
+    await expect(service.update(userId, id, { status: 'verified' })).rejects.toMatchObject({
+      type: 'INVALID_STATUS',
+      statusCode: 400
+    });
+  });
+
+  it('should hide other users\' cases', async () => {
+    const { id } = await service.create(userId, { botId: 'dyxless', identifiers });
+
+    await expect(service.get('someone-else', id)).rejects.toMatchObject({ type: 'CASE_NOT_FOUND', statusCode: 404 });
+    await expect(service.delete('someone-else', id)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should mark the case verified when the bot no longer returns data', async () => {
+    searchWithSpecificBots.mockResolvedValue(dyxless('no_data'));
+    const { id } = await service.create(userId, { botId: 'dyxless', identifiers, status: 'submitted' });
+
+    const verified = await service.verify(userId, id);
+
+    expect(searchWithSpecificBots).toHaveBeenCalledWith(identifiers[0], ['dyxless'], { userId });
+    expect(verified.status).toBe('verified');
+    expect(verified.lastVerification).toMatchObject({ result: 'cleared' });
+    expect(await notificationsOfType('removal_completed')).toHaveLength(1);
+  });
+
+  it('should keep the status when the bot still returns data or does not answer', async () => {
+    const { id } = await service.create(userId, { botId: 'dyxless', identifiers, status: 'submitted' });
+
+    searchWithSpecificBots.mockResolvedValue(dyxless('success', ['full_name', 'address']));
+    const found = await service.verify(userId, id);
+    expect(found.status).toBe('submitted');
+    expect(found.lastVerification).toMatchObject({ result: 'data_found', remainingFields: ['full_name', 'address'] });
+
+    searchWithSpecificBots.mockResolvedValue(dyxless('timeout'));
+    const timedOut = await service.verify(userId, id);
+    expect(timedOut.status).toBe('submitted');
+    expect(timedOut.lastVerification?.result).toBe('inconclusive');
+
+    searchWithSpecificBots.mockRejectedValue(new Error('Bot unavailable'));
+    await expect(service.verify(userId, id)).resolves.toMatchObject({
+      status: 'submitted',
+      lastVerification: { result: 'inconclusive' }
+    });
+    expect(await notificationsOfType('removal_completed')).toHaveLength(0);
+  });
+
+  it('should verify submitted cases once they are due', async () => {
+    searchWithSpecificBots.mockResolvedValue(dyxless('no_data'));
+    const { id } = await service.create(userId, { botId: 'dyxless', identifiers, status: 'submitted' });
+
+    await service.processDue(new Date(Date.now() + 2 * DAY_MS));
+    expect(searchWithSpecificBots).not.toHaveBeenCalled();
+
+    await service.processDue(new Date(Date.now() + 4 * DAY_MS));
+    await expect(service.get(userId, id)).resolves.toMatchObject({ status: 'verified' });
+  });
+
+  it('should remind about stale cases once per stale period', async () => {
+    await service.create(userId, { botId: 'dyxless', identifiers });
+
+    await service.processDue(new Date(Date.now() + 13 * DAY_MS));
+    expect(await notificationsOfType('removal_reminder')).toHaveLength(0);
+
+    await service.processDue(new Date(Date.now() + 15 * DAY_MS));
+    await service.processDue(new Date(Date.now() + 16 * DAY_MS));
+    const reminders = await notificationsOfType('removal_reminder');
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].data).toMatchObject({ botId: 'dyxless' });
+
+    await service.processDue(new Date(Date.now() + 30 * DAY_MS));
+    expect(await notificationsOfType('removal_reminder')).toHaveLength(2);
+  });
+
+  it('should not remind about rejected cases', async () => {
+    const { id } = await service.create(userId, { botId: 'dyxless', identifiers });
+    await service.update(userId, id, { status: 'rejected' });
+
+    await service.processDue(new Date(Date.now() + 30 * DAY_MS));
+    expect(await notificationsOfType('removal_reminder')).toHaveLength(0);
+  });
+});
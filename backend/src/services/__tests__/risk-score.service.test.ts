@@ -0,0 +1,78 @@
+/**
+ * Unit tests for RiskScoreService
+ */
+
+import { RiskScoreService } from '../risk-score.service';
+import { MergedProfile, MergedProfileValue } from '../../types/person';
+
+describe('RiskScoreService', () => {
+  const service = new RiskScoreService();
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  const value = (field: string, category: MergedProfileValue['category'], sources: MergedProfileValue['sources']): MergedProfileValue => ({
+    category,
+    field,
+    value: 'x',
+    variants: ['x'],
+    sources,
+    botCount: new Set(sources.map(s => s.botId)).size,
+    confidence: 0.5
+  });
+
+  const profileOf = (values: MergedProfileValue[]): MergedProfile => ({
+    values,
+    byCategory: {},
+    totalUniqueValues: values.length,
+    totalBotsContributing: new Set(values.flatMap(v => v.sources.map(s => s.botId))).size
+  });
+
+  it('should return zero for an empty profile', () => {
+    const assessment = service.calculate(profileOf([]), now);
+
+    expect(assessment.score).toBe(0);
+    expect(assessment.level).toBe('low');
+    expect(assessment.breakdown.map(f => f.factor)).toEqual(['sensitive_fields', 'source_count', 'recency']);
+  });
+
+  it('should score a low-sensitivity single-source exposure as low', () => {
+    const assessment = service.calculate(profileOf([
+      value('email', 'email', [{ botId: 'dyxless', botName: 'Бот A' }])
+    ]), now);
+
+    // email 5 + one source 5 + unknown leak date 6
+    expect(assessment.score).toBe(16);
+    expect(assessment.level).toBe('low');
+  });
+
+  it('should score documents from many recent sources as critical', () => {
+    const sources = [
+      { botId: 'itp', botName: 'Бот B', sourceDatabase: 'gibdd', leakDate: '2024-01-10' },
+      { botId: 'leak_osint', botName: 'Бот C', sourceDatabase: 'bank' },
+      { botId: 'userbox', botName: 'Бот D', sourceDatabase: 'shop' }
+    ];
+
+    const assessment = service.calculate(profileOf([
+      value('passport', 'document', sources),
+      value('snils', 'document', sources),
+      value('address', 'address', sources),
+      value('relatives', 'other', sources.slice(0, 1))
+    ]), now);
+
+    const [fields, sourceCount, recency] = assessment.breakdown;
+    expect(fields.points).toBe(60);
+    expect(fields.details[0]).toBe('паспорт: +25');
+    expect(sourceCount.points).toBe(15);
+    expect(recency.points).toBe(15);
+    expect(assessment.score).toBe(90);
+    expect(assessment.level).toBe('critical');
+  });
+
+  it('should give fewer recency points to old leaks', () => {
+    const assessment = service.calculate(profileOf([
+      value('inn', 'document', [{ botId: 'itp', botName: 'Бот B', leakDate: '2018' }])
+    ]), now);
+
+    expect(assessment.breakdown[2].points).toBe(4);
+    expect(assessment.breakdown[2].details).toEqual(['Последняя утечка: 2018-01-01']);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for search result diffing
+ */
+
+import { diffSearchResults } from '../search-diff';
+import { FoundDataItem, SearchResult, SearchStatus } from '../../types/search';
+
+const item = (field: string, value: string): FoundDataItem => ({ field, value });
+
+const bot = (botId: string, status: `${SearchStatus}`, foundData: FoundDataItem[] = []): SearchResult => ({
+  botId,
+  botName: `Бот ${botId.toUpperCase()}`,
+  foundData,
+  hasData: foundData.length > 0,
+  status: status as SearchStatus
+});
+
+describe('diffSearchResults', () => {
+  it('should split found items into removed, remaining and added per bot', () => {
+    const diff = diffSearchResults(
+      { results: [bot('a', 'success', [item('phone', '79991234567'), item('full_name', 'Иван Иванов')])] },
+      { results: [bot('a', 'success', [item('full_name', 'иван  иванов'), item('address', 'Москва')])] }
+    );
+
+    expect(diff.bots).toEqual([{
+      botId: 'a',
+      botName: 'Бот A',
+      removed: [item('phone', '79991234567')],
+      remaining: [item('full_name', 'иван  иванов')],
+      added: [item('address', 'Москва')],
+      inconclusive: false,
+      cleared: false
+    }]);
+    expect(diff.totals).toEqual({ removed: 1, remaining: 1, added: 1 });
+  });
+
+  it('should mark bots that no longer return anything as cleared', () => {
+    const diff = diffSearchResults(
+      { results: [bot('c', 'success', [item('email', 'test@example.com')]), bot('d', 'no_data')] },
+      { results: [bot('c', 'no_data'), bot('d', 'no_data')] }
+    );
+
+    expect(diff.bots).toHaveLength(1);
+    expect(diff.bots[0]).toMatchObject({ botId: 'c', cleared: true, inconclusive: false });
+  });
+
+  it('should not count data from bots that did not answer as removed', () => {
+    const diff = diffSearchResults(
+      { results: [bot('c', 'success', [item('email', 'test@example.com')])] },
+      { results: [bot('c', 'timeout')] }
+    );
+
+    expect(diff.bots[0]).toMatchObject({ inconclusive: true, cleared: false });
+    expect(diff.totals).toEqual({ removed: 0, remaining: 0, added: 0 });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for SearchHistoryService
+ */
+
+import { SearchHistoryService, searchHistoryService, maskSearchQuery } from '../search-history.service';
+import { AggregatedSearchResults } from '../search.service';
+import { tariffService } from '../tariff.service';
+import { getStorage } from '../../storage';
+import { SearchRequest, SearchStatus } from '../../types/search';
+
+jest.mock('../../utils/logger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const request: SearchRequest = { type: 'email', value: 'ivan.petrov@example.com' };
+
+const resultsFor = (searchId: string, totalRecords = 1): AggregatedSearchResults => ({
+  searchId,
+  timestamp: new Date(),
+  query: '[23 characters]',
+  searchType: 'email',
+  results: [{
+    botId: 'dyxless',
+    botName: 'Бот A',
+    foundData: [{ field: 'full_name', value: 'Иван Петров', source: 'dyxless', confidence: 0.9 }],
+    hasData: true,
+    status: 'success',
+    responseTime: 10
+  }],
+  totalBotsSearched: 1,
+  totalBotsWithData: 1,
+  totalRecords,
+  searchDuration: 10,
+  encryptionEnabled: true,
+  mergedProfile: { fields: [], conflicts: [] },
+  riskAssessment: { score: 10, level: 'low', factors: [] }
+} as unknown as AggregatedSearchResults);
+
+describe('SearchHistoryService', () => {
+  let service: SearchHistoryService;
+  let userCounter = 0;
+  let userId: string;
+
+  const subscribe = async (planId: string) => {
+    const now = new Date();
+    await tariffService.saveSubscription({
+      userId,
+      planId,
+      status: 'active',
+      startDate: now,
+      endDate: new Date(now.getTime() + 30 * DAY_MS),
+      autoRenew: false
+    });
+  };
+
+  beforeEach(async () => {
+    service = SearchHistoryService.getInstance();
+    userId = `search-history-user-${++userCounter}`;
+    await subscribe('basic');
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(searchHistoryService);
+  });
+
+  it('should mask queries for the list', () => {
+    expect(maskSearchQuery('email', 'ivan.petrov@example.com')).toBe('iv***@example.com');
+    expect(maskSearchQuery('email', 'a@example.com')).toBe('a***@example.com');
+    expect(maskSearchQuery('phone', '+79991234567')).toBe('+7********67');
+    expect(maskSearchQuery('inn', '1234')).toBe('****');
+  });
+
+  it('should save a search and reopen it with its results', async () => {
+    const item = await service.record(userId, request, resultsFor('search_history_1'));
+    expect(item).toMatchObject({ id: 'search_history_1', maskedQuery: 'iv***@example.com', totalRecords: 1 });
+
+    const { entries, total, retentionDays } = await service.list(userId);
+    expect(total).toBe(1);
+    expect(retentionDays).toBe(30);
+    expect(entries[0]).toMatchObject({ id: 'search_history_1', searchType: 'email' });
+    expect(entries[0]).not.toHaveProperty('results');
+
+    const details = await service.get(userId, 'search_history_1');
+    expect(details.results.results[0].foundData[0].value).toBe('Иван Петров');
+    expect(details.results.timestamp).toBeInstanceOf(Date);
+    await expect(service.getRequest(userId, 'search_history_1')).resolves.toEqual(request);
+  });
+
+  it('should read back searches saved concurrently before the user had a key', async () => {
+    await Promise.all([
+      service.record(userId, request, resultsFor('search_history_first_a')),
+      service.record(userId, request, resultsFor('search_history_first_b'))
+    ]);
+
+    // Read with the stored key, not one cached by the saves
+    (service as any).userKeys.delete(userId);
+
+    await expect(service.getRequest(userId, 'search_history_first_a')).resolves.toEqual(request);
+    await expect(service.getRequest(userId, 'search_history_first_b')).resolves.toEqual(request);
+  });
+
+  it('should keep the query and results encrypted at rest', async () => {
+    await service.record(userId, request, resultsFor('search_history_2'));
+
+    const stored = JSON.stringify(await getStorage().repository('search_history').get('search_history_2'));
+    expect(stored).not.toContain('ivan.petrov');
+    expect(stored).not.toContain('Иван');
+  });
+
+  it('should replace a saved search recorded again', async () => {
+    await service.record(userId, request, resultsFor('search_history_3', 1));
+    await service.record(userId, request, resultsFor('search_history_3', 4));
+
+    const { entries } = await service.list(userId);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].totalRecords).toBe(4);
+  });
+
+  it('should not save searches on the free plan or without a user', async () => {
+    await subscribe('free');
+
+    await expect(service.record(userId, request, resultsFor('search_history_4'))).resolves.toBeNull();
+    await expect(service.record('anonymous', request, resultsFor('search_history_5'))).resolves.toBeNull();
+    await expect(service.list(userId)).resolves.toMatchObject({ total: 0, retentionDays: 0 });
+  });
+
+  it('should hide other users\' searches', async () => {
+    await service.record(userId, request, resultsFor('search_history_6'));
+
+    await expect(service.get('someone-else', 'search_history_6')).rejects.toMatchObject({
+      type: 'HISTORY_NOT_FOUND',
+      statusCode: 404
+    });
+    await expect(service.delete('someone-else', 'search_history_6')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should delete one search or the whole history', async () => {
+    await service.record(userId, request, resultsFor('search_history_7'));
+    await service.record(userId, request, resultsFor('search_history_8'));
+
+    await service.delete(userId, 'search_history_7');
+    await expect(service.get(userId, 'search_history_7')).rejects.toMatchObject({ type: 'HISTORY_NOT_FOUND' });
+
+    await expect(service.clear(userId)).resolves.toBe(1);
+    await expect(service.list(userId)).resolves.toMatchObject({ total: 0 });
+    await expect(getStorage().repository('search_history_keys').get(userId)).resolves.toBeNull();
+  });
+
+  it('should compare two runs of the same search', async () => {
+    const later = resultsFor('search_history_11');
+    later.results = [{ ...later.results[0], foundData: [], hasData: false, status: SearchStatus.NO_DATA }];
+    await service.record(userId, request, resultsFor('search_history_12'));
+    await service.record(userId, request, later);
+
+    const diff = await service.diff(userId, 'search_history_12', 'search_history_11');
+
+    expect(diff.from.id).toBe('search_history_12');
+    expect(diff.to.id).toBe('search_history_11');
+    expect(diff.bots).toEqual([expect.objectContaining({ botId: 'dyxless', cleared: true })]);
+    expect(diff.totals).toEqual({ removed: 1, remaining: 0, added: 0 });
+  });
+
+  it('should refuse to compare different searches', async () => {
+    await service.record(userId, request, resultsFor('search_history_13'));
+    await service.record(userId, { type: 'email', value: 'other@example.com' }, resultsFor('search_history_14'));
+
+    await expect(service.diff(userId, 'search_history_13', 'search_history_14')).rejects.toMatchObject({
+      type: 'HISTORY_MISMATCH',
+      statusCode: 400
+    });
+  });
+
+  it('should remove searches past the plan retention', async () => {
+    await service.record(userId, request, resultsFor('search_history_9'));
+
+    await service.sweepExpired(new Date(Date.now() + 29 * DAY_MS));
+    await expect(service.get(userId, 'search_history_9')).resolves.toMatchObject({ id: 'search_history_9' });
+
+    await service.sweepExpired(new Date(Date.now() + 31 * DAY_MS));
+    await expect(service.get(userId, 'search_history_9')).rejects.toMatchObject({ type: 'HISTORY_NOT_FOUND' });
+  });
+
+  it('should keep searches without limit on the enterprise plan', async () => {
+    await subscribe('enterprise');
+    await service.record(userId, request, resultsFor('search_history_10'));
+
+    await service.sweepExpired(new Date(Date.now() + 3650 * DAY_MS));
+    await expect(service.list(userId)).resolves.toMatchObject({ total: 1, retentionDays: -1 });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for SearchJobService
+ */
+
+import { SearchJobService, SearchJob, searchJobService } from '../search-job.service';
+import { ApiManagerService, BotSearchOptions, BotSearchResult, BotSearchResults } from '../api-manager.service';
+import { notificationService } from '../notification.service';
+import { getStorage } from '../../storage';
+import { SearchRequest } from '../../types/search';
+
+jest.mock('../../utils/logger');
+
+const request: SearchRequest = { type: 'email', value: 'test@example.com' };
+
+const botResult = (botId: string, status: BotSearchResult['status']): BotSearchResult => ({
+  botId,
+  encryptedName: `Бот ${botId.toUpperCase()}`,
+  status,
+  foundFields: status === 'success' ? [{ email: 'test@example.com', full_name: 'Иван Иванов' }] : [],
+  totalRecords: status === 'success' ? 1 : 0,
+  hasData: status === 'success',
+  responseTime: 10,
+  errorMessage: status === 'error' ? 'Upstream failed' : undefined
+});
+
+// Report progress for each result the way the API manager does, then return them all
+const respondWith = (results: BotSearchResult[]) =>
+  async (_request: SearchRequest, ...args: unknown[]): Promise<BotSearchResults> => {
+    const options = args[args.length - 1] as BotSearchOptions;
+    results.forEach(result => {
+      options.onProgress?.({ type: 'started', botId: result.botId, encryptedName: result.encryptedName });
+    });
+    results.forEach(result => {
+      options.onProgress?.({ type: 'completed', botId: result.botId, encryptedName: result.encryptedName, result });
+    });
+
+    return {
+      searchId: options.searchId!,
+      timestamp: new Date(),
+      query: request.value,
+      searchType: request.type,
+      results,
+      totalBotsSearched: results.length,
+      totalBotsWithData: results.filter(result => result.hasData).length,
+      totalRecords: results.reduce((sum, result) => sum + result.totalRecords, 0),
+      searchDuration: 5
+    };
+  };
+
+describe('SearchJobService', () => {
+  let service: SearchJobService;
+  let searchAll: jest.SpyInstance;
+  let searchWithBots: jest.SpyInstance;
+  let userCounter = 0;
+  let userId: string;
+
+  const waitForJob = async (jobId: string): Promise<SearchJob> => {
+    for (let i = 0; i < 200; i++) {
+      const job = await service.getJob(jobId, userId);
+      if (job.status === 'completed' || job.status === 'failed') {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error(`Search job ${jobId} did not finish`);
+  };
+
+  beforeEach(() => {
+    service = SearchJobService.getInstance();
+    userId = `search-job-user-${++userCounter}`;
+    const apiManager = ApiManagerService.getInstance();
+    searchAll = jest.spyOn(apiManager, 'searchAll');
+    searchWithBots = jest.spyOn(apiManager, 'searchWithBots');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(searchJobService);
+  });
+
+  it('should run a queued job and keep its results', async () => {
+    searchAll.mockImplementation(respondWith([botResult('dyxless', 'success'), botResult('itp', 'no_data')]));
+
+    const queued = await service.createJob(userId, request);
+    expect(queued).toMatchObject({ status: 'queued', results: null });
+    expect(queued.id).toMatch(/^job_[0-9a-f]{32}$/);
+
+    const job = await waitForJob(queued.id);
+
+    expect(job.status).toBe('completed');
+    expect(job.attempts).toBe(1);
+    expect(job.bots.map(bot => [bot.botId, bot.status])).toEqual([['dyxless', 'success'], ['itp', 'no_data']]);
+    expect(job.results).toMatchObject({
+      searchId: queued.id,
+      query: '[16 characters]',
+      totalBotsSearched: 2,
+      totalBotsWithData: 1
+    });
+    expect(job.results!.results[0].foundData.length).toBeGreaterThan(0);
+
+    const { notifications } = await notificationService.getUserNotifications(userId);
+    expect(notifications.map(notification => notification.type)).toEqual(
+      expect.arrayContaining(['search_completed', 'data_found'])
+    );
+  });
+
+  it('should store the query and found data encrypted', async () => {
+    searchAll.mockImplementation(respondWith([botResult('dyxless', 'success')]));
+
+    const { id } = await service.createJob(userId, request);
+    await waitForJob(id);
+
+    const stored = JSON.stringify(await getStorage().repository('search_jobs').get(id));
+    expect(stored).not.toContain('test@example.com');
+    expect(stored).not.toContain('Иван');
+  });
+
+  it('should retry only the failed bots', async () => {
+    searchAll.mockImplementation(respondWith([
+      botResult('dyxless', 'success'),
+      botResult('itp', 'error'),
+      botResult('vektor', 'timeout')
+    ]));
+    const { id } = await service.createJob(userId, request);
+    await waitForJob(id);
+
+    searchWithBots.mockImplementation(respondWith([botResult('itp', 'no_data'), botResult('vektor', 'success')]));
+    const retried = await service.retryFailedBots(id, userId);
+    expect(retried.status).toBe('queued');
+
+    const job = await waitForJob(id);
+
+    expect(searchWithBots).toHaveBeenCalledWith(request, ['itp', 'vektor'], expect.objectContaining({ searchId: id }));
+    expect(job.attempts).toBe(2);
+    expect(job.bots.map(bot => [bot.botId, bot.status])).toEqual([
+      ['dyxless', 'success'],
+      ['itp', 'no_data'],
+      ['vektor', 'success']
+    ]);
+    expect(job.results!.totalBotsWithData).toBe(2);
+  });
+
+  it('should refuse retries with nothing to retry or while running', async () => {
+    searchAll.mockImplementation(respondWith([botResult('dyxless', 'no_data')]));
+    const { id } = await service.createJob(userId, request);
+    await expect(service.retryFailedBots(id, userId)).rejects.toMatchObject({ type: 'JOB_NOT_FINISHED', statusCode: 409 });
+
+    await waitForJob(id);
+    await expect(service.retryFailedBots(id, userId)).rejects.toMatchObject({ type: 'NOTHING_TO_RETRY', statusCode: 409 });
+  });
+
+  it('should mark the job failed when the search cannot run', async () => {
+    searchAll.mockRejectedValue(new Error('No active bot clients available'));
+
+    const { id } = await service.createJob(userId, request);
+    const job = await waitForJob(id);
+
+    expect(job).toMatchObject({ status: 'failed', error: 'No active bot clients available', results: null });
+  });
+
+  it('should hide other users\' jobs', async () => {
+    searchAll.mockImplementation(respondWith([botResult('dyxless', 'no_data')]));
+    const { id } = await service.createJob(userId, request);
+
+    await expect(service.getJob(id, 'someone-else')).rejects.toMatchObject({ type: 'JOB_NOT_FOUND', statusCode: 404 });
+    await waitForJob(id);
+  });
+
+  it('should delete finished jobs after the retention window', async () => {
+    searchAll.mockImplementation(respondWith([botResult('dyxless', 'no_data')]));
+    const { id } = await service.createJob(userId, request);
+    const job = await waitForJob(id);
+
+    await service.sweepExpired(new Date(job.expiresAt.getTime() - 1000));
+    await expect(service.getJob(id, userId)).resolves.toMatchObject({ id });
+
+    await service.sweepExpired(new Date(job.expiresAt.getTime() + 1000));
+    await expect(service.getJob(id, userId)).rejects.toMatchObject({ type: 'JOB_NOT_FOUND' });
+  });
+});
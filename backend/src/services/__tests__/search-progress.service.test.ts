@@ -0,0 +1,158 @@
+/**
+ * Unit tests for SearchProgressService and streaming searches
+ */
+
+import { SearchProgressService, SearchProgressEvent, searchProgressService } from '../search-progress.service';
+import { SearchService } from '../search.service';
+import { ApiManagerService, BotSearchOptions, BotSearchResult } from '../api-manager.service';
+import { SearchRequest } from '../../types/search';
+
+jest.mock('../../utils/logger');
+
+describe('SearchProgressService', () => {
+  let service: SearchProgressService;
+
+  beforeEach(() => {
+    service = new SearchProgressService({ retentionMs: 1000 });
+  });
+
+  it('should return the exported singleton', () => {
+    expect(SearchProgressService.getInstance()).toBe(searchProgressService);
+  });
+
+  it('should number events and pass them to subscribers', () => {
+    const received: SearchProgressEvent[] = [];
+    service.open('search_1');
+    service.subscribe('search_1', event => received.push(event));
+
+    service.publish('search_1', { type: 'search_started' });
+    service.publish('search_1', { type: 'started', botId: 'dyxless', botName: 'Бот A' });
+
+    expect(received.map(event => [event.id, event.type])).toEqual([[1, 'search_started'], [2, 'started']]);
+    expect(received[1]).toMatchObject({ searchId: 'search_1', botId: 'dyxless' });
+  });
+
+  it('should replay events after the last one a client received', () => {
+    service.open('search_1');
+    service.publish('search_1', { type: 'search_started' });
+    service.publish('search_1', { type: 'started', botId: 'dyxless' });
+    service.publish('search_1', { type: 'completed', botId: 'dyxless' });
+
+    const received: SearchProgressEvent[] = [];
+    service.subscribe('search_1', event => received.push(event), 1);
+
+    expect(received.map(event => event.type)).toEqual(['started', 'completed']);
+  });
+
+  it('should stop the stream at the final event', () => {
+    const listener = jest.fn();
+    service.open('search_1');
+    const unsubscribe = service.subscribe('search_1', listener);
+
+    service.publish('search_1', { type: 'search_failed', error: 'boom' });
+    expect(service.publish('search_1', { type: 'completed', botId: 'late' })).toBeNull();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(service.getStream('search_1')!.finished).toBe(true);
+    unsubscribe();
+  });
+
+  it('should ignore unknown searches', () => {
+    expect(service.publish('missing', { type: 'search_started' })).toBeNull();
+    expect(service.has('missing')).toBe(false);
+  });
+});
+
+describe('SearchService.startSearch', () => {
+  const request: SearchRequest = { type: 'email', value: 'test@example.com' };
+
+  const botResult = (botId: string, status: BotSearchResult['status']): BotSearchResult => ({
+    botId,
+    encryptedName: `Бот ${botId}`,
+    status,
+    foundFields: [],
+    totalRecords: 0,
+    hasData: false,
+    responseTime: 10,
+    errorMessage: status === 'error' ? 'Upstream failed' : undefined
+  });
+
+  const waitForFinish = async (searchId: string) => {
+    for (let i = 0; i < 100 && !searchProgressService.getStream(searchId)?.finished; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return searchProgressService.getStream(searchId)!;
+  };
+
+  let searchService: SearchService;
+  let searchAll: jest.SpyInstance;
+
+  beforeEach(() => {
+    searchService = new SearchService();
+    searchAll = jest.spyOn(ApiManagerService.getInstance(), 'searchAll');
+  });
+
+  afterEach(() => {
+    searchAll.mockRestore();
+  });
+
+  it('should stream per-bot progress and the final results', async () => {
+    searchAll.mockImplementation(async (_request: SearchRequest, options: BotSearchOptions) => {
+      const results = [botResult('dyxless', 'no_data'), botResult('itp', 'error')];
+      results.forEach(result => {
+        options.onProgress!({ type: 'started', botId: result.botId, encryptedName: result.encryptedName });
+      });
+      options.onProgress!({ type: 'completed', botId: 'dyxless', encryptedName: 'Бот dyxless', result: results[0] });
+      options.onProgress!({ type: 'error', botId: 'itp', encryptedName: 'Бот itp', result: results[1] });
+
+      return {
+        searchId: options.searchId!,
+        timestamp: new Date(),
+        query: request.value,
+        searchType: request.type,
+        results,
+        totalBotsSearched: 2,
+        totalBotsWithData: 0,
+        totalRecords: 0,
+        searchDuration: 5
+      };
+    });
+
+    const { searchId } = await searchService.startSearch(request);
+    const stream = await waitForFinish(searchId);
+
+    expect(searchId).toMatch(/^search_[0-9a-f]{32}$/);
+    expect(stream.events.map(event => [event.type, event.botId])).toEqual([
+      ['search_started', undefined],
+      ['started', 'dyxless'],
+      ['started', 'itp'],
+      ['completed', 'dyxless'],
+      ['error', 'itp'],
+      ['search_completed', undefined]
+    ]);
+    expect(stream.events[3].result).toMatchObject({ botId: 'dyxless', status: 'no_data' });
+    expect(stream.events[4].error).toBe('Upstream failed');
+    expect(stream.events[5].results!.searchId).toBe(searchId);
+  });
+
+  it('should report bots that never answered as timed out', async () => {
+    searchAll.mockImplementation(async (_request: SearchRequest, options: BotSearchOptions) => {
+      options.onProgress!({ type: 'started', botId: 'vektor', encryptedName: 'Бот E' });
+      throw new Error('No active bot clients available');
+    });
+
+    const { searchId } = await searchService.startSearch(request);
+    const stream = await waitForFinish(searchId);
+    const types = stream.events.map(event => event.type);
+
+    expect(types).toContain('timeout');
+    expect(types.indexOf('timeout')).toBeLessThan(types.length - 1);
+    expect(['search_completed', 'search_failed']).toContain(types[types.length - 1]);
+  });
+
+  it('should reject invalid requests before starting', async () => {
+    await expect(searchService.startSearch({ type: 'email', value: 'not-an-email' }))
+      .rejects.toThrow('Invalid email format');
+    expect(searchAll).not.toHaveBeenCalled();
+  });
+});
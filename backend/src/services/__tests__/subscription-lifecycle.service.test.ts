@@ -0,0 +1,228 @@
+/**
+ * Unit tests for SubscriptionLifecycleService against the local YooKassa mock
+ */
+
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  SubscriptionLifecycleService,
+  subscriptionLifecycleService
+} from '../subscription-lifecycle.service';
+import { tariffService } from '../tariff.service';
+import { paymentService } from '../payment.service';
+import { notificationService } from '../notification.service';
+import { createYooKassaMockApp, YooKassaMock } from '../../dev/yookassa-mock.server';
+
+jest.mock('../../utils/logger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SubscriptionLifecycleService', () => {
+  let service: SubscriptionLifecycleService;
+  let mock: YooKassaMock;
+  let server: Server;
+  let userCounter = 0;
+  let userId: string;
+
+  const notificationTypes = async (id: string) =>
+    (await notificationService.getUserNotifications(id)).notifications.map(notification => notification.type);
+
+  // Buy a plan through checkout so the provider saves the card for renewals
+  const subscribeWithSavedCard = async (id: string, planId: string) => {
+    const { payment } = await paymentService.createPayment(id, planId);
+    const providerPaymentId = payment.confirmationUrl!.split('/').pop()!;
+    await mock.settlePayment(providerPaymentId, 'succeeded');
+    await paymentService.getPayment(id, payment.id);
+
+    const subscription = (await tariffService.getUserSubscription(id))!;
+    return { subscription, providerPayment: mock.payments.get(providerPaymentId)! };
+  };
+
+  beforeAll(done => {
+    mock = createYooKassaMockApp({
+      shopId: 'lifecycle-shop',
+      secretKey: 'lifecycle-secret',
+      webhookSecret: 'lifecycle-webhook-secret'
+    });
+
+    server = mock.app.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      tariffService.configurePaymentProvider('yookassa', true, {
+        apiUrl: `http://127.0.0.1:${port}/v3`,
+        shopId: 'lifecycle-shop',
+        secretKey: 'lifecycle-secret',
+        returnUrl: 'http://localhost:3001/tariffs'
+      });
+      done();
+    });
+  });
+
+  afterAll(done => {
+    tariffService.configurePaymentProvider('yookassa', false);
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    service = SubscriptionLifecycleService.getInstance();
+    userId = `lifecycle-user-${++userCounter}`;
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(subscriptionLifecycleService);
+  });
+
+  describe('Trials', () => {
+    it('should grant the plan for the trial period', async () => {
+      const subscription = await service.startTrial(userId, 'basic');
+
+      expect(subscription.status).toBe('trial');
+      expect(subscription.endDate.getTime() - subscription.startDate.getTime()).toBe(7 * DAY_MS);
+      expect((await tariffService.getEffectivePlan(userId)).id).toBe('basic');
+      expect(await notificationTypes(userId)).toContain('subscription_trial_started');
+    });
+
+    it('should allow only one trial per user', async () => {
+      await service.startTrial(userId, 'basic');
+
+      await expect(service.startTrial(userId, 'premium'))
+        .rejects.toMatchObject({ type: 'TRIAL_UNAVAILABLE', statusCode: 409 });
+    });
+
+    it('should reject plans without a trial', async () => {
+      await expect(service.startTrial(userId, 'free')).rejects.toMatchObject({ type: 'TRIAL_UNAVAILABLE' });
+      await expect(service.startTrial(userId, 'missing')).rejects.toMatchObject({ type: 'PLAN_NOT_FOUND' });
+    });
+
+    it('should downgrade to the free plan when the trial ends', async () => {
+      const trial = await service.startTrial(userId, 'basic');
+
+      await service.runOnce(new Date(trial.endDate.getTime() + 1000));
+
+      const subscription = (await tariffService.getUserSubscription(userId))!;
+      expect(subscription.planId).toBe('free');
+      expect(subscription.previousPlanId).toBe('basic');
+      expect(subscription.trialUsedAt).toBeDefined();
+      expect(await notificationTypes(userId)).toContain('subscription_expired');
+    });
+  });
+
+  describe('Renewals', () => {
+    it('should turn on auto-renewal when the card is saved at checkout', async () => {
+      const { subscription } = await subscribeWithSavedCard(userId, 'basic');
+
+      expect(subscription.status).toBe('active');
+      expect(subscription.autoRenew).toBe(true);
+      expect(subscription.paymentMethodId).toBeDefined();
+    });
+
+    it('should charge the saved card when the period ends', async () => {
+      const { subscription } = await subscribeWithSavedCard(userId, 'basic');
+
+      await service.runOnce(new Date(subscription.endDate.getTime() + 1000));
+
+      const renewed = (await tariffService.getUserSubscription(userId))!;
+      expect(renewed.status).toBe('active');
+      expect(renewed.endDate.getTime()).toBe(subscription.endDate.getTime() + 30 * DAY_MS);
+      expect(await notificationTypes(userId)).toContain('subscription_renewed');
+
+      const payments = await paymentService.getUserPayments(userId);
+      expect(payments.filter(payment => payment.kind === 'renewal')).toHaveLength(1);
+    });
+
+    it('should not charge twice for the same period', async () => {
+      const { subscription } = await subscribeWithSavedCard(userId, 'basic');
+      const dueDate = new Date(subscription.endDate.getTime() + 1000);
+
+      await Promise.all([service.runOnce(dueDate), service.runOnce(dueDate)]);
+      await service.runOnce(dueDate);
+
+      const payments = await paymentService.getUserPayments(userId);
+      expect(payments.filter(payment => payment.kind === 'renewal')).toHaveLength(1);
+    });
+
+    it('should go past due on a declined card and expire after the grace period', async () => {
+      const { subscription } = await subscribeWithSavedCard(userId, 'basic');
+      mock.declinedPaymentMethods.add(subscription.paymentMethodId!);
+      const dueDate = new Date(subscription.endDate.getTime() + 1000);
+
+      await service.runOnce(dueDate);
+
+      const pastDue = (await tariffService.getUserSubscription(userId))!;
+      expect(pastDue.status).toBe('past_due');
+      expect(pastDue.renewalAttempts).toBe(1);
+      expect(pastDue.gracePeriodEndsAt!.getTime()).toBe(dueDate.getTime() + 3 * DAY_MS);
+      expect(tariffService.hasAccess(pastDue, dueDate)).toBe(true);
+      expect(await notificationTypes(userId)).toContain('subscription_past_due');
+
+      // A retry a day later fails again
+      await service.runOnce(new Date(dueDate.getTime() + DAY_MS));
+      expect((await tariffService.getUserSubscription(userId))!.renewalAttempts).toBe(2);
+
+      await service.runOnce(new Date(dueDate.getTime() + 3 * DAY_MS + 1000));
+
+      const expired = (await tariffService.getUserSubscription(userId))!;
+      expect(expired.planId).toBe('free');
+      expect(await notificationTypes(userId)).toContain('subscription_expired');
+    });
+
+    it('should recover from past due when a retry succeeds', async () => {
+      const { subscription } = await subscribeWithSavedCard(userId, 'basic');
+      mock.declinedPaymentMethods.add(subscription.paymentMethodId!);
+      const dueDate = new Date(subscription.endDate.getTime() + 1000);
+
+      await service.runOnce(dueDate);
+      mock.declinedPaymentMethods.delete(subscription.paymentMethodId!);
+      await service.runOnce(new Date(dueDate.getTime() + DAY_MS));
+
+      const recovered = (await tariffService.getUserSubscription(userId))!;
+      expect(recovered.status).toBe('active');
+      expect(recovered.planId).toBe('basic');
+      expect(recovered.renewalAttempts).toBeUndefined();
+    });
+  });
+
+  describe('Expiry reminders', () => {
+    it('should remind once before a period without auto-renewal ends', async () => {
+      const trial = await service.startTrial(userId, 'basic');
+      const expiringCount = async () =>
+        (await notificationTypes(userId)).filter(type => type === 'subscription_expiring').length;
+
+      await service.runOnce(new Date(trial.endDate.getTime() - 5 * DAY_MS));
+      expect(await expiringCount()).toBe(0);
+
+      await service.runOnce(new Date(trial.endDate.getTime() - 2 * DAY_MS));
+      await service.runOnce(new Date(trial.endDate.getTime() - DAY_MS));
+      expect(await expiringCount()).toBe(1);
+    });
+
+    it('should not remind when the subscription renews automatically', async () => {
+      const { subscription } = await subscribeWithSavedCard(userId, 'basic');
+
+      await service.runOnce(new Date(subscription.endDate.getTime() - DAY_MS));
+
+      expect(await notificationTypes(userId)).not.toContain('subscription_expiring');
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should keep access until the end of the paid period', async () => {
+      const { subscription } = await subscribeWithSavedCard(userId, 'premium');
+
+      const cancelled = await service.cancel(userId);
+      expect(cancelled.status).toBe('cancelled');
+      expect(cancelled.autoRenew).toBe(false);
+      expect((await tariffService.getEffectivePlan(userId)).id).toBe('premium');
+      expect(await notificationTypes(userId)).toContain('subscription_cancelled');
+
+      await service.runOnce(new Date(subscription.endDate.getTime() + 1000));
+
+      expect((await tariffService.getUserSubscription(userId))!.planId).toBe('free');
+      const payments = await paymentService.getUserPayments(userId);
+      expect(payments.filter(payment => payment.kind === 'renewal')).toHaveLength(0);
+    });
+
+    it('should reject cancelling the free plan', async () => {
+      await expect(service.cancel(userId)).rejects.toMatchObject({ type: 'NOT_CANCELLABLE', statusCode: 400 });
+    });
+  });
+});
@@ -62,7 +62,18 @@ describe('TariffService', () => {
       expect(freePlan?.isFree).toBe(true);
       expect(freePlan?.isActive).toBe(true);
       expect(freePlan?.searchLimit).toBe(3);
-      expect(freePlan?.features).toContain('Поиск по 5 телеграм ботам');
+      expect(freePlan?.features).toContain('Быстрая проверка: в скольких источниках найдены данные');
+      expect(service.allowsFullSearch(freePlan!)).toBe(false);
+    });
+
+    it('should allow full searches on paid plans, including stored plans without the setting', () => {
+      const basicPlan = service.getTariffPlan('basic')!;
+      const { fullSearch, ...storedPlan } = basicPlan;
+
+      expect(service.allowsFullSearch(basicPlan)).toBe(true);
+      expect(fullSearch).toBe(true);
+      expect(service.allowsFullSearch(storedPlan)).toBe(true);
+      expect(service.allowsFullSearch({ ...storedPlan, isFree: true })).toBe(false);
     });
 
     it('should return correct plan details for premium plan', () => {
@@ -164,8 +175,8 @@ describe('TariffService', () => {
   });
 
   describe('User Subscriptions', () => {
-    it('should create subscription placeholder', () => {
-      const result = service.createSubscription('user123', 'premium');
+    it('should not activate paid plans without payment', async () => {
+      const result = await service.createSubscription('user123', 'premium');
       
       expect(result).toHaveProperty('success');
       expect(result).toHaveProperty('message');
@@ -173,8 +184,25 @@ describe('TariffService', () => {
       expect(result.message).toContain('недоступны');
     });
 
-    it('should return free subscription for any user', () => {
-      const subscription = service.getUserSubscription('user123');
+    it('should activate the free plan directly', async () => {
+      const result = await service.createSubscription('user-free-activation', 'free');
+
+      expect(result.success).toBe(true);
+      expect((await service.getUserSubscription('user-free-activation'))!.planId).toBe('free');
+    });
+
+    it('should activate and renew a paid subscription', async () => {
+      const first = await service.activateSubscription('user-paid-activation', 'basic');
+      expect(first.planId).toBe('basic');
+      expect((await service.getEffectivePlan('user-paid-activation')).id).toBe('basic');
+
+      const renewed = await service.activateSubscription('user-paid-activation', 'basic');
+      expect(renewed.startDate).toEqual(first.startDate);
+      expect(renewed.endDate.getTime() - first.endDate.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should return free subscription for any user', async () => {
+      const subscription = await service.getUserSubscription('user123');
       
       expect(subscription).not.toBeNull();
       expect(subscription?.planId).toBe('free');
@@ -182,27 +210,113 @@ describe('TariffService', () => {
       expect(subscription?.userId).toBe('user123');
     });
 
-    it('should allow unlimited searches during free period', () => {
-      const canSearch = service.canUserSearch('user123');
+    it('should allow searches within the free plan quota', async () => {
+      const canSearch = await service.canUserSearch('user-fresh');
       
       expect(canSearch.allowed).toBe(true);
-      expect(canSearch.remaining).toBe(-1); // Unlimited
-      expect(canSearch.message).toContain('Бесплатный период');
+      expect(canSearch.limit).toBe(3);
+      expect(canSearch.remaining).toBe(3);
+      expect(canSearch.period).toBe('day');
     });
 
-    it('should return usage stats', () => {
-      const stats = service.getUsageStats('user123');
+    it('should return usage stats', async () => {
+      const stats = await service.getUsageStats('user123');
       
       expect(stats).not.toBeNull();
       expect(stats?.userId).toBe('user123');
       expect(stats?.planId).toBe('free');
-      expect(stats?.searchesLimit).toBe(-1); // Unlimited during free period
+      expect(stats?.searchesLimit).toBe(3);
+    });
+
+    it('should record search usage without errors', async () => {
+      await expect(service.recordSearchUsage('user123')).resolves.toBeDefined();
     });
 
-    it('should record search usage without errors', () => {
-      expect(() => {
-        service.recordSearchUsage('user123');
-      }).not.toThrow();
+    it('should keep the same subscription between calls', async () => {
+      const first = await service.getUserSubscription('user-persisted');
+      const second = await service.getUserSubscription('user-persisted');
+
+      expect(second?.startDate).toEqual(first?.startDate);
+    });
+
+    it('should count recorded searches in usage stats', async () => {
+      const before = await service.getUsageStats('user-counter');
+
+      await service.recordSearchUsage('user-counter');
+      await service.recordSearchUsage('user-counter');
+
+      const after = await service.getUsageStats('user-counter');
+      expect(after.searchesUsed).toBe(before.searchesUsed + 2);
+    });
+  });
+
+  describe('Search Quotas', () => {
+    it('should stop the free plan after three searches a day', async () => {
+      const userId = 'quota-free-user';
+
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await service.consumeSearchQuota(userId));
+      }
+
+      expect(results.map(quota => quota.allowed)).toEqual([true, true, true, false]);
+      expect(results.map(quota => quota.remaining)).toEqual([2, 1, 0, 0]);
+      expect(results[3].isFreePlan).toBe(true);
+      expect(results[3].message).toBeDefined();
+    });
+
+    it('should not overspend the quota under concurrent searches', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 6 }, () => service.consumeSearchQuota('quota-concurrent-user'))
+      );
+
+      expect(results.filter(quota => quota.allowed)).toHaveLength(3);
+      expect((await service.getUsageStats('quota-concurrent-user')).searchesUsed).toBe(3);
+    });
+
+    it('should refund a released search', async () => {
+      const userId = 'quota-release-user';
+
+      await service.consumeSearchQuota(userId);
+      await service.releaseSearchQuota(userId);
+
+      expect((await service.canUserSearch(userId)).remaining).toBe(3);
+    });
+
+    it('should consume several searches at once only when all of them fit', async () => {
+      const userId = 'quota-batch-user';
+
+      const refused = await service.consumeSearchQuota(userId, 4);
+      expect(refused.allowed).toBe(false);
+      expect(refused.remaining).toBe(3);
+
+      const allowed = await service.consumeSearchQuota(userId, 2);
+      expect(allowed.allowed).toBe(true);
+      expect(allowed.remaining).toBe(1);
+
+      await service.releaseSearchQuota(userId, 2);
+      expect((await service.canUserSearch(userId)).remaining).toBe(3);
+    });
+
+    it('should reset daily for free plans and monthly for paid plans', () => {
+      const from = new Date('2024-05-15T18:30:00.000Z');
+
+      expect(service.getNextResetDate('day', from).toISOString()).toBe('2024-05-16T00:00:00.000Z');
+      expect(service.getNextResetDate('month', from).toISOString()).toBe('2024-06-01T00:00:00.000Z');
+      expect(service.getQuotaPeriod(service.getTariffPlan('free')!)).toBe('day');
+      expect(service.getQuotaPeriod(service.getTariffPlan('basic')!)).toBe('month');
+    });
+
+    it('should treat unlimited plans as always allowed', async () => {
+      jest.spyOn(service, 'getEffectivePlan').mockResolvedValue(service.getTariffPlan('premium')!);
+
+      try {
+        const quota = await service.consumeSearchQuota('quota-premium-user');
+        expect(quota.allowed).toBe(true);
+        expect(quota.remaining).toBe(-1);
+      } finally {
+        jest.restoreAllMocks();
+      }
     });
   });
 
@@ -0,0 +1,203 @@
+/**
+ * Unit tests for TelegramService against the local Bot API mock
+ */
+
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { TelegramService, telegramService } from '../telegram.service';
+import { notificationService } from '../notification.service';
+import { TelegramUpdate } from '../../clients/telegram-bot.client';
+import { createTelegramBotApiMock, TelegramBotApiMock } from '../../dev/telegram-bot-api-mock.server';
+
+jest.mock('../../utils/logger');
+
+const TOKEN = 'test-token';
+
+describe('TelegramService', () => {
+  let service: TelegramService;
+  let botApi: TelegramBotApiMock;
+  let server: Server;
+  let userCounter = 0;
+  let userId: string;
+  let chatId: number;
+  let updateId = 1000;
+
+  const update = (text: string, chat = chatId): TelegramUpdate => ({
+    update_id: ++updateId,
+    message: {
+      message_id: updateId,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: chat, type: 'private' },
+      from: { id: chat, is_bot: false, first_name: 'Test', username: `user${chat}` },
+      text
+    }
+  });
+  const messagesTo = (chat: number) => botApi.sentMessages.filter(message => message.chatId === chat);
+  const link = async () => {
+    const { token } = await service.createLinkToken(userId);
+    await service.handleUpdate(update(`/start ${token}`));
+  };
+
+  beforeAll(done => {
+    botApi = createTelegramBotApiMock({ token: TOKEN, username: 'datatrace_test_bot', maxPollSeconds: 1 });
+    server = botApi.app.listen(0, '127.0.0.1', async () => {
+      const { port } = server.address() as AddressInfo;
+      telegramService.configure({
+        token: TOKEN,
+        botUsername: '',
+        apiUrl: `http://127.0.0.1:${port}`,
+        webhookUrl: '',
+        webhookSecret: 'webhook-secret',
+        pollTimeoutSeconds: 1,
+        appUrl: 'https://app.example.com'
+      });
+      await telegramService.start();
+      done();
+    });
+  });
+
+  afterAll(async () => {
+    botApi.close();
+    await telegramService.stop();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    service = TelegramService.getInstance();
+    userId = `telegram-user-${++userCounter}`;
+    chatId = 5000 + userCounter;
+  });
+
+  it('should return the exported singleton', () => {
+    expect(service).toBe(telegramService);
+  });
+
+  describe('Linking', () => {
+    it('should create a deep link for the bot', async () => {
+      const request = await service.createLinkToken(userId);
+
+      expect(request.url).toBe(`https://t.me/datatrace_test_bot?start=${request.token}`);
+      expect(request.token).toMatch(/^[A-Za-z0-9_-]{1,64}$/);
+      expect(request.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should link the chat on /start and turn the channel on', async () => {
+      await link();
+
+      expect(await service.getLink(userId)).toMatchObject({ userId, chatId, username: `user${chatId}` });
+      expect((await notificationService.getUserPreferences(userId)).channels.telegram).toBe(true);
+      expect(messagesTo(chatId)[0].text).toContain('Готово');
+    });
+
+    it('should link chats through long polling', async () => {
+      const { token } = await service.createLinkToken(userId);
+
+      await botApi.sendUserMessage({ id: chatId, first_name: 'Polling' }, `/start ${token}`);
+
+      for (let i = 0; i < 100 && !(await service.getLink(userId)); i++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      expect(await service.getLink(userId)).toMatchObject({ chatId, firstName: 'Polling' });
+    });
+
+    it('should only accept a token once', async () => {
+      const { token } = await service.createLinkToken(userId);
+      await service.handleUpdate(update(`/start ${token}`));
+      await service.handleUpdate(update(`/start ${token}`, chatId + 100000));
+
+      expect((await service.getLink(userId))!.chatId).toBe(chatId);
+      expect(messagesTo(chatId + 100000)[0].text).toContain('Ссылка устарела');
+    });
+
+    it('should reject expired tokens', async () => {
+      service.configure({ linkTtlMs: -1 });
+      try {
+        const { token } = await service.createLinkToken(userId);
+        await service.handleUpdate(update(`/start ${token}`));
+      } finally {
+        service.configure({ linkTtlMs: 15 * 60 * 1000 });
+      }
+
+      expect(await service.getLink(userId)).toBeNull();
+      expect(messagesTo(chatId)[0].text).toContain('Ссылка устарела');
+    });
+
+    it('should unlink on /stop', async () => {
+      await link();
+      await service.handleUpdate(update('/stop'));
+
+      expect(await service.getLink(userId)).toBeNull();
+      expect((await notificationService.getUserPreferences(userId)).channels.telegram).toBe(false);
+    });
+
+    it('should check the webhook secret', async () => {
+      const { token } = await service.createLinkToken(userId);
+
+      await expect(service.handleWebhook('wrong', update(`/start ${token}`)))
+        .rejects.toMatchObject({ type: 'INVALID_WEBHOOK_SECRET', statusCode: 401 });
+      expect(await service.getLink(userId)).toBeNull();
+
+      await service.handleWebhook('webhook-secret', update(`/start ${token}`));
+      expect(await service.getLink(userId)).not.toBeNull();
+    });
+  });
+
+  describe('deliver', () => {
+    it('should send found data to the linked chat', async () => {
+      await link();
+
+      const notification = await notificationService.createNotification(userId, 'data_found', {
+        botName: 'Bot <b>',
+        foundDataCount: 3
+      });
+
+      const [, message] = messagesTo(chatId);
+      expect(message.text).toContain('<b>Найдены данные</b>');
+      expect(message.text).toContain('Bot &lt;b&gt;');
+      expect(message.text).toContain('href="https://app.example.com/"');
+      expect(message.options).toMatchObject({ parse_mode: 'HTML', disable_notification: false });
+
+      const { notifications } = await notificationService.getUserNotifications(userId);
+      expect(notifications[0]).toMatchObject({ id: notification!.id, status: 'delivered' });
+    });
+
+    it('should keep search progress in the app', async () => {
+      await link();
+      await notificationService.createNotification(userId, 'search_completed', {});
+
+      expect(messagesTo(chatId)).toHaveLength(1);
+    });
+
+    it('should send silently during quiet hours', async () => {
+      const hour = new Date().getUTCHours();
+      const pad = (value: number) => String(value).padStart(2, '0');
+
+      await link();
+      await notificationService.updateUserPreferences(userId, {
+        quietHours: { enabled: true, start: `${pad((hour + 23) % 24)}:00`, end: `${pad((hour + 1) % 24)}:59`, timezone: 'UTC' }
+      });
+
+      await notificationService.createNotification(userId, 'subscription_renewed', { planId: 'basic' });
+
+      const [, message] = messagesTo(chatId);
+      expect(message.options.disable_notification).toBe(true);
+      expect(message.text).toContain('href="https://app.example.com/tariffs"');
+    });
+
+    it('should unlink chats where the user blocked the bot', async () => {
+      await link();
+      botApi.blockedChats.add(chatId);
+
+      const notification = await notificationService.createNotification(userId, 'payment_succeeded', {
+        planId: 'basic',
+        amount: '299.00',
+        currency: 'RUB'
+      });
+
+      expect(await service.getLink(userId)).toBeNull();
+      expect((await notificationService.getUserPreferences(userId)).channels.telegram).toBe(false);
+      const { notifications } = await notificationService.getUserNotifications(userId);
+      expect(notifications[0]).toMatchObject({ id: notification!.id, status: 'failed' });
+    });
+  });
+});
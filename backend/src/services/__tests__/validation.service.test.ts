@@ -4,7 +4,7 @@
 
 import { ValidationService } from '../validation.service';
 import { ValidationErrorCode } from '../../types/validation';
-import { SearchType } from '../../types/search';
+import { SearchType, SEARCH_TYPES } from '../../types/search';
 
 describe('ValidationService', () => {
     let validationService: ValidationService;
@@ -210,9 +210,67 @@ describe('ValidationService', () => {
         });
     });
 
+    describe('Name validation', () => {
+        it('should accept full names with an optional birth date', () => {
+            expect(validationService.validate('Иванов  Иван Иванович', 'name').sanitizedValue)
+                .toBe('Иванов Иван Иванович');
+            expect(validationService.validate('Иванов Иван 15.03.1985', 'name').sanitizedValue)
+                .toBe('Иванов Иван 1985-03-15');
+        });
+
+        it('should reject single words and impossible birth dates', () => {
+            ['Иванов', 'Иванов Иван 1985-13-40', 'Иванов Иван 1850-01-01', 'Иванов 123'].forEach(name => {
+                expect(validationService.validate(name, 'name').isValid).toBe(false);
+            });
+        });
+    });
+
+    describe('Vehicle validation', () => {
+        it('should normalize plate numbers typed with Latin letters', () => {
+            const result = validationService.validate('a123bc 77', 'plate_number');
+            expect(result.isValid).toBe(true);
+            expect(result.sanitizedValue).toBe('А123ВС77');
+        });
+
+        it('should reject plates with letters not used on Russian plates', () => {
+            expect(validationService.validate('Ж123ВС77', 'plate_number').isValid).toBe(false);
+        });
+
+        it('should validate VIN codes', () => {
+            expect(validationService.validate('xta21099012345678', 'vin').sanitizedValue).toBe('XTA21099012345678');
+            expect(validationService.validate('XTA2109901234567O', 'vin').isValid).toBe(false);
+            expect(validationService.validate('XTA210990123', 'vin').isValid).toBe(false);
+        });
+    });
+
+    describe('Telegram validation', () => {
+        it('should strip @ and t.me links from usernames', () => {
+            ['@durov_bot', 't.me/durov_bot', 'https://t.me/durov_bot'].forEach(username => {
+                const result = validationService.validate(username, 'username');
+                expect(result.isValid).toBe(true);
+                expect(result.sanitizedValue).toBe('durov_bot');
+            });
+        });
+
+        it('should reject malformed usernames and ids', () => {
+            expect(validationService.validate('@abc', 'username').isValid).toBe(false);
+            expect(validationService.validate('1user', 'username').isValid).toBe(false);
+            expect(validationService.validate('1234', 'telegram_id').isValid).toBe(false);
+            expect(validationService.validate('123456789', 'telegram_id').isValid).toBe(true);
+        });
+    });
+
+    describe('Address validation', () => {
+        it('should collapse whitespace and require some letters', () => {
+            expect(validationService.validate('г. Москва,   ул. Ленина, д. 1', 'address').sanitizedValue)
+                .toBe('г. Москва, ул. Ленина, д. 1');
+            expect(validationService.validate('12345', 'address').isValid).toBe(false);
+        });
+    });
+
     describe('General validation', () => {
         it('should reject empty values', () => {
-            const types: SearchType[] = ['phone', 'email', 'inn', 'snils', 'passport'];
+            const types: SearchType[] = [...SEARCH_TYPES];
 
             types.forEach(type => {
                 const result = validationService.validate('', type);
@@ -6,6 +6,7 @@
 
 import { Request } from 'express';
 import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
 
 export interface RateLimitEntry {
   count: number;
@@ -17,6 +18,12 @@ export interface RateLimitEntry {
   endpoints: Set<string>;
 }
 
+// Rate limit entry as written to storage (sets are not JSON-serializable)
+interface StoredRateLimitEntry extends Omit<RateLimitEntry, 'endpoints'> {
+  ip: string;
+  endpoints: string[];
+}
+
 export interface SuspiciousActivityPattern {
   rapidRequests: boolean;
   multipleEndpoints: boolean;
@@ -35,6 +42,7 @@ export interface RateLimitConfig {
 export class AdvancedRateLimitService {
   private static instance: AdvancedRateLimitService;
   private ipRegistry: Map<string, RateLimitEntry>;
+  private registryRepository: Repository<StoredRateLimitEntry>;
   private blockedIPs: Map<string, number>; // IP -> unblock timestamp
   private suspiciousIPs: Set<string>;
   private cleanupInterval: NodeJS.Timeout;
@@ -43,6 +51,8 @@ export class AdvancedRateLimitService {
     this.ipRegistry = new Map();
     this.blockedIPs = new Map();
     this.suspiciousIPs = new Set();
+    this.registryRepository = getStorage().repository<StoredRateLimitEntry>('rate_limits');
+    this.loadStoredEntries();
     
     // Clean up old entries every 5 minutes
     this.cleanupInterval = setInterval(() => {
@@ -113,6 +123,7 @@ export class AdvancedRateLimitService {
     entry.lastRequest = now;
     entry.endpoints.add(endpoint);
     entry.userAgent = userAgent;
+    this.persistEntry(clientIP, entry);
 
     // Check for suspicious activity
     if (config.enableSuspiciousDetection) {
@@ -286,6 +297,7 @@ export class AdvancedRateLimitService {
     for (const [ip, entry] of this.ipRegistry.entries()) {
       if (now - entry.lastRequest > maxAge) {
         this.ipRegistry.delete(ip);
+        this.registryRepository.delete(ip).catch(error => this.logStorageError('delete', ip, error));
         cleanedEntries++;
       }
     }
@@ -311,6 +323,44 @@ export class AdvancedRateLimitService {
     }
   }
 
+  /**
+   * Restore request counters saved before the last restart
+   */
+  private loadStoredEntries(): void {
+    this.registryRepository.list()
+      .then(storedEntries => {
+        const maxAge = 24 * 60 * 60 * 1000;
+        const now = Date.now();
+
+        storedEntries
+          .filter(entry => now - entry.lastRequest <= maxAge)
+          .forEach(({ ip, endpoints, ...entry }) => {
+            // Requests made since startup take precedence
+            if (!this.ipRegistry.has(ip)) {
+              this.ipRegistry.set(ip, { ...entry, endpoints: new Set(endpoints) });
+            }
+          });
+      })
+      .catch(error => this.logStorageError('load', 'all', error));
+  }
+
+  /**
+   * Save an entry in the background; rate limiting never waits for storage
+   */
+  private persistEntry(ip: string, entry: RateLimitEntry): void {
+    this.registryRepository
+      .save(ip, { ...entry, ip, endpoints: Array.from(entry.endpoints) })
+      .catch(error => this.logStorageError('save', ip, error));
+  }
+
+  private logStorageError(operation: string, ip: string, error: unknown): void {
+    logger.error('Rate limit storage operation failed', {
+      operation,
+      ip,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+
   /**
    * Get rate limit statistics
    */
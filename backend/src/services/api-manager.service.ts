@@ -4,14 +4,13 @@
  */
 
 import { BotApiClient, ApiResponse, ErrorType } from '../types/api';
+import { BotCapabilities } from '../types/bot';
 import { SearchType, SearchRequest } from '../types/search';
-import { 
-  DyxlessClient, 
-  ITPClient, 
-  LeakOsintClient, 
-  UserboxClient, 
-  VektorClient 
-} from '../clients';
+import { botClientRegistry } from '../clients';
+import { loadBotsConfig, watchBotsConfig, BotProviderEntry } from '../config/bots.config';
+import { logger } from '../utils/logger';
+import { costLedgerService } from './cost-ledger.service';
+import { attributeRecords } from './batch-attribution';
 
 export interface BotConfig {
   id: string;
@@ -19,6 +18,7 @@ export interface BotConfig {
   encryptedName: string;
   isActive: boolean;
   priority: number;
+  apiClient: string;
   client: BotApiClient;
 }
 
@@ -34,7 +34,8 @@ export interface ApiManagerConfig {
 export interface BotSearchResult {
   botId: string;
   encryptedName: string;
-  status: 'success' | 'error' | 'no_data' | 'timeout' | 'circuit_open';
+  // 'not_supported' bots were not asked, because they cannot search by the request's type
+  status: 'success' | 'error' | 'no_data' | 'timeout' | 'circuit_open' | 'not_supported';
   foundFields: any[];
   totalRecords: number;
   hasData: boolean;
@@ -55,6 +56,65 @@ export interface BotSearchResults {
   searchDuration: number;
 }
 
+export interface BotHitCountResult {
+  botId: string;
+  encryptedName: string;
+  status: 'success' | 'error' | 'no_data' | 'timeout' | 'circuit_open';
+  totalRecords: number;
+  // Sources with at least one document
+  sourcesFound: number;
+  responseTime: number;
+  errorMessage?: string;
+}
+
+export interface QuickScanResults {
+  searchId: string;
+  timestamp: Date;
+  searchType: SearchType;
+  // False when no active bot can count hits for the type, so nothing was checked
+  available: boolean;
+  results: BotHitCountResult[];
+  totalBotsSearched: number;
+  totalSourcesFound: number;
+  totalRecords: number;
+  searchDuration: number;
+}
+
+export interface BatchSearchResults {
+  searchId: string;
+  timestamp: Date;
+  // One result set per request, in request order
+  searches: BotSearchResults[];
+  // Fewer than bots × requests when bots answer several requests in one call
+  upstreamCalls: number;
+  searchDuration: number;
+}
+
+export type BotProgressEventType = 'started' | 'completed' | 'error' | 'timeout';
+
+export interface BotProgressEvent {
+  type: BotProgressEventType;
+  botId: string;
+  encryptedName: string;
+  // Set on everything but 'started'
+  result?: BotSearchResult;
+}
+
+export interface BotSearchOptions {
+  // Use this ID instead of generating one, so callers can refer to the search while it runs
+  searchId?: string;
+  // Called as each bot starts and as each bot's search resolves
+  onProgress?: (event: BotProgressEvent) => void;
+  // User the upstream spend is recorded against
+  userId?: string;
+}
+
+// What an upstream call is recorded against in the cost ledger
+interface SpendContext {
+  searchId: string;
+  userId?: string;
+}
+
 export interface CircuitBreakerState {
   isOpen: boolean;
   failureCount: number;
@@ -67,6 +127,9 @@ export class ApiManagerService {
   private readonly config: ApiManagerConfig;
   private readonly botClients: Map<string, BotConfig> = new Map();
   private readonly circuitBreakers: Map<string, CircuitBreakerState> = new Map();
+  // Bots held inactive whatever the config says, until the suspension is lifted
+  private readonly suspendedBots: Set<string> = new Set();
+  private stopConfigWatch: (() => void) | null = null;
 
   constructor(config?: Partial<ApiManagerConfig>) {
     this.config = {
@@ -89,96 +152,71 @@ export class ApiManagerService {
   }
 
   /**
-   * Initialize all bot clients with their configurations
+   * Initialize bot clients from config/bots.json through the provider registry
    */
   private initializeBotClients(): void {
-    const botConfigs: Omit<BotConfig, 'client'>[] = [
-      {
-        id: 'dyxless',
-        name: 'Dyxless',
-        encryptedName: 'Бот A',
-        isActive: true,
-        priority: 1
-      },
-      {
-        id: 'itp',
-        name: 'InfoTrackPeople',
-        encryptedName: 'Бот B',
-        isActive: true,
-        priority: 2
-      },
-      {
-        id: 'leak_osint',
-        name: 'LeakOsint',
-        encryptedName: 'Бот C',
-        isActive: true,
-        priority: 3
-      },
-      {
-        id: 'userbox',
-        name: 'Userbox',
-        encryptedName: 'Бот D',
-        isActive: true,
-        priority: 4
-      },
-      {
-        id: 'vektor',
-        name: 'Vektor',
-        encryptedName: 'Бот E',
-        isActive: true,
-        priority: 5
+    this.applyBotEntries(loadBotsConfig());
+
+    if (process.env.BOTS_CONFIG_WATCH === 'true') {
+      this.stopConfigWatch = watchBotsConfig(
+        entries => {
+          this.applyBotEntries(entries);
+          logger.info('Bots config reloaded', { totalBots: entries.length });
+        },
+        error => logger.error('Failed to reload bots config', { error: error.message })
+      );
+    }
+  }
+
+  /**
+   * Reconcile the bot map with a list of config entries.
+   * Existing clients are kept when their provider is unchanged so that
+   * circuit breaker state survives a reload, and suspended bots stay inactive.
+   */
+  private applyBotEntries(entries: BotProviderEntry[]): void {
+    const entryIds = new Set(entries.map(entry => entry.id));
+
+    for (const botId of Array.from(this.botClients.keys())) {
+      if (!entryIds.has(botId)) {
+        this.botClients.delete(botId);
+        this.circuitBreakers.delete(botId);
+        this.suspendedBots.delete(botId);
+      }
+    }
+
+    entries.forEach(entry => {
+      const existing = this.botClients.get(entry.id);
+      const isActive = entry.isActive && !this.suspendedBots.has(entry.id);
+
+      if (existing && existing.apiClient === entry.apiClient && existing.client) {
+        existing.name = entry.name;
+        existing.encryptedName = entry.encryptedName;
+        existing.priority = entry.priority;
+        existing.isActive = isActive;
+        return;
       }
-    ];
 
-    // Initialize clients
-    botConfigs.forEach(config => {
       try {
-        let client: BotApiClient;
-
-        switch (config.id) {
-          case 'dyxless':
-            client = new DyxlessClient();
-            break;
-          case 'itp':
-            client = new ITPClient();
-            break;
-          case 'leak_osint':
-            client = new LeakOsintClient();
-            break;
-          case 'userbox':
-            client = new UserboxClient();
-            break;
-          case 'vektor':
-            client = new VektorClient();
-            break;
-          default:
-            throw new Error(`Unknown bot client: ${config.id}`);
-        }
+        const client = botClientRegistry.create(entry.apiClient);
 
-        this.botClients.set(config.id, {
-          ...config,
+        this.botClients.set(entry.id, {
+          ...entry,
+          isActive,
           client
         });
 
-        // Initialize circuit breaker state
-        this.circuitBreakers.set(config.id, {
-          isOpen: false,
-          failureCount: 0,
-          lastFailureTime: null,
-          nextAttemptTime: null
-        });
-
       } catch (error) {
-        console.warn(`Failed to initialize ${config.id} client:`, error instanceof Error ? error.message : error);
+        console.warn(`Failed to initialize ${entry.id} client:`, error instanceof Error ? error.message : error);
         // Mark as inactive if initialization fails but still add to the map
-        this.botClients.set(config.id, {
-          ...config,
+        this.botClients.set(entry.id, {
+          ...entry,
           isActive: false,
           client: null as any
         });
-        
-        // Still initialize circuit breaker state
-        this.circuitBreakers.set(config.id, {
+      }
+
+      if (!this.circuitBreakers.has(entry.id)) {
+        this.circuitBreakers.set(entry.id, {
           isOpen: false,
           failureCount: 0,
           lastFailureTime: null,
@@ -188,11 +226,28 @@ export class ApiManagerService {
     });
   }
 
+  /**
+   * Re-read config/bots.json and apply it to the running manager
+   */
+  reloadBotConfig(): void {
+    this.applyBotEntries(loadBotsConfig());
+  }
+
+  /**
+   * Stop watching config/bots.json for changes
+   */
+  stopWatchingConfig(): void {
+    if (this.stopConfigWatch) {
+      this.stopConfigWatch();
+      this.stopConfigWatch = null;
+    }
+  }
+
   /**
    * Search across all active bot APIs in parallel
    */
-  async searchAll(request: SearchRequest): Promise<BotSearchResults> {
-    const searchId = this.generateSearchId();
+  async searchAll(request: SearchRequest, options: BotSearchOptions = {}): Promise<BotSearchResults> {
+    const searchId = options.searchId || this.generateSearchId();
     const startTime = Date.now();
 
     // Get active bots sorted by priority
@@ -204,21 +259,24 @@ export class ApiManagerService {
       throw new Error('No active bot clients available');
     }
 
+    const { capableBots, unsupportedBots } = this.routeBySearchType(activeBots, request.type);
+
     // Execute searches in parallel with concurrency limit
-    const searchPromises = activeBots.map(bot => 
-      this.searchWithBot(bot, request.value, request.type)
+    const searchPromises = capableBots.map(bot => 
+      this.searchWithBotReportingProgress(bot, request.value, request.type, { searchId, userId: options.userId }, options.onProgress)
     );
 
-    const results = await this.executeWithConcurrencyLimit(
+    const searchedResults = await this.executeWithConcurrencyLimit(
       searchPromises, 
       this.config.maxConcurrentRequests
     );
+    const results = [...searchedResults, ...unsupportedBots.map(bot => this.createNotSupportedResult(bot))];
 
     const endTime = Date.now();
     const searchDuration = endTime - startTime;
 
     // Calculate statistics
-    const totalBotsSearched = results.length;
+    const totalBotsSearched = searchedResults.length;
     const totalBotsWithData = results.filter(r => r.hasData).length;
     const totalRecords = results.reduce((sum, r) => sum + r.totalRecords, 0);
 
@@ -235,15 +293,370 @@ export class ApiManagerService {
     };
   }
 
+  /**
+   * Count hits with the bots whose upstream has a count-only method, without
+   * fetching any records. When none of them can count the request's type the
+   * result has `available: false` instead of an error, so callers can offer a
+   * full search rather than fail.
+   */
+  async quickScan(request: SearchRequest, options: BotSearchOptions = {}): Promise<QuickScanResults> {
+    const searchId = options.searchId || this.generateSearchId();
+    const startTime = Date.now();
+
+    const capableBots = Array.from(this.botClients.values())
+      .filter(bot => bot.isActive && bot.client && bot.client.countHits)
+      .filter(bot => bot.client.getCapabilities().supportedSearchTypes.includes(request.type))
+      .sort((a, b) => a.priority - b.priority);
+
+    // An unavailable scan is reported as such, not as a search that found nothing
+    if (capableBots.length === 0) {
+      logger.warn('No active bot can quick scan search type', { searchType: request.type });
+
+      return {
+        searchId,
+        timestamp: new Date(startTime),
+        searchType: request.type,
+        available: false,
+        results: [],
+        totalBotsSearched: 0,
+        totalSourcesFound: 0,
+        totalRecords: 0,
+        searchDuration: Date.now() - startTime
+      };
+    }
+
+    const results = await this.executeWithConcurrencyLimit(
+      capableBots.map(bot => this.countHitsWithBot(bot, request.value, request.type, { searchId, userId: options.userId })),
+      this.config.maxConcurrentRequests
+    );
+
+    return {
+      searchId,
+      timestamp: new Date(startTime),
+      searchType: request.type,
+      available: true,
+      results,
+      totalBotsSearched: results.length,
+      totalSourcesFound: results.reduce((sum, r) => sum + r.sourcesFound, 0),
+      totalRecords: results.reduce((sum, r) => sum + r.totalRecords, 0),
+      searchDuration: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Search several identifiers across all active bots. Bots whose upstream
+   * declares batch support get every identifier they can search in one call
+   */
+  async searchBatch(requests: SearchRequest[], options: BotSearchOptions = {}): Promise<BatchSearchResults> {
+    const searchId = options.searchId || this.generateSearchId();
+    const startTime = Date.now();
+
+    const activeBots = Array.from(this.botClients.values())
+      .filter(bot => bot.isActive && bot.client)
+      .sort((a, b) => a.priority - b.priority);
+
+    if (activeBots.length === 0) {
+      throw new Error('No active bot clients available');
+    }
+
+    const isCapable = (bot: BotConfig, type: SearchType) =>
+      bot.client.getCapabilities().supportedSearchTypes.includes(type);
+
+    if (!requests.some(request => activeBots.some(bot => isCapable(bot, request.type)))) {
+      throw new Error(`No active bot supports search types: ${requests.map(request => request.type).join(', ')}`);
+    }
+
+    const botResults = await this.executeWithConcurrencyLimit(
+      activeBots.map(bot => this.searchBatchWithBot(bot, requests, { searchId, userId: options.userId })),
+      this.config.maxConcurrentRequests
+    );
+
+    const searches = requests.map((request, index): BotSearchResults => {
+      const results = botResults.map(botResult => botResult.results[index]);
+
+      return {
+        searchId: `${searchId}_${index}`,
+        timestamp: new Date(startTime),
+        query: request.value,
+        searchType: request.type,
+        results,
+        totalBotsSearched: results.filter(r => r.status !== 'not_supported').length,
+        totalBotsWithData: results.filter(r => r.hasData).length,
+        totalRecords: results.reduce((sum, r) => sum + r.totalRecords, 0),
+        searchDuration: Date.now() - startTime
+      };
+    });
+
+    return {
+      searchId,
+      timestamp: new Date(startTime),
+      searches,
+      upstreamCalls: botResults.reduce((sum, botResult) => sum + botResult.upstreamCalls, 0),
+      searchDuration: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Search the requests one bot can handle, in one call when its upstream
+   * batches and one call per request otherwise
+   */
+  private async searchBatchWithBot(
+    bot: BotConfig,
+    requests: SearchRequest[],
+    spend: SpendContext
+  ): Promise<{ results: BotSearchResult[]; upstreamCalls: number }> {
+    const capabilities = bot.client.getCapabilities();
+    const results = requests.map(() => this.createNotSupportedResult(bot));
+    const supported = requests
+      .map((request, index) => ({ request, index }))
+      .filter(({ request }) => capabilities.supportedSearchTypes.includes(request.type));
+
+    if (supported.length === 0) {
+      return { results, upstreamCalls: 0 };
+    }
+
+    if (supported.length > 1 && capabilities.supportsBatch && bot.client.searchBatch) {
+      const batchResults = await this.searchBatchInOneCall(bot, supported.map(({ request }) => request), spend);
+      supported.forEach(({ index }, i) => { results[index] = batchResults[i]; });
+      return { results, upstreamCalls: 1 };
+    }
+
+    const singleResults = await Promise.all(
+      supported.map(({ request }) => this.searchWithBot(bot, request.value, request.type, spend))
+    );
+    supported.forEach(({ index }, i) => { results[index] = singleResults[i]; });
+    return { results, upstreamCalls: supported.length };
+  }
+
+  /**
+   * Send several requests to a batch-capable bot in one call and attribute
+   * the merged records back to each request
+   */
+  private async searchBatchInOneCall(
+    bot: BotConfig,
+    requests: SearchRequest[],
+    spend: SpendContext
+  ): Promise<BotSearchResult[]> {
+    const startTime = Date.now();
+    const failed = (status: BotSearchResult['status'], errorMessage?: string): BotSearchResult[] =>
+      requests.map(() => ({
+        botId: bot.id,
+        encryptedName: bot.encryptedName,
+        status,
+        foundFields: [],
+        totalRecords: 0,
+        hasData: false,
+        responseTime: status === 'circuit_open' ? 0 : Date.now() - startTime,
+        errorMessage
+      }));
+
+    if (this.isCircuitOpen(bot.id)) {
+      return failed('circuit_open', 'Circuit breaker is open');
+    }
+
+    // The upstream bills each query of the batch, so spend is recorded per request
+    const recordBatchSpend = (billed: boolean) => Promise.all(requests.map(request =>
+      this.recordSpend(bot, request.type, spend, costLedgerService.estimateCost(bot.client, request.value, request.type), billed)
+    ));
+
+    try {
+      const response = await this.executeWithRetry(
+        () => bot.client.searchBatch!(requests.map(request => ({ query: request.value, type: request.type }))),
+        this.config.retryAttempts + 1,
+        this.config.retryDelay
+      );
+
+      await recordBatchSpend(response.success);
+
+      if (!response.success) {
+        this.recordFailure(bot.id);
+        return failed(response.errorCode === ErrorType.TIMEOUT_ERROR ? 'timeout' : 'error', response.error);
+      }
+
+      this.resetCircuitBreaker(bot.id);
+      const responseTime = Date.now() - startTime;
+
+      return attributeRecords(response.data?.records || [], requests).map(records => ({
+        botId: bot.id,
+        encryptedName: bot.encryptedName,
+        status: records.length > 0 ? 'success' : 'no_data',
+        foundFields: records,
+        totalRecords: records.length,
+        hasData: records.length > 0,
+        responseTime
+      }));
+
+    } catch (error) {
+      this.recordFailure(bot.id);
+      await recordBatchSpend(false);
+
+      return failed('error', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Count hits with one bot, sharing the circuit breaker with its searches
+   */
+  private async countHitsWithBot(
+    bot: BotConfig,
+    query: string,
+    type: SearchType,
+    spend: SpendContext
+  ): Promise<BotHitCountResult> {
+    const startTime = Date.now();
+    const result = (status: BotHitCountResult['status'], fields: Partial<BotHitCountResult> = {}): BotHitCountResult => ({
+      botId: bot.id,
+      encryptedName: bot.encryptedName,
+      status,
+      totalRecords: 0,
+      sourcesFound: 0,
+      responseTime: Date.now() - startTime,
+      ...fields
+    });
+
+    if (this.isCircuitOpen(bot.id)) {
+      return result('circuit_open', { responseTime: 0, errorMessage: 'Circuit breaker is open' });
+    }
+
+    try {
+      const response = await this.executeWithRetry(
+        () => bot.client.countHits!(query, type),
+        this.config.retryAttempts + 1,
+        this.config.retryDelay
+      );
+
+      // Count-only methods are free, but the call is still an upstream request
+      await this.recordSpend(bot, type, spend, 0, response.success);
+
+      if (!response.success || !response.data) {
+        this.recordFailure(bot.id);
+        return result(response.errorCode === ErrorType.TIMEOUT_ERROR ? 'timeout' : 'error', {
+          errorMessage: response.error
+        });
+      }
+
+      this.resetCircuitBreaker(bot.id);
+      return result(response.data.totalRecords > 0 ? 'success' : 'no_data', {
+        totalRecords: response.data.totalRecords,
+        sourcesFound: response.data.sources.length
+      });
+
+    } catch (error) {
+      this.recordFailure(bot.id);
+      await this.recordSpend(bot, type, spend, 0, false);
+
+      return result('error', {
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Split bots by whether their upstream can search by this type, so paid
+   * upstream calls are not spent on bots that would only fail
+   */
+  private routeBySearchType(
+    bots: BotConfig[],
+    type: SearchType
+  ): { capableBots: BotConfig[]; unsupportedBots: BotConfig[] } {
+    const capableBots = bots.filter(bot => bot.client.getCapabilities().supportedSearchTypes.includes(type));
+    const unsupportedBots = bots.filter(bot => !capableBots.includes(bot));
+
+    if (capableBots.length === 0) {
+      throw new Error(`No active bot supports search type: ${type}`);
+    }
+
+    if (unsupportedBots.length > 0) {
+      logger.debug('Skipping bots that cannot search by type', {
+        searchType: type,
+        skipped: unsupportedBots.map(bot => bot.id)
+      });
+    }
+
+    return { capableBots, unsupportedBots };
+  }
+
+  /**
+   * Result for a bot that was not asked because it cannot search by the request's type
+   */
+  private createNotSupportedResult(bot: BotConfig): BotSearchResult {
+    return {
+      botId: bot.id,
+      encryptedName: bot.encryptedName,
+      status: 'not_supported',
+      foundFields: [],
+      totalRecords: 0,
+      hasData: false,
+      responseTime: 0
+    };
+  }
+
+  /**
+   * Search with a bot, reporting when it starts and how it finished
+   */
+  private async searchWithBotReportingProgress(
+    bot: BotConfig,
+    query: string,
+    type: SearchType,
+    spend: SpendContext,
+    onProgress?: (event: BotProgressEvent) => void
+  ): Promise<BotSearchResult> {
+    if (!onProgress) {
+      return this.searchWithBot(bot, query, type, spend);
+    }
+
+    const report = (event: BotProgressEvent) => {
+      // A failing listener must not fail the search
+      try {
+        onProgress(event);
+      } catch (error) {
+        logger.warn('Search progress listener failed', {
+          botId: bot.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    };
+
+    report({ type: 'started', botId: bot.id, encryptedName: bot.encryptedName });
+
+    const result = await this.searchWithBot(bot, query, type, spend);
+
+    report({
+      type: this.getProgressEventType(result),
+      botId: bot.id,
+      encryptedName: bot.encryptedName,
+      result
+    });
+
+    return result;
+  }
+
+  /**
+   * Map a finished bot search to the progress event reporting it
+   */
+  private getProgressEventType(result: BotSearchResult): BotProgressEventType {
+    switch (result.status) {
+      case 'success':
+      case 'no_data':
+        return 'completed';
+      case 'timeout':
+        return 'timeout';
+      default:
+        return 'error';
+    }
+  }
+
   /**
    * Search with a specific bot client
    */
   private async searchWithBot(
     bot: BotConfig, 
     query: string, 
-    type: SearchType
+    type: SearchType,
+    spend: SpendContext
   ): Promise<BotSearchResult> {
     const startTime = Date.now();
+    let estimatedCost = 0;
 
     try {
       // Check circuit breaker
@@ -260,6 +673,8 @@ export class ApiManagerService {
         };
       }
 
+      estimatedCost = costLedgerService.estimateCost(bot.client, query, type);
+
       // Execute search with retry logic
       const response = await this.executeWithRetry(
         () => bot.client.search(query, type),
@@ -269,6 +684,9 @@ export class ApiManagerService {
 
       const responseTime = Date.now() - startTime;
 
+      // Upstreams bill the calls they answer
+      await this.recordSpend(bot, type, spend, estimatedCost, response.success);
+
       if (response.success) {
         // Reset circuit breaker on success
         this.resetCircuitBreaker(bot.id);
@@ -290,7 +708,7 @@ export class ApiManagerService {
         return {
           botId: bot.id,
           encryptedName: bot.encryptedName,
-          status: 'error',
+          status: response.errorCode === ErrorType.TIMEOUT_ERROR ? 'timeout' : 'error',
           foundFields: [],
           totalRecords: 0,
           hasData: false,
@@ -302,6 +720,7 @@ export class ApiManagerService {
     } catch (error) {
       const responseTime = Date.now() - startTime;
       this.recordFailure(bot.id);
+      await this.recordSpend(bot, type, spend, estimatedCost, false);
 
       return {
         botId: bot.id,
@@ -316,6 +735,26 @@ export class ApiManagerService {
     }
   }
 
+  /**
+   * Record an upstream call in the cost ledger
+   */
+  private async recordSpend(
+    bot: BotConfig,
+    type: SearchType,
+    spend: SpendContext,
+    estimatedCost: number,
+    billed: boolean
+  ): Promise<void> {
+    await costLedgerService.record({
+      searchId: spend.searchId,
+      userId: spend.userId,
+      botId: bot.id,
+      searchType: type,
+      estimatedCost,
+      billed
+    });
+  }
+
   /**
    * Execute promises with concurrency limit
    */
@@ -431,6 +870,7 @@ export class ApiManagerService {
     isAvailable: boolean;
     circuitBreakerOpen: boolean;
     priority: number;
+    capabilities: BotCapabilities | null;
   }>> {
     const statuses = [];
 
@@ -452,13 +892,30 @@ export class ApiManagerService {
         isActive: config.isActive,
         isAvailable,
         circuitBreakerOpen: this.isCircuitOpen(botId),
-        priority: config.priority
+        priority: config.priority,
+        capabilities: config.client ? config.client.getCapabilities() : null
       });
     }
 
     return statuses.sort((a, b) => a.priority - b.priority);
   }
 
+  /**
+   * Whether the bot config declares this bot, even if its client could not be created
+   */
+  hasBot(botId: string): boolean {
+    return this.botClients.has(botId);
+  }
+
+  /**
+   * Configured bots that have a client, for services that talk to upstreams outside a search
+   */
+  getBots(): BotConfig[] {
+    return Array.from(this.botClients.values())
+      .filter(bot => bot.client)
+      .sort((a, b) => a.priority - b.priority);
+  }
+
   /**
    * Enable or disable a specific bot
    */
@@ -478,6 +935,25 @@ export class ApiManagerService {
     return true;
   }
 
+  /**
+   * Suspend a bot, or lift its suspension. A suspended bot is inactive and,
+   * unlike one disabled with setBotActive, stays inactive when the config is
+   * reloaded; lifting the suspension activates it again.
+   */
+  setBotSuspended(botId: string, suspended: boolean): boolean {
+    if (!this.botClients.has(botId)) {
+      return false;
+    }
+
+    if (suspended) {
+      this.suspendedBots.add(botId);
+    } else {
+      this.suspendedBots.delete(botId);
+    }
+
+    return this.setBotActive(botId, !suspended);
+  }
+
   /**
    * Get configuration
    */
@@ -536,9 +1012,10 @@ export class ApiManagerService {
    */
   async searchWithBots(
     request: SearchRequest, 
-    botIds: string[]
+    botIds: string[],
+    options: BotSearchOptions = {}
   ): Promise<BotSearchResults> {
-    const searchId = this.generateSearchId();
+    const searchId = options.searchId || this.generateSearchId();
     const startTime = Date.now();
 
     // Get specified bots that are active
@@ -553,18 +1030,21 @@ export class ApiManagerService {
       throw new Error('No active bot clients available from the specified list');
     }
 
+    const { capableBots, unsupportedBots } = this.routeBySearchType(selectedBots, request.type);
+
     // Execute searches in parallel
-    const searchPromises = selectedBots.map(bot => 
-      this.searchWithBot(bot, request.value, request.type)
+    const searchPromises = capableBots.map(bot => 
+      this.searchWithBotReportingProgress(bot, request.value, request.type, { searchId, userId: options.userId }, options.onProgress)
     );
 
-    const results = await Promise.all(searchPromises);
+    const searchedResults = await Promise.all(searchPromises);
+    const results = [...searchedResults, ...unsupportedBots.map(bot => this.createNotSupportedResult(bot))];
 
     const endTime = Date.now();
     const searchDuration = endTime - startTime;
 
     // Calculate statistics
-    const totalBotsSearched = results.length;
+    const totalBotsSearched = searchedResults.length;
     const totalBotsWithData = results.filter(r => r.hasData).length;
     const totalRecords = results.reduce((sum, r) => sum + r.totalRecords, 0);
 
@@ -0,0 +1,323 @@
+/**
+ * Auth Service
+ * Handles user registration, password hashing and JWT access/refresh tokens
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import jwt from 'jsonwebtoken';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import {
+  AuthenticatedUser,
+  AuthResult,
+  AuthTokenPayload,
+  AuthTokens,
+  PublicUser,
+  RefreshTokenRecord,
+  User
+} from '../types/auth';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+export interface AuthConfig {
+  jwtSecret: string;
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlSeconds: number;
+  minPasswordLength: number;
+}
+
+export type AuthErrorType =
+  | 'VALIDATION_ERROR'
+  | 'EMAIL_TAKEN'
+  | 'INVALID_CREDENTIALS'
+  | 'INVALID_TOKEN'
+  | 'TOKEN_EXPIRED';
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public readonly type: AuthErrorType,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// scrypt cost parameters, stored with every hash so they can be raised later
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+
+export class AuthService {
+  private static instance: AuthService;
+  private readonly config: AuthConfig;
+  private usersRepository: Repository<User>;
+  private emailsRepository: Repository<{ userId: string }>;
+  private refreshTokensRepository: Repository<RefreshTokenRecord>;
+
+  private constructor() {
+    this.config = {
+      jwtSecret: process.env.JWT_SECRET || this.generateSecret(),
+      accessTokenTtlSeconds: parseInt(process.env.JWT_ACCESS_TTL_SECONDS || '900', 10),
+      refreshTokenTtlSeconds: parseInt(process.env.JWT_REFRESH_TTL_SECONDS || String(30 * 24 * 60 * 60), 10),
+      minPasswordLength: 8
+    };
+
+    const storage = getStorage();
+    this.usersRepository = storage.repository<User>('users');
+    this.emailsRepository = storage.repository<{ userId: string }>('user_emails');
+    this.refreshTokensRepository = storage.repository<RefreshTokenRecord>('refresh_tokens');
+
+    logger.info('Auth service initialized');
+  }
+
+  public static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  /**
+   * Create an account and sign the user in
+   */
+  async register(email: string, password: string): Promise<AuthResult> {
+    const normalizedEmail = this.normalizeEmail(email);
+    this.validateCredentials(normalizedEmail, password);
+
+    if (await this.emailsRepository.get(normalizedEmail)) {
+      throw new AuthError('Email is already registered', 'EMAIL_TAKEN', 409);
+    }
+
+    const now = new Date();
+    const user: User = {
+      id: `user_${crypto.randomUUID()}`,
+      email: normalizedEmail,
+      passwordHash: await this.hashPassword(password),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.usersRepository.save(user.id, user);
+    await this.emailsRepository.save(normalizedEmail, { userId: user.id });
+
+    logger.info('User registered', { userId: user.id });
+
+    return {
+      user: this.toPublicUser(user),
+      tokens: await this.issueTokens(user)
+    };
+  }
+
+  /**
+   * Sign in with email and password
+   */
+  async login(email: string, password: string): Promise<AuthResult> {
+    // Bodies are untyped JSON; a non-string password would make scrypt throw
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      throw new AuthError('Email and password are required', 'VALIDATION_ERROR', 400);
+    }
+
+    const user = await this.findUserByEmail(email);
+
+    if (!user || !(await this.verifyPassword(password, user.passwordHash))) {
+      logger.warn('Failed login attempt');
+      throw new AuthError('Invalid email or password', 'INVALID_CREDENTIALS', 401);
+    }
+
+    logger.info('User logged in', { userId: user.id });
+
+    return {
+      user: this.toPublicUser(user),
+      tokens: await this.issueTokens(user)
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair; the old refresh token is revoked
+   */
+  async refresh(refreshToken: string): Promise<AuthResult> {
+    const payload = this.verifyToken(refreshToken, 'refresh');
+    const record = payload.jti ? await this.refreshTokensRepository.get(payload.jti) : null;
+
+    if (!record || record.revoked || record.userId !== payload.sub) {
+      throw new AuthError('Refresh token is no longer valid', 'INVALID_TOKEN', 401);
+    }
+
+    const user = await this.usersRepository.get(payload.sub);
+    if (!user) {
+      throw new AuthError('Refresh token is no longer valid', 'INVALID_TOKEN', 401);
+    }
+
+    await this.refreshTokensRepository.save(record.id, { ...record, revoked: true });
+
+    return {
+      user: this.toPublicUser(user),
+      tokens: await this.issueTokens(user)
+    };
+  }
+
+  /**
+   * Revoke a refresh token; unknown or invalid tokens are ignored
+   */
+  async logout(refreshToken: string): Promise<void> {
+    try {
+      const payload = this.verifyToken(refreshToken, 'refresh');
+      const record = payload.jti ? await this.refreshTokensRepository.get(payload.jti) : null;
+
+      if (record && !record.revoked) {
+        await this.refreshTokensRepository.save(record.id, { ...record, revoked: true });
+        logger.info('User logged out', { userId: record.userId });
+      }
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Verify an access token and return the identity it carries
+   */
+  verifyAccessToken(token: string): AuthenticatedUser {
+    const payload = this.verifyToken(token, 'access');
+    return { id: payload.sub, email: payload.email };
+  }
+
+  /**
+   * Get a user's public profile
+   */
+  async getUser(userId: string): Promise<PublicUser | null> {
+    const user = await this.usersRepository.get(userId);
+    return user ? this.toPublicUser(user) : null;
+  }
+
+  /**
+   * Hash a password with scrypt and a random salt
+   */
+  async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, SCRYPT_KEY_LENGTH, SCRYPT_PARAMS);
+
+    return [
+      'scrypt',
+      SCRYPT_PARAMS.N,
+      SCRYPT_PARAMS.r,
+      SCRYPT_PARAMS.p,
+      salt.toString('base64'),
+      hash.toString('base64')
+    ].join('$');
+  }
+
+  /**
+   * Check a password against a stored scrypt hash in constant time
+   */
+  async verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [algorithm, N, r, p, salt, hash] = storedHash.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+      N: Number(N),
+      r: Number(r),
+      p: Number(p)
+    });
+
+    return crypto.timingSafeEqual(actual, expected);
+  }
+
+  private async issueTokens(user: User): Promise<AuthTokens> {
+    const refreshTokenId = crypto.randomUUID();
+    const now = Date.now();
+
+    await this.refreshTokensRepository.save(refreshTokenId, {
+      id: refreshTokenId,
+      userId: user.id,
+      expiresAt: new Date(now + this.config.refreshTokenTtlSeconds * 1000),
+      revoked: false,
+      createdAt: new Date(now)
+    }, user.id);
+
+    const accessPayload: AuthTokenPayload = { sub: user.id, email: user.email, type: 'access' };
+    const refreshPayload: AuthTokenPayload = { sub: user.id, email: user.email, type: 'refresh', jti: refreshTokenId };
+
+    return {
+      accessToken: jwt.sign(accessPayload, this.config.jwtSecret, {
+        expiresIn: this.config.accessTokenTtlSeconds
+      }),
+      refreshToken: jwt.sign(refreshPayload, this.config.jwtSecret, {
+        expiresIn: this.config.refreshTokenTtlSeconds
+      }),
+      tokenType: 'Bearer',
+      expiresIn: this.config.accessTokenTtlSeconds
+    };
+  }
+
+  private verifyToken(token: string, expectedType: AuthTokenPayload['type']): AuthTokenPayload {
+    let payload: AuthTokenPayload;
+
+    try {
+      payload = jwt.verify(token, this.config.jwtSecret) as AuthTokenPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AuthError('Token has expired', 'TOKEN_EXPIRED', 401);
+      }
+      throw new AuthError('Invalid token', 'INVALID_TOKEN', 401);
+    }
+
+    if (payload.type !== expectedType || !payload.sub) {
+      throw new AuthError('Invalid token', 'INVALID_TOKEN', 401);
+    }
+
+    return payload;
+  }
+
+  private async findUserByEmail(email: string): Promise<User | null> {
+    const entry = await this.emailsRepository.get(this.normalizeEmail(email || ''));
+    return entry ? this.usersRepository.get(entry.userId) : null;
+  }
+
+  private validateCredentials(email: string, password: string): void {
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new AuthError('A valid email is required', 'VALIDATION_ERROR', 400);
+    }
+
+    if (typeof password !== 'string' || password.length < this.config.minPasswordLength) {
+      throw new AuthError(
+        `Password must be at least ${this.config.minPasswordLength} characters`,
+        'VALIDATION_ERROR',
+        400
+      );
+    }
+  }
+
+  private normalizeEmail(email: string): string {
+    return String(email).trim().toLowerCase();
+  }
+
+  private toPublicUser(user: User): PublicUser {
+    return {
+      id: user.id,
+      email: user.email,
+      createdAt: user.createdAt
+    };
+  }
+
+  private generateSecret(): string {
+    logger.warn('JWT_SECRET is not set; using a random secret, tokens will not survive restarts');
+    return crypto.randomBytes(32).toString('hex');
+  }
+}
+
+// Export singleton instance
+export const authService = AuthService.getInstance();
@@ -0,0 +1,64 @@
+/**
+ * Batch Attribution
+ * Batch-capable upstreams answer several queries in one call with a single
+ * merged record set. Each record is attributed back to the identifiers whose
+ * value it contains, so batch results can be shown per identifier.
+ */
+
+import { SearchRequest, SearchType } from '../types/search';
+
+// Types compared on their digits, ignoring formatting
+const DIGIT_TYPES: SearchType[] = ['phone', 'inn', 'snils', 'passport', 'telegram_id'];
+
+// Phones match on the subscriber number, whatever the country prefix
+const PHONE_DIGITS = 10;
+
+const digitsOf = (value: string): string => value.replace(/\D/g, '');
+
+function collectValues(value: unknown, values: string[]): string[] {
+  if (typeof value === 'string' || typeof value === 'number') {
+    values.push(String(value));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectValues(item, values));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectValues(item, values));
+  }
+  return values;
+}
+
+function containsIdentifier(values: string[], request: SearchRequest): boolean {
+  if (DIGIT_TYPES.includes(request.type)) {
+    const digits = request.type === 'phone'
+      ? digitsOf(request.value).slice(-PHONE_DIGITS)
+      : digitsOf(request.value);
+
+    return digits.length > 0 && values.some(value => {
+      const valueDigits = digitsOf(value);
+      return request.type === 'phone' ? valueDigits.endsWith(digits) : valueDigits === digits;
+    });
+  }
+
+  const needle = request.value.trim().replace(/^@/, '').toLowerCase();
+  return needle.length > 0 && values.some(value => value.toLowerCase().includes(needle));
+}
+
+/**
+ * Split a batch's records per request, in request order. A record containing
+ * none of the identifiers still came back for this batch, so it is attributed
+ * to every request rather than dropped.
+ */
+export function attributeRecords(records: unknown[], requests: SearchRequest[]): unknown[][] {
+  const attributed: unknown[][] = requests.map(() => []);
+
+  records.forEach(record => {
+    const values = collectValues(record, []);
+    const matches = requests
+      .map((request, index) => (containsIdentifier(values, request) ? index : -1))
+      .filter(index => index !== -1);
+
+    (matches.length > 0 ? matches : requests.map((_, index) => index))
+      .forEach(index => attributed[index].push(record));
+  });
+
+  return attributed;
+}
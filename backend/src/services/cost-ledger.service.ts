@@ -0,0 +1,163 @@
+/**
+ * Cost Ledger Service
+ * Estimates what each upstream call costs before it is made and records the
+ * spend per search, user and bot. Upstreams do not report what a single call
+ * was charged, so a billed call is recorded at its estimate; provider balance
+ * polling shows how far the two drift apart.
+ */
+
+import { randomBytes } from 'crypto';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import { BotApiClient } from '../types/api';
+import { SearchType } from '../types/search';
+
+export interface CostLedgerEntry {
+  id: string;
+  searchId: string;
+  userId?: string;
+  botId: string;
+  searchType: SearchType;
+  // Rubles the call was expected to cost before it was made
+  estimatedCost: number;
+  // Rubles spent; 0 when the upstream did not answer and so did not bill
+  cost: number;
+  billed: boolean;
+  recordedAt: Date;
+}
+
+export interface RecordSpendInput {
+  searchId: string;
+  userId?: string;
+  botId: string;
+  searchType: SearchType;
+  estimatedCost: number;
+  billed: boolean;
+}
+
+export interface SpendFilter {
+  userId?: string;
+  botId?: string;
+  searchId?: string;
+  since?: Date;
+}
+
+export interface BotSpend {
+  botId: string;
+  requests: number;
+  billedRequests: number;
+  estimatedCost: number;
+  cost: number;
+}
+
+export interface SpendSummary {
+  totalRequests: number;
+  totalCost: number;
+  bots: BotSpend[];
+}
+
+// Prices are fractions of a ruble; keep enough digits for per-document prices
+const roundCost = (value: number): number => Math.round(value * 10000) / 10000;
+
+export class CostLedgerService {
+  private static instance: CostLedgerService;
+  private entriesRepository: Repository<CostLedgerEntry>;
+
+  private constructor() {
+    this.entriesRepository = getStorage().repository<CostLedgerEntry>('cost_ledger');
+  }
+
+  public static getInstance(): CostLedgerService {
+    if (!CostLedgerService.instance) {
+      CostLedgerService.instance = new CostLedgerService();
+    }
+    return CostLedgerService.instance;
+  }
+
+  /**
+   * Expected price of a call in rubles: the client's own estimate when its
+   * price depends on the query, otherwise its declared price per request
+   */
+  estimateCost(client: BotApiClient, query: string, type: SearchType): number {
+    const cost = client.estimateCost
+      ? client.estimateCost(query, type)
+      : client.getCapabilities().costPerRequest;
+
+    return roundCost(cost);
+  }
+
+  /**
+   * Record one upstream call; failing to record must not fail the search
+   */
+  async record(input: RecordSpendInput): Promise<CostLedgerEntry | null> {
+    const entry: CostLedgerEntry = {
+      id: `cost_${randomBytes(8).toString('hex')}`,
+      searchId: input.searchId,
+      userId: input.userId,
+      botId: input.botId,
+      searchType: input.searchType,
+      estimatedCost: input.estimatedCost,
+      cost: input.billed ? input.estimatedCost : 0,
+      billed: input.billed,
+      recordedAt: new Date()
+    };
+
+    try {
+      await this.entriesRepository.save(entry.id, entry, entry.userId);
+      return entry;
+    } catch (error) {
+      logger.error('Failed to record upstream cost', {
+        searchId: entry.searchId,
+        botId: entry.botId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Ledger entries matching the filter, newest first
+   */
+  async listEntries(filter: SpendFilter = {}): Promise<CostLedgerEntry[]> {
+    const entries = await this.entriesRepository.list({ ownerId: filter.userId, order: 'desc' });
+
+    return entries.filter(entry =>
+      (!filter.botId || entry.botId === filter.botId) &&
+      (!filter.searchId || entry.searchId === filter.searchId) &&
+      (!filter.since || entry.recordedAt >= filter.since)
+    );
+  }
+
+  /**
+   * Spend per bot for the entries matching the filter
+   */
+  async getSummary(filter: SpendFilter = {}): Promise<SpendSummary> {
+    const entries = await this.listEntries(filter);
+    const bots = new Map<string, BotSpend>();
+
+    entries.forEach(entry => {
+      const spend = bots.get(entry.botId) || {
+        botId: entry.botId,
+        requests: 0,
+        billedRequests: 0,
+        estimatedCost: 0,
+        cost: 0
+      };
+
+      spend.requests++;
+      spend.billedRequests += entry.billed ? 1 : 0;
+      spend.estimatedCost = roundCost(spend.estimatedCost + entry.estimatedCost);
+      spend.cost = roundCost(spend.cost + entry.cost);
+      bots.set(entry.botId, spend);
+    });
+
+    return {
+      totalRequests: entries.length,
+      totalCost: roundCost(entries.reduce((sum, entry) => sum + entry.cost, 0)),
+      bots: Array.from(bots.values()).sort((a, b) => b.cost - a.cost)
+    };
+  }
+}
+
+// Export singleton instance
+export const costLedgerService = CostLedgerService.getInstance();
@@ -0,0 +1,179 @@
+/**
+ * Email Templates
+ * Russian and English HTML + text emails for the notification types we send by email
+ */
+
+import { NotificationData, NotificationLanguage, NotificationType } from './notification.service';
+
+export type EmailTemplateType = Extract<NotificationType, 'search_completed' | 'data_found' | 'new_exposure' | 'subscription_expiring'>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailRenderOptions {
+  // Frontend base URL used for links back to the app
+  appUrl: string;
+}
+
+interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: {
+    label: string;
+    path: string;
+  };
+}
+
+type EmailTemplate = Record<NotificationLanguage, (data: NotificationData) => EmailContent>;
+
+const formatDate = (value: string | undefined, language: NotificationLanguage): string =>
+  value ? new Date(value).toLocaleDateString(language === 'ru' ? 'ru-RU' : 'en-GB') : '';
+
+const EMAIL_TEMPLATES: Record<EmailTemplateType, EmailTemplate> = {
+  search_completed: {
+    ru: data => ({
+      subject: 'Поиск завершён',
+      heading: 'Поиск ваших данных завершён',
+      paragraphs: [
+        `Проверено источников: ${data.totalBotsSearched ?? 0}.`,
+        data.totalRecords
+          ? `Найдено записей: ${data.totalRecords} в ${data.totalBotsWithData ?? 0} источниках.`
+          : 'Ваши данные не найдены ни в одном источнике.'
+      ],
+      action: { label: 'Открыть результаты', path: '/search' }
+    }),
+    en: data => ({
+      subject: 'Search completed',
+      heading: 'Your data search has finished',
+      paragraphs: [
+        `Sources checked: ${data.totalBotsSearched ?? 0}.`,
+        data.totalRecords
+          ? `Records found: ${data.totalRecords} in ${data.totalBotsWithData ?? 0} sources.`
+          : 'Your data was not found in any source.'
+      ],
+      action: { label: 'View results', path: '/search' }
+    })
+  },
+  data_found: {
+    ru: data => ({
+      subject: `Ваши данные найдены: ${data.botName || 'источник'}`,
+      heading: 'Мы нашли ваши данные',
+      paragraphs: [
+        `${data.botName || 'Источник'} хранит сведения о вас — полей: ${data.foundDataCount ?? 0}.`,
+        ...(data.foundFields?.length ? [`Найдены: ${data.foundFields.join(', ')}.`] : []),
+        'Подготовьте запрос на удаление, чтобы источник удалил эти данные.'
+      ],
+      action: { label: 'Удалить данные', path: '/search' }
+    }),
+    en: data => ({
+      subject: `Your data was found: ${data.botName || 'a source'}`,
+      heading: 'We found your data',
+      paragraphs: [
+        `${data.botName || 'A source'} holds information about you — fields: ${data.foundDataCount ?? 0}.`,
+        ...(data.foundFields?.length ? [`Found: ${data.foundFields.join(', ')}.`] : []),
+        'Prepare a removal request to have the source delete it.'
+      ],
+      action: { label: 'Remove data', path: '/search' }
+    })
+  },
+  new_exposure: {
+    ru: data => ({
+      subject: `Новая утечка: ${data.maskedQuery || 'ваши данные'}`,
+      heading: 'Ваши данные появились в новых источниках',
+      paragraphs: [
+        `При плановой проверке ${data.maskedQuery || 'отслеживаемого идентификатора'} найдены новые данные: ${data.botName || 'источник'}.`,
+        ...(data.foundFields?.length ? [`Новые поля: ${data.foundFields.join(', ')}.`] : []),
+        'Отправьте запрос на удаление, пока данные не распространились дальше.'
+      ],
+      action: { label: 'Посмотреть мониторинг', path: '/monitors' }
+    }),
+    en: data => ({
+      subject: `New exposure: ${data.maskedQuery || 'your data'}`,
+      heading: 'Your data appeared in new sources',
+      paragraphs: [
+        `A scheduled check of ${data.maskedQuery || 'a monitored identifier'} found new data: ${data.botName || 'a source'}.`,
+        ...(data.foundFields?.length ? [`New fields: ${data.foundFields.join(', ')}.`] : []),
+        'Send a removal request before the data spreads further.'
+      ],
+      action: { label: 'View monitoring', path: '/monitors' }
+    })
+  },
+  subscription_expiring: {
+    ru: data => ({
+      subject: 'Подписка скоро закончится',
+      heading: `Тариф ${data.planId} действует до ${formatDate(data.endDate, 'ru')}`,
+      paragraphs: [
+        'Автопродление выключено, поэтому после этой даты подключится бесплатный тариф.',
+        'Продлите подписку, чтобы сохранить лимиты поиска и мониторинг.'
+      ],
+      action: { label: 'Продлить подписку', path: '/tariffs' }
+    }),
+    en: data => ({
+      subject: 'Your subscription ends soon',
+      heading: `Your ${data.planId} plan is active until ${formatDate(data.endDate, 'en')}`,
+      paragraphs: [
+        'Auto-renewal is off, so you will be moved to the free plan after that date.',
+        'Renew your subscription to keep your search limits and monitoring.'
+      ],
+      action: { label: 'Renew subscription', path: '/tariffs' }
+    })
+  }
+};
+
+const FOOTER: Record<NotificationLanguage, string> = {
+  ru: 'Вы получили это письмо, потому что включили уведомления по email. Отключить их можно в настройках уведомлений.',
+  en: 'You received this email because email notifications are on. You can turn them off in your notification settings.'
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Whether a notification type is sent by email
+ */
+export function hasEmailTemplate(type: NotificationType): type is EmailTemplateType {
+  return Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, type);
+}
+
+/**
+ * Render the email for a notification in the user's language
+ */
+export function renderEmail(
+  type: EmailTemplateType,
+  data: NotificationData,
+  language: NotificationLanguage,
+  options: EmailRenderOptions
+): RenderedEmail {
+  const content = EMAIL_TEMPLATES[type][language](data);
+  const actionUrl = content.action ? `${options.appUrl.replace(/\/+$/, '')}${content.action.path}` : null;
+
+  const text = [
+    content.heading,
+    '',
+    ...content.paragraphs,
+    ...(content.action && actionUrl ? ['', `${content.action.label}: ${actionUrl}`] : []),
+    '',
+    '--',
+    FOOTER[language]
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html lang="${language}">
+<head><meta charset="utf-8"><title>${escapeHtml(content.subject)}</title></head>
+<body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+  <h1 style="font-size: 20px;">${escapeHtml(content.heading)}</h1>
+  ${content.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n  ')}
+  ${content.action && actionUrl
+    ? `<p><a href="${escapeHtml(actionUrl)}" style="background: #2563eb; color: #ffffff; padding: 10px 16px; border-radius: 6px; text-decoration: none;">${escapeHtml(content.action.label)}</a></p>`
+    : ''}
+  <hr style="border: none; border-top: 1px solid #e5e7eb;">
+  <p style="font-size: 12px; color: #6b7280;">${escapeHtml(FOOTER[language])}</p>
+</body>
+</html>`;
+
+  return { subject: content.subject, html, text };
+}
@@ -0,0 +1,312 @@
+/**
+ * Email Service
+ * Email channel for notifications: renders templates, queues messages in a
+ * stored outbox and sends them over SMTP with retries
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import { authService } from './auth.service';
+import {
+  notificationService,
+  NotificationChannelHandler,
+  NotificationPreferences,
+  StoredNotification
+} from './notification.service';
+import { hasEmailTemplate, renderEmail } from './email-templates';
+
+export interface EmailConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  from: string;
+  // Frontend base URL for links in emails
+  appUrl: string;
+  intervalMs: number;
+  maxAttempts: number;
+  // Delay before the first retry; doubles with every failed attempt
+  retryBaseMs: number;
+  batchSize: number;
+}
+
+export type EmailOutboxStatus = 'queued' | 'failed';
+
+// A message waiting to be sent; entries are removed once the SMTP server accepts them
+export interface EmailOutboxEntry {
+  id: string;
+  userId: string;
+  notificationId?: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  createdAt: Date;
+}
+
+export interface EmailMessage {
+  userId: string;
+  notificationId?: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface OutboxRunResult {
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+export class EmailService implements NotificationChannelHandler {
+  private static instance: EmailService;
+  private config: EmailConfig;
+  private outboxRepository: Repository<EmailOutboxEntry>;
+  private transporter: Transporter | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<OutboxRunResult> | null = null;
+
+  private constructor() {
+    this.outboxRepository = getStorage().repository<EmailOutboxEntry>('email_outbox');
+    this.config = {
+      host: process.env.SMTP_HOST || '',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      password: process.env.SMTP_PASSWORD || '',
+      from: process.env.EMAIL_FROM || 'DataTrace <noreply@datatrace.local>',
+      appUrl: process.env.FRONTEND_URL || 'http://localhost:3001',
+      intervalMs: parseInt(process.env.EMAIL_OUTBOX_INTERVAL_MS || '15000', 10),
+      maxAttempts: parseInt(process.env.EMAIL_MAX_ATTEMPTS || '5', 10),
+      retryBaseMs: parseInt(process.env.EMAIL_RETRY_BASE_MS || '60000', 10),
+      batchSize: 200
+    };
+  }
+
+  public static getInstance(): EmailService {
+    if (!EmailService.instance) {
+      EmailService.instance = new EmailService();
+    }
+    return EmailService.instance;
+  }
+
+  /**
+   * Email is sent only when an SMTP host is configured
+   */
+  isEnabled(): boolean {
+    return Boolean(this.config.host);
+  }
+
+  /**
+   * Override configuration, e.g. to point at a local SMTP sink
+   */
+  configure(config: Partial<EmailConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.transporter?.close();
+    this.transporter = null;
+  }
+
+  /**
+   * Register the email channel and start sending queued messages
+   */
+  start(): void {
+    if (!this.isEnabled()) {
+      logger.info('Email notifications disabled: SMTP_HOST is not set');
+      return;
+    }
+
+    notificationService.registerChannel('email', this);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.processOutbox().catch(error => {
+          logger.error('Email outbox run failed', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+      }, this.config.intervalMs);
+      this.timer.unref();
+    }
+
+    logger.info('Email notifications enabled', { host: this.config.host, port: this.config.port });
+  }
+
+  /**
+   * Stop sending and unregister the email channel
+   */
+  stop(): void {
+    notificationService.unregisterChannel('email');
+
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    this.transporter?.close();
+    this.transporter = null;
+  }
+
+  /**
+   * Queue the email for a notification. Types without an email template stay in-app only.
+   */
+  async deliver(notification: StoredNotification, preferences: NotificationPreferences): Promise<void> {
+    if (!hasEmailTemplate(notification.type)) {
+      return;
+    }
+
+    const user = await authService.getUser(notification.userId);
+    if (!user) {
+      return;
+    }
+
+    const email = renderEmail(notification.type, notification.data, preferences.language, {
+      appUrl: this.config.appUrl
+    });
+
+    await this.enqueue({
+      userId: notification.userId,
+      notificationId: notification.id,
+      to: user.email,
+      ...email
+    });
+  }
+
+  /**
+   * Add a message to the outbox; it is sent on the next outbox run
+   */
+  async enqueue(message: EmailMessage): Promise<EmailOutboxEntry> {
+    const now = new Date();
+    const entry: EmailOutboxEntry = {
+      id: `email_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...message,
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now
+    };
+
+    await this.outboxRepository.save(entry.id, entry, entry.userId);
+    logger.debug('Email queued', { emailId: entry.id, userId: entry.userId, notificationId: entry.notificationId });
+
+    return entry;
+  }
+
+  /**
+   * Get an outbox entry; sent messages are no longer in the outbox
+   */
+  async getOutboxEntry(id: string): Promise<EmailOutboxEntry | null> {
+    return this.outboxRepository.get(id);
+  }
+
+  /**
+   * Send every queued message that is due. Overlapping calls share the run in progress.
+   */
+  async processOutbox(now: Date = new Date()): Promise<OutboxRunResult> {
+    if (!this.running) {
+      this.running = this.sendDue(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async sendDue(now: Date): Promise<OutboxRunResult> {
+    const result: OutboxRunResult = { sent: 0, retried: 0, failed: 0 };
+    const due: EmailOutboxEntry[] = [];
+
+    // Collect first: sent entries are deleted, which would shift the pages
+    for (let offset = 0; ; offset += this.config.batchSize) {
+      const batch = await this.outboxRepository.list({ offset, limit: this.config.batchSize });
+      due.push(...batch.filter(entry => entry.status === 'queued' && entry.nextAttemptAt <= now));
+
+      if (batch.length < this.config.batchSize) {
+        break;
+      }
+    }
+
+    for (const entry of due) {
+      result[await this.send(entry, now)]++;
+    }
+
+    if (result.sent || result.retried || result.failed) {
+      logger.info('Email outbox run completed', { ...result });
+    }
+
+    return result;
+  }
+
+  private async send(entry: EmailOutboxEntry, now: Date): Promise<keyof OutboxRunResult> {
+    const attempts = entry.attempts + 1;
+
+    try {
+      await this.getTransporter().sendMail({
+        from: this.config.from,
+        to: entry.to,
+        subject: entry.subject,
+        text: entry.text,
+        html: entry.html
+      });
+
+      await this.outboxRepository.delete(entry.id);
+      if (entry.notificationId) {
+        await notificationService.recordDelivery(entry.notificationId, 'email', true);
+      }
+
+      logger.info('Email sent', { emailId: entry.id, userId: entry.userId, attempts });
+      return 'sent';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // 5xx SMTP replies are permanent: retrying will not help
+      const responseCode = (error as { responseCode?: number }).responseCode;
+      const permanent = typeof responseCode === 'number' && responseCode >= 500;
+      const exhausted = permanent || attempts >= this.config.maxAttempts;
+
+      await this.outboxRepository.save(entry.id, {
+        ...entry,
+        status: exhausted ? 'failed' : 'queued',
+        attempts,
+        lastError: message,
+        nextAttemptAt: new Date(now.getTime() + this.config.retryBaseMs * 2 ** (attempts - 1))
+      }, entry.userId);
+
+      if (exhausted && entry.notificationId) {
+        await notificationService.recordDelivery(entry.notificationId, 'email', false);
+      }
+
+      logger.warn('Email delivery failed', {
+        emailId: entry.id,
+        userId: entry.userId,
+        attempts,
+        permanent,
+        error: message
+      });
+
+      return exhausted ? 'failed' : 'retried';
+    }
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host: this.config.host,
+        port: this.config.port,
+        secure: this.config.secure,
+        auth: this.config.user ? { user: this.config.user, pass: this.config.password } : undefined,
+        connectionTimeout: 10000,
+        greetingTimeout: 10000,
+        socketTimeout: 30000
+      });
+    }
+    return this.transporter;
+  }
+}
+
+// Export singleton instance
+export const emailService = EmailService.getInstance();
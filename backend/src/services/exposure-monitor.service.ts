@@ -0,0 +1,426 @@
+/**
+ * Exposure Monitor Service
+ * Re-runs searches for identifiers users asked us to watch, on a cadence set
+ * by their plan, and notifies them when their data shows up in new bots or
+ * with new fields compared to the previous run.
+ */
+
+import { randomBytes } from 'crypto';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import { serialize, deserialize } from '../storage/serialization';
+import { SearchRequest, SearchResult, SearchStatus, SearchType } from '../types/search';
+import { SearchService, AggregatedSearchResults } from './search.service';
+import { SecurityService, EncryptedData } from './security.service';
+import { notificationService } from './notification.service';
+import { tariffService, TariffPlan } from './tariff.service';
+import { maskSearchQuery } from './search-history.service';
+
+export interface ExposureMonitorConfig {
+  // How often due monitors are looked for
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+export type ExposureMonitorStatus = 'pending' | 'ok' | 'failed';
+
+// Stored form of a monitor; the identifier and the last results are encrypted
+export interface StoredExposureMonitor {
+  id: string;
+  userId: string;
+  searchType: SearchType;
+  maskedQuery: string;
+  request: EncryptedData;
+  // Results of the previous scan the next one is compared to
+  baseline: EncryptedData | null;
+  status: ExposureMonitorStatus;
+  lastError?: string;
+  lastScanAt?: Date;
+  lastExposureAt?: Date;
+  nextScanAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ExposureMonitor {
+  id: string;
+  searchType: SearchType;
+  maskedQuery: string;
+  status: ExposureMonitorStatus;
+  lastError?: string;
+  lastScanAt?: Date;
+  lastExposureAt?: Date;
+  nextScanAt: Date;
+  createdAt: Date;
+}
+
+export interface ExposureMonitorList {
+  monitors: ExposureMonitor[];
+  // Hours between scans on the user's plan; 0 means the plan has no monitoring
+  intervalHours: number;
+  // Identifiers the plan can monitor; -1 means without limit
+  limit: number;
+}
+
+// Data found in a bot that was not there on the previous scan
+export interface ExposureChange {
+  botId: string;
+  botName: string;
+  // The bot had no data at all before
+  newBot: boolean;
+  fields: string[];
+}
+
+export type ExposureMonitorErrorType =
+  | 'MONITOR_NOT_FOUND'
+  | 'MONITORING_NOT_AVAILABLE'
+  | 'MONITOR_LIMIT_REACHED'
+  | 'MONITOR_EXISTS';
+
+export class ExposureMonitorError extends Error {
+  constructor(
+    message: string,
+    public readonly type: ExposureMonitorErrorType,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'ExposureMonitorError';
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Plans that lose monitoring keep their monitors; they are looked at again after this
+const SUSPENDED_RECHECK_MS = 24 * HOUR_MS;
+
+const hasData = (result: SearchResult): boolean => result.hasData && result.foundData.length > 0;
+
+// Bots that did not answer tell us nothing about whether the data is still there
+const isInconclusive = (result: SearchResult): boolean =>
+  result.status !== SearchStatus.SUCCESS && result.status !== SearchStatus.NO_DATA;
+
+/**
+ * New bots and new fields in `current` compared to `previous`
+ */
+export function findNewExposure(previous: AggregatedSearchResults, current: AggregatedSearchResults): ExposureChange[] {
+  const previousByBot = new Map(previous.results.map(result => [result.botId, result]));
+  const changes: ExposureChange[] = [];
+
+  for (const result of current.results) {
+    if (!hasData(result)) {
+      continue;
+    }
+
+    const before = previousByBot.get(result.botId);
+    const fields = Array.from(new Set(result.foundData.map(item => item.field)));
+
+    if (!before || !hasData(before)) {
+      changes.push({ botId: result.botId, botName: result.botName, newBot: true, fields });
+      continue;
+    }
+
+    const knownFields = new Set(before.foundData.map(item => item.field));
+    const newFields = fields.filter(field => !knownFields.has(field));
+    if (newFields.length > 0) {
+      changes.push({ botId: result.botId, botName: result.botName, newBot: false, fields: newFields });
+    }
+  }
+
+  return changes;
+}
+
+export class ExposureMonitorService {
+  private static instance: ExposureMonitorService;
+  private config: ExposureMonitorConfig;
+  private monitorsRepository: Repository<StoredExposureMonitor>;
+  private timer: NodeJS.Timeout | null = null;
+  private scanning = false;
+
+  private constructor() {
+    this.monitorsRepository = getStorage().repository<StoredExposureMonitor>('exposure_monitors');
+    this.config = {
+      pollIntervalMs: parseInt(process.env.EXPOSURE_MONITOR_POLL_MINUTES || '5', 10) * 60 * 1000,
+      batchSize: 100
+    };
+  }
+
+  public static getInstance(): ExposureMonitorService {
+    if (!ExposureMonitorService.instance) {
+      ExposureMonitorService.instance = new ExposureMonitorService();
+    }
+    return ExposureMonitorService.instance;
+  }
+
+  /**
+   * Start scanning due monitors periodically
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.scanDue().catch(error => {
+        logger.error('Exposure monitor scan failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.config.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  configure(config: Partial<ExposureMonitorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Hours between scans on a plan: 0 means no monitoring
+   */
+  getIntervalHours(plan: TariffPlan): number {
+    return plan.monitoringIntervalHours ?? 0;
+  }
+
+  /**
+   * Start monitoring an identifier. The first scan only records what is
+   * already known; later scans notify about anything new.
+   */
+  async create(userId: string, request: SearchRequest): Promise<ExposureMonitor> {
+    const plan = await tariffService.getEffectivePlan(userId);
+    if (this.getIntervalHours(plan) <= 0) {
+      throw new ExposureMonitorError('Monitoring is not available on your plan', 'MONITORING_NOT_AVAILABLE', 403);
+    }
+
+    const monitors = await this.listAllFor(userId);
+    const limit = plan.monitoringLimit ?? -1;
+    if (limit >= 0 && monitors.length >= limit) {
+      throw new ExposureMonitorError(
+        `Your plan can monitor up to ${limit} identifiers`,
+        'MONITOR_LIMIT_REACHED',
+        409
+      );
+    }
+
+    const duplicate = monitors.some(monitor => {
+      const existing = this.decrypt<SearchRequest>(monitor.request);
+      return existing.type === request.type && existing.value === request.value;
+    });
+    if (duplicate) {
+      throw new ExposureMonitorError('This identifier is already monitored', 'MONITOR_EXISTS', 409);
+    }
+
+    const now = new Date();
+    const monitor: StoredExposureMonitor = {
+      id: `mon_${randomBytes(16).toString('hex')}`,
+      userId,
+      searchType: request.type,
+      maskedQuery: maskSearchQuery(request.type, request.value),
+      request: this.encrypt({ type: request.type, value: request.value }),
+      baseline: null,
+      status: 'pending',
+      nextScanAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.monitorsRepository.save(monitor.id, monitor, userId);
+    logger.info('Exposure monitor created', { userId, monitorId: monitor.id, searchType: monitor.searchType });
+
+    return this.toMonitor(monitor);
+  }
+
+  async list(userId: string): Promise<ExposureMonitorList> {
+    const plan = await tariffService.getEffectivePlan(userId);
+    const monitors = await this.listAllFor(userId);
+
+    return {
+      monitors: monitors.map(monitor => this.toMonitor(monitor)),
+      intervalHours: this.getIntervalHours(plan),
+      limit: plan.monitoringLimit ?? -1
+    };
+  }
+
+  async get(userId: string, id: string): Promise<ExposureMonitor> {
+    return this.toMonitor(await this.findMonitor(userId, id));
+  }
+
+  /**
+   * Stop monitoring an identifier and forget its results
+   */
+  async delete(userId: string, id: string): Promise<void> {
+    await this.findMonitor(userId, id);
+    await this.monitorsRepository.delete(id);
+    logger.info('Exposure monitor deleted', { userId, monitorId: id });
+  }
+
+  /**
+   * Scan every monitor whose next scan is due. Runs one scan at a time so
+   * monitoring never competes with users' own searches for bot capacity.
+   */
+  async scanDue(now: Date = new Date()): Promise<number> {
+    if (this.scanning) {
+      return 0;
+    }
+
+    this.scanning = true;
+    try {
+      const due: StoredExposureMonitor[] = [];
+
+      for (let offset = 0; ; offset += this.config.batchSize) {
+        const batch = await this.monitorsRepository.list({ offset, limit: this.config.batchSize });
+        due.push(...batch.filter(monitor => monitor.nextScanAt <= now));
+
+        if (batch.length < this.config.batchSize) {
+          break;
+        }
+      }
+
+      for (const monitor of due) {
+        await this.scan(monitor, now);
+      }
+
+      return due.length;
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  private async scan(monitor: StoredExposureMonitor, now: Date): Promise<void> {
+    const intervalHours = this.getIntervalHours(await tariffService.getEffectivePlan(monitor.userId));
+
+    if (intervalHours <= 0) {
+      logger.debug('Exposure monitor suspended by plan', { monitorId: monitor.id, userId: monitor.userId });
+      await this.save({ ...monitor, nextScanAt: new Date(now.getTime() + SUSPENDED_RECHECK_MS) });
+      return;
+    }
+
+    const nextScanAt = new Date(now.getTime() + intervalHours * HOUR_MS);
+
+    try {
+      // Run without a user so the scan does not add to their history or inbox; the spend is still theirs
+      const results = await SearchService.getInstance().searchAllBots(
+        this.decrypt<SearchRequest>(monitor.request),
+        undefined,
+        { userId: monitor.userId }
+      );
+      const previous = monitor.baseline ? this.decrypt<AggregatedSearchResults>(monitor.baseline) : null;
+      const changes = previous ? findNewExposure(previous, results) : [];
+
+      await this.save({
+        ...monitor,
+        baseline: this.encrypt(previous ? this.carryOverInconclusive(previous, results) : results),
+        status: 'ok',
+        lastError: undefined,
+        lastScanAt: now,
+        lastExposureAt: changes.length > 0 ? now : monitor.lastExposureAt,
+        nextScanAt
+      });
+
+      if (changes.length > 0) {
+        await this.notify(monitor, results.searchId, changes);
+      }
+
+      logger.info('Exposure monitor scanned', {
+        monitorId: monitor.id,
+        baseline: previous === null,
+        newExposures: changes.length
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Exposure monitor scan failed', { monitorId: monitor.id, error: message });
+
+      await this.save({ ...monitor, status: 'failed', lastError: message, lastScanAt: now, nextScanAt });
+    }
+  }
+
+  /**
+   * Keep the previous results of bots that failed this time, so their data
+   * is not reported as new once they answer again
+   */
+  private carryOverInconclusive(
+    previous: AggregatedSearchResults,
+    current: AggregatedSearchResults
+  ): AggregatedSearchResults {
+    const previousByBot = new Map(previous.results.map(result => [result.botId, result]));
+
+    return {
+      ...current,
+      results: current.results.map(result =>
+        isInconclusive(result) && previousByBot.has(result.botId) ? previousByBot.get(result.botId)! : result
+      )
+    };
+  }
+
+  private async notify(monitor: StoredExposureMonitor, searchId: string, changes: ExposureChange[]): Promise<void> {
+    const foundFields = Array.from(new Set(changes.flatMap(change => change.fields)));
+
+    await notificationService.createNotification(monitor.userId, 'new_exposure', {
+      monitorId: monitor.id,
+      searchId,
+      searchType: monitor.searchType,
+      maskedQuery: monitor.maskedQuery,
+      botName: changes.map(change => change.botName).join(', '),
+      newBots: changes.filter(change => change.newBot).map(change => change.botName),
+      foundFields,
+      foundDataCount: foundFields.length,
+      count: changes.length
+    });
+  }
+
+  private async findMonitor(userId: string, id: string): Promise<StoredExposureMonitor> {
+    const monitor = await this.monitorsRepository.get(id);
+
+    if (!monitor || monitor.userId !== userId) {
+      throw new ExposureMonitorError('Monitor not found', 'MONITOR_NOT_FOUND', 404);
+    }
+
+    return monitor;
+  }
+
+  private async listAllFor(userId: string): Promise<StoredExposureMonitor[]> {
+    const monitors: StoredExposureMonitor[] = [];
+
+    for (let offset = 0; ; offset += this.config.batchSize) {
+      const batch = await this.monitorsRepository.list({ ownerId: userId, offset, limit: this.config.batchSize });
+      monitors.push(...batch);
+
+      if (batch.length < this.config.batchSize) {
+        return monitors;
+      }
+    }
+  }
+
+  private async save(monitor: StoredExposureMonitor): Promise<void> {
+    await this.monitorsRepository.save(monitor.id, { ...monitor, updatedAt: new Date() }, monitor.userId);
+  }
+
+  private toMonitor(monitor: StoredExposureMonitor): ExposureMonitor {
+    return {
+      id: monitor.id,
+      searchType: monitor.searchType,
+      maskedQuery: monitor.maskedQuery,
+      status: monitor.status,
+      lastError: monitor.lastError,
+      lastScanAt: monitor.lastScanAt,
+      lastExposureAt: monitor.lastExposureAt,
+      nextScanAt: monitor.nextScanAt,
+      createdAt: monitor.createdAt
+    };
+  }
+
+  private encrypt(value: unknown): EncryptedData {
+    return SecurityService.getInstance().encryptSensitiveData(serialize(value));
+  }
+
+  private decrypt<T>(data: EncryptedData): T {
+    return deserialize<T>(SecurityService.getInstance().decryptSensitiveData(data));
+  }
+}
+
+export const exposureMonitorService = ExposureMonitorService.getInstance();
@@ -10,6 +10,42 @@ export { InstructionGenerator, instructionGenerator } from './instruction-genera
 export { SecurityService, getSecurityService } from './security.service';
 export { AdvancedRateLimitService, advancedRateLimitService } from './advanced-rate-limit.service';
 export { TariffService, tariffService } from './tariff.service';
+export { ProfileMergeService, profileMergeService } from './profile-merge.service';
+export { RiskScoreService, riskScoreService } from './risk-score.service';
+export { AuthService, AuthError, authService } from './auth.service';
+export { PaymentService, PaymentError, paymentService } from './payment.service';
+export { NotificationService, NotificationError, notificationService } from './notification.service';
+export { EmailService, emailService } from './email.service';
+export { PushService, pushService } from './push.service';
+export { TelegramService, telegramService, TelegramError } from './telegram.service';
+export { SearchJobService, searchJobService, SearchJobError } from './search-job.service';
+export {
+  SearchHistoryService,
+  searchHistoryService,
+  SearchHistoryError,
+  maskSearchQuery
+} from './search-history.service';
+export {
+  ExposureMonitorService,
+  exposureMonitorService,
+  ExposureMonitorError,
+  findNewExposure
+} from './exposure-monitor.service';
+export {
+  RemovalCaseService,
+  removalCaseService,
+  RemovalCaseError,
+  USER_REMOVAL_CASE_STATUSES
+} from './removal-case.service';
+export { CostLedgerService, costLedgerService } from './cost-ledger.service';
+export { ProviderBalanceService, providerBalanceService } from './provider-balance.service';
+export { renderEmail, hasEmailTemplate } from './email-templates';
+export { diffSearchResults } from './search-diff';
+export {
+  SubscriptionLifecycleService,
+  SubscriptionLifecycleError,
+  subscriptionLifecycleService
+} from './subscription-lifecycle.service';
 
 // Export types
 export type { 
@@ -17,9 +53,19 @@ export type {
   BotConfig,
   BotSearchResults,
   BotSearchResult,
+  BotHitCountResult,
+  QuickScanResults,
+  BatchSearchResults,
   CircuitBreakerState
 } from './api-manager.service';
 
+export type {
+  SearchMode,
+  QuickScanBotResult,
+  AggregatedQuickScanResults,
+  AggregatedBatchResults
+} from './search.service';
+
 export type {
   ValidationResult,
   ValidationError,
@@ -46,9 +92,135 @@ export type {
   RateLimitConfig
 } from './advanced-rate-limit.service';
 
+export type {
+  AuthConfig,
+  AuthErrorType
+} from './auth.service';
+
+export type {
+  PaymentErrorType,
+  CreatePaymentResult
+} from './payment.service';
+
+export type {
+  NotificationType,
+  NotificationPriority,
+  NotificationStatus,
+  NotificationChannel,
+  NotificationCategory,
+  NotificationData,
+  StoredNotification,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  PushSubscription,
+  NotificationListOptions,
+  NotificationList,
+  NotificationErrorType,
+  NotificationLanguage,
+  NotificationChannelHandler
+} from './notification.service';
+
+export type {
+  EmailConfig,
+  EmailMessage,
+  EmailOutboxEntry,
+  EmailOutboxStatus,
+  OutboxRunResult
+} from './email.service';
+
+export type {
+  PushConfig,
+  PushPayload,
+  StoredVapidKeys
+} from './push.service';
+
+export type {
+  TelegramConfig,
+  TelegramLink,
+  TelegramLinkToken,
+  TelegramLinkRequest,
+  TelegramErrorType
+} from './telegram.service';
+
+export type {
+  SearchJobConfig,
+  SearchJob,
+  SearchJobBot,
+  SearchJobBotStatus,
+  SearchJobStatus,
+  SearchJobErrorType,
+  StoredSearchJob
+} from './search-job.service';
+
+export type {
+  SearchHistoryConfig,
+  SearchHistoryItem,
+  SearchHistoryDetails,
+  SearchHistoryList,
+  SearchHistoryDiff,
+  SearchHistoryPayload,
+  SearchHistoryErrorType,
+  StoredSearchHistoryEntry
+} from './search-history.service';
+
+export type {
+  ExposureMonitorConfig,
+  ExposureMonitor,
+  ExposureMonitorList,
+  ExposureMonitorStatus,
+  ExposureMonitorErrorType,
+  ExposureChange,
+  StoredExposureMonitor
+} from './exposure-monitor.service';
+
+export type {
+  RemovalCaseConfig,
+  RemovalCase,
+  RemovalCaseStatus,
+  RemovalCaseIdentifier,
+  RemovalVerification,
+  RemovalVerificationResult,
+  CreateRemovalCaseInput,
+  UpdateRemovalCaseInput,
+  RemovalCaseErrorType,
+  StoredRemovalCase
+} from './removal-case.service';
+
+export type {
+  CostLedgerEntry,
+  RecordSpendInput,
+  SpendFilter,
+  BotSpend,
+  SpendSummary
+} from './cost-ledger.service';
+
+export type {
+  ProviderBalanceConfig,
+  ProviderBalance
+} from './provider-balance.service';
+
+export type {
+  BotResultDiff,
+  SearchResultsDiff
+} from './search-diff';
+
+export type {
+  EmailTemplateType,
+  RenderedEmail
+} from './email-templates';
+
+export type {
+  SubscriptionLifecycleConfig,
+  SubscriptionLifecycleErrorType,
+  LifecycleRunResult
+} from './subscription-lifecycle.service';
+
 export type {
   TariffPlan,
   UserSubscription,
+  SubscriptionState,
   UsageStats,
-  PaymentIntegration
+  PaymentIntegration,
+  QuotaPeriod,
+  SearchQuota
 } from './tariff.service';
\ No newline at end of file
@@ -119,7 +119,7 @@ export class LoggingService {
   private isSensitiveField(fieldName: string): boolean {
     const sensitiveFields = [
       'password', 'token', 'secret', 'key', 'auth',
-      'email', 'phone', 'inn', 'snils', 'passport',
+      'email', 'phone', 'inn', 'snils', 'passport', 'plate_number', 'telegram_id',
       'value', 'query', 'searchValue', 'personalData'
     ];
 
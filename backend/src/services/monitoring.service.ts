@@ -4,7 +4,9 @@
  */
 
 import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
 import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
 
 export interface PerformanceMetric {
   name: string;
@@ -45,6 +47,27 @@ export interface SearchMetrics {
   botsWithDataFound: Record<string, number>;
 }
 
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface MonitoringAlert {
+  id: string;
+  // Names the condition; raising an open alert's key again updates it instead of adding another
+  key: string;
+  severity: AlertSeverity;
+  message: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+  resolved: boolean;
+  resolvedAt?: Date;
+}
+
+// All recorded points of one metric, stored under the metric name
+interface StoredMetricSeries {
+  name: string;
+  points: PerformanceMetric[];
+}
+
 export class MonitoringService extends EventEmitter {
   private static instance: MonitoringService;
   private metrics: Map<string, PerformanceMetric[]>;
@@ -55,6 +78,9 @@ export class MonitoringService extends EventEmitter {
   private responseTimeSum: number;
   private searchMetrics: SearchMetrics;
   private metricsRetentionHours: number;
+  private metricsRepository: Repository<StoredMetricSeries>;
+  private dirtyMetrics: Set<string>;
+  private alerts: Map<string, MonitoringAlert>;
 
   private constructor() {
     super();
@@ -65,6 +91,9 @@ export class MonitoringService extends EventEmitter {
     this.errorCount = 0;
     this.responseTimeSum = 0;
     this.metricsRetentionHours = 24; // Keep metrics for 24 hours
+    this.metricsRepository = getStorage().repository<StoredMetricSeries>('metrics');
+    this.dirtyMetrics = new Set();
+    this.alerts = new Map();
     
     this.searchMetrics = {
       totalSearches: 0,
@@ -78,6 +107,8 @@ export class MonitoringService extends EventEmitter {
 
     this.startMetricsCleanup();
     this.startSystemMetricsCollection();
+    this.loadStoredMetrics();
+    this.startMetricsPersistence();
     
     logger.info('Monitoring service initialized');
   }
@@ -106,6 +137,7 @@ export class MonitoringService extends EventEmitter {
     }
 
     this.metrics.get(name)!.push(metric);
+    this.dirtyMetrics.add(name);
     this.emit('metric_recorded', metric);
 
     // Log significant metrics
@@ -371,6 +403,75 @@ export class MonitoringService extends EventEmitter {
     };
   }
 
+  /**
+   * Raise an alert, or update the open alert with the same key
+   */
+  public raiseAlert(
+    key: string,
+    severity: AlertSeverity,
+    message: string,
+    details?: Record<string, unknown>
+  ): MonitoringAlert {
+    const now = new Date();
+    const open = this.findOpenAlert(key);
+
+    if (open) {
+      Object.assign(open, { severity, message, details, updatedAt: now });
+      return open;
+    }
+
+    const alert: MonitoringAlert = {
+      id: `alert_${randomBytes(8).toString('hex')}`,
+      key,
+      severity,
+      message,
+      details,
+      createdAt: now,
+      updatedAt: now,
+      resolved: false
+    };
+
+    this.alerts.set(alert.id, alert);
+    this.emit('alert_raised', alert);
+
+    const level = severity === 'critical' ? 'error' : severity === 'warning' ? 'warn' : 'info';
+    logger[level]('Monitoring alert raised', { key, severity, message, ...details });
+
+    return alert;
+  }
+
+  /**
+   * List alerts, optionally only open or only resolved ones, newest first
+   */
+  public getAlerts(resolved?: boolean): MonitoringAlert[] {
+    return Array.from(this.alerts.values())
+      .filter(alert => resolved === undefined || alert.resolved === resolved)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Resolve an open alert by ID; false when it does not exist or is already resolved
+   */
+  public resolveAlert(alertId: string): boolean {
+    const alert = this.alerts.get(alertId);
+    if (!alert || alert.resolved) {
+      return false;
+    }
+
+    alert.resolved = true;
+    alert.resolvedAt = new Date();
+    this.emit('alert_resolved', alert);
+    return true;
+  }
+
+  /**
+   * Resolve the open alert for a condition that has cleared
+   */
+  public resolveAlertByKey(key: string): boolean {
+    const open = this.findOpenAlert(key);
+    return open ? this.resolveAlert(open.id) : false;
+  }
+
   /**
    * Export metrics for external monitoring systems
    */
@@ -407,7 +508,14 @@ export class MonitoringService extends EventEmitter {
    */
   public resetMetrics(): void {
     this.metrics.clear();
+    this.dirtyMetrics.clear();
+    this.metricsRepository.clear().catch(error => {
+      logger.error('Failed to clear stored metrics', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
     this.apiMetrics.clear();
+    this.alerts.clear();
     this.requestCount = 0;
     this.errorCount = 0;
     this.responseTimeSum = 0;
@@ -424,9 +532,25 @@ export class MonitoringService extends EventEmitter {
     logger.info('Monitoring metrics reset');
   }
 
+  /**
+   * Write metric series changed since the last save to storage
+   */
+  public async persistMetrics(): Promise<void> {
+    const names = Array.from(this.dirtyMetrics);
+    this.dirtyMetrics.clear();
+
+    for (const name of names) {
+      await this.metricsRepository.save(name, { name, points: this.metrics.get(name) || [] });
+    }
+  }
+
   /**
    * Private helper methods
    */
+  private findOpenAlert(key: string): MonitoringAlert | undefined {
+    return Array.from(this.alerts.values()).find(alert => alert.key === key && !alert.resolved);
+  }
+
   private isSignificantMetric(name: string, value: number): boolean {
     // Log slow requests
     if (name.includes('response_time') && value > 5000) return true;
@@ -478,6 +602,37 @@ export class MonitoringService extends EventEmitter {
     }, 60 * 60 * 1000); // Every hour
   }
 
+  private loadStoredMetrics(): void {
+    const cutoffTime = new Date(Date.now() - this.metricsRetentionHours * 60 * 60 * 1000);
+
+    this.metricsRepository.list()
+      .then(series => {
+        series.forEach(({ name, points }) => {
+          const restored = points.filter(point => point.timestamp > cutoffTime);
+          // Points recorded since startup go after the restored ones
+          this.metrics.set(name, [...restored, ...(this.metrics.get(name) || [])]);
+        });
+
+        logger.debug('Stored metrics loaded', { series: series.length });
+      })
+      .catch(error => {
+        logger.error('Failed to load stored metrics', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+  }
+
+  private startMetricsPersistence(): void {
+    // Save changed metrics every minute
+    setInterval(() => {
+      this.persistMetrics().catch(error => {
+        logger.error('Failed to persist metrics', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, 60 * 1000).unref();
+  }
+
   private startSystemMetricsCollection(): void {
     // Collect system metrics every 30 seconds
     setInterval(() => {
@@ -1,9 +1,50 @@
 /**
  * Notification Service
- * Simple stub for notification functionality
+ * Per-user notification inbox with read state and delivery preferences
  */
 
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+
+export type NotificationType =
+  | 'search_started'
+  | 'search_completed'
+  | 'search_failed'
+  | 'data_found'
+  | 'new_exposure'
+  | 'removal_instructions'
+  | 'removal_reminder'
+  | 'removal_completed'
+  | 'system_maintenance'
+  | 'security_alert'
+  | 'subscription_update'
+  | 'subscription_trial_started'
+  | 'subscription_renewed'
+  | 'subscription_expiring'
+  | 'subscription_past_due'
+  | 'subscription_cancelled'
+  | 'subscription_expired'
+  | 'payment_reminder'
+  | 'payment_succeeded'
+  | 'payment_canceled'
+  | 'welcome'
+  | 'info'
+  | 'warning'
+  | 'error';
+
+export type NotificationPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export type NotificationStatus = 'pending' | 'delivered' | 'read' | 'failed' | 'expired';
+
+export type NotificationChannel = 'in_app' | 'email' | 'push' | 'sms' | 'telegram';
+
+// Preference groups users switch on and off; every notification type belongs to one
+export type NotificationCategory = 'search_updates' | 'security_alerts' | 'system_notifications' | 'marketing';
+
+// Language of notifications sent outside the app
+export type NotificationLanguage = 'ru' | 'en';
 
 export interface NotificationData {
   searchId?: string;
@@ -18,11 +59,328 @@ export interface NotificationData {
   botName?: string;
   foundDataCount?: number;
   foundFields?: string[];
+  monitorId?: string;
+  maskedQuery?: string;
+  newBots?: string[];
+  caseId?: string;
   error?: string;
+  paymentId?: string;
+  planId?: string;
+  amount?: string;
+  currency?: string;
+  status?: string;
+  endDate?: string;
+}
+
+export interface StoredNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: NotificationData;
+  priority: NotificationPriority;
+  status: NotificationStatus;
+  // Channels the user had enabled when the notification was created
+  channels: NotificationChannel[];
+  createdAt: Date;
+  updatedAt: Date;
+  readAt?: Date;
+  deliveredAt?: Date;
+}
+
+export interface NotificationPreferences {
+  userId: string;
+  channels: Record<NotificationChannel, boolean>;
+  types: Record<NotificationCategory, boolean>;
+  language: NotificationLanguage;
+  quietHours?: {
+    enabled: boolean;
+    start: string;
+    end: string;
+    timezone: string;
+  };
+  updatedAt?: Date;
+}
+
+// A preferences change: only the channels and kinds given change, and null quiet hours clears them
+export interface NotificationPreferencesUpdate {
+  channels?: Partial<Record<NotificationChannel, boolean>>;
+  types?: Partial<Record<NotificationCategory, boolean>>;
+  language?: NotificationLanguage;
+  quietHours?: NotificationPreferences['quietHours'] | null;
+}
+
+export interface PushSubscription {
+  userId: string;
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  userAgent?: string;
+  createdAt: Date;
+}
+
+// Delivers notifications through a channel other than the in-app inbox
+export interface NotificationChannelHandler {
+  deliver(notification: StoredNotification, preferences: NotificationPreferences): Promise<void>;
+}
+
+export interface CreateNotificationOptions {
+  title?: string;
+  message?: string;
+  priority?: NotificationPriority;
+}
+
+export interface NotificationListOptions {
+  limit?: number;
+  offset?: number;
+  unreadOnly?: boolean;
+  type?: NotificationType;
+  status?: NotificationStatus;
+}
+
+export interface NotificationList {
+  notifications: StoredNotification[];
+  // Matching the filters, before pagination
+  total: number;
+  // Unread notifications in the whole inbox
+  unread: number;
 }
 
-export class NotificationService {
+export type NotificationErrorType = 'VALIDATION_ERROR' | 'NOTIFICATION_NOT_FOUND';
+
+export class NotificationError extends Error {
+  constructor(
+    message: string,
+    public readonly type: NotificationErrorType,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+interface NotificationTemplate {
+  category: NotificationCategory;
+  priority: NotificationPriority;
+  title: string;
+  message: (data: NotificationData) => string;
+}
+
+const formatDate = (value?: string): string =>
+  value ? new Date(value).toLocaleDateString('ru-RU') : '';
+
+const NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  search_started: {
+    category: 'search_updates',
+    priority: 'low',
+    title: 'Поиск запущен',
+    message: () => 'Проверяем источники данных'
+  },
+  search_completed: {
+    category: 'search_updates',
+    priority: 'normal',
+    title: 'Поиск завершён',
+    message: data => `Проверено источников: ${data.totalBotsSearched ?? 0}, найдено записей: ${data.totalRecords ?? 0}`
+  },
+  search_failed: {
+    category: 'search_updates',
+    priority: 'high',
+    title: 'Поиск не удался',
+    message: data => data.error || 'Не удалось выполнить поиск'
+  },
+  data_found: {
+    category: 'search_updates',
+    priority: 'high',
+    title: 'Найдены данные',
+    message: data => `${data.botName || 'Источник'}: найдено полей — ${data.foundDataCount ?? 0}`
+  },
+  new_exposure: {
+    category: 'search_updates',
+    priority: 'high',
+    title: 'Новая утечка данных',
+    message: data => `${data.maskedQuery || 'Ваши данные'}: новые данные в ${data.botName || 'источнике'}`
+  },
+  removal_instructions: {
+    category: 'search_updates',
+    priority: 'normal',
+    title: 'Инструкции по удалению',
+    message: () => 'Подготовлены инструкции по удалению ваших данных'
+  },
+  removal_reminder: {
+    category: 'search_updates',
+    priority: 'normal',
+    title: 'Напоминание об удалении',
+    message: data => `Проверьте, удалил ли ${data.botName || 'источник'} ваши данные`
+  },
+  removal_completed: {
+    category: 'search_updates',
+    priority: 'normal',
+    title: 'Данные удалены',
+    message: data => `${data.botName || 'Источник'} подтвердил удаление данных`
+  },
+  system_maintenance: {
+    category: 'system_notifications',
+    priority: 'normal',
+    title: 'Технические работы',
+    message: () => 'Сервис может быть временно недоступен'
+  },
+  security_alert: {
+    category: 'security_alerts',
+    priority: 'urgent',
+    title: 'Предупреждение безопасности',
+    message: data => data.error || 'Обнаружена подозрительная активность в аккаунте'
+  },
+  subscription_update: {
+    category: 'system_notifications',
+    priority: 'normal',
+    title: 'Подписка изменена',
+    message: data => `Текущий тариф: ${data.planId || 'неизвестен'}`
+  },
+  subscription_trial_started: {
+    category: 'system_notifications',
+    priority: 'normal',
+    title: 'Пробный период начат',
+    message: data => `Пробный период тарифа ${data.planId} действует до ${formatDate(data.endDate)}`
+  },
+  subscription_renewed: {
+    category: 'system_notifications',
+    priority: 'normal',
+    title: 'Подписка продлена',
+    message: data => `Тариф ${data.planId} продлён до ${formatDate(data.endDate)}`
+  },
+  subscription_expiring: {
+    category: 'system_notifications',
+    priority: 'normal',
+    title: 'Подписка скоро закончится',
+    message: data => `Тариф ${data.planId} действует до ${formatDate(data.endDate)}`
+  },
+  subscription_past_due: {
+    category: 'system_notifications',
+    priority: 'high',
+    title: 'Не удалось продлить подписку',
+    message: data => `Списание за тариф ${data.planId} не прошло${data.error ? `: ${data.error}` : ''}`
+  },
+  subscription_cancelled: {
+    category: 'system_notifications',
+    priority: 'normal',
+    title: 'Подписка отменена',
+    message: data => `Тариф ${data.planId} доступен до ${formatDate(data.endDate)}`
+  },
+  subscription_expired: {
+    category: 'system_notifications',
+    priority: 'high',
+    title: 'Подписка закончилась',
+    message: data => `Тариф ${data.planId} больше не активен, подключён бесплатный тариф`
+  },
+  payment_reminder: {
+    category: 'system_notifications',
+    priority: 'normal',
+    title: 'Напоминание об оплате',
+    message: data => `Скоро списание за тариф ${data.planId || ''}`.trim()
+  },
+  payment_succeeded: {
+    category: 'system_notifications',
+    priority: 'normal',
+    title: 'Оплата прошла',
+    message: data => `Оплачено ${data.amount} ${data.currency} за тариф ${data.planId}`
+  },
+  payment_canceled: {
+    category: 'system_notifications',
+    priority: 'high',
+    title: 'Платёж отменён',
+    message: data => `Платёж за тариф ${data.planId} не прошёл${data.error ? `: ${data.error}` : ''}`
+  },
+  welcome: {
+    category: 'system_notifications',
+    priority: 'low',
+    title: 'Добро пожаловать',
+    message: () => 'Проверьте, какие ваши данные доступны в открытых источниках'
+  },
+  info: {
+    category: 'system_notifications',
+    priority: 'low',
+    title: 'Информация',
+    message: () => ''
+  },
+  warning: {
+    category: 'system_notifications',
+    priority: 'normal',
+    title: 'Предупреждение',
+    message: data => data.error || ''
+  },
+  error: {
+    category: 'system_notifications',
+    priority: 'high',
+    title: 'Ошибка',
+    message: data => data.error || ''
+  }
+};
+
+export const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TEMPLATES) as NotificationType[];
+export const NOTIFICATION_STATUSES: NotificationStatus[] = ['pending', 'delivered', 'read', 'failed', 'expired'];
+const NOTIFICATION_PRIORITIES: NotificationPriority[] = ['low', 'normal', 'high', 'urgent'];
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'push', 'sms', 'telegram'];
+const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  'search_updates',
+  'security_alerts',
+  'system_notifications',
+  'marketing'
+];
+
+const NOTIFICATION_LANGUAGES: NotificationLanguage[] = ['ru', 'en'];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Whether a moment falls inside the user's quiet hours. The window may cross midnight.
+ */
+export function isWithinQuietHours(quietHours: NotificationPreferences['quietHours'], now: Date = new Date()): boolean {
+  if (!quietHours?.enabled) {
+    return false;
+  }
+
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: quietHours.timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value);
+
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+
+  const current = part('hour') * 60 + part('minute');
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+export class NotificationService extends EventEmitter {
   private static instance: NotificationService;
+  private notificationsRepository: Repository<StoredNotification>;
+  private preferencesRepository: Repository<NotificationPreferences>;
+  private pushSubscriptionsRepository: Repository<PushSubscription>;
+  private channelHandlers: Map<NotificationChannel, NotificationChannelHandler>;
+
+  private constructor() {
+    super();
+    const storage = getStorage();
+    this.notificationsRepository = storage.repository<StoredNotification>('notifications');
+    this.preferencesRepository = storage.repository<NotificationPreferences>('notification_preferences');
+    this.pushSubscriptionsRepository = storage.repository<PushSubscription>('push_subscriptions');
+    this.channelHandlers = new Map();
+  }
 
   public static getInstance(): NotificationService {
     if (!NotificationService.instance) {
@@ -32,34 +390,406 @@ export class NotificationService {
   }
 
   /**
-   * Create a notification (stub implementation)
+   * Route notifications for a channel to a handler, replacing any previous one
+   */
+  registerChannel(channel: NotificationChannel, handler: NotificationChannelHandler): void {
+    this.channelHandlers.set(channel, handler);
+  }
+
+  /**
+   * Stop delivering notifications through a channel
+   */
+  unregisterChannel(channel: NotificationChannel): void {
+    this.channelHandlers.delete(channel);
+  }
+
+  /**
+   * Create and store a notification. Returns null when the user has turned
+   * off this kind of notification or it could not be stored.
    */
   async createNotification(
     userId: string,
-    type: string,
-    data: NotificationData
-  ): Promise<void> {
+    type: NotificationType,
+    data: NotificationData,
+    options: CreateNotificationOptions = {}
+  ): Promise<StoredNotification | null> {
+    const template = NOTIFICATION_TEMPLATES[type];
+    if (!template) {
+      throw new NotificationError(`Unknown notification type: ${type}`, 'VALIDATION_ERROR', 400);
+    }
+
+    if (options.priority && !NOTIFICATION_PRIORITIES.includes(options.priority)) {
+      throw new NotificationError('Unknown notification priority', 'VALIDATION_ERROR', 400);
+    }
+
     try {
+      const preferences = await this.getUserPreferences(userId);
+      if (!preferences.types[template.category]) {
+        logger.debug('Notification suppressed by user preferences', { userId, type });
+        return null;
+      }
+
+      const now = new Date();
+      const notification: StoredNotification = {
+        id: `notification_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId,
+        type,
+        title: options.title || template.title,
+        message: options.message ?? template.message(data),
+        data,
+        priority: options.priority || template.priority,
+        status: 'pending',
+        channels: NOTIFICATION_CHANNELS.filter(channel => preferences.channels[channel]),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.notificationsRepository.save(notification.id, notification, userId);
+
       logger.info('Notification created', {
         userId,
         type,
         data: {
-          ...data,
           // Remove sensitive data from logs
           searchId: data.searchId,
           searchType: data.searchType,
           count: data.count || data.totalRecords || data.foundDataCount
         }
       });
+
+      this.emit('notification_created', notification);
+      await this.dispatch(notification, preferences);
+      return notification;
     } catch (error) {
       logger.error('Failed to create notification', {
         userId,
         type,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
+      return null;
+    }
+  }
+
+  /**
+   * Record the outcome of an external delivery. Only pending notifications
+   * change status, so a notification the user has already read stays read.
+   */
+  async recordDelivery(notificationId: string, channel: NotificationChannel, delivered: boolean): Promise<void> {
+    const notification = await this.notificationsRepository.get(notificationId);
+    if (!notification) {
+      return;
+    }
+
+    const now = new Date();
+    const updated: StoredNotification = { ...notification, updatedAt: now };
+
+    if (delivered) {
+      updated.deliveredAt = notification.deliveredAt || now;
+      if (notification.status === 'pending' || notification.status === 'failed') {
+        updated.status = 'delivered';
+      }
+    } else if (notification.status === 'pending') {
+      updated.status = 'failed';
+    }
+
+    await this.notificationsRepository.save(updated.id, updated, updated.userId);
+    logger.debug('Notification delivery recorded', { notificationId, channel, delivered });
+  }
+
+  /**
+   * Get a page of the user's notifications, newest first
+   */
+  async getUserNotifications(userId: string, options: NotificationListOptions = {}): Promise<NotificationList> {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = options.offset ?? 0;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new NotificationError(`limit must be between 1 and ${MAX_PAGE_SIZE}`, 'VALIDATION_ERROR', 400);
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new NotificationError('offset must be a non-negative integer', 'VALIDATION_ERROR', 400);
+    }
+    if (options.type && !NOTIFICATION_TEMPLATES[options.type]) {
+      throw new NotificationError('Unknown notification type', 'VALIDATION_ERROR', 400);
+    }
+    if (options.status && !NOTIFICATION_STATUSES.includes(options.status)) {
+      throw new NotificationError('Unknown notification status', 'VALIDATION_ERROR', 400);
+    }
+
+    const all = await this.notificationsRepository.list({ ownerId: userId, order: 'desc' });
+    const matching = all.filter(notification =>
+      (!options.unreadOnly || notification.status !== 'read')
+      && (!options.type || notification.type === options.type)
+      && (!options.status || notification.status === options.status)
+    );
+
+    return {
+      notifications: matching.slice(offset, offset + limit),
+      total: matching.length,
+      unread: all.filter(notification => notification.status !== 'read').length
+    };
+  }
+
+  /**
+   * Count the user's unread notifications
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    const all = await this.notificationsRepository.list({ ownerId: userId });
+    return all.filter(notification => notification.status !== 'read').length;
+  }
+
+  /**
+   * Mark one of the user's notifications as read
+   */
+  async markAsRead(notificationId: string, userId: string): Promise<StoredNotification> {
+    const notification = await this.getOwnNotification(notificationId, userId);
+    if (notification.status === 'read') {
+      return notification;
+    }
+
+    const now = new Date();
+    const updated: StoredNotification = { ...notification, status: 'read', readAt: now, updatedAt: now };
+    await this.notificationsRepository.save(updated.id, updated, userId);
+
+    this.emit('notification_read', updated);
+    return updated;
+  }
+
+  /**
+   * Mark every unread notification of the user as read and return how many changed
+   */
+  async markAllAsRead(userId: string): Promise<number> {
+    const unread = (await this.notificationsRepository.list({ ownerId: userId }))
+      .filter(notification => notification.status !== 'read');
+
+    const now = new Date();
+    for (const notification of unread) {
+      const updated: StoredNotification = { ...notification, status: 'read', readAt: now, updatedAt: now };
+      await this.notificationsRepository.save(updated.id, updated, userId);
+      this.emit('notification_read', updated);
+    }
+
+    return unread.length;
+  }
+
+  /**
+   * Delete one of the user's notifications
+   */
+  async deleteNotification(notificationId: string, userId: string): Promise<void> {
+    const notification = await this.getOwnNotification(notificationId, userId);
+    await this.notificationsRepository.delete(notification.id);
+
+    this.emit('notification_deleted', notification);
+  }
+
+  /**
+   * Get the user's preferences, falling back to the defaults
+   */
+  async getUserPreferences(userId: string): Promise<NotificationPreferences> {
+    const stored = await this.preferencesRepository.get(userId);
+    const defaults = this.getDefaultPreferences(userId);
+
+    return stored
+      ? {
+        ...defaults,
+        ...stored,
+        channels: { ...defaults.channels, ...stored.channels },
+        types: { ...defaults.types, ...stored.types }
+      }
+      : defaults;
+  }
+
+  /**
+   * Merge a partial update into the user's preferences
+   */
+  async updateUserPreferences(
+    userId: string,
+    update: NotificationPreferencesUpdate
+  ): Promise<NotificationPreferences> {
+    this.validatePreferencesUpdate(update);
+
+    const current = await this.getUserPreferences(userId);
+    const preferences: NotificationPreferences = {
+      userId,
+      channels: { ...current.channels, ...update.channels },
+      types: { ...current.types, ...update.types },
+      language: update.language || current.language,
+      // Sending null clears quiet hours
+      quietHours: update.quietHours !== undefined ? update.quietHours || undefined : current.quietHours,
+      updatedAt: new Date()
+    };
+
+    await this.preferencesRepository.save(userId, preferences, userId);
+    logger.info('Notification preferences updated', { userId });
+
+    return preferences;
+  }
+
+  /**
+   * Register a browser push subscription for the user
+   */
+  async subscribeToPush(
+    userId: string,
+    subscription: Pick<PushSubscription, 'endpoint' | 'keys' | 'userAgent'>
+  ): Promise<PushSubscription> {
+    const { endpoint, keys, userAgent } = subscription || {} as PushSubscription;
+
+    if (typeof endpoint !== 'string' || !/^https:\/\//.test(endpoint)) {
+      throw new NotificationError('endpoint must be an https URL', 'VALIDATION_ERROR', 400);
+    }
+    if (typeof keys?.p256dh !== 'string' || typeof keys?.auth !== 'string' || !keys.p256dh || !keys.auth) {
+      throw new NotificationError('keys.p256dh and keys.auth are required', 'VALIDATION_ERROR', 400);
+    }
+
+    // A browser endpoint belongs to whoever subscribed with it last
+    const stored: PushSubscription = {
+      userId,
+      endpoint,
+      keys: { p256dh: keys.p256dh, auth: keys.auth },
+      userAgent: typeof userAgent === 'string' ? userAgent : undefined,
+      createdAt: new Date()
+    };
+    await this.pushSubscriptionsRepository.save(this.pushSubscriptionId(endpoint), stored, userId);
+
+    // Subscribing a browser is an explicit opt-in to push
+    const preferences = await this.getUserPreferences(userId);
+    if (!preferences.channels.push) {
+      await this.updateUserPreferences(userId, { channels: { push: true } });
+    }
+
+    logger.info('Push subscription saved', { userId });
+    return stored;
+  }
+
+  /**
+   * Remove one of the user's push subscriptions; false when it was not registered
+   */
+  async unsubscribeFromPush(userId: string, endpoint: string): Promise<boolean> {
+    if (typeof endpoint !== 'string' || !endpoint) {
+      throw new NotificationError('endpoint is required', 'VALIDATION_ERROR', 400);
+    }
+
+    const id = this.pushSubscriptionId(endpoint);
+    const subscription = await this.pushSubscriptionsRepository.get(id);
+    if (!subscription || subscription.userId !== userId) {
+      return false;
+    }
+
+    return this.pushSubscriptionsRepository.delete(id);
+  }
+
+  /**
+   * Drop a subscription the push service reported as gone
+   */
+  async removePushSubscription(endpoint: string): Promise<boolean> {
+    return this.pushSubscriptionsRepository.delete(this.pushSubscriptionId(endpoint));
+  }
+
+  /**
+   * List the user's push subscriptions
+   */
+  async getPushSubscriptions(userId: string): Promise<PushSubscription[]> {
+    return this.pushSubscriptionsRepository.list({ ownerId: userId });
+  }
+
+  /**
+   * Hand a new notification to the handlers of its external channels
+   */
+  private async dispatch(notification: StoredNotification, preferences: NotificationPreferences): Promise<void> {
+    for (const channel of notification.channels) {
+      const handler = this.channelHandlers.get(channel);
+      if (!handler) {
+        continue;
+      }
+
+      try {
+        await handler.deliver(notification, preferences);
+      } catch (error) {
+        logger.error('Failed to hand notification to channel', {
+          notificationId: notification.id,
+          channel,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  private async getOwnNotification(notificationId: string, userId: string): Promise<StoredNotification> {
+    const notification = await this.notificationsRepository.get(notificationId);
+
+    if (!notification || notification.userId !== userId) {
+      throw new NotificationError('Notification not found', 'NOTIFICATION_NOT_FOUND', 404);
+    }
+
+    return notification;
+  }
+
+  private getDefaultPreferences(userId: string): NotificationPreferences {
+    return {
+      userId,
+      channels: { in_app: true, email: true, push: false, sms: false, telegram: false },
+      types: { search_updates: true, security_alerts: true, system_notifications: true, marketing: false },
+      language: 'ru'
+    };
+  }
+
+  private validatePreferencesUpdate(update: NotificationPreferencesUpdate): void {
+    if (!update || typeof update !== 'object') {
+      throw new NotificationError('Preferences must be an object', 'VALIDATION_ERROR', 400);
+    }
+
+    const checkFlags = (value: unknown, keys: string[], field: string) => {
+      if (value === undefined) {
+        return;
+      }
+      if (!value || typeof value !== 'object') {
+        throw new NotificationError(`${field} must be an object`, 'VALIDATION_ERROR', 400);
+      }
+      for (const [key, flag] of Object.entries(value)) {
+        if (!keys.includes(key) || typeof flag !== 'boolean') {
+          throw new NotificationError(`${field}.${key} must be a known boolean setting`, 'VALIDATION_ERROR', 400);
+        }
+      }
+    };
+
+    checkFlags(update.channels, NOTIFICATION_CHANNELS, 'channels');
+    checkFlags(update.types, NOTIFICATION_CATEGORIES, 'types');
+
+    if (update.language !== undefined && !NOTIFICATION_LANGUAGES.includes(update.language)) {
+      throw new NotificationError('language must be ru or en', 'VALIDATION_ERROR', 400);
     }
+
+    const quietHours = update.quietHours;
+    if (quietHours !== undefined && quietHours !== null) {
+      const validTimezone = typeof quietHours.timezone === 'string' && this.isTimezone(quietHours.timezone);
+      if (
+        typeof quietHours.enabled !== 'boolean'
+        || !TIME_OF_DAY.test(String(quietHours.start))
+        || !TIME_OF_DAY.test(String(quietHours.end))
+        || !validTimezone
+      ) {
+        throw new NotificationError(
+          'quietHours needs enabled, start and end as HH:MM and an IANA timezone',
+          'VALIDATION_ERROR',
+          400
+        );
+      }
+    }
+  }
+
+  private isTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private pushSubscriptionId(endpoint: string): string {
+    return crypto.createHash('sha256').update(endpoint).digest('hex');
   }
 }
 
 // Export singleton instance
-export const notificationService = NotificationService.getInstance();
\ No newline at end of file
+export const notificationService = NotificationService.getInstance();
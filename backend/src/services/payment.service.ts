@@ -0,0 +1,482 @@
+/**
+ * Payment Service
+ * Creates YooKassa payments for paid plans and activates subscriptions once they succeed
+ */
+
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import { tariffService } from './tariff.service';
+import { notificationService } from './notification.service';
+import {
+  YooKassaClient,
+  YooKassaPayment,
+  YooKassaWebhookEvent,
+  verifyWebhookSignature
+} from '../clients/yookassa.client';
+import { Payment, PaymentIdempotencyRecord, PublicPayment } from '../types/payment';
+
+export type PaymentErrorType =
+  | 'VALIDATION_ERROR'
+  | 'PLAN_NOT_FOUND'
+  | 'PAYMENTS_UNAVAILABLE'
+  | 'PAYMENT_NOT_FOUND'
+  | 'IDEMPOTENCY_CONFLICT'
+  | 'INVALID_SIGNATURE'
+  | 'PROVIDER_ERROR';
+
+export class PaymentError extends Error {
+  constructor(
+    message: string,
+    public readonly type: PaymentErrorType,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+export interface CreatePaymentResult {
+  payment: PublicPayment;
+  // False when an earlier request with the same idempotency key created the payment
+  created: boolean;
+}
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 64;
+
+export class PaymentService {
+  private static instance: PaymentService;
+  private paymentsRepository: Repository<Payment>;
+  private idempotencyRepository: Repository<PaymentIdempotencyRecord>;
+  private paymentLocks: Map<string, Promise<unknown>>;
+
+  private constructor() {
+    const storage = getStorage();
+    this.paymentsRepository = storage.repository<Payment>('payments');
+    this.idempotencyRepository = storage.repository<PaymentIdempotencyRecord>('payment_idempotency');
+    this.paymentLocks = new Map();
+
+    logger.info('Payment service initialized');
+  }
+
+  public static getInstance(): PaymentService {
+    if (!PaymentService.instance) {
+      PaymentService.instance = new PaymentService();
+    }
+    return PaymentService.instance;
+  }
+
+  /**
+   * Create a payment for a paid plan and return the URL the user confirms it at.
+   * Retries with the same idempotency key return the original payment.
+   */
+  async createPayment(userId: string, planId: string, idempotencyKey?: string): Promise<CreatePaymentResult> {
+    if (!planId || typeof planId !== 'string') {
+      throw new PaymentError('Plan ID is required', 'VALIDATION_ERROR', 400);
+    }
+
+    if (idempotencyKey !== undefined && (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+      throw new PaymentError(
+        `Idempotency key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+        'VALIDATION_ERROR',
+        400
+      );
+    }
+
+    const plan = tariffService.getTariffPlan(planId);
+    if (!plan || !plan.isActive) {
+      throw new PaymentError('Tariff plan not found', 'PLAN_NOT_FOUND', 404);
+    }
+
+    if (plan.isFree || typeof plan.price !== 'number' || plan.price <= 0) {
+      throw new PaymentError('This plan cannot be purchased online', 'VALIDATION_ERROR', 400);
+    }
+
+    const amount = plan.price.toFixed(2);
+
+    // Keys are scoped per user so different users cannot collide
+    const scopedKey = crypto
+      .createHash('sha256')
+      .update(`${userId}:${idempotencyKey || crypto.randomUUID()}`)
+      .digest('hex');
+
+    return this.withPaymentLock(scopedKey, async () => {
+      if (idempotencyKey) {
+        const existing = await this.idempotencyRepository.get(scopedKey);
+        if (existing) {
+          if (existing.planId !== planId) {
+            throw new PaymentError(
+              'Idempotency key was already used for a different plan',
+              'IDEMPOTENCY_CONFLICT',
+              409
+            );
+          }
+
+          const payment = await this.paymentsRepository.get(existing.paymentId);
+          if (payment) {
+            return { payment: this.toPublicPayment(payment), created: false };
+          }
+        }
+      }
+
+      const { client, returnUrl } = this.getProvider();
+      const paymentId = `payment_${crypto.randomUUID()}`;
+      const description = `Подписка «${plan.name}» на 1 месяц`;
+
+      let remote: YooKassaPayment;
+      try {
+        remote = await client.createPayment(
+          {
+            amount: { value: amount, currency: plan.currency },
+            capture: true,
+            confirmation: {
+              type: 'redirect',
+              return_url: this.buildReturnUrl(returnUrl, paymentId)
+            },
+            save_payment_method: true,
+            description,
+            metadata: { paymentId, userId, planId }
+          },
+          scopedKey
+        );
+      } catch (error) {
+        logger.error('Failed to create YooKassa payment', {
+          userId,
+          planId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        throw new PaymentError('Payment provider is unavailable', 'PROVIDER_ERROR', 502);
+      }
+
+      const now = new Date();
+      const payment: Payment = {
+        id: paymentId,
+        provider: 'yookassa',
+        providerPaymentId: remote.id,
+        kind: 'checkout',
+        userId,
+        planId,
+        amount,
+        currency: plan.currency,
+        status: remote.status,
+        description,
+        confirmationUrl: remote.confirmation?.confirmation_url,
+        idempotencyKey,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.paymentsRepository.save(payment.id, payment, userId);
+
+      if (idempotencyKey) {
+        await this.idempotencyRepository.save(scopedKey, { userId, planId, paymentId, createdAt: now }, userId);
+      }
+
+      logger.info('Payment created', {
+        paymentId,
+        providerPaymentId: remote.id,
+        userId,
+        planId,
+        amount
+      });
+
+      return { payment: this.toPublicPayment(payment), created: true };
+    });
+  }
+
+  /**
+   * Charge a saved payment method to renew a subscription. The idempotency key
+   * should identify the renewal attempt so a repeated run cannot charge twice.
+   * Returns the payment after applying the provider's result.
+   */
+  async chargeRenewal(
+    userId: string,
+    planId: string,
+    paymentMethodId: string,
+    idempotencyKey: string
+  ): Promise<Payment> {
+    const plan = tariffService.getTariffPlan(planId);
+    if (!plan || plan.isFree || typeof plan.price !== 'number') {
+      throw new PaymentError('This plan cannot be renewed automatically', 'VALIDATION_ERROR', 400);
+    }
+
+    const amount = plan.price.toFixed(2);
+    const scopedKey = crypto.createHash('sha256').update(`${userId}:renewal:${idempotencyKey}`).digest('hex');
+
+    const payment = await this.withPaymentLock(scopedKey, async () => {
+      const existing = await this.idempotencyRepository.get(scopedKey);
+      const existingPayment = existing ? await this.paymentsRepository.get(existing.paymentId) : null;
+      if (existingPayment) {
+        return this.syncPayment(existingPayment);
+      }
+
+      const { client } = this.getProvider();
+      const paymentId = `payment_${crypto.randomUUID()}`;
+      const description = `Продление подписки «${plan.name}» на 1 месяц`;
+
+      let remote: YooKassaPayment;
+      try {
+        remote = await client.createPayment(
+          {
+            amount: { value: amount, currency: plan.currency },
+            capture: true,
+            payment_method_id: paymentMethodId,
+            description,
+            metadata: { paymentId, userId, planId }
+          },
+          scopedKey
+        );
+      } catch (error) {
+        logger.error('Failed to charge saved payment method', {
+          userId,
+          planId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        throw new PaymentError('Payment provider is unavailable', 'PROVIDER_ERROR', 502);
+      }
+
+      const now = new Date();
+      const created: Payment = {
+        id: paymentId,
+        provider: 'yookassa',
+        providerPaymentId: remote.id,
+        kind: 'renewal',
+        userId,
+        planId,
+        amount,
+        currency: plan.currency,
+        // Recorded as pending so applyProviderState handles the outcome
+        status: 'pending',
+        description,
+        paymentMethodId,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.paymentsRepository.save(created.id, created, userId);
+      await this.idempotencyRepository.save(scopedKey, { userId, planId, paymentId, createdAt: now }, userId);
+
+      logger.info('Renewal payment created', { paymentId, providerPaymentId: remote.id, userId, planId });
+
+      return this.applyProviderState(created.id, remote);
+    });
+
+    return payment;
+  }
+
+  /**
+   * Get one of the user's payments. Payments still in progress are refreshed
+   * from the provider in case a webhook was missed.
+   */
+  async getPayment(userId: string, paymentId: string): Promise<PublicPayment> {
+    const payment = await this.paymentsRepository.get(paymentId);
+
+    if (!payment || payment.userId !== userId) {
+      throw new PaymentError('Payment not found', 'PAYMENT_NOT_FOUND', 404);
+    }
+
+    return this.toPublicPayment(await this.syncPayment(payment));
+  }
+
+  /**
+   * List the user's payments, newest first
+   */
+  async getUserPayments(userId: string, limit = 50): Promise<PublicPayment[]> {
+    const payments = await this.paymentsRepository.list({ ownerId: userId, order: 'desc', limit });
+    return payments.map(payment => this.toPublicPayment(payment));
+  }
+
+  /**
+   * Process a YooKassa webhook. The body must carry a valid signature, and the
+   * payment state is then re-read from the API rather than trusted from the body.
+   */
+  async handleWebhook(rawBody: Buffer | undefined, signature: string | undefined): Promise<Payment | null> {
+    const { client, webhookSecret } = this.getProvider();
+
+    if (!webhookSecret) {
+      logger.error('YooKassa webhook received but no webhook secret is configured');
+      throw new PaymentError('Webhooks are not configured', 'PAYMENTS_UNAVAILABLE', 503);
+    }
+
+    if (!rawBody || !signature || !verifyWebhookSignature(rawBody, signature, webhookSecret)) {
+      logger.warn('YooKassa webhook with invalid signature rejected');
+      throw new PaymentError('Invalid webhook signature', 'INVALID_SIGNATURE', 401);
+    }
+
+    let event: YooKassaWebhookEvent;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new PaymentError('Invalid webhook body', 'VALIDATION_ERROR', 400);
+    }
+
+    if (event?.type !== 'notification' || !event.object?.id || !event.event?.startsWith('payment.')) {
+      logger.debug('Ignoring YooKassa webhook event', { event: event?.event });
+      return null;
+    }
+
+    let remote: YooKassaPayment;
+    try {
+      remote = await client.getPayment(event.object.id);
+    } catch (error) {
+      logger.error('Failed to fetch payment for webhook', {
+        providerPaymentId: event.object.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new PaymentError('Payment provider is unavailable', 'PROVIDER_ERROR', 502);
+    }
+
+    const paymentId = remote.metadata?.paymentId;
+    const payment = paymentId ? await this.paymentsRepository.get(paymentId) : null;
+
+    if (!payment || payment.providerPaymentId !== remote.id) {
+      logger.warn('YooKassa webhook for unknown payment', { providerPaymentId: remote.id });
+      return null;
+    }
+
+    return this.applyProviderState(payment.id, remote);
+  }
+
+  /**
+   * Store the provider's view of a payment and activate the subscription the
+   * first time it succeeds
+   */
+  private async applyProviderState(paymentId: string, remote: YooKassaPayment): Promise<Payment> {
+    return this.withPaymentLock(paymentId, async () => {
+      const payment = await this.paymentsRepository.get(paymentId);
+      if (!payment) {
+        throw new PaymentError('Payment not found', 'PAYMENT_NOT_FOUND', 404);
+      }
+
+      if (payment.status === remote.status || this.isFinal(payment)) {
+        return payment;
+      }
+
+      const now = new Date();
+      const updated: Payment = {
+        ...payment,
+        status: remote.status,
+        updatedAt: now,
+        failureReason: remote.cancellation_details?.reason
+      };
+
+      if (remote.payment_method?.saved) {
+        updated.paymentMethodId = remote.payment_method.id;
+      }
+
+      if (remote.status === 'succeeded') {
+        updated.paidAt = remote.captured_at ? new Date(remote.captured_at) : now;
+        await tariffService.activateSubscription(payment.userId, payment.planId, {
+          paymentMethod: 'yookassa',
+          paymentMethodId: updated.paymentMethodId
+        });
+      }
+
+      await this.paymentsRepository.save(updated.id, updated, updated.userId);
+
+      logger.info('Payment status updated', {
+        paymentId,
+        from: payment.status,
+        to: updated.status
+      });
+
+      if (remote.status === 'succeeded' || remote.status === 'canceled') {
+        await notificationService.createNotification(
+          payment.userId,
+          remote.status === 'succeeded' ? 'payment_succeeded' : 'payment_canceled',
+          {
+            paymentId,
+            planId: payment.planId,
+            amount: payment.amount,
+            currency: payment.currency,
+            error: updated.failureReason
+          }
+        );
+      }
+
+      return updated;
+    });
+  }
+
+  /**
+   * Refresh a payment that is still in progress from the provider. Falls back
+   * to the stored state when the provider cannot be reached.
+   */
+  private async syncPayment(payment: Payment): Promise<Payment> {
+    if (this.isFinal(payment)) {
+      return payment;
+    }
+
+    try {
+      const { client } = this.getProvider();
+      const remote = await client.getPayment(payment.providerPaymentId);
+      return await this.applyProviderState(payment.id, remote);
+    } catch (error) {
+      logger.warn('Failed to refresh payment status', {
+        paymentId: payment.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return payment;
+    }
+  }
+
+  private getProvider(): { client: YooKassaClient; returnUrl: string; webhookSecret: string } {
+    const integration = tariffService.getPaymentIntegration('yookassa');
+
+    if (!integration) {
+      throw new PaymentError('Online payments are not available', 'PAYMENTS_UNAVAILABLE', 503);
+    }
+
+    const { apiUrl, shopId, secretKey, returnUrl, webhookSecret } = integration.configuration;
+
+    return {
+      client: new YooKassaClient({ apiUrl, shopId, secretKey }),
+      returnUrl: returnUrl || `${process.env.FRONTEND_URL || 'http://localhost:3001'}/tariffs`,
+      webhookSecret: webhookSecret || ''
+    };
+  }
+
+  private buildReturnUrl(returnUrl: string, paymentId: string): string {
+    const url = new URL(returnUrl);
+    url.searchParams.set('paymentId', paymentId);
+    return url.toString();
+  }
+
+  private isFinal(payment: Payment): boolean {
+    return payment.status === 'succeeded' || payment.status === 'canceled';
+  }
+
+  private toPublicPayment(payment: Payment): PublicPayment {
+    return {
+      id: payment.id,
+      kind: payment.kind,
+      planId: payment.planId,
+      amount: payment.amount,
+      currency: payment.currency,
+      status: payment.status,
+      description: payment.description,
+      confirmationUrl: this.isFinal(payment) ? undefined : payment.confirmationUrl,
+      failureReason: payment.failureReason,
+      createdAt: payment.createdAt,
+      paidAt: payment.paidAt
+    };
+  }
+
+  private async withPaymentLock<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.paymentLocks.get(key) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    const settled = current.catch(() => undefined);
+
+    this.paymentLocks.set(key, settled);
+    settled.then(() => {
+      if (this.paymentLocks.get(key) === settled) {
+        this.paymentLocks.delete(key);
+      }
+    });
+
+    return current;
+  }
+}
+
+// Export singleton instance
+export const paymentService = PaymentService.getInstance();
@@ -0,0 +1,135 @@
+/**
+ * Profile Merge Service
+ * Clusters equivalent values found by different bots into a single exposure profile
+ */
+
+import { SearchResult, FoundDataItem } from '../types/search';
+import { DataCategory, MergedProfile, MergedProfileValue, ExposureSource } from '../types/person';
+import { normalizePhone, normalizeEmail } from '../normalizers';
+import { nameComparisonKey } from '../normalizers/transliteration';
+
+interface ValueCluster {
+  category: DataCategory;
+  field: string;
+  counts: Map<string, number>;
+  sources: ExposureSource[];
+  botIds: Set<string>;
+}
+
+export class ProfileMergeService {
+  private static instance: ProfileMergeService;
+
+  public static getInstance(): ProfileMergeService {
+    if (!ProfileMergeService.instance) {
+      ProfileMergeService.instance = new ProfileMergeService();
+    }
+    return ProfileMergeService.instance;
+  }
+
+  /**
+   * Build the merged exposure profile from per-bot results
+   */
+  buildProfile(results: SearchResult[]): MergedProfile {
+    const clusters = new Map<string, ValueCluster>();
+
+    for (const result of results) {
+      for (const item of result.foundData || []) {
+        const category = item.category || 'other';
+        const key = `${category}:${item.field}:${this.comparisonKey(category, item)}`;
+
+        let cluster = clusters.get(key);
+        if (!cluster) {
+          cluster = {
+            category,
+            field: item.field,
+            counts: new Map(),
+            sources: [],
+            botIds: new Set()
+          };
+          clusters.set(key, cluster);
+        }
+
+        cluster.counts.set(item.value, (cluster.counts.get(item.value) || 0) + 1);
+        cluster.botIds.add(result.botId);
+
+        const sourceDatabase = item.source && item.source !== result.botId ? item.source : undefined;
+        const alreadyListed = cluster.sources.some(source =>
+          source.botId === result.botId && source.sourceDatabase === sourceDatabase
+        );
+        if (!alreadyListed) {
+          cluster.sources.push({
+            botId: result.botId,
+            botName: result.botName,
+            sourceDatabase,
+            leakDate: item.leakDate
+          });
+        }
+      }
+    }
+
+    const values = Array.from(clusters.values())
+      .map(cluster => this.toMergedValue(cluster))
+      .sort((a, b) => b.botCount - a.botCount || a.category.localeCompare(b.category));
+
+    const byCategory: Partial<Record<DataCategory, MergedProfileValue[]>> = {};
+    values.forEach(value => {
+      byCategory[value.category] = [...(byCategory[value.category] || []), value];
+    });
+
+    return {
+      values,
+      byCategory,
+      totalUniqueValues: values.length,
+      totalBotsContributing: new Set(values.flatMap(value => value.sources.map(source => source.botId))).size
+    };
+  }
+
+  /**
+   * Confidence that a value really belongs to the person: grows with the number
+   * of independent bots that returned it (0.5 for one bot, 0.75 for two, ...)
+   */
+  calculateConfidence(botCount: number): number {
+    return Math.round((1 - Math.pow(0.5, botCount)) * 100) / 100;
+  }
+
+  /**
+   * Build the key under which equivalent values are clustered
+   */
+  private comparisonKey(category: DataCategory, item: FoundDataItem): string {
+    switch (category) {
+      case 'phone':
+        return normalizePhone(item.value);
+      case 'email':
+        return normalizeEmail(item.value);
+      case 'name':
+        return nameComparisonKey(item.value);
+      case 'document':
+      case 'vehicle':
+        return item.value.replace(/[\s-]/g, '').toUpperCase();
+      default:
+        return item.value.toLowerCase().replace(/[.,;:"'«»]/g, '').replace(/\s+/g, ' ').trim();
+    }
+  }
+
+  private toMergedValue(cluster: ValueCluster): MergedProfileValue {
+    // Prefer the most frequent spelling; among ties prefer Cyrillic for names
+    const variants = Array.from(cluster.counts.entries())
+      .sort(([aValue, aCount], [bValue, bCount]) =>
+        bCount - aCount || Number(/[а-яё]/i.test(bValue)) - Number(/[а-яё]/i.test(aValue))
+      )
+      .map(([value]) => value);
+
+    return {
+      category: cluster.category,
+      field: cluster.field,
+      value: variants[0],
+      variants,
+      sources: cluster.sources,
+      botCount: cluster.botIds.size,
+      confidence: this.calculateConfidence(cluster.botIds.size)
+    };
+  }
+}
+
+// Export singleton instance
+export const profileMergeService = ProfileMergeService.getInstance();
@@ -0,0 +1,193 @@
+/**
+ * Provider Balance Service
+ * Polls the prepaid balances of upstreams that report one. A balance below
+ * its threshold raises a monitoring alert and takes the bot out of searches;
+ * the bot comes back once the balance is topped up again.
+ */
+
+import { logger } from '../utils/logger';
+import { ApiManagerService, BotConfig } from './api-manager.service';
+import { monitoringService } from './monitoring.service';
+
+export interface ProviderBalanceConfig {
+  pollIntervalMs: number;
+  // Rubles below which a bot is alerted on and disabled
+  lowBalanceThreshold: number;
+  // Per-bot thresholds overriding lowBalanceThreshold
+  thresholds: Record<string, number>;
+  autoDisable: boolean;
+}
+
+export interface ProviderBalance {
+  botId: string;
+  // null when the upstream did not report it on the last check
+  balance: number | null;
+  threshold: number;
+  low: boolean;
+  // Set while this service keeps the bot out of searches
+  autoDisabled: boolean;
+  checkedAt: Date;
+}
+
+const alertKey = (botId: string): string => `provider_balance_low:${botId}`;
+
+export class ProviderBalanceService {
+  private static instance: ProviderBalanceService;
+  private config: ProviderBalanceConfig;
+  private balances: Map<string, ProviderBalance> = new Map();
+  // Bots this service disabled; bots disabled by an operator are never re-enabled here
+  private autoDisabled: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  private constructor() {
+    this.config = {
+      pollIntervalMs: parseInt(process.env.PROVIDER_BALANCE_POLL_MINUTES || '30', 10) * 60 * 1000,
+      lowBalanceThreshold: parseFloat(process.env.PROVIDER_LOW_BALANCE_THRESHOLD || '100'),
+      thresholds: {},
+      autoDisable: process.env.PROVIDER_AUTO_DISABLE !== 'false'
+    };
+  }
+
+  public static getInstance(): ProviderBalanceService {
+    if (!ProviderBalanceService.instance) {
+      ProviderBalanceService.instance = new ProviderBalanceService();
+    }
+    return ProviderBalanceService.instance;
+  }
+
+  /**
+   * Start polling balances periodically, with a first check right away
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const poll = () => {
+      this.pollBalances().catch(error => {
+        logger.error('Provider balance polling failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    };
+
+    this.timer = setInterval(poll, this.config.pollIntervalMs);
+    this.timer.unref();
+    poll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  configure(config: Partial<ProviderBalanceConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Latest known balance of every upstream that reports one
+   */
+  getBalances(): ProviderBalance[] {
+    return Array.from(this.balances.values());
+  }
+
+  /**
+   * Check every balance once and act on the ones below their threshold
+   */
+  async pollBalances(): Promise<ProviderBalance[]> {
+    if (this.polling) {
+      return this.getBalances();
+    }
+
+    this.polling = true;
+    try {
+      const bots = ApiManagerService.getInstance().getBots().filter(bot => bot.client.getBalance);
+
+      for (const bot of bots) {
+        await this.checkBot(bot);
+      }
+
+      return this.getBalances();
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async checkBot(bot: BotConfig): Promise<void> {
+    const threshold = this.config.thresholds[bot.id] ?? this.config.lowBalanceThreshold;
+    let balance: number | null = null;
+
+    try {
+      balance = await bot.client.getBalance!();
+    } catch (error) {
+      logger.warn('Failed to read provider balance', {
+        botId: bot.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    const previous = this.balances.get(bot.id);
+
+    if (balance === null) {
+      // Keep acting on the last balance we know rather than guessing
+      this.balances.set(bot.id, {
+        botId: bot.id,
+        balance: null,
+        threshold,
+        low: previous?.low ?? false,
+        autoDisabled: this.autoDisabled.has(bot.id),
+        checkedAt: new Date()
+      });
+      return;
+    }
+
+    monitoringService.recordMetric('provider_balance', balance, 'RUB', { botId: bot.id });
+
+    const low = balance < threshold;
+    if (low) {
+      this.handleLowBalance(bot, balance, threshold);
+    } else {
+      this.handleRecoveredBalance(bot, balance);
+    }
+
+    this.balances.set(bot.id, {
+      botId: bot.id,
+      balance,
+      threshold,
+      low,
+      autoDisabled: this.autoDisabled.has(bot.id),
+      checkedAt: new Date()
+    });
+  }
+
+  private handleLowBalance(bot: BotConfig, balance: number, threshold: number): void {
+    monitoringService.raiseAlert(
+      alertKey(bot.id),
+      'critical',
+      `Balance of ${bot.name} is below ${threshold} RUB`,
+      { botId: bot.id, balance, threshold }
+    );
+
+    if (this.config.autoDisable && bot.isActive) {
+      ApiManagerService.getInstance().setBotSuspended(bot.id, true);
+      this.autoDisabled.add(bot.id);
+      logger.warn('Bot disabled on low provider balance', { botId: bot.id, balance, threshold });
+    }
+  }
+
+  private handleRecoveredBalance(bot: BotConfig, balance: number): void {
+    monitoringService.resolveAlertByKey(alertKey(bot.id));
+
+    if (this.autoDisabled.delete(bot.id)) {
+      ApiManagerService.getInstance().setBotSuspended(bot.id, false);
+      logger.info('Bot re-enabled after provider balance top-up', { botId: bot.id, balance });
+    }
+  }
+}
+
+// Export singleton instance
+export const providerBalanceService = ProviderBalanceService.getInstance();
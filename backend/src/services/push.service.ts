@@ -0,0 +1,204 @@
+/**
+ * Push Service
+ * Web Push channel for notifications, signed with VAPID keys
+ */
+
+import webpush, { WebPushError } from 'web-push';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import {
+  notificationService,
+  isWithinQuietHours,
+  NotificationChannelHandler,
+  NotificationPreferences,
+  NotificationPriority,
+  StoredNotification
+} from './notification.service';
+
+export interface PushConfig {
+  publicKey: string;
+  privateKey: string;
+  // Contact for push services: a mailto: or https: URL
+  subject: string;
+  ttlSeconds: number;
+}
+
+// VAPID key pair kept in storage when none is configured
+export interface StoredVapidKeys {
+  publicKey: string;
+  privateKey: string;
+  createdAt: Date;
+}
+
+// Payload read by the frontend service worker
+export interface PushPayload {
+  notificationId: string;
+  type: string;
+  title: string;
+  body: string;
+  priority: NotificationPriority;
+  url: string;
+  createdAt: string;
+}
+
+const VAPID_KEYS_SETTING = 'vapid_keys';
+
+const URGENCY: Record<NotificationPriority, webpush.Urgency> = {
+  low: 'low',
+  normal: 'normal',
+  high: 'high',
+  urgent: 'high'
+};
+
+export class PushService implements NotificationChannelHandler {
+  private static instance: PushService;
+  private config: PushConfig;
+  private settingsRepository: Repository<StoredVapidKeys>;
+  private keysReady: Promise<void> | null = null;
+
+  private constructor() {
+    this.settingsRepository = getStorage().repository<StoredVapidKeys>('app_settings');
+    this.config = {
+      publicKey: process.env.VAPID_PUBLIC_KEY || '',
+      privateKey: process.env.VAPID_PRIVATE_KEY || '',
+      subject: process.env.VAPID_SUBJECT || 'mailto:support@datatrace.local',
+      ttlSeconds: parseInt(process.env.PUSH_TTL_SECONDS || '86400', 10)
+    };
+  }
+
+  public static getInstance(): PushService {
+    if (!PushService.instance) {
+      PushService.instance = new PushService();
+    }
+    return PushService.instance;
+  }
+
+  /**
+   * Load the VAPID keys and register the push channel
+   */
+  async start(): Promise<void> {
+    await this.ensureKeys();
+    notificationService.registerChannel('push', this);
+    logger.info('Push notifications enabled');
+  }
+
+  /**
+   * Unregister the push channel
+   */
+  stop(): void {
+    notificationService.unregisterChannel('push');
+  }
+
+  /**
+   * Public VAPID key browsers pass as applicationServerKey when subscribing
+   */
+  async getPublicKey(): Promise<string> {
+    await this.ensureKeys();
+    return this.config.publicKey;
+  }
+
+  /**
+   * Send a notification to every browser the user subscribed. Nothing is sent
+   * during quiet hours unless the notification is urgent.
+   */
+  async deliver(notification: StoredNotification, preferences: NotificationPreferences): Promise<void> {
+    if (notification.priority !== 'urgent' && isWithinQuietHours(preferences.quietHours)) {
+      logger.debug('Push skipped during quiet hours', { notificationId: notification.id });
+      return;
+    }
+
+    const subscriptions = await notificationService.getPushSubscriptions(notification.userId);
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    await this.ensureKeys();
+    const payload = JSON.stringify(this.toPayload(notification));
+    let delivered = 0;
+
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: subscription.keys },
+          payload,
+          {
+            vapidDetails: {
+              subject: this.config.subject,
+              publicKey: this.config.publicKey,
+              privateKey: this.config.privateKey
+            },
+            TTL: this.config.ttlSeconds,
+            urgency: URGENCY[notification.priority],
+            timeout: 10000
+          }
+        );
+        delivered++;
+      } catch (error) {
+        // 404 and 410 mean the browser unsubscribed or the subscription expired
+        if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          await notificationService.removePushSubscription(subscription.endpoint);
+          logger.info('Removed expired push subscription', {
+            userId: notification.userId,
+            statusCode: error.statusCode
+          });
+          continue;
+        }
+
+        logger.warn('Push delivery failed', {
+          notificationId: notification.id,
+          userId: notification.userId,
+          statusCode: error instanceof WebPushError ? error.statusCode : undefined,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    await notificationService.recordDelivery(notification.id, 'push', delivered > 0);
+  }
+
+  private toPayload(notification: StoredNotification): PushPayload {
+    const billing = notification.type.startsWith('subscription_') || notification.type.startsWith('payment_');
+
+    return {
+      notificationId: notification.id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.message,
+      priority: notification.priority,
+      url: billing ? '/tariffs' : notification.type === 'new_exposure' ? '/monitors' : '/',
+      createdAt: notification.createdAt.toISOString()
+    };
+  }
+
+  /**
+   * Use the configured key pair, or the stored one, generating and storing a
+   * pair on first start so browser subscriptions survive restarts
+   */
+  private ensureKeys(): Promise<void> {
+    if (!this.keysReady) {
+      this.keysReady = this.loadKeys().catch(error => {
+        this.keysReady = null;
+        throw error;
+      });
+    }
+    return this.keysReady;
+  }
+
+  private async loadKeys(): Promise<void> {
+    if (this.config.publicKey && this.config.privateKey) {
+      return;
+    }
+
+    let keys = await this.settingsRepository.get(VAPID_KEYS_SETTING);
+    if (!keys) {
+      keys = { ...webpush.generateVAPIDKeys(), createdAt: new Date() };
+      await this.settingsRepository.save(VAPID_KEYS_SETTING, keys);
+      logger.warn('Generated VAPID keys; set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY to manage them yourself');
+    }
+
+    this.config = { ...this.config, publicKey: keys.publicKey, privateKey: keys.privateKey };
+  }
+}
+
+// Export singleton instance
+export const pushService = PushService.getInstance();
@@ -0,0 +1,566 @@
+/**
+ * Removal Case Service
+ * Tracks the removal requests users send to bots: which identifiers were
+ * submitted, the ticket number the bot gave, and where the request stands.
+ * Stale cases get reminders, and submitted cases are checked with a
+ * re-search that marks them verified once the bot stops returning data.
+ */
+
+import { randomBytes } from 'crypto';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import { serialize, deserialize } from '../storage/serialization';
+import { SearchRequest, SearchResult, SearchStatus, SearchType } from '../types/search';
+import { SearchService } from './search.service';
+import { SecurityService, EncryptedData } from './security.service';
+import { ValidationService } from './validation.service';
+import { notificationService } from './notification.service';
+import { instructionGenerator } from './instruction-generator.service';
+import { maskSearchQuery } from './search-history.service';
+
+export interface RemovalCaseConfig {
+  // How often due reminders and verifications are looked for
+  pollIntervalMs: number;
+  // Days without a status change before the user is reminded
+  staleAfterDays: number;
+  // Days after submission before the first re-search, and between re-searches
+  verifyAfterDays: number;
+  // Minutes after a check before the user can have the case searched again
+  verifyCooldownMinutes: number;
+  maxIdentifiers: number;
+  batchSize: number;
+}
+
+export type RemovalCaseStatus = 'planned' | 'submitted' | 'confirmed' | 'rejected' | 'verified';
+
+// Statuses users set themselves; 'verified' only comes from a re-search
+export const USER_REMOVAL_CASE_STATUSES: RemovalCaseStatus[] = ['planned', 'submitted', 'confirmed', 'rejected'];
+
+export type RemovalVerificationResult = 'cleared' | 'data_found' | 'inconclusive';
+
+export interface RemovalVerification {
+  checkedAt: Date;
+  result: RemovalVerificationResult;
+  // Fields the bot still returned
+  remainingFields?: string[];
+}
+
+export interface RemovalCaseIdentifier {
+  searchType: SearchType;
+  maskedQuery: string;
+}
+
+// Stored form of a case; the identifiers are encrypted
+export interface StoredRemovalCase {
+  id: string;
+  userId: string;
+  botId: string;
+  botName: string;
+  identifiers: EncryptedData;
+  maskedIdentifiers: RemovalCaseIdentifier[];
+  status: RemovalCaseStatus;
+  ticketNumber?: string;
+  submittedAt?: Date;
+  notes?: string;
+  statusHistory: Array<{ status: RemovalCaseStatus; at: Date }>;
+  lastVerification?: RemovalVerification;
+  lastReminderAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RemovalCase {
+  id: string;
+  botId: string;
+  botName: string;
+  identifiers: RemovalCaseIdentifier[];
+  status: RemovalCaseStatus;
+  ticketNumber?: string;
+  submittedAt?: Date;
+  notes?: string;
+  statusHistory: Array<{ status: RemovalCaseStatus; at: Date }>;
+  lastVerification?: RemovalVerification;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateRemovalCaseInput {
+  botId: string;
+  identifiers: SearchRequest[];
+  status?: RemovalCaseStatus;
+  ticketNumber?: string;
+  submittedAt?: Date;
+  notes?: string;
+}
+
+export interface UpdateRemovalCaseInput {
+  status?: RemovalCaseStatus;
+  ticketNumber?: string | null;
+  submittedAt?: Date | null;
+  notes?: string | null;
+}
+
+export type RemovalCaseErrorType =
+  | 'CASE_NOT_FOUND'
+  | 'UNKNOWN_BOT'
+  | 'INVALID_STATUS'
+  | 'VERIFY_COOLDOWN'
+  | 'VALIDATION_ERROR';
+
+export class RemovalCaseError extends Error {
+  constructor(
+    message: string,
+    public readonly type: RemovalCaseErrorType,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'RemovalCaseError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TEXT_LENGTH = 500;
+
+// Cases still waiting on the bot
+const OPEN_STATUSES: RemovalCaseStatus[] = ['planned', 'submitted', 'confirmed'];
+
+// Cases the bot should already have acted on
+const VERIFIABLE_STATUSES: RemovalCaseStatus[] = ['submitted', 'confirmed'];
+
+const hasData = (result: SearchResult): boolean => result.hasData && result.foundData.length > 0;
+
+const answered = (result: SearchResult | undefined): boolean =>
+  result !== undefined && (result.status === SearchStatus.SUCCESS || result.status === SearchStatus.NO_DATA);
+
+export class RemovalCaseService {
+  private static instance: RemovalCaseService;
+  private config: RemovalCaseConfig;
+  private casesRepository: Repository<StoredRemovalCase>;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  private constructor() {
+    this.casesRepository = getStorage().repository<StoredRemovalCase>('removal_cases');
+    this.config = {
+      pollIntervalMs: 60 * 60 * 1000,
+      staleAfterDays: parseInt(process.env.REMOVAL_CASE_STALE_DAYS || '14', 10),
+      verifyAfterDays: parseInt(process.env.REMOVAL_CASE_VERIFY_AFTER_DAYS || '3', 10),
+      verifyCooldownMinutes: parseInt(process.env.REMOVAL_CASE_VERIFY_COOLDOWN_MINUTES || '60', 10),
+      maxIdentifiers: 5,
+      batchSize: 100
+    };
+  }
+
+  public static getInstance(): RemovalCaseService {
+    if (!RemovalCaseService.instance) {
+      RemovalCaseService.instance = new RemovalCaseService();
+    }
+    return RemovalCaseService.instance;
+  }
+
+  /**
+   * Start sending reminders and verifying cases periodically
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => {
+        logger.error('Removal case processing failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.config.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  configure(config: Partial<RemovalCaseConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Open a case for a removal request to one bot
+   */
+  async create(userId: string, input: CreateRemovalCaseInput): Promise<RemovalCase> {
+    const template = instructionGenerator.getBotTemplate(input.botId || '');
+    if (!template) {
+      throw new RemovalCaseError('Unknown bot', 'UNKNOWN_BOT', 400);
+    }
+
+    const identifiers = this.validateIdentifiers(input.identifiers);
+    const status = input.status ?? 'planned';
+    this.assertUserStatus(status);
+
+    const now = new Date();
+    const removalCase: StoredRemovalCase = {
+      id: `case_${randomBytes(16).toString('hex')}`,
+      userId,
+      botId: input.botId.toLowerCase(),
+      botName: template.encryptedName,
+      identifiers: this.encrypt(identifiers),
+      maskedIdentifiers: identifiers.map(identifier => ({
+        searchType: identifier.type,
+        maskedQuery: maskSearchQuery(identifier.type, identifier.value)
+      })),
+      status,
+      ticketNumber: this.optionalText(input.ticketNumber, 'ticketNumber'),
+      submittedAt: this.optionalDate(input.submittedAt) ?? (status === 'planned' ? undefined : now),
+      notes: this.optionalText(input.notes, 'notes'),
+      statusHistory: [{ status, at: now }],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.casesRepository.save(removalCase.id, removalCase, userId);
+    logger.info('Removal case created', { userId, caseId: removalCase.id, botId: removalCase.botId, status });
+
+    return this.toCase(removalCase);
+  }
+
+  /**
+   * The user's cases, most recently updated first
+   */
+  async list(userId: string, botId?: string): Promise<RemovalCase[]> {
+    const cases = await this.listAll({ ownerId: userId });
+
+    return cases
+      .filter(removalCase => !botId || removalCase.botId === botId.toLowerCase())
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(removalCase => this.toCase(removalCase));
+  }
+
+  async get(userId: string, id: string): Promise<RemovalCase> {
+    return this.toCase(await this.findCase(userId, id));
+  }
+
+  /**
+   * Change the status, ticket number, submission date or notes. Passing
+   * null clears a field.
+   */
+  async update(userId: string, id: string, input: UpdateRemovalCaseInput): Promise<RemovalCase> {
+    const removalCase = await this.findCase(userId, id);
+    const now = new Date();
+    const updated: StoredRemovalCase = { ...removalCase };
+
+    if (input.status !== undefined && input.status !== removalCase.status) {
+      this.assertUserStatus(input.status);
+      updated.status = input.status;
+      updated.statusHistory = [...removalCase.statusHistory, { status: input.status, at: now }];
+      updated.lastReminderAt = undefined;
+
+      if (input.status === 'submitted' && !removalCase.submittedAt) {
+        updated.submittedAt = now;
+      }
+    }
+
+    if (input.ticketNumber !== undefined) {
+      updated.ticketNumber = this.optionalText(input.ticketNumber, 'ticketNumber');
+    }
+    if (input.submittedAt !== undefined) {
+      updated.submittedAt = this.optionalDate(input.submittedAt);
+    }
+    if (input.notes !== undefined) {
+      updated.notes = this.optionalText(input.notes, 'notes');
+    }
+
+    await this.save(updated);
+    logger.info('Removal case updated', { userId, caseId: id, status: updated.status });
+
+    return this.toCase(updated);
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    await this.findCase(userId, id);
+    await this.casesRepository.delete(id);
+    logger.info('Removal case deleted', { userId, caseId: id });
+  }
+
+  /**
+   * The case, if the user may have it verified now. Each verification is a
+   * paid upstream search per identifier, so a case is not searched again on
+   * request within the cooldown after its last check.
+   */
+  async getForVerification(userId: string, id: string, now: Date = new Date()): Promise<RemovalCase> {
+    const removalCase = await this.findCase(userId, id);
+    const checkedAt = removalCase.lastVerification?.checkedAt;
+
+    if (checkedAt) {
+      const nextAllowedAt = new Date(checkedAt.getTime() + this.config.verifyCooldownMinutes * 60 * 1000);
+
+      if (now < nextAllowedAt) {
+        throw new RemovalCaseError(
+          `The case was checked recently; it can be checked again after ${nextAllowedAt.toISOString()}`,
+          'VERIFY_COOLDOWN',
+          429
+        );
+      }
+    }
+
+    return this.toCase(removalCase);
+  }
+
+  /**
+   * Search the case's bot for each identifier again. When the bot answers
+   * and returns nothing for all of them, the case is marked verified.
+   */
+  async verify(userId: string, id: string): Promise<RemovalCase> {
+    return this.toCase(await this.runVerification(await this.findCase(userId, id), new Date()));
+  }
+
+  /**
+   * Verify submitted cases that are due a re-search and remind users about
+   * open cases whose status has not changed for a while
+   */
+  async processDue(now: Date = new Date()): Promise<{ verified: number; reminded: number }> {
+    if (this.processing) {
+      return { verified: 0, reminded: 0 };
+    }
+
+    this.processing = true;
+    try {
+      const cases = await this.listAll({});
+      let verified = 0;
+      let reminded = 0;
+
+      for (const removalCase of cases) {
+        let current = removalCase;
+
+        if (this.isVerificationDue(current, now)) {
+          current = await this.runVerification(current, now);
+          verified += current.status === 'verified' ? 1 : 0;
+        }
+
+        if (this.isReminderDue(current, now)) {
+          await this.remind(current, now);
+          reminded++;
+        }
+      }
+
+      return { verified, reminded };
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private isVerificationDue(removalCase: StoredRemovalCase, now: Date): boolean {
+    if (!VERIFIABLE_STATUSES.includes(removalCase.status)) {
+      return false;
+    }
+
+    const since = removalCase.lastVerification?.checkedAt ?? removalCase.submittedAt ?? removalCase.createdAt;
+    return now.getTime() - since.getTime() >= this.config.verifyAfterDays * DAY_MS;
+  }
+
+  private isReminderDue(removalCase: StoredRemovalCase, now: Date): boolean {
+    if (!OPEN_STATUSES.includes(removalCase.status)) {
+      return false;
+    }
+
+    const lastChange = removalCase.statusHistory[removalCase.statusHistory.length - 1].at;
+    const since = removalCase.lastReminderAt && removalCase.lastReminderAt > lastChange
+      ? removalCase.lastReminderAt
+      : lastChange;
+
+    return now.getTime() - since.getTime() >= this.config.staleAfterDays * DAY_MS;
+  }
+
+  private async runVerification(removalCase: StoredRemovalCase, now: Date): Promise<StoredRemovalCase> {
+    const identifiers = this.decrypt<SearchRequest[]>(removalCase.identifiers);
+    const remainingFields = new Set<string>();
+    let inconclusive = false;
+
+    for (const identifier of identifiers) {
+      try {
+        // Not added to the user's history or inbox; only the upstream spend is theirs
+        const results = await SearchService.getInstance().searchWithSpecificBots(identifier, [removalCase.botId], {
+          userId: removalCase.userId
+        });
+        const result = results.results.find(item => item.botId === removalCase.botId);
+
+        if (!answered(result)) {
+          inconclusive = true;
+        } else if (hasData(result!)) {
+          result!.foundData.forEach(item => remainingFields.add(item.field));
+        }
+      } catch (error) {
+        logger.warn('Removal case re-search failed', {
+          caseId: removalCase.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        inconclusive = true;
+      }
+    }
+
+    const result: RemovalVerificationResult = remainingFields.size > 0
+      ? 'data_found'
+      : inconclusive ? 'inconclusive' : 'cleared';
+
+    const updated: StoredRemovalCase = {
+      ...removalCase,
+      lastVerification: {
+        checkedAt: now,
+        result,
+        remainingFields: result === 'data_found' ? Array.from(remainingFields) : undefined
+      }
+    };
+
+    if (result === 'cleared' && removalCase.status !== 'verified') {
+      updated.status = 'verified';
+      updated.statusHistory = [...removalCase.statusHistory, { status: 'verified', at: now }];
+    }
+
+    await this.save(updated);
+    logger.info('Removal case verified', { caseId: removalCase.id, botId: removalCase.botId, result });
+
+    if (updated.status === 'verified' && removalCase.status !== 'verified') {
+      await notificationService.createNotification(removalCase.userId, 'removal_completed', {
+        caseId: removalCase.id,
+        botId: removalCase.botId,
+        botName: removalCase.botName
+      });
+    }
+
+    return updated;
+  }
+
+  private async remind(removalCase: StoredRemovalCase, now: Date): Promise<void> {
+    await notificationService.createNotification(removalCase.userId, 'removal_reminder', {
+      caseId: removalCase.id,
+      botId: removalCase.botId,
+      botName: removalCase.botName,
+      status: removalCase.status
+    });
+
+    await this.save({ ...removalCase, lastReminderAt: now });
+    logger.info('Removal case reminder sent', { caseId: removalCase.id, status: removalCase.status });
+  }
+
+  private validateIdentifiers(identifiers: SearchRequest[] | undefined): SearchRequest[] {
+    if (!Array.isArray(identifiers) || identifiers.length === 0) {
+      throw new RemovalCaseError('At least one identifier is required', 'VALIDATION_ERROR', 400);
+    }
+    if (identifiers.length > this.config.maxIdentifiers) {
+      throw new RemovalCaseError(
+        `A case can hold up to ${this.config.maxIdentifiers} identifiers`,
+        'VALIDATION_ERROR',
+        400
+      );
+    }
+
+    const validationService = ValidationService.getInstance();
+
+    return identifiers.map(identifier => {
+      const validation = validationService.validate(identifier?.value, identifier?.type);
+      if (!validation.isValid) {
+        throw new RemovalCaseError(
+          validation.errors[0]?.message || 'Invalid identifier',
+          'VALIDATION_ERROR',
+          400
+        );
+      }
+
+      return { type: identifier.type, value: validation.sanitizedValue ?? identifier.value.trim() };
+    });
+  }
+
+  private assertUserStatus(status: RemovalCaseStatus): void {
+    if (!USER_REMOVAL_CASE_STATUSES.includes(status)) {
+      throw new RemovalCaseError(
+        status === 'verified'
+          ? 'Cases are verified by a re-search, not set by hand'
+          : `Unknown status: ${status}`,
+        'INVALID_STATUS',
+        400
+      );
+    }
+  }
+
+  private optionalText(value: string | null | undefined, field: string): string | undefined {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH) {
+      throw new RemovalCaseError(
+        `${field} must be a string of up to ${MAX_TEXT_LENGTH} characters`,
+        'VALIDATION_ERROR',
+        400
+      );
+    }
+
+    return value.trim() || undefined;
+  }
+
+  private optionalDate(value: Date | null | undefined): Date | undefined {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    if (!(value instanceof Date) || isNaN(value.getTime())) {
+      throw new RemovalCaseError('submittedAt must be a valid date', 'VALIDATION_ERROR', 400);
+    }
+
+    return value;
+  }
+
+  private async findCase(userId: string, id: string): Promise<StoredRemovalCase> {
+    const removalCase = await this.casesRepository.get(id);
+
+    if (!removalCase || removalCase.userId !== userId) {
+      throw new RemovalCaseError('Removal case not found', 'CASE_NOT_FOUND', 404);
+    }
+
+    return removalCase;
+  }
+
+  private async listAll(filter: { ownerId?: string }): Promise<StoredRemovalCase[]> {
+    const cases: StoredRemovalCase[] = [];
+
+    for (let offset = 0; ; offset += this.config.batchSize) {
+      const batch = await this.casesRepository.list({ ...filter, offset, limit: this.config.batchSize });
+      cases.push(...batch);
+
+      if (batch.length < this.config.batchSize) {
+        return cases;
+      }
+    }
+  }
+
+  private async save(removalCase: StoredRemovalCase): Promise<void> {
+    await this.casesRepository.save(removalCase.id, { ...removalCase, updatedAt: new Date() }, removalCase.userId);
+  }
+
+  private toCase(removalCase: StoredRemovalCase): RemovalCase {
+    return {
+      id: removalCase.id,
+      botId: removalCase.botId,
+      botName: removalCase.botName,
+      identifiers: removalCase.maskedIdentifiers,
+      status: removalCase.status,
+      ticketNumber: removalCase.ticketNumber,
+      submittedAt: removalCase.submittedAt,
+      notes: removalCase.notes,
+      statusHistory: removalCase.statusHistory,
+      lastVerification: removalCase.lastVerification,
+      createdAt: removalCase.createdAt,
+      updatedAt: removalCase.updatedAt
+    };
+  }
+
+  private encrypt(value: unknown): EncryptedData {
+    return SecurityService.getInstance().encryptSensitiveData(serialize(value));
+  }
+
+  private decrypt<T>(data: EncryptedData): T {
+    return deserialize<T>(SecurityService.getInstance().decryptSensitiveData(data));
+  }
+}
+
+export const removalCaseService = RemovalCaseService.getInstance();
@@ -0,0 +1,201 @@
+/**
+ * Risk Score Service
+ * Estimates how severe a person's exposure is from the merged search profile
+ */
+
+import { MergedProfile } from '../types/person';
+import { RiskAssessment, RiskFactor, RiskFactorType, RiskLevel } from '../types/risk';
+
+export interface RiskScoreConfig {
+  // Points per canonical field; fields not listed score `defaultFieldWeight`
+  fieldWeights: Record<string, number>;
+  defaultFieldWeight: number;
+  maxSensitivityPoints: number;
+  pointsPerSource: number;
+  maxSourcePoints: number;
+  maxRecencyPoints: number;
+}
+
+const FACTOR_DESCRIPTIONS: Record<RiskFactorType, string> = {
+  sensitive_fields: 'Чувствительность найденных данных',
+  source_count: 'Количество источников утечки',
+  recency: 'Давность утечки'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  passport: 'паспорт',
+  snils: 'СНИЛС',
+  inn: 'ИНН',
+  driver_license: 'водительское удостоверение',
+  address: 'адрес',
+  relatives: 'родственники',
+  plate_number: 'госномер',
+  vin: 'VIN',
+  birth_date: 'дата рождения',
+  phone: 'телефон',
+  email: 'email',
+  full_name: 'ФИО',
+  social_account: 'аккаунты'
+};
+
+export class RiskScoreService {
+  private static instance: RiskScoreService;
+  private readonly config: RiskScoreConfig;
+
+  constructor(config?: Partial<RiskScoreConfig>) {
+    this.config = {
+      fieldWeights: config?.fieldWeights ?? {
+        passport: 25,
+        snils: 20,
+        inn: 15,
+        address: 15,
+        relatives: 12,
+        driver_license: 10,
+        plate_number: 8,
+        vin: 8,
+        birth_date: 8,
+        phone: 8,
+        email: 5,
+        full_name: 5,
+        social_account: 4
+      },
+      defaultFieldWeight: config?.defaultFieldWeight ?? 1,
+      maxSensitivityPoints: config?.maxSensitivityPoints ?? 60,
+      pointsPerSource: config?.pointsPerSource ?? 5,
+      maxSourcePoints: config?.maxSourcePoints ?? 25,
+      maxRecencyPoints: config?.maxRecencyPoints ?? 15
+    };
+  }
+
+  public static getInstance(config?: Partial<RiskScoreConfig>): RiskScoreService {
+    if (!RiskScoreService.instance) {
+      RiskScoreService.instance = new RiskScoreService(config);
+    }
+    return RiskScoreService.instance;
+  }
+
+  /**
+   * Calculate a 0-100 risk score with an explanation breakdown
+   */
+  calculate(profile: MergedProfile, now: Date = new Date()): RiskAssessment {
+    if (profile.totalUniqueValues === 0) {
+      return {
+        score: 0,
+        level: 'low',
+        breakdown: [
+          this.emptyFactor('sensitive_fields', this.config.maxSensitivityPoints),
+          this.emptyFactor('source_count', this.config.maxSourcePoints),
+          this.emptyFactor('recency', this.config.maxRecencyPoints)
+        ]
+      };
+    }
+
+    const breakdown = [
+      this.scoreSensitiveFields(profile),
+      this.scoreSourceCount(profile),
+      this.scoreRecency(profile, now)
+    ];
+
+    const score = Math.min(100, breakdown.reduce((sum, factor) => sum + factor.points, 0));
+
+    return {
+      score,
+      level: this.getRiskLevel(score),
+      breakdown
+    };
+  }
+
+  /**
+   * Map a score to a risk level
+   */
+  getRiskLevel(score: number): RiskLevel {
+    if (score >= 75) return 'critical';
+    if (score >= 50) return 'high';
+    if (score >= 25) return 'medium';
+    return 'low';
+  }
+
+  private scoreSensitiveFields(profile: MergedProfile): RiskFactor {
+    const fields = Array.from(new Set(profile.values.map(value => value.field)));
+    const weighted = fields
+      .map(field => ({ field, weight: this.config.fieldWeights[field] ?? this.config.defaultFieldWeight }))
+      .sort((a, b) => b.weight - a.weight);
+
+    const total = weighted.reduce((sum, item) => sum + item.weight, 0);
+
+    return {
+      factor: 'sensitive_fields',
+      points: Math.min(this.config.maxSensitivityPoints, total),
+      maxPoints: this.config.maxSensitivityPoints,
+      description: FACTOR_DESCRIPTIONS.sensitive_fields,
+      details: weighted
+        .filter(item => FIELD_LABELS[item.field])
+        .map(item => `${FIELD_LABELS[item.field]}: +${item.weight}`)
+    };
+  }
+
+  private scoreSourceCount(profile: MergedProfile): RiskFactor {
+    const sources = new Set<string>();
+    profile.values.forEach(value => value.sources.forEach(source => {
+      sources.add(`${source.botId}:${source.sourceDatabase || ''}`);
+    }));
+
+    return {
+      factor: 'source_count',
+      points: Math.min(this.config.maxSourcePoints, sources.size * this.config.pointsPerSource),
+      maxPoints: this.config.maxSourcePoints,
+      description: FACTOR_DESCRIPTIONS.source_count,
+      details: [
+        `Ботов с данными: ${profile.totalBotsContributing}`,
+        `Уникальных источников: ${sources.size}`
+      ]
+    };
+  }
+
+  private scoreRecency(profile: MergedProfile, now: Date): RiskFactor {
+    const leakDates = profile.values
+      .flatMap(value => value.sources.map(source => source.leakDate))
+      .filter((date): date is string => !!date)
+      .map(date => new Date(date.length === 4 ? `${date}-01-01` : date))
+      .filter(date => !isNaN(date.getTime()));
+
+    const max = this.config.maxRecencyPoints;
+
+    if (leakDates.length === 0) {
+      return {
+        factor: 'recency',
+        points: Math.round(max * 0.4),
+        maxPoints: max,
+        description: FACTOR_DESCRIPTIONS.recency,
+        details: ['Дата утечки неизвестна']
+      };
+    }
+
+    const latest = new Date(Math.max(...leakDates.map(date => date.getTime())));
+    const ageYears = (now.getTime() - latest.getTime()) / (365 * 24 * 60 * 60 * 1000);
+
+    let points: number;
+    if (ageYears <= 1) {
+      points = max;
+    } else if (ageYears <= 3) {
+      points = Math.round(max * 0.66);
+    } else {
+      points = Math.round(max * 0.25);
+    }
+
+    return {
+      factor: 'recency',
+      points,
+      maxPoints: max,
+      description: FACTOR_DESCRIPTIONS.recency,
+      details: [`Последняя утечка: ${latest.toISOString().slice(0, 10)}`]
+    };
+  }
+
+  private emptyFactor(factor: RiskFactorType, maxPoints: number): RiskFactor {
+    return { factor, points: 0, maxPoints, description: FACTOR_DESCRIPTIONS[factor], details: [] };
+  }
+}
+
+// Export singleton instance
+export const riskScoreService = RiskScoreService.getInstance();
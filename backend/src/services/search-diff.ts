@@ -0,0 +1,88 @@
+/**
+ * Search Diff
+ * Compares two runs of the same search per bot, so users can check that a
+ * removal request worked: which found items disappeared, which remain and
+ * which are new.
+ */
+
+import { FoundDataItem, SearchResult, SearchStatus } from '../types/search';
+import type { AggregatedSearchResults } from './search.service';
+
+export interface BotResultDiff {
+  botId: string;
+  botName: string;
+  removed: FoundDataItem[];
+  remaining: FoundDataItem[];
+  added: FoundDataItem[];
+  // The bot did not answer in one of the runs, so missing items prove nothing
+  inconclusive: boolean;
+  // Everything the bot had before is gone and nothing new appeared
+  cleared: boolean;
+}
+
+export interface SearchResultsDiff {
+  bots: BotResultDiff[];
+  // Counts over bots that answered in both runs
+  totals: {
+    removed: number;
+    remaining: number;
+    added: number;
+  };
+}
+
+const answered = (result: SearchResult | undefined): boolean =>
+  result !== undefined && (result.status === SearchStatus.SUCCESS || result.status === SearchStatus.NO_DATA);
+
+// Items match on field and value, ignoring case and spacing differences between runs
+const itemKey = (item: FoundDataItem): string =>
+  `${item.field}\u0000${item.value.trim().replace(/\s+/g, ' ').toLowerCase()}`;
+
+function diffBot(botId: string, before: SearchResult | undefined, after: SearchResult | undefined): BotResultDiff {
+  const beforeItems = before?.foundData ?? [];
+  const afterItems = after?.foundData ?? [];
+  const beforeKeys = new Set(beforeItems.map(itemKey));
+  const afterKeys = new Set(afterItems.map(itemKey));
+
+  const removed = beforeItems.filter(item => !afterKeys.has(itemKey(item)));
+  const remaining = afterItems.filter(item => beforeKeys.has(itemKey(item)));
+  const added = afterItems.filter(item => !beforeKeys.has(itemKey(item)));
+  const inconclusive = !answered(before) || !answered(after);
+
+  return {
+    botId,
+    botName: after?.botName ?? before?.botName ?? botId,
+    removed,
+    remaining,
+    added,
+    inconclusive,
+    cleared: !inconclusive && removed.length > 0 && remaining.length === 0 && added.length === 0
+  };
+}
+
+/**
+ * Per-bot changes from `before` to `after`. Bots with nothing found in
+ * either run are left out.
+ */
+export function diffSearchResults(
+  before: Pick<AggregatedSearchResults, 'results'>,
+  after: Pick<AggregatedSearchResults, 'results'>
+): SearchResultsDiff {
+  const beforeByBot = new Map(before.results.map(result => [result.botId, result]));
+  const afterByBot = new Map(after.results.map(result => [result.botId, result]));
+  const botIds = Array.from(new Set([...beforeByBot.keys(), ...afterByBot.keys()]));
+
+  const bots = botIds
+    .map(botId => diffBot(botId, beforeByBot.get(botId), afterByBot.get(botId)))
+    .filter(bot => bot.removed.length + bot.remaining.length + bot.added.length > 0);
+
+  const conclusive = bots.filter(bot => !bot.inconclusive);
+
+  return {
+    bots,
+    totals: {
+      removed: conclusive.reduce((sum, bot) => sum + bot.removed.length, 0),
+      remaining: conclusive.reduce((sum, bot) => sum + bot.remaining.length, 0),
+      added: conclusive.reduce((sum, bot) => sum + bot.added.length, 0)
+    }
+  };
+}
@@ -0,0 +1,482 @@
+/**
+ * Search History Service
+ * Keeps signed-in users' past searches. Results are encrypted with a random
+ * key per user, stored wrapped with ENCRYPTION_KEY, so clearing a user's history
+ * also destroys the key. How long entries are kept depends on the user's plan.
+ */
+
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import { serialize, deserialize } from '../storage/serialization';
+import { SearchRequest, SearchType } from '../types/search';
+import type { AggregatedSearchResults } from './search.service';
+import { SecurityService, EncryptedData } from './security.service';
+import { tariffService, TariffPlan } from './tariff.service';
+import { diffSearchResults, SearchResultsDiff } from './search-diff';
+
+export interface SearchHistoryConfig {
+  // Days kept for plans that do not set historyRetentionDays
+  defaultRetentionDays: number;
+  sweepIntervalMs: number;
+  batchSize: number;
+}
+
+export interface HistoryCiphertext {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// Stored form of a history entry; only the summary is kept in the clear
+export interface StoredSearchHistoryEntry {
+  id: string;
+  userId: string;
+  searchType: SearchType;
+  maskedQuery: string;
+  totalBotsSearched: number;
+  totalBotsWithData: number;
+  totalRecords: number;
+  // Encrypted SearchHistoryPayload
+  payload: HistoryCiphertext;
+  createdAt: Date;
+  updatedAt: Date;
+  // Null while the plan keeps history without limit
+  expiresAt: Date | null;
+}
+
+export interface SearchHistoryPayload {
+  request: SearchRequest;
+  results: AggregatedSearchResults;
+}
+
+interface StoredHistoryKey {
+  userId: string;
+  key: EncryptedData;
+  createdAt: Date;
+}
+
+export interface SearchHistoryItem {
+  id: string;
+  searchType: SearchType;
+  maskedQuery: string;
+  totalBotsSearched: number;
+  totalBotsWithData: number;
+  totalRecords: number;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date | null;
+}
+
+export interface SearchHistoryDetails extends SearchHistoryItem {
+  results: AggregatedSearchResults;
+}
+
+export interface SearchHistoryDiff extends SearchResultsDiff {
+  from: SearchHistoryItem;
+  to: SearchHistoryItem;
+}
+
+export interface SearchHistoryList {
+  entries: SearchHistoryItem[];
+  total: number;
+  // Days entries are kept on the user's current plan; -1 means without limit
+  retentionDays: number;
+}
+
+export type SearchHistoryErrorType = 'HISTORY_NOT_FOUND' | 'HISTORY_UNREADABLE' | 'HISTORY_MISMATCH';
+
+export class SearchHistoryError extends Error {
+  constructor(
+    message: string,
+    public readonly type: SearchHistoryErrorType,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'SearchHistoryError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const CIPHER = 'aes-256-gcm';
+
+// Searches without a signed-in user are attributed to this id and never kept
+const ANONYMOUS_USER_ID = 'anonymous';
+
+/**
+ * Mask a search value for display in the history list
+ */
+export function maskSearchQuery(type: SearchType, value: string): string {
+  const trimmed = value.trim();
+
+  if (type === 'email' && trimmed.includes('@')) {
+    const at = trimmed.lastIndexOf('@');
+    const local = trimmed.slice(0, at);
+    return `${local.slice(0, Math.min(2, Math.max(local.length - 1, 1)))}***${trimmed.slice(at)}`;
+  }
+
+  if (trimmed.length <= 4) {
+    return '*'.repeat(trimmed.length);
+  }
+
+  return `${trimmed.slice(0, 2)}${'*'.repeat(trimmed.length - 4)}${trimmed.slice(-2)}`;
+}
+
+export class SearchHistoryService {
+  private static instance: SearchHistoryService;
+  private config: SearchHistoryConfig;
+  private entriesRepository: Repository<StoredSearchHistoryEntry>;
+  private keysRepository: Repository<StoredHistoryKey>;
+  private readonly userKeys: Map<string, Buffer> = new Map();
+  // Keys being loaded or created, so concurrent callers share one
+  private readonly pendingUserKeys: Map<string, Promise<Buffer>> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    const storage = getStorage();
+    this.entriesRepository = storage.repository<StoredSearchHistoryEntry>('search_history');
+    this.keysRepository = storage.repository<StoredHistoryKey>('search_history_keys');
+    this.config = {
+      defaultRetentionDays: parseInt(process.env.SEARCH_HISTORY_RETENTION_DAYS || '30', 10),
+      sweepIntervalMs: HOUR_MS,
+      batchSize: 200
+    };
+  }
+
+  public static getInstance(): SearchHistoryService {
+    if (!SearchHistoryService.instance) {
+      SearchHistoryService.instance = new SearchHistoryService();
+    }
+    return SearchHistoryService.instance;
+  }
+
+  /**
+   * Start removing expired entries periodically
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sweepExpired().catch(error => {
+        logger.error('Search history sweep failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.config.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Days a plan keeps history: 0 keeps nothing, -1 keeps everything
+   */
+  getRetentionDays(plan: TariffPlan): number {
+    if (plan.historyRetentionDays !== undefined) {
+      return plan.historyRetentionDays;
+    }
+    return plan.isFree ? 0 : this.config.defaultRetentionDays;
+  }
+
+  /**
+   * Save a finished search to the user's history. Saving the same search again
+   * (e.g. after retrying failed bots) replaces its results.
+   * Returns null when the user's plan keeps no history.
+   */
+  async record(
+    userId: string,
+    request: SearchRequest,
+    results: AggregatedSearchResults
+  ): Promise<SearchHistoryItem | null> {
+    if (!userId || userId === ANONYMOUS_USER_ID) {
+      return null;
+    }
+
+    const retentionDays = this.getRetentionDays(await tariffService.getEffectivePlan(userId));
+    if (retentionDays === 0) {
+      return null;
+    }
+
+    const now = new Date();
+    const existing = await this.entriesRepository.get(results.searchId);
+    if (existing && existing.userId !== userId) {
+      logger.warn('Search history entry belongs to another user', { searchId: results.searchId });
+      return null;
+    }
+
+    const createdAt = existing ? existing.createdAt : now;
+    const payload: SearchHistoryPayload = { request: { type: request.type, value: request.value }, results };
+
+    const entry: StoredSearchHistoryEntry = {
+      id: results.searchId,
+      userId,
+      searchType: request.type,
+      maskedQuery: maskSearchQuery(request.type, request.value),
+      totalBotsSearched: results.totalBotsSearched,
+      totalBotsWithData: results.totalBotsWithData,
+      totalRecords: results.totalRecords,
+      payload: await this.encrypt(userId, historyAad(results.searchId, userId), payload),
+      createdAt,
+      updatedAt: now,
+      expiresAt: retentionDays < 0 ? null : new Date(createdAt.getTime() + retentionDays * DAY_MS)
+    };
+
+    await this.entriesRepository.save(entry.id, entry, userId);
+    logger.debug('Search saved to history', { userId, searchId: entry.id, searchType: entry.searchType });
+
+    return this.toItem(entry);
+  }
+
+  /**
+   * List the user's past searches, newest first
+   */
+  async list(userId: string, options: { limit?: number; offset?: number } = {}): Promise<SearchHistoryList> {
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+    const offset = Math.max(options.offset ?? 0, 0);
+    const plan = await tariffService.getEffectivePlan(userId);
+    const retentionDays = this.getRetentionDays(plan);
+
+    await this.removeExpiredFor(userId, retentionDays);
+
+    const [entries, total] = await Promise.all([
+      this.entriesRepository.list({ ownerId: userId, limit, offset, order: 'desc' }),
+      this.entriesRepository.count(userId)
+    ]);
+
+    return { entries: entries.map(entry => this.toItem(entry)), total, retentionDays };
+  }
+
+  /**
+   * Reopen a past search with its full results
+   */
+  async get(userId: string, id: string): Promise<SearchHistoryDetails> {
+    const { entry, payload } = await this.open(userId, id);
+    return { ...this.toItem(entry), results: payload.results };
+  }
+
+  /**
+   * The original request of a past search, to run it again
+   */
+  async getRequest(userId: string, id: string): Promise<SearchRequest> {
+    return (await this.open(userId, id)).payload.request;
+  }
+
+  /**
+   * Compare two runs of the same search: what `fromId` found that `toId` no
+   * longer does, what both found and what only `toId` found
+   */
+  async diff(userId: string, fromId: string, toId: string): Promise<SearchHistoryDiff> {
+    const from = await this.open(userId, fromId);
+    const to = await this.open(userId, toId);
+
+    if (from.payload.request.type !== to.payload.request.type || from.payload.request.value !== to.payload.request.value) {
+      throw new SearchHistoryError('Only runs of the same search can be compared', 'HISTORY_MISMATCH', 400);
+    }
+
+    return {
+      from: this.toItem(from.entry),
+      to: this.toItem(to.entry),
+      ...diffSearchResults(from.payload.results, to.payload.results)
+    };
+  }
+
+  /**
+   * Delete one past search
+   */
+  async delete(userId: string, id: string): Promise<void> {
+    await this.findEntry(userId, id);
+    await this.entriesRepository.delete(id);
+  }
+
+  /**
+   * Delete the user's whole history along with its key
+   */
+  async clear(userId: string): Promise<number> {
+    const entries = await this.listAllFor(userId);
+
+    for (const entry of entries) {
+      await this.entriesRepository.delete(entry.id);
+    }
+
+    await this.keysRepository.delete(userId);
+    this.userKeys.delete(userId);
+
+    logger.info('Search history cleared', { userId, deleted: entries.length });
+    return entries.length;
+  }
+
+  /**
+   * Delete entries past their expiry date
+   */
+  async sweepExpired(now: Date = new Date()): Promise<number> {
+    const expired: StoredSearchHistoryEntry[] = [];
+
+    for (let offset = 0; ; offset += this.config.batchSize) {
+      const batch = await this.entriesRepository.list({ offset, limit: this.config.batchSize });
+      expired.push(...batch.filter(entry => entry.expiresAt !== null && entry.expiresAt <= now));
+
+      if (batch.length < this.config.batchSize) {
+        break;
+      }
+    }
+
+    for (const entry of expired) {
+      await this.entriesRepository.delete(entry.id);
+    }
+
+    if (expired.length > 0) {
+      logger.info('Expired search history removed', { count: expired.length });
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Drop entries the user's current plan no longer keeps, e.g. after a downgrade
+   */
+  private async removeExpiredFor(userId: string, retentionDays: number, now: Date = new Date()): Promise<void> {
+    const cutoff = retentionDays < 0 ? null : now.getTime() - retentionDays * DAY_MS;
+    const entries = await this.listAllFor(userId);
+
+    for (const entry of entries) {
+      const expired = (entry.expiresAt !== null && entry.expiresAt <= now)
+        || (cutoff !== null && entry.createdAt.getTime() <= cutoff);
+
+      if (expired) {
+        await this.entriesRepository.delete(entry.id);
+      }
+    }
+  }
+
+  private async findEntry(userId: string, id: string): Promise<StoredSearchHistoryEntry> {
+    const entry = await this.entriesRepository.get(id);
+
+    if (!entry || entry.userId !== userId || (entry.expiresAt !== null && entry.expiresAt <= new Date())) {
+      throw new SearchHistoryError('Search not found in history', 'HISTORY_NOT_FOUND', 404);
+    }
+
+    return entry;
+  }
+
+  private async open(
+    userId: string,
+    id: string
+  ): Promise<{ entry: StoredSearchHistoryEntry; payload: SearchHistoryPayload }> {
+    const entry = await this.findEntry(userId, id);
+
+    try {
+      const payload = await this.decrypt<SearchHistoryPayload>(userId, historyAad(id, userId), entry.payload);
+      return { entry, payload };
+    } catch (error) {
+      logger.warn('Search history entry could not be decrypted', { userId, searchId: id });
+      throw new SearchHistoryError('Saved search can no longer be read', 'HISTORY_UNREADABLE', 410);
+    }
+  }
+
+  private async listAllFor(userId: string): Promise<StoredSearchHistoryEntry[]> {
+    const entries: StoredSearchHistoryEntry[] = [];
+
+    for (let offset = 0; ; offset += this.config.batchSize) {
+      const batch = await this.entriesRepository.list({ ownerId: userId, offset, limit: this.config.batchSize });
+      entries.push(...batch);
+
+      if (batch.length < this.config.batchSize) {
+        return entries;
+      }
+    }
+  }
+
+  /**
+   * The user's data key, created on first use and stored wrapped with the master key
+   */
+  private async getUserKey(userId: string): Promise<Buffer> {
+    const cached = this.userKeys.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    // Two first saves creating a key each would leave the entry written with
+    // the overwritten key unreadable
+    let pending = this.pendingUserKeys.get(userId);
+    if (!pending) {
+      pending = this.loadUserKey(userId).finally(() => this.pendingUserKeys.delete(userId));
+      this.pendingUserKeys.set(userId, pending);
+    }
+
+    return pending;
+  }
+
+  private async loadUserKey(userId: string): Promise<Buffer> {
+    const security = SecurityService.getInstance();
+    const stored = await this.keysRepository.get(userId);
+    let key: Buffer;
+
+    if (stored) {
+      key = Buffer.from(security.decryptSensitiveData(stored.key), 'hex');
+    } else {
+      key = crypto.randomBytes(32);
+      await this.keysRepository.save(userId, {
+        userId,
+        key: security.encryptSensitiveData(key.toString('hex')),
+        createdAt: new Date()
+      }, userId);
+    }
+
+    this.userKeys.set(userId, key);
+    return key;
+  }
+
+  private async encrypt(userId: string, aad: string, value: unknown): Promise<HistoryCiphertext> {
+    const key = await this.getUserKey(userId);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CIPHER, key, iv);
+    cipher.setAAD(Buffer.from(aad));
+
+    const data = Buffer.concat([cipher.update(serialize(value), 'utf8'), cipher.final()]);
+
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  private async decrypt<T>(userId: string, aad: string, ciphertext: HistoryCiphertext): Promise<T> {
+    const key = await this.getUserKey(userId);
+    const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(ciphertext.iv, 'base64'));
+    decipher.setAAD(Buffer.from(aad));
+    decipher.setAuthTag(Buffer.from(ciphertext.tag, 'base64'));
+
+    const data = Buffer.concat([decipher.update(Buffer.from(ciphertext.data, 'base64')), decipher.final()]);
+    return deserialize<T>(data.toString('utf8'));
+  }
+
+  private toItem(entry: StoredSearchHistoryEntry): SearchHistoryItem {
+    return {
+      id: entry.id,
+      searchType: entry.searchType,
+      maskedQuery: entry.maskedQuery,
+      totalBotsSearched: entry.totalBotsSearched,
+      totalBotsWithData: entry.totalBotsWithData,
+      totalRecords: entry.totalRecords,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+      expiresAt: entry.expiresAt
+    };
+  }
+}
+
+// Bind a ciphertext to its entry so it cannot be moved to another entry or user
+function historyAad(id: string, userId: string): string {
+  return `${userId}:${id}`;
+}
+
+export const searchHistoryService = SearchHistoryService.getInstance();
@@ -0,0 +1,515 @@
+/**
+ * Search Job Service
+ * Runs searches as background jobs so they survive the browser disconnecting:
+ * jobs are queued, executed by a small worker pool through the API manager and
+ * their results are stored encrypted until the retention window ends
+ */
+
+import { randomBytes } from 'crypto';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import { SearchRequest, SearchResult, SearchStatus, SearchType } from '../types/search';
+import { ApiManagerService, BotProgressEvent, BotSearchOptions } from './api-manager.service';
+import { SearchService, AggregatedSearchResults } from './search.service';
+import { SecurityService, EncryptedData } from './security.service';
+import { notificationService } from './notification.service';
+import { profileMergeService } from './profile-merge.service';
+import { riskScoreService } from './risk-score.service';
+
+export interface SearchJobConfig {
+  // Jobs executed at the same time
+  concurrency: number;
+  // How long a finished job and its results are kept
+  retentionMs: number;
+  sweepIntervalMs: number;
+  batchSize: number;
+}
+
+export type SearchJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type SearchJobBotStatus = 'running' | 'success' | 'no_data' | 'error' | 'timeout' | 'not_supported';
+
+export interface SearchJobBot {
+  botId: string;
+  botName: string;
+  status: SearchJobBotStatus;
+}
+
+// Stored form of a job; the query and found data are only kept encrypted
+export interface StoredSearchJob {
+  id: string;
+  userId: string;
+  searchType: SearchType;
+  queryLength: number;
+  status: SearchJobStatus;
+  // Search only these bots; every active bot when absent
+  botIds?: string[];
+  // Bots the queued run is retrying, keeping the other bots' results
+  retryBotIds?: string[];
+  bots: SearchJobBot[];
+  request: EncryptedData;
+  results?: EncryptedData;
+  // Runs so far, retries included
+  attempts: number;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  expiresAt: Date;
+}
+
+export interface SearchJob {
+  id: string;
+  status: SearchJobStatus;
+  searchType: SearchType;
+  bots: SearchJobBot[];
+  attempts: number;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  expiresAt: Date;
+  // Results so far while the job runs, all results once it is finished
+  results: AggregatedSearchResults | null;
+}
+
+export type SearchJobErrorType = 'JOB_NOT_FOUND' | 'JOB_NOT_FINISHED' | 'NOTHING_TO_RETRY';
+
+export class SearchJobError extends Error {
+  constructor(
+    message: string,
+    public readonly type: SearchJobErrorType,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'SearchJobError';
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RETRYABLE_BOT_STATUSES: SearchJobBotStatus[] = ['error', 'timeout'];
+
+export class SearchJobService {
+  private static instance: SearchJobService;
+  private config: SearchJobConfig;
+  private jobsRepository: Repository<StoredSearchJob>;
+  private readonly queue: string[] = [];
+  private activeWorkers = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.jobsRepository = getStorage().repository<StoredSearchJob>('search_jobs');
+    this.config = {
+      concurrency: parseInt(process.env.SEARCH_JOB_CONCURRENCY || '2', 10),
+      retentionMs: parseInt(process.env.SEARCH_JOB_RETENTION_HOURS || '24', 10) * HOUR_MS,
+      sweepIntervalMs: HOUR_MS,
+      batchSize: 200
+    };
+  }
+
+  public static getInstance(): SearchJobService {
+    if (!SearchJobService.instance) {
+      SearchJobService.instance = new SearchJobService();
+    }
+    return SearchJobService.instance;
+  }
+
+  /**
+   * Override configuration, e.g. the retention window in tests
+   */
+  configure(config: Partial<SearchJobConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Requeue jobs interrupted by a restart and start removing expired jobs
+   */
+  async start(): Promise<void> {
+    const interrupted = (await this.listAll()).filter(job => job.status === 'queued' || job.status === 'running');
+    interrupted
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .forEach(job => this.queue.push(job.id));
+    this.drain();
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.sweepExpired().catch(error => {
+          logger.error('Search job sweep failed', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+      }, this.config.sweepIntervalMs);
+      this.timer.unref();
+    }
+
+    logger.info('Search job workers started', {
+      concurrency: this.config.concurrency,
+      requeued: interrupted.length
+    });
+  }
+
+  /**
+   * Stop removing expired jobs; jobs already running are left to finish
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue a search; it runs as soon as a worker is free
+   */
+  async createJob(userId: string, request: SearchRequest, botIds?: string[]): Promise<SearchJob> {
+    const now = new Date();
+    const job: StoredSearchJob = {
+      id: `job_${randomBytes(16).toString('hex')}`,
+      userId,
+      searchType: request.type,
+      queryLength: request.value.length,
+      status: 'queued',
+      botIds: botIds && botIds.length > 0 ? botIds : undefined,
+      bots: [],
+      request: this.encrypt({ type: request.type, value: request.value }),
+      attempts: 0,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.config.retentionMs)
+    };
+
+    await this.jobsRepository.save(job.id, job, userId);
+    this.enqueue(job.id);
+
+    logger.info('Search job queued', { jobId: job.id, searchType: job.searchType, queueLength: this.queue.length });
+
+    return this.toView(job);
+  }
+
+  /**
+   * Get one of the user's jobs with its results so far
+   */
+  async getJob(jobId: string, userId: string): Promise<SearchJob> {
+    return this.toView(await this.findJob(jobId, userId));
+  }
+
+  /**
+   * Run the bots that failed or timed out again, keeping the other bots' results.
+   * A job that failed as a whole is run again in full.
+   */
+  async retryFailedBots(jobId: string, userId: string): Promise<SearchJob> {
+    const job = await this.findJob(jobId, userId);
+
+    if (job.status === 'queued' || job.status === 'running') {
+      throw new SearchJobError('Search job is still running', 'JOB_NOT_FINISHED', 409);
+    }
+
+    const failedBotIds = job.bots
+      .filter(bot => RETRYABLE_BOT_STATUSES.includes(bot.status))
+      .map(bot => bot.botId);
+
+    if (job.status === 'completed' && failedBotIds.length === 0) {
+      throw new SearchJobError('No failed bots to retry', 'NOTHING_TO_RETRY', 409);
+    }
+
+    const retried: StoredSearchJob = {
+      ...job,
+      status: 'queued',
+      retryBotIds: job.status === 'completed' ? failedBotIds : undefined,
+      error: undefined,
+      finishedAt: undefined,
+      expiresAt: new Date(Date.now() + this.config.retentionMs)
+    };
+
+    await this.jobsRepository.save(retried.id, retried, retried.userId);
+    this.enqueue(retried.id);
+
+    logger.info('Search job retry queued', { jobId, bots: retried.retryBotIds?.length ?? 'all' });
+
+    return this.toView(retried);
+  }
+
+  /**
+   * Delete finished jobs past their retention window
+   */
+  async sweepExpired(now: Date = new Date()): Promise<number> {
+    const expired = (await this.listAll()).filter(job =>
+      (job.status === 'completed' || job.status === 'failed') && job.expiresAt <= now
+    );
+
+    for (const job of expired) {
+      await this.jobsRepository.delete(job.id);
+    }
+
+    if (expired.length > 0) {
+      logger.info('Expired search jobs removed', { count: expired.length });
+    }
+
+    return expired.length;
+  }
+
+  private async findJob(jobId: string, userId: string): Promise<StoredSearchJob> {
+    const job = await this.jobsRepository.get(jobId);
+
+    // Other users' jobs are reported as missing rather than forbidden
+    if (!job || job.userId !== userId) {
+      throw new SearchJobError('Search job not found', 'JOB_NOT_FOUND', 404);
+    }
+
+    return job;
+  }
+
+  private enqueue(jobId: string): void {
+    if (!this.queue.includes(jobId)) {
+      this.queue.push(jobId);
+    }
+    this.drain();
+  }
+
+  /**
+   * Hand queued jobs to free workers
+   */
+  private drain(): void {
+    while (this.activeWorkers < this.config.concurrency && this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      this.activeWorkers++;
+
+      this.run(jobId)
+        .catch(error => {
+          logger.error('Search job worker failed', {
+            jobId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        })
+        .finally(() => {
+          this.activeWorkers--;
+          this.drain();
+        });
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const stored = await this.jobsRepository.get(jobId);
+    if (!stored) {
+      return;
+    }
+
+    const searchService = SearchService.getInstance();
+    const apiManager = ApiManagerService.getInstance();
+    const retryBotIds = stored.retryBotIds;
+    const request = this.decrypt<SearchRequest>(stored.request);
+    const results = new Map<string, SearchResult>(
+      retryBotIds && stored.results
+        ? this.decrypt<SearchResult[]>(stored.results).map(result => [result.botId, result])
+        : []
+    );
+
+    const job: StoredSearchJob = {
+      ...stored,
+      status: 'running',
+      bots: retryBotIds ? stored.bots : [],
+      results: retryBotIds ? stored.results : undefined,
+      attempts: stored.attempts + 1,
+      startedAt: new Date()
+    };
+
+    // Progress callbacks are synchronous; writes are chained so they land in order
+    let saving: Promise<void> = Promise.resolve();
+    const persist = () => {
+      const snapshot = { ...job, bots: job.bots.map(bot => ({ ...bot })) };
+      saving = saving.then(() => this.jobsRepository.save(snapshot.id, snapshot, snapshot.userId));
+    };
+
+    const setBotStatus = (botId: string, botName: string, status: SearchJobBotStatus) => {
+      const bot = job.bots.find(entry => entry.botId === botId);
+      if (bot) {
+        bot.status = status;
+      } else {
+        job.bots.push({ botId, botName, status });
+      }
+    };
+
+    const onProgress = (event: BotProgressEvent) => {
+      const botName = searchService.getBotDisplayName(event.botId, event.encryptedName);
+
+      if (event.type === 'started' || !event.result) {
+        setBotStatus(event.botId, botName, 'running');
+      } else {
+        const result = searchService.presentBotResult(event.result);
+        results.set(result.botId, result);
+        setBotStatus(event.botId, botName, this.toBotStatus(result.status));
+        job.results = this.encrypt(Array.from(results.values()));
+      }
+
+      persist();
+    };
+
+    persist();
+
+    try {
+      const options: BotSearchOptions = { searchId: job.id, onProgress, userId: job.userId };
+      const botIds = retryBotIds || job.botIds;
+      const searchResults = botIds
+        ? await apiManager.searchWithBots(request, botIds, options)
+        : await apiManager.searchAll(request, options);
+
+      // Bots whose progress was not reported still count
+      searchResults.results.forEach(botResult => {
+        if (!results.has(botResult.botId)) {
+          onProgress({ type: 'completed', botId: botResult.botId, encryptedName: botResult.encryptedName, result: botResult });
+        }
+      });
+
+      job.status = 'completed';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    job.retryBotIds = undefined;
+    job.finishedAt = new Date();
+    job.expiresAt = new Date(job.finishedAt.getTime() + this.config.retentionMs);
+    persist();
+    await saving;
+
+    logger.info('Search job finished', {
+      jobId: job.id,
+      status: job.status,
+      attempts: job.attempts,
+      totalBots: job.bots.length,
+      duration: job.finishedAt.getTime() - job.startedAt!.getTime()
+    });
+
+    const aggregated = job.status === 'completed' ? this.buildResults(job) : null;
+    if (aggregated) {
+      await searchService.saveToHistory(job.userId, request, aggregated);
+    }
+
+    await this.notify(job, Array.from(results.values()));
+  }
+
+  private async notify(job: StoredSearchJob, results: SearchResult[]): Promise<void> {
+    if (job.status === 'failed') {
+      await notificationService.createNotification(job.userId, 'search_failed', {
+        searchId: job.id,
+        searchType: job.searchType,
+        error: job.error
+      });
+      return;
+    }
+
+    const withData = results.filter(result => result.hasData && result.foundData.length > 0);
+    const totalRecords = withData.reduce((sum, result) => sum + result.foundData.length, 0);
+
+    await notificationService.createNotification(job.userId, 'search_completed', {
+      searchId: job.id,
+      totalBotsSearched: results.length,
+      totalBotsWithData: withData.length,
+      totalRecords,
+      searchDuration: job.finishedAt!.getTime() - job.startedAt!.getTime(),
+      count: totalRecords
+    });
+
+    for (const result of withData) {
+      await notificationService.createNotification(job.userId, 'data_found', {
+        searchId: job.id,
+        botId: result.botId,
+        botName: result.botName,
+        foundDataCount: result.foundData.length,
+        foundFields: result.foundData.map(item => item.field)
+      });
+    }
+  }
+
+  private toBotStatus(status: SearchStatus): SearchJobBotStatus {
+    switch (status) {
+      case SearchStatus.SUCCESS:
+        return 'success';
+      case SearchStatus.NO_DATA:
+        return 'no_data';
+      case SearchStatus.TIMEOUT:
+        return 'timeout';
+      case SearchStatus.PENDING:
+        return 'running';
+      case SearchStatus.NOT_SUPPORTED:
+        return 'not_supported';
+      default:
+        return 'error';
+    }
+  }
+
+  private toView(job: StoredSearchJob): SearchJob {
+    return {
+      id: job.id,
+      status: job.status,
+      searchType: job.searchType,
+      bots: job.bots,
+      attempts: job.attempts,
+      error: job.error,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      expiresAt: job.expiresAt,
+      results: this.buildResults(job)
+    };
+  }
+
+  /**
+   * Decrypt the stored bot results and aggregate them like a direct search
+   */
+  private buildResults(job: StoredSearchJob): AggregatedSearchResults | null {
+    if (!job.results || !job.startedAt) {
+      return null;
+    }
+
+    let results: SearchResult[];
+    try {
+      results = this.decrypt<SearchResult[]>(job.results);
+    } catch (error) {
+      // Results written under a different ENCRYPTION_KEY cannot be read back
+      logger.warn('Search job results could not be decrypted', { jobId: job.id });
+      return null;
+    }
+
+    const withData = results.filter(result => result.hasData);
+    const mergedProfile = profileMergeService.buildProfile(results);
+
+    return {
+      searchId: job.id,
+      timestamp: job.startedAt,
+      query: `[${job.queryLength} characters]`,
+      searchType: job.searchType,
+      results,
+      totalBotsSearched: results.length,
+      totalBotsWithData: withData.length,
+      totalRecords: results.reduce((sum, result) => sum + result.foundData.length, 0),
+      searchDuration: (job.finishedAt || new Date()).getTime() - job.startedAt.getTime(),
+      encryptionEnabled: SearchService.getInstance().getConfig().enableEncryption,
+      mergedProfile,
+      riskAssessment: riskScoreService.calculate(mergedProfile)
+    };
+  }
+
+  private async listAll(): Promise<StoredSearchJob[]> {
+    const jobs: StoredSearchJob[] = [];
+
+    for (let offset = 0; ; offset += this.config.batchSize) {
+      const batch = await this.jobsRepository.list({ offset, limit: this.config.batchSize });
+      jobs.push(...batch);
+
+      if (batch.length < this.config.batchSize) {
+        return jobs;
+      }
+    }
+  }
+
+  private encrypt(value: unknown): EncryptedData {
+    return SecurityService.getInstance().encryptSensitiveData(JSON.stringify(value));
+  }
+
+  private decrypt<T>(data: EncryptedData): T {
+    return JSON.parse(SecurityService.getInstance().decryptSensitiveData(data)) as T;
+  }
+}
+
+export const searchJobService = SearchJobService.getInstance();
@@ -0,0 +1,185 @@
+/**
+ * Search Progress Service
+ * Keeps the progress events of running searches so clients can follow them
+ * over Server-Sent Events, including clients that connect late or reconnect.
+ */
+
+import { SearchResult } from '../types/search';
+import type { AggregatedSearchResults } from './search.service';
+
+export type SearchProgressEventType =
+  | 'search_started'
+  | 'started'
+  | 'completed'
+  | 'error'
+  | 'timeout'
+  | 'search_completed'
+  | 'search_failed';
+
+export interface SearchProgressEvent {
+  // Sequence number within the search, sent as the SSE event ID
+  id: number;
+  type: SearchProgressEventType;
+  searchId: string;
+  timestamp: Date;
+  botId?: string;
+  botName?: string;
+  result?: SearchResult;
+  // Final results, on 'search_completed'
+  results?: AggregatedSearchResults;
+  error?: string;
+}
+
+export type SearchProgressListener = (event: SearchProgressEvent) => void;
+
+export interface SearchProgressStream {
+  searchId: string;
+  userId?: string;
+  events: SearchProgressEvent[];
+  finished: boolean;
+  createdAt: Date;
+}
+
+export interface SearchProgressConfig {
+  // How long a finished search can still be replayed
+  retentionMs: number;
+}
+
+const FINAL_EVENT_TYPES: SearchProgressEventType[] = ['search_completed', 'search_failed'];
+
+export class SearchProgressService {
+  private static instance: SearchProgressService;
+  private readonly config: SearchProgressConfig;
+  private readonly streams: Map<string, SearchProgressStream> = new Map();
+  private readonly listeners: Map<string, Set<SearchProgressListener>> = new Map();
+
+  constructor(config?: Partial<SearchProgressConfig>) {
+    this.config = {
+      retentionMs: config?.retentionMs ?? 5 * 60 * 1000
+    };
+  }
+
+  public static getInstance(config?: Partial<SearchProgressConfig>): SearchProgressService {
+    if (!SearchProgressService.instance) {
+      SearchProgressService.instance = new SearchProgressService(config);
+    }
+    return SearchProgressService.instance;
+  }
+
+  /**
+   * Start collecting events for a search
+   */
+  open(searchId: string, userId?: string): SearchProgressStream {
+    const stream: SearchProgressStream = {
+      searchId,
+      userId,
+      events: [],
+      finished: false,
+      createdAt: new Date()
+    };
+
+    this.streams.set(searchId, stream);
+    return stream;
+  }
+
+  /**
+   * Record an event and pass it to everyone following the search.
+   * Events arriving after the search finished are dropped.
+   */
+  publish(
+    searchId: string,
+    event: Omit<SearchProgressEvent, 'id' | 'searchId' | 'timestamp'>
+  ): SearchProgressEvent | null {
+    const stream = this.streams.get(searchId);
+    if (!stream || stream.finished) {
+      return null;
+    }
+
+    const published: SearchProgressEvent = {
+      ...event,
+      id: stream.events.length + 1,
+      searchId,
+      timestamp: new Date()
+    };
+
+    stream.events.push(published);
+
+    if (FINAL_EVENT_TYPES.includes(published.type)) {
+      stream.finished = true;
+      this.scheduleRemoval(searchId);
+    }
+
+    this.listeners.get(searchId)?.forEach(listener => listener(published));
+
+    if (stream.finished) {
+      this.listeners.delete(searchId);
+    }
+
+    return published;
+  }
+
+  /**
+   * Get a search's stream, if it is running or finished recently
+   */
+  getStream(searchId: string): SearchProgressStream | null {
+    return this.streams.get(searchId) || null;
+  }
+
+  has(searchId: string): boolean {
+    return this.streams.has(searchId);
+  }
+
+  /**
+   * Follow a search: events after `afterEventId` are replayed right away,
+   * new ones are passed on as they are published. Returns an unsubscribe function.
+   */
+  subscribe(searchId: string, listener: SearchProgressListener, afterEventId = 0): () => void {
+    const stream = this.streams.get(searchId);
+    if (!stream) {
+      return () => undefined;
+    }
+
+    stream.events
+      .filter(event => event.id > afterEventId)
+      .forEach(event => listener(event));
+
+    if (stream.finished) {
+      return () => undefined;
+    }
+
+    if (!this.listeners.has(searchId)) {
+      this.listeners.set(searchId, new Set());
+    }
+    this.listeners.get(searchId)!.add(listener);
+
+    return () => {
+      const listeners = this.listeners.get(searchId);
+      listeners?.delete(listener);
+      if (listeners && listeners.size === 0) {
+        this.listeners.delete(searchId);
+      }
+    };
+  }
+
+  /**
+   * Whether an event ends its search's stream
+   */
+  isFinalEvent(event: SearchProgressEvent): boolean {
+    return FINAL_EVENT_TYPES.includes(event.type);
+  }
+
+  /**
+   * Forget every search (used by tests)
+   */
+  clear(): void {
+    this.streams.clear();
+    this.listeners.clear();
+  }
+
+  private scheduleRemoval(searchId: string): void {
+    const timer = setTimeout(() => this.streams.delete(searchId), this.config.retentionMs);
+    timer.unref?.();
+  }
+}
+
+export const searchProgressService = SearchProgressService.getInstance();
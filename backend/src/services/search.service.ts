@@ -3,12 +3,20 @@
  * Coordinates search operations across all bot APIs and aggregates results
  */
 
-import { SearchRequest, SearchResult, SearchResults, SearchType, FoundDataItem, SearchStatus } from '../types/search';
-import { ApiManagerService, BotSearchResult, BotSearchResults } from './api-manager.service';
+import { randomBytes } from 'crypto';
+import { SearchRequest, SearchResult, SearchResults, SearchType, FoundDataItem, SearchStatus, SEARCH_TYPES } from '../types/search';
+import { ApiManagerService, BotProgressEvent, BotSearchResult, BotSearchResults, QuickScanResults } from './api-manager.service';
 import { ErrorRecoveryService } from './error-recovery.service';
 import { logger } from '../utils/logger';
 import { notificationService } from './notification.service';
 import { monitoringService } from './monitoring.service';
+import { normalizeBotRecords, personRecordToFoundData } from '../normalizers';
+import { profileMergeService } from './profile-merge.service';
+import { riskScoreService } from './risk-score.service';
+import { searchProgressService } from './search-progress.service';
+import { searchHistoryService } from './search-history.service';
+import { MergedProfile } from '../types/person';
+import { RiskAssessment } from '../types/risk';
 
 export interface SearchServiceConfig {
   enableEncryption: boolean;
@@ -28,6 +36,58 @@ export interface AggregatedSearchResults {
   totalRecords: number;
   searchDuration: number;
   encryptionEnabled: boolean;
+  mergedProfile: MergedProfile;
+  riskAssessment: RiskAssessment;
+}
+
+export type SearchMode = 'quick' | 'full';
+
+export interface QuickScanBotResult {
+  botId: string;
+  botName: string;
+  status: SearchStatus;
+  totalRecords: number;
+  sourcesFound: number;
+}
+
+// Hit counts only: how much a bot holds on the query, without the records
+export interface AggregatedQuickScanResults {
+  searchId: string;
+  timestamp: Date;
+  query: string;
+  searchType: SearchType;
+  mode: 'quick';
+  // False when no bot could count hits for the type, so nothing was checked
+  available: boolean;
+  results: QuickScanBotResult[];
+  totalBotsSearched: number;
+  totalBotsWithData: number;
+  totalSourcesFound: number;
+  totalRecords: number;
+  searchDuration: number;
+}
+
+// Several identifiers searched together, with one profile built from all of them
+export interface AggregatedBatchResults {
+  batchId: string;
+  timestamp: Date;
+  // One result set per identifier, in request order
+  searches: AggregatedSearchResults[];
+  totalRecords: number;
+  upstreamCalls: number;
+  searchDuration: number;
+  mergedProfile: MergedProfile;
+  riskAssessment: RiskAssessment;
+}
+
+export interface SearchRunOptions {
+  // Run under this ID instead of generating one
+  searchId?: string;
+  // Called as each bot starts and finishes
+  onBotProgress?: (event: BotProgressEvent) => void;
+  // User the upstream spend is recorded against: for searches not started by searchAllBots,
+  // and for searchAllBots runs without a user that are still on someone's behalf (monitor scans)
+  userId?: string;
 }
 
 export class SearchService {
@@ -58,9 +118,13 @@ export class SearchService {
   /**
    * Main search method that coordinates search across all bots with error recovery
    */
-  async searchAllBots(request: SearchRequest, userId?: string): Promise<AggregatedSearchResults> {
+  async searchAllBots(
+    request: SearchRequest,
+    userId?: string,
+    options: SearchRunOptions = {}
+  ): Promise<AggregatedSearchResults> {
     const startTime = Date.now();
-    const searchId = `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const searchId = options.searchId || `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     try {
       // Log search request (without PII)
@@ -91,7 +155,7 @@ export class SearchService {
 
       // Execute parallel search through API manager
       const searchResults = await Promise.race([
-        this.apiManager.searchAll(request),
+        this.apiManager.searchAll(request, { searchId, onProgress: options.onBotProgress, userId: userId ?? options.userId }),
         this.createTimeoutPromise(this.config.maxSearchTime)
       ]);
 
@@ -118,8 +182,8 @@ export class SearchService {
         botsWithData
       );
 
-      // Record individual bot API metrics
-      for (const result of aggregatedResults.results) {
+      // Record individual bot API metrics; bots that were not asked made no request
+      for (const result of aggregatedResults.results.filter(r => r.status !== SearchStatus.NOT_SUPPORTED)) {
         monitoringService.recordApiRequest(
           result.botId,
           aggregatedResults.searchDuration / aggregatedResults.totalBotsSearched, // Approximate per-bot time
@@ -127,6 +191,10 @@ export class SearchService {
         );
       }
 
+      if (userId) {
+        await this.saveToHistory(userId, request, aggregatedResults);
+      }
+
       // Create search completed notification
       if (userId) {
         await notificationService.createNotification(
@@ -191,6 +259,183 @@ export class SearchService {
     }
   }
 
+  /**
+   * Quick scan: count hits per source with the bots that offer a count-only
+   * method. Cheaper and faster than a full search, but returns no records.
+   */
+  async quickScan(request: SearchRequest, userId?: string): Promise<AggregatedQuickScanResults> {
+    const searchId = `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    this.validateSearchRequest(request);
+
+    if (this.config.logSearches) {
+      logger.info('Quick scan initiated', {
+        searchId,
+        searchType: request.type,
+        queryLength: request.value.length
+      });
+    }
+
+    const scan = await Promise.race([
+      this.apiManager.quickScan(request, { searchId, userId }),
+      this.createTimeoutPromise(this.config.maxSearchTime)
+    ]);
+
+    const results = this.aggregateQuickScan(scan, request);
+
+    monitoringService.recordSearch(
+      request.type,
+      results.searchDuration,
+      true,
+      results.results.filter(r => r.totalRecords > 0).map(r => r.botId)
+    );
+
+    if (this.config.logSearches) {
+      logger.info('Quick scan completed', {
+        searchId,
+        totalBotsSearched: results.totalBotsSearched,
+        totalSourcesFound: results.totalSourcesFound,
+        searchDuration: results.searchDuration
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Search several identifiers of the same person in one go. Batch-capable
+   * upstreams get them in one call; the merged profile and risk assessment
+   * cover everything found on any of the identifiers.
+   */
+  async searchBatch(requests: SearchRequest[], userId?: string): Promise<AggregatedBatchResults> {
+    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    requests.forEach(request => this.validateSearchRequest(request));
+
+    if (this.config.logSearches) {
+      logger.info('Batch search initiated', {
+        batchId,
+        searchTypes: requests.map(request => request.type)
+      });
+    }
+
+    const batch = await Promise.race([
+      this.apiManager.searchBatch(requests, { searchId: batchId, userId }),
+      this.createTimeoutPromise(this.config.maxSearchTime)
+    ]);
+
+    const searches = batch.searches.map((rawResults, index) => this.aggregateResults(rawResults, requests[index]));
+    const mergedProfile = profileMergeService.buildProfile(searches.flatMap(search => search.results));
+
+    for (const [index, search] of searches.entries()) {
+      monitoringService.recordSearch(
+        search.searchType,
+        search.searchDuration,
+        true,
+        search.results.filter(r => r.hasData).map(r => r.botId)
+      );
+
+      if (userId) {
+        await this.saveToHistory(userId, requests[index], search);
+      }
+    }
+
+    const results: AggregatedBatchResults = {
+      batchId,
+      timestamp: batch.timestamp,
+      searches,
+      totalRecords: searches.reduce((sum, search) => sum + search.totalRecords, 0),
+      upstreamCalls: batch.upstreamCalls,
+      searchDuration: Date.now() - batch.timestamp.getTime(),
+      mergedProfile,
+      riskAssessment: riskScoreService.calculate(mergedProfile)
+    };
+
+    if (this.config.logSearches) {
+      logger.info('Batch search completed', {
+        batchId,
+        identifiers: searches.length,
+        totalRecords: results.totalRecords,
+        upstreamCalls: results.upstreamCalls,
+        searchDuration: results.searchDuration
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Start a search in the background and return its ID right away.
+   * Per-bot progress is published to the search progress service as each bot
+   * answers. The ID is random enough to act as the capability for following
+   * the search, since EventSource cannot send an Authorization header.
+   */
+  async startSearch(request: SearchRequest, userId?: string): Promise<{ searchId: string }> {
+    this.validateSearchRequest(request);
+
+    const searchId = `search_${randomBytes(16).toString('hex')}`;
+    const pendingBots = new Map<string, string>();
+
+    searchProgressService.open(searchId, userId);
+    searchProgressService.publish(searchId, { type: 'search_started' });
+
+    const onBotProgress = (event: BotProgressEvent) => {
+      const botName = this.getBotDisplayName(event.botId, event.encryptedName);
+
+      if (event.type === 'started') {
+        pendingBots.set(event.botId, botName);
+        searchProgressService.publish(searchId, { type: 'started', botId: event.botId, botName });
+        return;
+      }
+
+      pendingBots.delete(event.botId);
+      searchProgressService.publish(searchId, {
+        type: event.type,
+        botId: event.botId,
+        botName,
+        result: event.result && this.presentBotResult(event.result),
+        error: event.result?.errorMessage
+      });
+    };
+
+    // Bots still running when the search gives up are reported as timed out
+    const timeOutPendingBots = () => {
+      pendingBots.forEach((botName, botId) => {
+        searchProgressService.publish(searchId, { type: 'timeout', botId, botName });
+      });
+      pendingBots.clear();
+    };
+
+    this.searchAllBots(request, userId, { searchId, onBotProgress })
+      .then(results => {
+        timeOutPendingBots();
+        searchProgressService.publish(searchId, { type: 'search_completed', results });
+      })
+      .catch(error => {
+        timeOutPendingBots();
+        searchProgressService.publish(searchId, {
+          type: 'search_failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+
+    return { searchId };
+  }
+
+  /**
+   * Keep a finished search in the user's history; failing to save must not fail the search
+   */
+  async saveToHistory(userId: string, request: SearchRequest, results: AggregatedSearchResults): Promise<void> {
+    try {
+      await searchHistoryService.record(userId, request, results);
+    } catch (error) {
+      logger.error('Failed to save search to history', {
+        searchId: results.searchId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Handle search errors with recovery strategies
    */
@@ -214,10 +459,15 @@ export class SearchService {
 
         // If results are already in the correct format, return them
         if (recoveryResult.results.searchId) {
+          const mergedProfile: MergedProfile = recoveryResult.results.mergedProfile
+            || profileMergeService.buildProfile(recoveryResult.results.results || []);
+
           return {
             ...recoveryResult.results,
             searchDuration: Date.now() - startTime,
-            encryptionEnabled: this.config.enableEncryption
+            encryptionEnabled: this.config.enableEncryption,
+            mergedProfile,
+            riskAssessment: riskScoreService.calculate(mergedProfile)
           };
         }
 
@@ -266,7 +516,8 @@ export class SearchService {
    */
   async searchWithSpecificBots(
     request: SearchRequest, 
-    botIds: string[]
+    botIds: string[],
+    options: SearchRunOptions = {}
   ): Promise<AggregatedSearchResults> {
     const startTime = Date.now();
     
@@ -282,7 +533,11 @@ export class SearchService {
       this.validateSearchRequest(request);
 
       const searchResults = await Promise.race([
-        this.apiManager.searchWithBots(request, botIds),
+        this.apiManager.searchWithBots(request, botIds, {
+          searchId: options.searchId,
+          onProgress: options.onBotProgress,
+          userId: options.userId
+        }),
         this.createTimeoutPromise(this.config.maxSearchTime)
       ]);
 
@@ -331,6 +586,8 @@ export class SearchService {
     // Sort results by priority (bots with data first, then by bot priority)
     const sortedResults = this.sortResultsByPriority(finalResults);
 
+    const mergedProfile = profileMergeService.buildProfile(sortedResults);
+
     return {
       searchId: rawResults.searchId,
       timestamp: rawResults.timestamp,
@@ -341,26 +598,64 @@ export class SearchService {
       totalBotsWithData: rawResults.totalBotsWithData,
       totalRecords: sortedResults.reduce((sum, r) => sum + r.foundData.length, 0),
       searchDuration: Date.now() - rawResults.timestamp.getTime(),
-      encryptionEnabled: this.config.enableEncryption
+      encryptionEnabled: this.config.enableEncryption,
+      mergedProfile,
+      riskAssessment: riskScoreService.calculate(mergedProfile)
+    };
+  }
+
+  /**
+   * Present hit counts the way full results are presented: display names,
+   * bots with hits first
+   */
+  private aggregateQuickScan(scan: QuickScanResults, originalRequest: SearchRequest): AggregatedQuickScanResults {
+    const results: QuickScanBotResult[] = scan.results
+      .map(result => ({
+        botId: result.botId,
+        botName: this.getBotDisplayName(result.botId, result.encryptedName),
+        status: this.convertBotStatusToSearchStatus(result.status),
+        totalRecords: result.totalRecords,
+        sourcesFound: result.sourcesFound
+      }))
+      .sort((a, b) => b.totalRecords - a.totalRecords);
+
+    return {
+      searchId: scan.searchId,
+      timestamp: scan.timestamp,
+      query: this.sanitizeQueryForLogging(originalRequest.value),
+      searchType: originalRequest.type,
+      mode: 'quick',
+      available: scan.available,
+      results,
+      totalBotsSearched: scan.totalBotsSearched,
+      totalBotsWithData: results.filter(r => r.totalRecords > 0).length,
+      totalSourcesFound: scan.totalSourcesFound,
+      totalRecords: scan.totalRecords,
+      searchDuration: scan.searchDuration
     };
   }
 
+  /**
+   * A single bot's result as it appears in aggregated results, bot name included
+   */
+  presentBotResult(botResult: BotSearchResult): SearchResult {
+    const result = this.transformBotResult(botResult);
+    return { ...result, botName: this.getBotDisplayName(result.botId, result.botName) };
+  }
+
   /**
    * Transform bot search result to user-friendly format
    */
   private transformBotResult(botResult: BotSearchResult): SearchResult {
-    // Transform found fields to FoundDataItem format
-    const foundData: FoundDataItem[] = botResult.foundFields.map(field => ({
-      field: field.fieldName || field.field || 'unknown',
-      value: field.fieldValue || field.value || '',
-      source: botResult.botId,
-      confidence: field.confidence
-    }));
+    // Normalize raw upstream records into canonical person records
+    const records = normalizeBotRecords(botResult.botId, botResult.foundFields);
+    const foundData: FoundDataItem[] = records.flatMap(personRecordToFoundData);
 
     return {
       botId: botResult.botId,
       botName: botResult.encryptedName,
       foundData,
+      records,
       hasData: botResult.hasData,
       status: this.convertBotStatusToSearchStatus(botResult.status),
       errorMessage: botResult.errorMessage
@@ -382,6 +677,8 @@ export class SearchService {
         return SearchStatus.TIMEOUT;
       case 'circuit_open':
         return SearchStatus.ERROR;
+      case 'not_supported':
+        return SearchStatus.NOT_SUPPORTED;
       default:
         return SearchStatus.ERROR;
     }
@@ -398,6 +695,13 @@ export class SearchService {
     }));
   }
 
+  /**
+   * Bot name as shown to users, honouring the encryption setting
+   */
+  getBotDisplayName(botId: string, encryptedName: string): string {
+    return this.config.enableEncryption ? this.encryptBotName(botId, encryptedName) : encryptedName;
+  }
+
   /**
    * Encrypt bot name based on bot ID
    */
@@ -428,6 +732,10 @@ export class SearchService {
       if (a.hasData && !b.hasData) return -1;
       if (!a.hasData && b.hasData) return 1;
 
+      // Bots that were not asked go last
+      if (a.status === SearchStatus.NOT_SUPPORTED && b.status !== SearchStatus.NOT_SUPPORTED) return 1;
+      if (a.status !== SearchStatus.NOT_SUPPORTED && b.status === SearchStatus.NOT_SUPPORTED) return -1;
+
       // Second priority: successful status
       if (a.status === SearchStatus.SUCCESS && b.status !== SearchStatus.SUCCESS) return -1;
       if (a.status !== SearchStatus.SUCCESS && b.status === SearchStatus.SUCCESS) return 1;
@@ -450,8 +758,7 @@ export class SearchService {
       throw new Error('Search request must include type and value');
     }
 
-    const validTypes: SearchType[] = ['phone', 'email', 'inn', 'snils', 'passport'];
-    if (!validTypes.includes(request.type)) {
+    if (!SEARCH_TYPES.includes(request.type)) {
       throw new Error(`Invalid search type: ${request.type}`);
     }
 
@@ -495,6 +802,36 @@ export class SearchService {
           throw new Error('Invalid passport format (must be 4 digits, space, 6 digits)');
         }
         break;
+      case 'name':
+        if (!/^[A-Za-zА-Яа-яЁё'-]+(?: [A-Za-zА-Яа-яЁё'-]+)+(?: \d{4}-\d{2}-\d{2})?$/.test(trimmedValue.replace(/\s+/g, ' '))) {
+          throw new Error('Invalid name format (surname and first name, optionally followed by YYYY-MM-DD)');
+        }
+        break;
+      case 'address':
+        if (trimmedValue.length < 5 || !/[A-Za-zА-Яа-яЁё]/.test(trimmedValue)) {
+          throw new Error('Invalid address format');
+        }
+        break;
+      case 'plate_number':
+        if (!/^[АВЕКМНОРСТУХABEKMHOPCTYX]\d{3}[АВЕКМНОРСТУХABEKMHOPCTYX]{2}\d{2,3}$/i.test(trimmedValue.replace(/[\s-]/g, ''))) {
+          throw new Error('Invalid plate number format (e.g. А123ВС77)');
+        }
+        break;
+      case 'vin':
+        if (!/^[A-HJ-NPR-Z0-9]{17}$/i.test(trimmedValue.replace(/[\s-]/g, ''))) {
+          throw new Error('Invalid VIN format (must be 17 characters)');
+        }
+        break;
+      case 'username':
+        if (!/^@?[A-Za-z][A-Za-z0-9_]{4,31}$/.test(trimmedValue)) {
+          throw new Error('Invalid Telegram username format');
+        }
+        break;
+      case 'telegram_id':
+        if (!/^\d{5,15}$/.test(trimmedValue)) {
+          throw new Error('Invalid Telegram ID format (must be 5-15 digits)');
+        }
+        break;
     }
   }
 
@@ -292,7 +292,7 @@ export class SecurityService {
    */
   private isSensitiveField(fieldName: string): boolean {
     const sensitiveFields = [
-      'phone', 'email', 'inn', 'snils', 'passport',
+      'phone', 'email', 'inn', 'snils', 'passport', 'plate_number', 'telegram_id',
       'phoneNumber', 'emailAddress', 'passportNumber',
       'value', 'query', 'searchValue', 'personalData',
       'userData', 'userInput', 'searchQuery'
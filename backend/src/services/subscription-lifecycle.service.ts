@@ -0,0 +1,366 @@
+/**
+ * Subscription Lifecycle Service
+ * Moves subscriptions through trial → active → past_due → expired/cancelled on a
+ * schedule, renews them through the payment provider and notifies users
+ */
+
+import { logger } from '../utils/logger';
+import { tariffService, UserSubscription } from './tariff.service';
+import { paymentService, PaymentError } from './payment.service';
+import { notificationService, NotificationType } from './notification.service';
+
+export interface SubscriptionLifecycleConfig {
+  intervalMs: number;
+  gracePeriodDays: number;
+  retryIntervalHours: number;
+  maxRenewalAttempts: number;
+  // Days before the end of a period that will not renew to remind the user
+  expiryReminderDays: number;
+  batchSize: number;
+}
+
+export interface LifecycleRunResult {
+  checked: number;
+  renewed: number;
+  pastDue: number;
+  expired: number;
+  reminded: number;
+  errors: number;
+}
+
+export type SubscriptionLifecycleErrorType = 'PLAN_NOT_FOUND' | 'TRIAL_UNAVAILABLE' | 'NOT_CANCELLABLE';
+
+export class SubscriptionLifecycleError extends Error {
+  constructor(
+    message: string,
+    public readonly type: SubscriptionLifecycleErrorType,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'SubscriptionLifecycleError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export class SubscriptionLifecycleService {
+  private static instance: SubscriptionLifecycleService;
+  private readonly config: SubscriptionLifecycleConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<LifecycleRunResult> | null = null;
+
+  private constructor() {
+    this.config = {
+      intervalMs: parseInt(process.env.SUBSCRIPTION_LIFECYCLE_INTERVAL_MS || String(HOUR_MS), 10),
+      gracePeriodDays: parseInt(process.env.SUBSCRIPTION_GRACE_PERIOD_DAYS || '3', 10),
+      retryIntervalHours: parseInt(process.env.SUBSCRIPTION_RENEWAL_RETRY_HOURS || '24', 10),
+      maxRenewalAttempts: parseInt(process.env.SUBSCRIPTION_MAX_RENEWAL_ATTEMPTS || '3', 10),
+      expiryReminderDays: parseInt(process.env.SUBSCRIPTION_EXPIRY_REMINDER_DAYS || '3', 10),
+      batchSize: 200
+    };
+  }
+
+  public static getInstance(): SubscriptionLifecycleService {
+    if (!SubscriptionLifecycleService.instance) {
+      SubscriptionLifecycleService.instance = new SubscriptionLifecycleService();
+    }
+    return SubscriptionLifecycleService.instance;
+  }
+
+  /**
+   * Start the periodic lifecycle run
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        logger.error('Subscription lifecycle run failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.config.intervalMs);
+    this.timer.unref();
+
+    logger.info('Subscription lifecycle scheduler started', { intervalMs: this.config.intervalMs });
+  }
+
+  /**
+   * Stop the periodic lifecycle run
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Process every subscription once. Overlapping calls share the run in progress.
+   */
+  async runOnce(now: Date = new Date()): Promise<LifecycleRunResult> {
+    if (!this.running) {
+      this.running = this.processAll(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Start a free trial of a paid plan; each user gets one trial
+   */
+  async startTrial(userId: string, planId: string): Promise<UserSubscription> {
+    const plan = tariffService.getTariffPlan(planId);
+    if (!plan || !plan.isActive) {
+      throw new SubscriptionLifecycleError('Tariff plan not found', 'PLAN_NOT_FOUND', 404);
+    }
+
+    if (plan.isFree || !plan.trialDays) {
+      throw new SubscriptionLifecycleError('This plan has no trial', 'TRIAL_UNAVAILABLE', 400);
+    }
+
+    const current = await tariffService.getUserSubscription(userId);
+    if (current?.trialUsedAt) {
+      throw new SubscriptionLifecycleError('Trial has already been used', 'TRIAL_UNAVAILABLE', 409);
+    }
+
+    const currentPlan = current ? tariffService.getTariffPlan(current.planId) : null;
+    if (current && currentPlan && !currentPlan.isFree && tariffService.hasAccess(current)) {
+      throw new SubscriptionLifecycleError('A paid plan is already active', 'TRIAL_UNAVAILABLE', 409);
+    }
+
+    const now = new Date();
+    const subscription = await tariffService.saveSubscription({
+      userId,
+      planId,
+      status: 'trial',
+      startDate: now,
+      endDate: new Date(now.getTime() + plan.trialDays * DAY_MS),
+      autoRenew: false,
+      trialUsedAt: now,
+      previousPlanId: current?.planId
+    });
+
+    await this.notify(subscription, 'subscription_trial_started');
+    logger.info('Trial started', { userId, planId, endDate: subscription.endDate.toISOString() });
+
+    return subscription;
+  }
+
+  /**
+   * Cancel automatic renewal. The plan stays available until the paid period ends.
+   */
+  async cancel(userId: string): Promise<UserSubscription> {
+    const current = await tariffService.getUserSubscription(userId);
+    const plan = current ? tariffService.getTariffPlan(current.planId) : null;
+
+    if (!current || !plan || plan.isFree || !['trial', 'active', 'past_due'].includes(current.status)) {
+      throw new SubscriptionLifecycleError('No paid subscription to cancel', 'NOT_CANCELLABLE', 400);
+    }
+
+    const subscription = await tariffService.saveSubscription({
+      ...current,
+      status: 'cancelled',
+      autoRenew: false,
+      cancelledAt: new Date(),
+      // A cancelled past-due subscription has nothing left to wait for
+      endDate: current.status === 'past_due' ? new Date() : current.endDate
+    });
+
+    await this.notify(subscription, 'subscription_cancelled');
+    logger.info('Subscription cancelled', { userId, planId: current.planId });
+
+    return subscription;
+  }
+
+  private async processAll(now: Date): Promise<LifecycleRunResult> {
+    const result: LifecycleRunResult = { checked: 0, renewed: 0, pastDue: 0, expired: 0, reminded: 0, errors: 0 };
+
+    for (let offset = 0; ; offset += this.config.batchSize) {
+      const batch = await tariffService.listSubscriptions({ offset, limit: this.config.batchSize });
+
+      for (const subscription of batch) {
+        result.checked++;
+        try {
+          const outcome = await this.process(subscription, now);
+          if (outcome) {
+            result[outcome]++;
+          }
+        } catch (error) {
+          result.errors++;
+          logger.error('Failed to process subscription', {
+            userId: subscription.userId,
+            status: subscription.status,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      if (batch.length < this.config.batchSize) {
+        break;
+      }
+    }
+
+    if (result.renewed || result.pastDue || result.expired || result.reminded || result.errors) {
+      logger.info('Subscription lifecycle run completed', { ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply the transition due for one subscription, if any
+   */
+  private async process(
+    subscription: UserSubscription,
+    now: Date
+  ): Promise<'renewed' | 'pastDue' | 'expired' | 'reminded' | null> {
+    const plan = tariffService.getTariffPlan(subscription.planId);
+    if (!plan || plan.isFree) {
+      return null;
+    }
+
+    switch (subscription.status) {
+      case 'trial':
+      case 'active': {
+        const renews = subscription.autoRenew && Boolean(subscription.paymentMethodId);
+        if (subscription.endDate > now) {
+          return renews ? null : this.remindOfExpiry(subscription, now);
+        }
+        return renews ? this.renew(subscription, now) : this.expire(subscription);
+      }
+
+      case 'cancelled':
+        return subscription.endDate > now ? this.remindOfExpiry(subscription, now) : this.expire(subscription);
+
+      case 'past_due': {
+        if (!subscription.gracePeriodEndsAt || subscription.gracePeriodEndsAt <= now) {
+          return this.expire(subscription);
+        }
+
+        const attempts = subscription.renewalAttempts || 0;
+        const lastAttempt = subscription.lastRenewalAttemptAt?.getTime() || 0;
+        const retryDue = now.getTime() - lastAttempt >= this.config.retryIntervalHours * HOUR_MS;
+
+        return retryDue && attempts < this.config.maxRenewalAttempts ? this.renew(subscription, now) : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Charge the saved payment method for the next period
+   */
+  private async renew(subscription: UserSubscription, now: Date): Promise<'renewed' | 'pastDue' | null> {
+    const attempt = (subscription.renewalAttempts || 0) + 1;
+    let failureReason: string | undefined;
+
+    try {
+      const payment = await paymentService.chargeRenewal(
+        subscription.userId,
+        subscription.planId,
+        subscription.paymentMethodId!,
+        `${subscription.endDate.toISOString()}:${attempt}`
+      );
+
+      if (payment.status === 'succeeded') {
+        const renewed = await tariffService.getUserSubscription(subscription.userId);
+        await this.notify(renewed || subscription, 'subscription_renewed');
+        return 'renewed';
+      }
+
+      if (payment.status !== 'canceled') {
+        // Still processing: the payment webhook finishes the renewal
+        await tariffService.saveSubscription({
+          ...subscription,
+          renewalPaymentId: payment.id,
+          lastRenewalAttemptAt: now
+        });
+        return null;
+      }
+
+      failureReason = payment.failureReason;
+    } catch (error) {
+      if (!(error instanceof PaymentError)) {
+        throw error;
+      }
+      failureReason = error.message;
+    }
+
+    const pastDueSince = subscription.pastDueSince || now;
+    const updated = await tariffService.saveSubscription({
+      ...subscription,
+      status: 'past_due',
+      pastDueSince,
+      gracePeriodEndsAt: subscription.gracePeriodEndsAt
+        || new Date(pastDueSince.getTime() + this.config.gracePeriodDays * DAY_MS),
+      renewalAttempts: attempt,
+      lastRenewalAttemptAt: now,
+      renewalPaymentId: undefined
+    });
+
+    logger.warn('Subscription renewal failed', {
+      userId: subscription.userId,
+      planId: subscription.planId,
+      attempt,
+      reason: failureReason
+    });
+
+    if (subscription.status !== 'past_due') {
+      await this.notify(updated, 'subscription_past_due', failureReason);
+    }
+
+    return 'pastDue';
+  }
+
+  /**
+   * Warn once per period that a subscription without auto-renewal ends soon
+   */
+  private async remindOfExpiry(subscription: UserSubscription, now: Date): Promise<'reminded' | null> {
+    const remindFrom = subscription.endDate.getTime() - this.config.expiryReminderDays * DAY_MS;
+    const alreadyReminded = subscription.expiryReminderSentFor?.getTime() === subscription.endDate.getTime();
+
+    if (now.getTime() < remindFrom || alreadyReminded) {
+      return null;
+    }
+
+    await tariffService.saveSubscription({ ...subscription, expiryReminderSentFor: subscription.endDate });
+    await this.notify(subscription, 'subscription_expiring');
+
+    return 'reminded';
+  }
+
+  /**
+   * End the subscription and move the user to the free plan
+   */
+  private async expire(subscription: UserSubscription): Promise<'expired'> {
+    await tariffService.activateSubscription(subscription.userId, 'free');
+    await this.notify(subscription, 'subscription_expired');
+
+    logger.info('Subscription expired', {
+      userId: subscription.userId,
+      planId: subscription.planId,
+      status: subscription.status
+    });
+
+    return 'expired';
+  }
+
+  private async notify(subscription: UserSubscription, type: NotificationType, error?: string): Promise<void> {
+    await notificationService.createNotification(subscription.userId, type, {
+      planId: subscription.planId,
+      status: subscription.status,
+      endDate: subscription.endDate.toISOString(),
+      error
+    });
+  }
+}
+
+// Export singleton instance
+export const subscriptionLifecycleService = SubscriptionLifecycleService.getInstance();
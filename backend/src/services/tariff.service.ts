@@ -4,6 +4,7 @@
  */
 
 import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
 
 export interface TariffPlan {
   id: string;
@@ -19,16 +20,40 @@ export interface TariffPlan {
   isPopular: boolean;
   isFree: boolean;
   order: number;
+  trialDays?: number;
+  // Days past searches are kept: 0 keeps none, -1 keeps them without limit
+  historyRetentionDays?: number;
+  // Hours between re-scans of monitored identifiers: 0 means no monitoring
+  monitoringIntervalHours?: number;
+  // Identifiers a user can monitor at once: -1 means without limit
+  monitoringLimit?: number;
+  // Whether searches return the records found; otherwise only quick scans (hit counts per source)
+  fullSearch?: boolean;
 }
 
+export type SubscriptionState = 'trial' | 'active' | 'past_due' | 'inactive' | 'expired' | 'cancelled';
+
 export interface UserSubscription {
   userId: string;
   planId: string;
-  status: 'active' | 'inactive' | 'expired' | 'cancelled';
+  status: SubscriptionState;
   startDate: Date;
   endDate: Date;
   autoRenew: boolean;
   paymentMethod?: string;
+  // Saved provider payment method used for automatic renewals
+  paymentMethodId?: string;
+  trialUsedAt?: Date;
+  cancelledAt?: Date;
+  // Renewal failures: access continues until the grace period ends
+  pastDueSince?: Date;
+  gracePeriodEndsAt?: Date;
+  renewalAttempts?: number;
+  lastRenewalAttemptAt?: Date;
+  renewalPaymentId?: string;
+  previousPlanId?: string;
+  // End date of the period the expiry reminder was sent for
+  expiryReminderSentFor?: Date;
 }
 
 export interface UsageStats {
@@ -40,6 +65,20 @@ export interface UsageStats {
   lastUsage: Date;
 }
 
+export type QuotaPeriod = 'day' | 'month';
+
+export interface SearchQuota {
+  allowed: boolean;
+  planId: string;
+  isFreePlan: boolean;
+  limit: number; // -1 means unlimited
+  used: number;
+  remaining: number; // -1 means unlimited
+  resetDate: Date;
+  period: QuotaPeriod;
+  message?: string;
+}
+
 export interface PaymentIntegration {
   provider: 'stripe' | 'paypal' | 'yookassa' | 'sberbank';
   isEnabled: boolean;
@@ -49,18 +88,25 @@ export interface PaymentIntegration {
 export class TariffService {
   private static instance: TariffService;
   private tariffPlans: Map<string, TariffPlan>;
-  private userSubscriptions: Map<string, UserSubscription>;
-  private usageStats: Map<string, UsageStats>;
   private paymentIntegrations: Map<string, PaymentIntegration>;
+  private plansRepository: Repository<TariffPlan>;
+  private subscriptionsRepository: Repository<UserSubscription>;
+  private usageRepository: Repository<UsageStats>;
+  private usageLocks: Map<string, Promise<unknown>>;
 
   private constructor() {
     this.tariffPlans = new Map();
-    this.userSubscriptions = new Map();
-    this.usageStats = new Map();
     this.paymentIntegrations = new Map();
+    this.usageLocks = new Map();
+
+    const storage = getStorage();
+    this.plansRepository = storage.repository<TariffPlan>('tariff_plans');
+    this.subscriptionsRepository = storage.repository<UserSubscription>('subscriptions');
+    this.usageRepository = storage.repository<UsageStats>('usage_stats');
     
     this.initializeTariffPlans();
     this.initializePaymentIntegrations();
+    this.loadStoredPlans();
     
     logger.info('Tariff service initialized');
   }
@@ -85,13 +131,14 @@ export class TariffService {
         currency: 'RUB',
         period: 'навсегда',
         features: [
-          'Поиск по 5 телеграм ботам',
+          'Быстрая проверка: в скольких источниках найдены данные',
           'До 3 поисковых запросов в день',
           'Базовые инструкции по удалению',
           'Техподдержка через email'
         ],
         limitations: [
           'Ограничение 3 запроса в день',
+          'Без просмотра найденных записей',
           'Базовая техподдержка',
           'Без приоритетной обработки'
         ],
@@ -99,7 +146,11 @@ export class TariffService {
         isActive: true,
         isPopular: false,
         isFree: true,
-        order: 1
+        order: 1,
+        historyRetentionDays: 0,
+        monitoringIntervalHours: 0,
+        monitoringLimit: 0,
+        fullSearch: false
       },
       {
         id: 'basic',
@@ -114,7 +165,8 @@ export class TariffService {
           'Подробные инструкции по удалению',
           'Приоритетная техподдержка',
           'История поисковых запросов',
-          'Уведомления о статусе удаления'
+          'Уведомления о статусе удаления',
+          'Еженедельный мониторинг новых утечек (до 3 идентификаторов)'
         ],
         limitations: [
           'Ограничение 50 запросов в месяц'
@@ -123,7 +175,12 @@ export class TariffService {
         isActive: true,
         isPopular: true,
         isFree: false,
-        order: 2
+        order: 2,
+        trialDays: 7,
+        historyRetentionDays: 30,
+        monitoringIntervalHours: 168,
+        monitoringLimit: 3,
+        fullSearch: true
       },
       {
         id: 'premium',
@@ -139,6 +196,7 @@ export class TariffService {
           'Приоритетная техподдержка 24/7',
           'Расширенная история запросов',
           'Автоматические уведомления',
+          'Ежедневный мониторинг новых утечек (до 10 идентификаторов)',
           'API доступ для интеграций',
           'Персональный менеджер'
         ],
@@ -147,7 +205,12 @@ export class TariffService {
         isActive: true,
         isPopular: false,
         isFree: false,
-        order: 3
+        order: 3,
+        trialDays: 7,
+        historyRetentionDays: 365,
+        monitoringIntervalHours: 24,
+        monitoringLimit: 10,
+        fullSearch: true
       },
       {
         id: 'enterprise',
@@ -173,7 +236,11 @@ export class TariffService {
         isActive: true,
         isPopular: false,
         isFree: false,
-        order: 4
+        order: 4,
+        historyRetentionDays: -1,
+        monitoringIntervalHours: 6,
+        monitoringLimit: -1,
+        fullSearch: true
       }
     ];
 
@@ -192,18 +259,40 @@ export class TariffService {
   }
 
   /**
-   * Initialize payment integrations (placeholders for future implementation)
+   * Apply plan changes saved by admins over the built-in defaults
+   */
+  private loadStoredPlans(): void {
+    this.plansRepository.list()
+      .then(storedPlans => {
+        storedPlans.forEach(plan => this.tariffPlans.set(plan.id, plan));
+
+        if (storedPlans.length > 0) {
+          logger.info('Stored tariff plans loaded', { count: storedPlans.length });
+        }
+      })
+      .catch(error => {
+        logger.error('Failed to load stored tariff plans', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+  }
+
+  /**
+   * Initialize payment integrations. YooKassa is enabled once its shop
+   * credentials are configured; the other providers are placeholders.
    */
   private initializePaymentIntegrations(): void {
     const integrations: PaymentIntegration[] = [
       {
         provider: 'yookassa',
-        isEnabled: false,
+        isEnabled: Boolean(process.env.YOOKASSA_SHOP_ID && process.env.YOOKASSA_SECRET_KEY),
         configuration: {
+          apiUrl: process.env.YOOKASSA_API_URL || 'https://api.yookassa.ru/v3',
           shopId: process.env.YOOKASSA_SHOP_ID || '',
           secretKey: process.env.YOOKASSA_SECRET_KEY || '',
           returnUrl: process.env.YOOKASSA_RETURN_URL || '',
-          webhookUrl: process.env.YOOKASSA_WEBHOOK_URL || ''
+          webhookUrl: process.env.YOOKASSA_WEBHOOK_URL || '',
+          webhookSecret: process.env.YOOKASSA_WEBHOOK_SECRET || ''
         }
       },
       {
@@ -284,14 +373,30 @@ export class TariffService {
       .filter(integration => integration.isEnabled)
       .map(integration => integration.provider);
 
+    if (enabledProviders.length > 0) {
+      return {
+        available: true,
+        message: 'Оплата подписок доступна.',
+        supportedProviders: enabledProviders
+      };
+    }
+
     return {
-      available: false, // Currently disabled
+      available: false,
       message: 'Оплата будет доступна позже. Пока все функции доступны бесплатно.',
       expectedDate: '2024-03-01', // Placeholder date
       supportedProviders: ['yookassa', 'sberbank', 'stripe', 'paypal']
     };
   }
 
+  /**
+   * Get a payment provider integration, or null when it is unknown or disabled
+   */
+  public getPaymentIntegration(provider: PaymentIntegration['provider']): PaymentIntegration | null {
+    const integration = this.paymentIntegrations.get(provider);
+    return integration && integration.isEnabled ? integration : null;
+  }
+
   /**
    * Get tariff comparison data
    */
@@ -332,27 +437,104 @@ export class TariffService {
   }
 
   /**
-   * Create user subscription (placeholder for future implementation)
+   * Create user subscription. Only the free plan can be activated directly;
+   * paid plans are activated by a successful payment (see PaymentService).
    */
-  public createSubscription(userId: string, planId: string): {
+  public async createSubscription(userId: string, planId: string): Promise<{
     success: boolean;
     message: string;
     subscriptionId?: string;
-  } {
+  }> {
     logger.info('Subscription creation attempted', { userId, planId });
-    
+
+    const plan = this.getTariffPlan(planId);
+    if (!plan) {
+      return {
+        success: false,
+        message: 'Тарифный план не найден'
+      };
+    }
+
+    if (!plan.isFree) {
+      return {
+        success: false,
+        message: 'Платные подписки без оплаты недоступны. Создайте платёж через POST /api/payments.'
+      };
+    }
+
+    await this.activateSubscription(userId, planId);
+
     return {
-      success: false,
-      message: 'Подписки пока недоступны. Все функции доступны бесплатно.'
+      success: true,
+      message: 'Бесплатный план активирован',
+      subscriptionId: userId
+    };
+  }
+
+  /**
+   * Activate a plan for the user. Renewing the plan the user still has access
+   * to extends it from its end date; switching plans starts a new period and
+   * resets usage. A saved payment method turns on automatic renewal.
+   */
+  public async activateSubscription(
+    userId: string,
+    planId: string,
+    options: { durationDays?: number; paymentMethod?: string; paymentMethodId?: string } = {}
+  ): Promise<UserSubscription> {
+    const plan = this.tariffPlans.get(planId);
+    if (!plan) {
+      throw new Error(`Unknown tariff plan: ${planId}`);
+    }
+
+    const now = new Date();
+    const durationDays = options.durationDays ?? (plan.isFree ? 365 : 30);
+    const current = await this.subscriptionsRepository.get(userId);
+    const isRenewal = current?.planId === planId && this.hasAccess(current, now);
+    const startDate = isRenewal ? current!.startDate : now;
+    const periodStart = isRenewal && current!.endDate > now ? current!.endDate : now;
+    const paymentMethodId = plan.isFree ? undefined : options.paymentMethodId ?? current?.paymentMethodId;
+
+    const subscription: UserSubscription = {
+      userId,
+      planId,
+      status: 'active',
+      startDate,
+      endDate: new Date(periodStart.getTime() + durationDays * 24 * 60 * 60 * 1000),
+      autoRenew: Boolean(paymentMethodId),
+      paymentMethod: options.paymentMethod ?? current?.paymentMethod,
+      paymentMethodId,
+      trialUsedAt: current?.trialUsedAt,
+      previousPlanId: current && current.planId !== planId ? current.planId : current?.previousPlanId
     };
+
+    await this.subscriptionsRepository.save(userId, subscription, userId);
+
+    if (!isRenewal) {
+      // The new plan gets a fresh quota period
+      await this.withUsageLock(userId, () => this.usageRepository.delete(userId));
+    }
+
+    logger.info('Subscription activated', {
+      userId,
+      planId,
+      endDate: subscription.endDate.toISOString(),
+      renewal: isRenewal
+    });
+
+    return subscription;
   }
 
   /**
    * Get user subscription status
    */
-  public getUserSubscription(userId: string): UserSubscription | null {
-    // For now, return free plan for all users
-    return {
+  public async getUserSubscription(userId: string): Promise<UserSubscription | null> {
+    const stored = await this.subscriptionsRepository.get(userId);
+    if (stored) {
+      return stored;
+    }
+
+    // New users start on the free plan
+    const subscription: UserSubscription = {
       userId,
       planId: 'free',
       status: 'active',
@@ -360,49 +542,223 @@ export class TariffService {
       endDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
       autoRenew: false
     };
+
+    await this.subscriptionsRepository.save(userId, subscription, userId);
+    return subscription;
+  }
+
+  /**
+   * Plan whose quota currently applies to the user: the subscribed plan while
+   * the subscription is active, otherwise the free plan
+   */
+  public async getEffectivePlan(userId: string): Promise<TariffPlan> {
+    const subscription = await this.subscriptionsRepository.get(userId);
+    const plan = subscription && this.hasAccess(subscription) ? this.tariffPlans.get(subscription.planId) : undefined;
+
+    return plan || this.tariffPlans.get('free')!;
+  }
+
+  /**
+   * Whether the plan's searches return the records found. Plans stored before
+   * the setting existed get full searches unless they are free.
+   */
+  public allowsFullSearch(plan: TariffPlan): boolean {
+    return plan.fullSearch ?? !plan.isFree;
+  }
+
+  /**
+   * Whether the subscription still grants its plan: trials, active and
+   * cancelled subscriptions until their end date, past-due ones until the
+   * grace period ends
+   */
+  public hasAccess(subscription: UserSubscription, now: Date = new Date()): boolean {
+    switch (subscription.status) {
+      case 'trial':
+      case 'active':
+      case 'cancelled':
+        return subscription.endDate > now;
+      case 'past_due':
+        return Boolean(subscription.gracePeriodEndsAt && subscription.gracePeriodEndsAt > now);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * List stored subscriptions, oldest first
+   */
+  public async listSubscriptions(options: { limit?: number; offset?: number } = {}): Promise<UserSubscription[]> {
+    return this.subscriptionsRepository.list(options);
+  }
+
+  /**
+   * Store a subscription as-is; used by the lifecycle engine for state transitions
+   */
+  public async saveSubscription(subscription: UserSubscription): Promise<UserSubscription> {
+    await this.subscriptionsRepository.save(subscription.userId, subscription, subscription.userId);
+    return subscription;
+  }
+
+  /**
+   * Quotas reset daily on free plans and monthly on paid plans
+   */
+  public getQuotaPeriod(plan: TariffPlan): QuotaPeriod {
+    return plan.isFree ? 'day' : 'month';
   }
 
   /**
    * Check if user can perform search (usage limits)
    */
-  public canUserSearch(userId: string): {
-    allowed: boolean;
-    remaining: number;
-    resetDate: Date;
-    message?: string;
-  } {
-    // For now, allow unlimited searches (free period)
-    return {
-      allowed: true,
-      remaining: -1, // Unlimited
-      resetDate: new Date(Date.now() + 24 * 60 * 60 * 1000), // Tomorrow
-      message: 'Бесплатный период - неограниченные поиски'
-    };
+  public async canUserSearch(userId: string): Promise<SearchQuota> {
+    const plan = await this.getEffectivePlan(userId);
+    const stats = await this.getUsageStats(userId);
+    return this.toSearchQuota(plan, stats);
+  }
+
+  /**
+   * Check the quota and count `count` searches in a single step, all or none.
+   * Calls for the same user are serialized so concurrent searches cannot
+   * overspend the quota.
+   */
+  public async consumeSearchQuota(userId: string, count: number = 1): Promise<SearchQuota> {
+    return this.withUsageLock(userId, async () => {
+      const plan = await this.getEffectivePlan(userId);
+      const stats = await this.getUsageStats(userId);
+      const quota = this.toSearchQuota(plan, stats);
+
+      if (!quota.allowed) {
+        logger.info('Search quota exhausted', { userId, planId: plan.id, limit: quota.limit });
+        return quota;
+      }
+
+      if (quota.remaining !== -1 && quota.remaining < count) {
+        logger.info('Search quota too low for request', { userId, planId: plan.id, count, remaining: quota.remaining });
+        return {
+          ...quota,
+          allowed: false,
+          message: `Запрос требует ${count} поисков, а по тарифу осталось ${quota.remaining}.`
+        };
+      }
+
+      const updated = await this.saveUsage({
+        ...stats,
+        searchesUsed: stats.searchesUsed + count,
+        lastUsage: new Date()
+      });
+
+      // This search went through even if it used the last one in the quota
+      return { ...this.toSearchQuota(plan, updated), allowed: true, message: undefined };
+    });
+  }
+
+  /**
+   * Give back searches consumed by a request that failed on our side
+   */
+  public async releaseSearchQuota(userId: string, count: number = 1): Promise<void> {
+    await this.withUsageLock(userId, async () => {
+      const stored = await this.usageRepository.get(userId);
+
+      // Nothing to refund once the period has rolled over
+      if (!stored || stored.resetDate <= new Date() || stored.searchesUsed === 0) {
+        return;
+      }
+
+      await this.saveUsage({ ...stored, searchesUsed: Math.max(0, stored.searchesUsed - count) });
+      logger.debug('Search quota released', { userId });
+    });
   }
 
   /**
    * Record search usage
    */
-  public recordSearchUsage(userId: string): void {
-    logger.debug('Search usage recorded', { userId });
-    // Placeholder for future implementation
+  public async recordSearchUsage(userId: string): Promise<UsageStats> {
+    return this.withUsageLock(userId, async () => {
+      const stats = await this.getUsageStats(userId);
+      const updated = await this.saveUsage({
+        ...stats,
+        searchesUsed: stats.searchesUsed + 1,
+        lastUsage: new Date()
+      });
+
+      logger.debug('Search usage recorded', { userId, searchesUsed: updated.searchesUsed });
+      return updated;
+    });
   }
 
   /**
-   * Get usage statistics
+   * Get usage statistics for the current period
    */
-  public getUsageStats(userId: string): UsageStats | null {
-    // Placeholder implementation
+  public async getUsageStats(userId: string): Promise<UsageStats> {
+    const now = new Date();
+    const plan = await this.getEffectivePlan(userId);
+    const stored = await this.usageRepository.get(userId);
+
+    if (stored && stored.resetDate > now) {
+      return { ...stored, planId: plan.id, searchesLimit: plan.searchLimit };
+    }
+
     return {
       userId,
-      planId: 'free',
+      planId: plan.id,
       searchesUsed: 0,
-      searchesLimit: -1, // Unlimited during free period
-      resetDate: new Date(Date.now() + 24 * 60 * 60 * 1000),
-      lastUsage: new Date()
+      searchesLimit: plan.searchLimit,
+      resetDate: this.getNextResetDate(this.getQuotaPeriod(plan), now),
+      lastUsage: stored?.lastUsage || now
+    };
+  }
+
+  /**
+   * Start of the next quota period (UTC midnight or the first day of next month)
+   */
+  public getNextResetDate(period: QuotaPeriod, from: Date = new Date()): Date {
+    if (period === 'day') {
+      return new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate() + 1));
+    }
+    return new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1));
+  }
+
+  private toSearchQuota(plan: TariffPlan, stats: UsageStats): SearchQuota {
+    const unlimited = plan.searchLimit === -1;
+    const remaining = unlimited ? -1 : Math.max(0, plan.searchLimit - stats.searchesUsed);
+    const allowed = unlimited || remaining > 0;
+
+    return {
+      allowed,
+      planId: plan.id,
+      isFreePlan: plan.isFree,
+      limit: plan.searchLimit,
+      used: stats.searchesUsed,
+      remaining,
+      resetDate: stats.resetDate,
+      period: this.getQuotaPeriod(plan),
+      message: allowed
+        ? undefined
+        : plan.isFree
+          ? 'Лимит бесплатных поисков на сегодня исчерпан. Перейдите на платный тариф или дождитесь обновления лимита.'
+          : 'Лимит поисков по вашему тарифу исчерпан до начала следующего периода.'
     };
   }
 
+  private async saveUsage(stats: UsageStats): Promise<UsageStats> {
+    await this.usageRepository.save(stats.userId, stats, stats.userId);
+    return stats;
+  }
+
+  private async withUsageLock<T>(userId: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.usageLocks.get(userId) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    const settled = current.catch(() => undefined);
+
+    this.usageLocks.set(userId, settled);
+    settled.then(() => {
+      if (this.usageLocks.get(userId) === settled) {
+        this.usageLocks.delete(userId);
+      }
+    });
+
+    return current;
+  }
+
   /**
    * Update tariff plan (admin function)
    */
@@ -416,6 +772,13 @@ export class TariffService {
 
     const updatedPlan = { ...plan, ...updates };
     this.tariffPlans.set(planId, updatedPlan);
+
+    this.plansRepository.save(planId, updatedPlan).catch(error => {
+      logger.error('Failed to persist tariff plan', {
+        planId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
     
     logger.info('Tariff plan updated', { planId, updates });
     return true;
@@ -0,0 +1,427 @@
+/**
+ * Telegram Service
+ * Telegram channel for notifications: links accounts to chats with our bot
+ * through /start deep links and sends notifications as bot messages
+ */
+
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { getStorage, Repository } from '../storage';
+import { TelegramApiError, TelegramBotClient, TelegramMessage, TelegramUpdate } from '../clients/telegram-bot.client';
+import {
+  notificationService,
+  isWithinQuietHours,
+  NotificationChannelHandler,
+  NotificationPreferences,
+  NotificationType,
+  StoredNotification
+} from './notification.service';
+
+export interface TelegramConfig {
+  token: string;
+  // Bot username for t.me links; looked up with getMe when empty
+  botUsername: string;
+  apiUrl: string;
+  // Receive updates through this webhook instead of long polling when set
+  webhookUrl: string;
+  webhookSecret: string;
+  linkTtlMs: number;
+  pollTimeoutSeconds: number;
+  // Frontend base URL for links in messages
+  appUrl: string;
+}
+
+// A Telegram chat linked to an account; stored under the chat id
+export interface TelegramLink {
+  userId: string;
+  chatId: number;
+  username?: string;
+  firstName?: string;
+  linkedAt: Date;
+}
+
+// One-time token carried by the /start deep link
+export interface TelegramLinkToken {
+  token: string;
+  userId: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface TelegramLinkRequest {
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+export type TelegramErrorType = 'TELEGRAM_DISABLED' | 'INVALID_WEBHOOK_SECRET';
+
+export class TelegramError extends Error {
+  constructor(
+    message: string,
+    public readonly type: TelegramErrorType,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'TelegramError';
+  }
+}
+
+const START_COMMAND = /^\/start(?:@\w+)?(?:\s+([A-Za-z0-9_-]+))?\s*$/;
+const STOP_COMMAND = /^\/stop(?:@\w+)?\s*$/;
+
+const REPLIES = {
+  linked: 'Готово! Уведомления DataTrace будут приходить в этот чат. Чтобы отключить их, отправьте /stop.',
+  expired: 'Ссылка устарела. Откройте настройки уведомлений в DataTrace и подключите Telegram ещё раз.',
+  help: 'Чтобы получать уведомления, откройте настройки уведомлений в DataTrace и нажмите «Подключить Telegram».',
+  unlinked: 'Уведомления в Telegram отключены. Подключить их снова можно в настройках DataTrace.'
+};
+
+/**
+ * Found data, new exposures, removal progress and billing notices go to Telegram; search
+ * progress and system messages stay in the app
+ */
+const isTelegramType = (type: NotificationType): boolean =>
+  type === 'data_found' ||
+  type === 'new_exposure' ||
+  type.startsWith('removal_') ||
+  type.startsWith('subscription_') ||
+  type.startsWith('payment_');
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char]!));
+
+export class TelegramService implements NotificationChannelHandler {
+  private static instance: TelegramService;
+  private config: TelegramConfig;
+  private linksRepository: Repository<TelegramLink>;
+  private tokensRepository: Repository<TelegramLinkToken>;
+  private client: TelegramBotClient | null = null;
+  private polling = false;
+  private pollAbort: AbortController | null = null;
+  private pollLoop: Promise<void> | null = null;
+
+  private constructor() {
+    const storage = getStorage();
+    this.linksRepository = storage.repository<TelegramLink>('telegram_links');
+    this.tokensRepository = storage.repository<TelegramLinkToken>('telegram_link_tokens');
+    this.config = {
+      token: process.env.TELEGRAM_BOT_TOKEN || '',
+      botUsername: process.env.TELEGRAM_BOT_USERNAME || '',
+      apiUrl: process.env.TELEGRAM_API_URL || 'https://api.telegram.org',
+      webhookUrl: process.env.TELEGRAM_WEBHOOK_URL || '',
+      webhookSecret: process.env.TELEGRAM_WEBHOOK_SECRET || '',
+      linkTtlMs: parseInt(process.env.TELEGRAM_LINK_TTL_MINUTES || '15', 10) * 60 * 1000,
+      pollTimeoutSeconds: 25,
+      appUrl: process.env.FRONTEND_URL || 'http://localhost:3001'
+    };
+  }
+
+  public static getInstance(): TelegramService {
+    if (!TelegramService.instance) {
+      TelegramService.instance = new TelegramService();
+    }
+    return TelegramService.instance;
+  }
+
+  /**
+   * Telegram is used only when a bot token is configured
+   */
+  isEnabled(): boolean {
+    return Boolean(this.config.token);
+  }
+
+  /**
+   * Override configuration, e.g. to point at a local Bot API stub
+   */
+  configure(config: Partial<TelegramConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.client = null;
+  }
+
+  /**
+   * Register the Telegram channel and start receiving bot updates, through
+   * the webhook when one is configured and long polling otherwise
+   */
+  async start(): Promise<void> {
+    if (!this.isEnabled()) {
+      logger.info('Telegram notifications disabled: TELEGRAM_BOT_TOKEN is not set');
+      return;
+    }
+
+    notificationService.registerChannel('telegram', this);
+
+    try {
+      if (this.config.webhookUrl) {
+        if (!this.config.webhookSecret) {
+          this.config.webhookSecret = crypto.randomBytes(32).toString('hex');
+        }
+        await this.getClient().setWebhook(this.config.webhookUrl, this.config.webhookSecret);
+      } else {
+        await this.getClient().deleteWebhook();
+        this.startPolling();
+      }
+
+      logger.info('Telegram notifications enabled', { updates: this.config.webhookUrl ? 'webhook' : 'polling' });
+    } catch (error) {
+      logger.error('Failed to start receiving Telegram updates', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Stop polling and unregister the Telegram channel
+   */
+  async stop(): Promise<void> {
+    notificationService.unregisterChannel('telegram');
+
+    this.polling = false;
+    this.pollAbort?.abort();
+    await this.pollLoop;
+  }
+
+  /**
+   * Create a one-time /start link that connects the user's Telegram chat.
+   * Earlier unused links stop working.
+   */
+  async createLinkToken(userId: string): Promise<TelegramLinkRequest> {
+    if (!this.isEnabled()) {
+      throw new TelegramError('Telegram notifications are not configured', 'TELEGRAM_DISABLED', 503);
+    }
+
+    for (const previous of await this.tokensRepository.list({ ownerId: userId })) {
+      await this.tokensRepository.delete(previous.token);
+    }
+
+    const now = new Date();
+    const entry: TelegramLinkToken = {
+      token: crypto.randomBytes(24).toString('base64url'),
+      userId,
+      expiresAt: new Date(now.getTime() + this.config.linkTtlMs),
+      createdAt: now
+    };
+    await this.tokensRepository.save(entry.token, entry, userId);
+
+    return {
+      token: entry.token,
+      url: `https://t.me/${await this.getBotUsername()}?start=${entry.token}`,
+      expiresAt: entry.expiresAt
+    };
+  }
+
+  /**
+   * Get the chat linked to the user, if any
+   */
+  async getLink(userId: string): Promise<TelegramLink | null> {
+    const [link] = await this.linksRepository.list({ ownerId: userId, limit: 1 });
+    return link || null;
+  }
+
+  /**
+   * Disconnect the user's chat and turn the Telegram channel off
+   */
+  async unlink(userId: string): Promise<boolean> {
+    const links = await this.linksRepository.list({ ownerId: userId });
+    for (const link of links) {
+      await this.linksRepository.delete(String(link.chatId));
+    }
+
+    await notificationService.updateUserPreferences(userId, { channels: { telegram: false } });
+    return links.length > 0;
+  }
+
+  /**
+   * Check the webhook secret and handle the update
+   */
+  async handleWebhook(secretToken: string | undefined, update: TelegramUpdate): Promise<void> {
+    const expected = Buffer.from(this.config.webhookSecret);
+    const actual = Buffer.from(secretToken || '');
+
+    if (!this.config.webhookSecret || actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      throw new TelegramError('Invalid webhook secret', 'INVALID_WEBHOOK_SECRET', 401);
+    }
+
+    await this.handleUpdate(update);
+  }
+
+  /**
+   * Handle a message to the bot: /start <token> links the chat, /stop unlinks it
+   */
+  async handleUpdate(update: TelegramUpdate): Promise<void> {
+    const message = update.message;
+    if (!message?.text || message.chat.type !== 'private') {
+      return;
+    }
+
+    const start = message.text.match(START_COMMAND);
+    if (start) {
+      await this.reply(message, start[1] ? await this.linkChat(start[1], message) : REPLIES.help);
+      return;
+    }
+
+    if (STOP_COMMAND.test(message.text)) {
+      const link = await this.linksRepository.get(String(message.chat.id));
+      if (link) {
+        await this.unlink(link.userId);
+      }
+      await this.reply(message, link ? REPLIES.unlinked : REPLIES.help);
+    }
+  }
+
+  /**
+   * Send the notification to the user's linked chat. Outside the app only some
+   * types are sent, silently during quiet hours unless the notification is urgent.
+   */
+  async deliver(notification: StoredNotification, preferences: NotificationPreferences): Promise<void> {
+    if (!isTelegramType(notification.type)) {
+      return;
+    }
+
+    const link = await this.getLink(notification.userId);
+    if (!link) {
+      return;
+    }
+
+    try {
+      await this.getClient().sendMessage(link.chatId, this.formatMessage(notification, preferences), {
+        parse_mode: 'HTML',
+        disable_notification: notification.priority !== 'urgent' && isWithinQuietHours(preferences.quietHours),
+        link_preview_options: { is_disabled: true }
+      });
+      await notificationService.recordDelivery(notification.id, 'telegram', true);
+    } catch (error) {
+      // 403 means the user blocked the bot or deleted the chat
+      if (error instanceof TelegramApiError && error.statusCode === 403) {
+        await this.unlink(notification.userId);
+        logger.info('Removed Telegram link blocked by the user', { userId: notification.userId });
+      } else {
+        logger.warn('Telegram delivery failed', {
+          notificationId: notification.id,
+          userId: notification.userId,
+          statusCode: error instanceof TelegramApiError ? error.statusCode : undefined,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      await notificationService.recordDelivery(notification.id, 'telegram', false);
+    }
+  }
+
+  private async linkChat(token: string, message: TelegramMessage): Promise<string> {
+    const entry = await this.tokensRepository.get(token);
+    if (!entry) {
+      return REPLIES.expired;
+    }
+
+    await this.tokensRepository.delete(token);
+    if (entry.expiresAt <= new Date()) {
+      return REPLIES.expired;
+    }
+
+    // An account has one chat; a chat belongs to the account that linked it last
+    for (const previous of await this.linksRepository.list({ ownerId: entry.userId })) {
+      await this.linksRepository.delete(String(previous.chatId));
+    }
+
+    const link: TelegramLink = {
+      userId: entry.userId,
+      chatId: message.chat.id,
+      username: message.from?.username,
+      firstName: message.from?.first_name,
+      linkedAt: new Date()
+    };
+    await this.linksRepository.save(String(link.chatId), link, link.userId);
+    await notificationService.updateUserPreferences(link.userId, { channels: { telegram: true } });
+
+    logger.info('Telegram chat linked', { userId: link.userId });
+    return REPLIES.linked;
+  }
+
+  private formatMessage(notification: StoredNotification, preferences: NotificationPreferences): string {
+    const billing = notification.type.startsWith('subscription_') || notification.type.startsWith('payment_');
+    const url = `${this.config.appUrl.replace(/\/+$/, '')}${billing ? '/tariffs' : '/'}`;
+    const linkText = preferences.language === 'en' ? 'Open DataTrace' : 'Открыть DataTrace';
+
+    return [
+      `<b>${escapeHtml(notification.title)}</b>`,
+      escapeHtml(notification.message),
+      '',
+      `<a href="${escapeHtml(url)}">${linkText}</a>`
+    ].join('\n');
+  }
+
+  private async reply(message: TelegramMessage, text: string): Promise<void> {
+    try {
+      await this.getClient().sendMessage(message.chat.id, text);
+    } catch (error) {
+      logger.warn('Failed to reply in Telegram', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private async getBotUsername(): Promise<string> {
+    if (!this.config.botUsername) {
+      this.config.botUsername = (await this.getClient().getMe()).username || '';
+    }
+    return this.config.botUsername;
+  }
+
+  private startPolling(): void {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    this.pollLoop = this.poll().finally(() => {
+      this.pollLoop = null;
+    });
+  }
+
+  private async poll(): Promise<void> {
+    let offset: number | undefined;
+
+    while (this.polling) {
+      this.pollAbort = new AbortController();
+
+      try {
+        const updates = await this.getClient().getUpdates(
+          { offset, timeout: this.config.pollTimeoutSeconds, allowed_updates: ['message'] },
+          this.pollAbort.signal
+        );
+
+        for (const update of updates) {
+          offset = update.update_id + 1;
+          await this.handleUpdate(update).catch(error => {
+            logger.error('Failed to handle Telegram update', {
+              updateId: update.update_id,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+          });
+        }
+      } catch (error) {
+        if (!this.polling) {
+          break;
+        }
+
+        const retryAfter = error instanceof TelegramApiError && error.retryAfter ? error.retryAfter * 1000 : 5000;
+        logger.warn('Telegram polling failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          retryInMs: retryAfter
+        });
+        await new Promise(resolve => setTimeout(resolve, retryAfter).unref());
+      }
+    }
+  }
+
+  private getClient(): TelegramBotClient {
+    if (!this.client) {
+      this.client = new TelegramBotClient({ apiUrl: this.config.apiUrl, token: this.config.token });
+    }
+    return this.client;
+  }
+}
+
+// Export singleton instance
+export const telegramService = TelegramService.getInstance();
@@ -1,6 +1,7 @@
 /**
  * Validation service for user input data
- * Handles validation and sanitization of phone numbers, emails, INN, SNILS, and passport data
+ * Handles validation and sanitization of phone numbers, emails, INN, SNILS, passport data,
+ * names, addresses, car plates, VINs and Telegram accounts
  */
 
 import { 
@@ -60,6 +61,55 @@ export class ValidationService {
       maxLength: 11,
       required: true,
       sanitize: this.sanitizePassport.bind(this)
+    },
+    name: {
+      type: 'name',
+      pattern: /^[A-Za-zА-Яа-яЁё]+(?:[ '-][A-Za-zА-Яа-яЁё]+)*(?: \d{4}-\d{2}-\d{2})?$/,
+      minLength: 3,
+      maxLength: 100,
+      required: true,
+      sanitize: this.sanitizeName.bind(this),
+      customValidator: this.validateName.bind(this)
+    },
+    address: {
+      type: 'address',
+      pattern: /^(?=.*[A-Za-zА-Яа-яЁё])[A-Za-zА-Яа-яЁё0-9\s.,\-\/№#"'()]+$/,
+      minLength: 5,
+      maxLength: 200,
+      required: true,
+      sanitize: this.collapseSpaces.bind(this)
+    },
+    plate_number: {
+      type: 'plate_number',
+      pattern: /^[АВЕКМНОРСТУХ]\d{3}[АВЕКМНОРСТУХ]{2}\d{2,3}$/,
+      minLength: 8,
+      maxLength: 9,
+      required: true,
+      sanitize: this.sanitizePlateNumber.bind(this)
+    },
+    vin: {
+      type: 'vin',
+      pattern: /^[A-HJ-NPR-Z0-9]{17}$/,
+      minLength: 17,
+      maxLength: 17,
+      required: true,
+      sanitize: this.sanitizeVin.bind(this)
+    },
+    username: {
+      type: 'username',
+      pattern: /^[A-Za-z][A-Za-z0-9_]{4,31}$/,
+      minLength: 5,
+      maxLength: 32,
+      required: true,
+      sanitize: this.sanitizeUsername.bind(this)
+    },
+    telegram_id: {
+      type: 'telegram_id',
+      pattern: /^\d{5,15}$/,
+      minLength: 5,
+      maxLength: 15,
+      required: true,
+      sanitize: this.sanitizeNumeric.bind(this)
     }
   };
 
@@ -129,7 +179,7 @@ export class ValidationService {
     if (schema.customValidator && !schema.customValidator(sanitized)) {
       errors.push({
         field: type,
-        message: 'Неверная контрольная сумма',
+        message: type === 'name' ? this.getFormatErrorMessage(type) : 'Неверная контрольная сумма',
         code: ValidationErrorCode.INVALID_CHECKSUM
       });
     }
@@ -187,6 +237,76 @@ export class ValidationService {
     return digits;
   }
 
+  /**
+   * Sanitize a full name: single spaces, and a trailing DD.MM.YYYY birth
+   * date rewritten as YYYY-MM-DD
+   */
+  private sanitizeName(value: string): string {
+    return this.collapseSpaces(value)
+      .replace(/\s+(\d{2})\.(\d{2})\.(\d{4})$/, ' $3-$2-$1');
+  }
+
+  /**
+   * Collapse runs of whitespace (names, addresses)
+   */
+  private collapseSpaces(value: string): string {
+    return value.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Sanitize a car plate: upper case without separators, Latin look-alike
+   * letters replaced with the Cyrillic ones plates use
+   */
+  private sanitizePlateNumber(value: string): string {
+    const lookAlikes: Record<string, string> = {
+      A: 'А', B: 'В', E: 'Е', K: 'К', M: 'М', H: 'Н', O: 'О', P: 'Р', C: 'С', T: 'Т', Y: 'У', X: 'Х'
+    };
+
+    return value
+      .toUpperCase()
+      .replace(/[\s-]/g, '')
+      .replace(/[ABEKMHOPCTYX]/g, letter => lookAlikes[letter]);
+  }
+
+  /**
+   * Sanitize VIN: upper case without separators
+   */
+  private sanitizeVin(value: string): string {
+    return value.toUpperCase().replace(/[\s-]/g, '');
+  }
+
+  /**
+   * Sanitize a Telegram username: no @ and no t.me link prefix
+   */
+  private sanitizeUsername(value: string): string {
+    return value
+      .trim()
+      .replace(/^(https?:\/\/)?(t\.me|telegram\.me)\//i, '')
+      .replace(/^@/, '');
+  }
+
+  /**
+   * A name needs at least a surname and a first name; a birth date, when
+   * given, must be a real date in the past
+   */
+  private validateName(value: string): boolean {
+    const dateMatch = value.match(/ (\d{4})-(\d{2})-(\d{2})$/);
+    const words = value.replace(/ \d{4}-\d{2}-\d{2}$/, '').split(' ');
+
+    if (words.length < 2) {
+      return false;
+    }
+
+    if (dateMatch) {
+      const [, year, month, day] = dateMatch.map(Number);
+      const date = new Date(Date.UTC(year, month - 1, day));
+      const isRealDate = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+      return isRealDate && year >= 1900 && date.getTime() <= Date.now();
+    }
+
+    return true;
+  }
+
   /**
    * Validate phone number checksum (basic validation)
    */
@@ -278,7 +398,13 @@ export class ValidationService {
       email: 'Неверный формат email адреса',
       inn: 'ИНН должен содержать 10 или 12 цифр',
       snils: 'СНИЛС должен содержать 11 цифр',
-      passport: 'Паспорт должен содержать 4 цифры серии и 6 цифр номера'
+      passport: 'Паспорт должен содержать 4 цифры серии и 6 цифр номера',
+      name: 'Укажите фамилию и имя буквами, дату рождения — в формате ГГГГ-ММ-ДД',
+      address: 'Адрес может содержать буквы, цифры и знаки препинания',
+      plate_number: 'Госномер должен быть в формате А123ВС77',
+      vin: 'VIN должен содержать 17 латинских букв и цифр (без I, O, Q)',
+      username: 'Имя пользователя Telegram: 5–32 латинские буквы, цифры или _',
+      telegram_id: 'Telegram ID должен содержать от 5 до 15 цифр'
     };
     
     return messages[type] || 'Неверный формат данных';
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for the storage drivers
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import { InMemoryStorage } from '../memory.storage';
+import { SqliteStorage } from '../sqlite.storage';
+import { StorageDriver } from '../types';
+import { createStorage } from '../index';
+import { getAppliedMigrations, MIGRATIONS, runMigrations } from '../migrations';
+
+interface TestRecord {
+  name: string;
+  count: number;
+  createdAt: Date;
+}
+
+const drivers: Array<[string, () => StorageDriver]> = [
+  ['InMemoryStorage', () => new InMemoryStorage()],
+  ['SqliteStorage', () => new SqliteStorage({ filePath: ':memory:' })]
+];
+
+describe.each(drivers)('%s', (_name, createDriver) => {
+  let storage: StorageDriver;
+
+  beforeEach(async () => {
+    storage = createDriver();
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('should save and read back records with dates restored', async () => {
+    const repository = storage.repository<TestRecord>('subscriptions');
+    const createdAt = new Date('2024-05-01T10:00:00.000Z');
+
+    await repository.save('a', { name: 'first', count: 1, createdAt });
+    const record = await repository.get('a');
+
+    expect(record).toEqual({ name: 'first', count: 1, createdAt });
+    expect(record?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should return null for missing records', async () => {
+    const repository = storage.repository<TestRecord>('subscriptions');
+    expect(await repository.get('missing')).toBeNull();
+  });
+
+  it('should overwrite records saved with the same id', async () => {
+    const repository = storage.repository<TestRecord>('usage_stats');
+
+    await repository.save('a', { name: 'first', count: 1, createdAt: new Date() });
+    await repository.save('a', { name: 'first', count: 2, createdAt: new Date() });
+
+    expect((await repository.get('a'))?.count).toBe(2);
+    expect(await repository.count()).toBe(1);
+  });
+
+  it('should filter, order and paginate by owner', async () => {
+    const repository = storage.repository<TestRecord>('notifications');
+
+    await repository.save('n1', { name: 'one', count: 1, createdAt: new Date() }, 'user-1');
+    await repository.save('n2', { name: 'two', count: 2, createdAt: new Date() }, 'user-1');
+    await repository.save('n3', { name: 'three', count: 3, createdAt: new Date() }, 'user-2');
+
+    const owned = await repository.list({ ownerId: 'user-1' });
+    expect(owned.map(record => record.name)).toEqual(['one', 'two']);
+
+    const latest = await repository.list({ ownerId: 'user-1', order: 'desc', limit: 1 });
+    expect(latest.map(record => record.name)).toEqual(['two']);
+
+    const paged = await repository.list({ offset: 1, limit: 1 });
+    expect(paged.map(record => record.name)).toEqual(['two']);
+
+    expect(await repository.count('user-1')).toBe(2);
+    expect(await repository.count('user-2')).toBe(1);
+  });
+
+  it('should keep the owner when a record is updated without one', async () => {
+    const repository = storage.repository<TestRecord>('notifications');
+
+    await repository.save('n1', { name: 'one', count: 1, createdAt: new Date() }, 'user-1');
+    await repository.save('n1', { name: 'one', count: 5, createdAt: new Date() });
+
+    expect(await repository.count('user-1')).toBe(1);
+  });
+
+  it('should delete and clear records', async () => {
+    const repository = storage.repository<TestRecord>('rate_limits');
+
+    await repository.save('a', { name: 'a', count: 1, createdAt: new Date() });
+    await repository.save('b', { name: 'b', count: 1, createdAt: new Date() });
+
+    expect(await repository.delete('a')).toBe(true);
+    expect(await repository.delete('a')).toBe(false);
+
+    await repository.clear();
+    expect(await repository.count()).toBe(0);
+  });
+
+  it('should keep collections separate', async () => {
+    await storage.repository<TestRecord>('metrics').save('a', { name: 'metric', count: 1, createdAt: new Date() });
+    expect(await storage.repository<TestRecord>('tariff_plans').get('a')).toBeNull();
+  });
+});
+
+describe('SqliteStorage persistence', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+    filePath = path.join(tempDir, 'nested', 'app.sqlite');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep records across restarts', async () => {
+    const first = new SqliteStorage({ filePath });
+    await first.repository<TestRecord>('subscriptions').save('user-1', {
+      name: 'premium',
+      count: 3,
+      createdAt: new Date('2024-01-01T00:00:00.000Z')
+    });
+    await first.close();
+
+    expect(fs.existsSync(filePath)).toBe(true);
+
+    const second = new SqliteStorage({ filePath });
+    const record = await second.repository<TestRecord>('subscriptions').get('user-1');
+    await second.close();
+
+    expect(record?.name).toBe('premium');
+    expect(record?.createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  it('should reject invalid collection names', () => {
+    const storage = new SqliteStorage({ filePath: ':memory:' });
+    expect(() => storage.repository('users; DROP TABLE x')).toThrow('Invalid storage collection name');
+  });
+});
+
+describe('runMigrations', () => {
+  it('should apply each migration once', async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+
+    expect(runMigrations(db)).toEqual(MIGRATIONS.map(migration => migration.version));
+    expect(runMigrations(db)).toEqual([]);
+    expect(getAppliedMigrations(db).map(migration => migration.version))
+      .toEqual(MIGRATIONS.map(migration => migration.version));
+
+    db.close();
+  });
+
+  it('should roll back a failing migration', async () => {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+
+    expect(() => runMigrations(db, [
+      { version: 1, name: 'broken', statements: ['CREATE TABLE ok_table (id TEXT)', 'NOT VALID SQL'] }
+    ])).toThrow('Migration 1 (broken) failed');
+
+    expect(db.exec("SELECT name FROM sqlite_master WHERE name = 'ok_table'")).toEqual([]);
+    expect(getAppliedMigrations(db)).toEqual([]);
+
+    db.close();
+  });
+});
+
+describe('createStorage', () => {
+  it('should create the requested driver', () => {
+    expect(createStorage('memory').name).toBe('memory');
+    expect(createStorage('sqlite', ':memory:').name).toBe('sqlite');
+  });
+
+  it('should default to memory under tests', () => {
+    expect(createStorage(undefined).name).toBe('memory');
+  });
+
+  it('should reject unknown drivers', () => {
+    expect(() => createStorage('postgres')).toThrow('Unknown storage driver: postgres');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Storage Index
+ * Selects the storage driver from the environment and exposes the shared instance
+ */
+
+import path from 'path';
+import { logger } from '../utils/logger';
+import { InMemoryStorage } from './memory.storage';
+import { SqliteStorage } from './sqlite.storage';
+import { StorageDriver, StorageDriverName } from './types';
+
+export const DATABASE_PATH = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'app.sqlite');
+
+let storage: StorageDriver | null = null;
+
+/**
+ * Create a storage driver; defaults to SQLite, or memory when running tests
+ */
+export function createStorage(
+  driver: string | undefined = process.env.STORAGE_DRIVER,
+  filePath: string = DATABASE_PATH
+): StorageDriver {
+  const name = (driver || (process.env.NODE_ENV === 'test' ? 'memory' : 'sqlite')) as StorageDriverName;
+
+  switch (name) {
+    case 'memory':
+      return new InMemoryStorage();
+    case 'sqlite':
+      return new SqliteStorage({ filePath });
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+/**
+ * Get the shared storage driver, creating it on first use
+ */
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    storage = createStorage();
+    logger.info('Storage driver selected', { driver: storage.name });
+  }
+  return storage;
+}
+
+/**
+ * Replace the shared storage driver (services pick it up when constructed)
+ */
+export function setStorage(driver: StorageDriver): void {
+  storage = driver;
+}
+
+/**
+ * Flush and close the shared storage driver
+ */
+export async function closeStorage(): Promise<void> {
+  if (storage) {
+    await storage.close();
+  }
+}
+
+export { InMemoryStorage } from './memory.storage';
+export { SqliteStorage } from './sqlite.storage';
+export { MIGRATIONS, runMigrations, getAppliedMigrations, createCollectionTable } from './migrations';
+
+export type { Repository, StorageDriver, StorageDriverName, ListOptions } from './types';
+export type { SqliteStorageOptions } from './sqlite.storage';
+export type { Migration, AppliedMigration } from './migrations';
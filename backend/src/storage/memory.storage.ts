@@ -0,0 +1,82 @@
+/**
+ * In-Memory Storage
+ * Process-local driver used in tests and when no database file is configured
+ */
+
+import { ListOptions, Repository, StorageDriver } from './types';
+import { deserialize, serialize } from './serialization';
+
+interface StoredRow {
+  ownerId?: string;
+  data: string;
+  createdAt: number;
+  sequence: number;
+}
+
+class InMemoryRepository<T> implements Repository<T> {
+  private rows = new Map<string, StoredRow>();
+  private sequence = 0;
+
+  async get(id: string): Promise<T | null> {
+    const row = this.rows.get(id);
+    return row ? deserialize<T>(row.data) : null;
+  }
+
+  async list(options: ListOptions = {}): Promise<T[]> {
+    const direction = options.order === 'desc' ? -1 : 1;
+    const offset = options.offset || 0;
+
+    const rows = Array.from(this.rows.values())
+      .filter(row => options.ownerId === undefined || row.ownerId === options.ownerId)
+      .sort((a, b) => direction * (a.createdAt - b.createdAt || a.sequence - b.sequence));
+
+    return rows
+      .slice(offset, options.limit !== undefined ? offset + options.limit : undefined)
+      .map(row => deserialize<T>(row.data));
+  }
+
+  async count(ownerId?: string): Promise<number> {
+    if (ownerId === undefined) {
+      return this.rows.size;
+    }
+    return Array.from(this.rows.values()).filter(row => row.ownerId === ownerId).length;
+  }
+
+  async save(id: string, value: T, ownerId?: string): Promise<void> {
+    const existing = this.rows.get(id);
+    this.rows.set(id, {
+      ownerId: ownerId ?? existing?.ownerId,
+      data: serialize(value),
+      createdAt: existing?.createdAt ?? Date.now(),
+      sequence: existing?.sequence ?? this.sequence++
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.rows.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.rows.clear();
+  }
+}
+
+export class InMemoryStorage implements StorageDriver {
+  readonly name = 'memory' as const;
+  private repositories = new Map<string, InMemoryRepository<unknown>>();
+
+  async initialize(): Promise<void> {
+    // Nothing to prepare
+  }
+
+  repository<T>(collection: string): Repository<T> {
+    if (!this.repositories.has(collection)) {
+      this.repositories.set(collection, new InMemoryRepository<unknown>());
+    }
+    return this.repositories.get(collection) as Repository<T>;
+  }
+
+  async close(): Promise<void> {
+    this.repositories.clear();
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Storage Migrations
+ * Versioned schema changes applied to the SQLite database on startup
+ */
+
+import { Database } from 'sql.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+/**
+ * Statements creating a document collection table
+ */
+export function createCollectionTable(collection: string): string[] {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${collection} (
+      id TEXT PRIMARY KEY,
+      owner_id TEXT,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_${collection}_owner ON ${collection} (owner_id, created_at)`
+  ];
+}
+
+// Append new migrations to the end; never edit one that has shipped
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_initial_collections',
+    statements: [
+      ...createCollectionTable('tariff_plans'),
+      ...createCollectionTable('subscriptions'),
+      ...createCollectionTable('usage_stats'),
+      ...createCollectionTable('rate_limits'),
+      ...createCollectionTable('metrics'),
+      ...createCollectionTable('notifications'),
+      ...createCollectionTable('search_history')
+    ]
+  },
+  {
+    version: 2,
+    name: 'create_user_collections',
+    statements: [
+      ...createCollectionTable('users'),
+      ...createCollectionTable('user_emails'),
+      ...createCollectionTable('refresh_tokens')
+    ]
+  },
+  {
+    version: 3,
+    name: 'create_payment_collections',
+    statements: [
+      ...createCollectionTable('payments'),
+      ...createCollectionTable('payment_idempotency')
+    ]
+  },
+  {
+    version: 4,
+    name: 'create_notification_settings_collections',
+    statements: [
+      ...createCollectionTable('notification_preferences'),
+      ...createCollectionTable('push_subscriptions')
+    ]
+  },
+  {
+    version: 5,
+    name: 'create_email_outbox',
+    statements: [
+      ...createCollectionTable('email_outbox')
+    ]
+  },
+  {
+    version: 6,
+    name: 'create_app_settings',
+    statements: [
+      ...createCollectionTable('app_settings')
+    ]
+  },
+  {
+    version: 7,
+    name: 'create_telegram_collections',
+    statements: [
+      ...createCollectionTable('telegram_links'),
+      ...createCollectionTable('telegram_link_tokens')
+    ]
+  },
+  {
+    version: 8,
+    name: 'create_search_jobs',
+    statements: [
+      ...createCollectionTable('search_jobs')
+    ]
+  },
+  {
+    version: 9,
+    name: 'create_search_history_collections',
+    statements: [
+      ...createCollectionTable('search_history'),
+      ...createCollectionTable('search_history_keys')
+    ]
+  },
+  {
+    version: 10,
+    name: 'create_exposure_monitors',
+    statements: [
+      ...createCollectionTable('exposure_monitors')
+    ]
+  },
+  {
+    version: 11,
+    name: 'create_removal_cases',
+    statements: [
+      ...createCollectionTable('removal_cases')
+    ]
+  },
+  {
+    version: 12,
+    name: 'create_cost_ledger',
+    statements: [
+      ...createCollectionTable('cost_ledger')
+    ]
+  }
+];
+
+/**
+ * Apply pending migrations in version order and return the versions applied
+ */
+export function runMigrations(db: Database, migrations: Migration[] = MIGRATIONS): number[] {
+  db.run(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+  )`);
+
+  const applied = new Set(getAppliedMigrations(db).map(migration => migration.version));
+  const pending = migrations
+    .filter(migration => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    db.run('BEGIN');
+    try {
+      migration.statements.forEach(statement => db.run(statement));
+      db.run(
+        'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, new Date().toISOString()]
+      );
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+    }
+  }
+
+  return pending.map(migration => migration.version);
+}
+
+/**
+ * List migrations already recorded in the database
+ */
+export function getAppliedMigrations(db: Database): AppliedMigration[] {
+  const result = db.exec('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+  if (result.length === 0) {
+    return [];
+  }
+
+  return result[0].values.map(([version, name, appliedAt]) => ({
+    version: Number(version),
+    name: String(name),
+    appliedAt: String(appliedAt)
+  }));
+}
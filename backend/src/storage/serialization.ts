@@ -0,0 +1,22 @@
+/**
+ * Storage Serialization
+ * JSON encoding that restores Date values written by JSON.stringify
+ */
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Encode a value for storage
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Decode a stored value, turning ISO timestamps back into Date objects
+ */
+export function deserialize<T>(data: string): T {
+  return JSON.parse(data, (_key, value) =>
+    typeof value === 'string' && ISO_TIMESTAMP.test(value) ? new Date(value) : value
+  ) as T;
+}
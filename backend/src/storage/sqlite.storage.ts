@@ -0,0 +1,231 @@
+/**
+ * SQLite Storage
+ * File-backed driver built on sql.js; the database lives in memory and is
+ * written back to disk shortly after every change and on close
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { BindParams, Database, SqlValue } from 'sql.js';
+import { logger } from '../utils/logger';
+import { ListOptions, Repository, StorageDriver } from './types';
+import { deserialize, serialize } from './serialization';
+import { Migration, MIGRATIONS, runMigrations } from './migrations';
+
+export interface SqliteStorageOptions {
+  // Path to the database file, or ':memory:' to skip persistence
+  filePath: string;
+  // Delay before changes are flushed to disk
+  flushDelayMs?: number;
+  migrations?: Migration[];
+}
+
+const COLLECTION_NAME = /^[a-z][a-z0-9_]*$/;
+
+class SqliteRepository<T> implements Repository<T> {
+  constructor(
+    private readonly storage: SqliteStorage,
+    private readonly table: string
+  ) {}
+
+  async get(id: string): Promise<T | null> {
+    const rows = await this.storage.query(`SELECT data FROM ${this.table} WHERE id = ?`, [id]);
+    return rows.length > 0 ? deserialize<T>(String(rows[0].data)) : null;
+  }
+
+  async list(options: ListOptions = {}): Promise<T[]> {
+    const params: SqlValue[] = [];
+    let sql = `SELECT data FROM ${this.table}`;
+
+    if (options.ownerId !== undefined) {
+      sql += ' WHERE owner_id = ?';
+      params.push(options.ownerId);
+    }
+
+    sql += ` ORDER BY created_at ${options.order === 'desc' ? 'DESC' : 'ASC'}, rowid ${options.order === 'desc' ? 'DESC' : 'ASC'}`;
+
+    if (options.limit !== undefined || options.offset !== undefined) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(options.limit ?? -1, options.offset ?? 0);
+    }
+
+    const rows = await this.storage.query(sql, params);
+    return rows.map(row => deserialize<T>(String(row.data)));
+  }
+
+  async count(ownerId?: string): Promise<number> {
+    const rows = ownerId === undefined
+      ? await this.storage.query(`SELECT COUNT(*) AS total FROM ${this.table}`)
+      : await this.storage.query(`SELECT COUNT(*) AS total FROM ${this.table} WHERE owner_id = ?`, [ownerId]);
+    return Number(rows[0].total);
+  }
+
+  async save(id: string, value: T, ownerId?: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.storage.execute(
+      `INSERT INTO ${this.table} (id, owner_id, data, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         owner_id = COALESCE(excluded.owner_id, owner_id),
+         data = excluded.data,
+         updated_at = excluded.updated_at`,
+      [id, ownerId ?? null, serialize(value), now, now]
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return (await this.storage.execute(`DELETE FROM ${this.table} WHERE id = ?`, [id])) > 0;
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.execute(`DELETE FROM ${this.table}`);
+  }
+}
+
+export class SqliteStorage implements StorageDriver {
+  readonly name = 'sqlite' as const;
+  private readonly filePath: string;
+  private readonly flushDelayMs: number;
+  private readonly migrations: Migration[];
+  private db: Database | null = null;
+  private ready: Promise<void> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: SqliteStorageOptions) {
+    this.filePath = options.filePath;
+    this.flushDelayMs = options.flushDelayMs ?? 500;
+    this.migrations = options.migrations ?? MIGRATIONS;
+  }
+
+  /**
+   * Open the database file and apply pending migrations (safe to call repeatedly)
+   */
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.open().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  repository<T>(collection: string): Repository<T> {
+    if (!COLLECTION_NAME.test(collection)) {
+      throw new Error(`Invalid storage collection name: ${collection}`);
+    }
+    return new SqliteRepository<T>(this, collection);
+  }
+
+  /**
+   * Run a read query and return rows as objects
+   */
+  async query(sql: string, params: BindParams = []): Promise<Array<Record<string, SqlValue>>> {
+    const db = await this.getDatabase();
+    const statement = db.prepare(sql);
+    const rows: Array<Record<string, SqlValue>> = [];
+
+    try {
+      statement.bind(params);
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+    } finally {
+      statement.free();
+    }
+
+    return rows;
+  }
+
+  /**
+   * Run a write statement and return the number of changed rows
+   */
+  async execute(sql: string, params: BindParams = []): Promise<number> {
+    const db = await this.getDatabase();
+    db.run(sql, params);
+    const changes = db.getRowsModified();
+    this.scheduleFlush();
+    return changes;
+  }
+
+  /**
+   * Write the database to disk immediately
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (!this.db || this.filePath === ':memory:') {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, Buffer.from(this.db.export()));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  async close(): Promise<void> {
+    if (this.ready) {
+      await this.ready.catch(() => undefined);
+    }
+
+    if (this.db) {
+      this.flush();
+      this.db.close();
+      this.db = null;
+      logger.info('SQLite storage closed', { filePath: this.filePath });
+    }
+
+    this.ready = null;
+  }
+
+  private async getDatabase(): Promise<Database> {
+    await this.initialize();
+    if (!this.db) {
+      throw new Error('SQLite storage is closed');
+    }
+    return this.db;
+  }
+
+  private async open(): Promise<void> {
+    const SQL = await initSqlJs();
+    const existing = this.filePath !== ':memory:' && fs.existsSync(this.filePath)
+      ? fs.readFileSync(this.filePath)
+      : undefined;
+
+    const db = new SQL.Database(existing);
+    const applied = runMigrations(db, this.migrations);
+    this.db = db;
+
+    if (applied.length > 0) {
+      this.flush();
+    }
+
+    logger.info('SQLite storage initialized', {
+      filePath: this.filePath,
+      appliedMigrations: applied
+    });
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || this.filePath === ':memory:') {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      try {
+        this.flush();
+      } catch (error) {
+        logger.error('Failed to flush SQLite storage', {
+          filePath: this.filePath,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }, this.flushDelayMs);
+    this.flushTimer.unref();
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Storage Types
+ * Repository abstraction shared by the SQLite and in-memory drivers
+ */
+
+export type StorageDriverName = 'sqlite' | 'memory';
+
+export interface ListOptions {
+  // Only return records saved with this owner (usually a user id)
+  ownerId?: string;
+  limit?: number;
+  offset?: number;
+  // Creation order, oldest first by default
+  order?: 'asc' | 'desc';
+}
+
+// Document-style repository: values are stored as JSON keyed by id
+export interface Repository<T> {
+  get(id: string): Promise<T | null>;
+  list(options?: ListOptions): Promise<T[]>;
+  count(ownerId?: string): Promise<number>;
+  save(id: string, value: T, ownerId?: string): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  initialize(): Promise<void>;
+  repository<T>(collection: string): Repository<T>;
+  close(): Promise<void>;
+}
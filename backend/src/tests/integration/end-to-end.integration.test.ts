@@ -84,7 +84,8 @@ describe('End-to-End Integration Tests', () => {
     });
 
     it('should handle complete workflow for each search type', async () => {
-      const searchTypes: SearchType[] = ['phone', 'email', 'inn', 'snils', 'passport'];
+      // Only the types with fixtures above; the rest of SearchType is covered elsewhere
+      const searchTypes: Array<SearchType & keyof typeof testData> = ['phone', 'email', 'inn', 'snils', 'passport'];
       
       for (const searchType of searchTypes) {
         const testValue = testData[searchType].valid[0];
@@ -2,6 +2,8 @@
  * API-related types and interfaces
  */
 
+import { BotCapabilities } from './bot';
+
 // Generic API response structure
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -52,6 +54,26 @@ export interface BotApiClient {
   search(query: string, type: string): Promise<ApiResponse>;
   isAvailable(): Promise<boolean>;
   getBotId(): string;
+  // Search types, limits and price of the upstream, used to route searches
+  getCapabilities(): BotCapabilities;
+  // Price of this query in rubles, for upstreams whose price depends on the query
+  estimateCost?(query: string, type: string): number;
+  // Remaining prepaid balance in rubles, for upstreams that report it; null when it cannot be read
+  getBalance?(): Promise<number | null>;
+  // Hits per source without fetching the records, for upstreams with a count-only method
+  countHits?(query: string, type: string): Promise<ApiResponse<HitCountResult>>;
+  // Several queries in one upstream call, for upstreams whose capabilities declare supportsBatch;
+  // the records of all queries come back merged
+  searchBatch?(queries: Array<{ query: string; type: string }>): Promise<ApiResponse>;
+}
+
+// Documents found per source by a count-only upstream call
+export interface HitCountResult {
+  totalRecords: number;
+  sources: Array<{
+    source: string;
+    count: number;
+  }>;
 }
 
 // Request configuration for API calls
@@ -0,0 +1,65 @@
+/**
+ * User account and authentication types
+ */
+
+// Stored user account
+export interface User {
+  id: string;
+  email: string;
+  passwordHash: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// User fields that are safe to return to clients
+export interface PublicUser {
+  id: string;
+  email: string;
+  createdAt: Date;
+}
+
+// Identity attached to authenticated requests as `req.user`
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+}
+
+export type AuthTokenType = 'access' | 'refresh';
+
+// Claims carried by access and refresh tokens
+export interface AuthTokenPayload {
+  sub: string;
+  email: string;
+  type: AuthTokenType;
+  jti?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+// Server-side record of an issued refresh token, used for rotation and logout
+export interface RefreshTokenRecord {
+  id: string;
+  userId: string;
+  expiresAt: Date;
+  revoked: boolean;
+  createdAt: Date;
+}
+
+export interface AuthResult {
+  user: PublicUser;
+  tokens: AuthTokens;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
@@ -2,6 +2,8 @@
  * Bot configuration and management types
  */
 
+import { SearchType } from './search';
+
 // Bot configuration interface
 export interface BotConfig {
   id: string;
@@ -23,10 +25,14 @@ export enum BotStatus {
   MAINTENANCE = 'maintenance'
 }
 
-// Bot capabilities
+// Bot capabilities, declared by each client
 export interface BotCapabilities {
-  supportedSearchTypes: string[];
+  supportedSearchTypes: SearchType[];
+  // Several queries can be sent in one upstream request
+  supportsBatch: boolean;
   maxRequestsPerMinute: number;
+  // Upstream price of one search in rubles; 0 when it is not billed per request
+  costPerRequest: number;
   requiresAuthentication: boolean;
   supportsParallelRequests: boolean;
 }
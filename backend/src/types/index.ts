@@ -2,6 +2,10 @@
 export * from './api';
 export * from './bot';
 export * from './search';
+export * from './person';
+export * from './risk';
 export * from './validation';
 export * from './common';
-export * from './tariff';
\ No newline at end of file
+export * from './tariff';
+export * from './auth';
+export * from './payment';
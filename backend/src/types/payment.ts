@@ -0,0 +1,66 @@
+/**
+ * Payment types for paid subscription plans
+ */
+
+export type PaymentProvider = 'yookassa';
+
+// Lifecycle of a payment as reported by the provider
+export type PaymentState = 'pending' | 'waiting_for_capture' | 'succeeded' | 'canceled';
+
+// Checkout payments are confirmed by the user, renewals charge a saved method
+export type PaymentKind = 'checkout' | 'renewal';
+
+// Stored payment for a subscription plan
+export interface Payment {
+  id: string;
+  provider: PaymentProvider;
+  providerPaymentId: string;
+  kind: PaymentKind;
+  userId: string;
+  planId: string;
+  amount: string;
+  currency: string;
+  status: PaymentState;
+  description: string;
+  confirmationUrl?: string;
+  idempotencyKey?: string;
+  // Saved payment method returned by the provider for recurring charges
+  paymentMethodId?: string;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  paidAt?: Date;
+}
+
+// Payment fields that are safe to return to clients
+export interface PublicPayment {
+  id: string;
+  kind: PaymentKind;
+  planId: string;
+  amount: string;
+  currency: string;
+  status: PaymentState;
+  description: string;
+  confirmationUrl?: string;
+  failureReason?: string;
+  createdAt: Date;
+  paidAt?: Date;
+}
+
+// Maps a client Idempotency-Key to the payment it created
+export interface PaymentIdempotencyRecord {
+  userId: string;
+  planId: string;
+  paymentId: string;
+  createdAt: Date;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      // Unparsed request body, kept for webhook signature verification
+      rawBody?: Buffer;
+    }
+  }
+}
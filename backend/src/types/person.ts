@@ -0,0 +1,92 @@
+/**
+ * Normalized person-record types shared by all bot responses
+ */
+
+// Category used to group found values in results
+export type DataCategory =
+  | 'name'
+  | 'phone'
+  | 'email'
+  | 'address'
+  | 'document'
+  | 'date'
+  | 'vehicle'
+  | 'social'
+  | 'other';
+
+export type DocumentType = 'passport' | 'inn' | 'snils' | 'driver_license' | 'other';
+
+export type VehicleIdentifierType = 'plate_number' | 'vin';
+
+export interface PersonDocument {
+  type: DocumentType;
+  value: string;
+}
+
+export interface PersonDate {
+  type: 'birth' | 'other';
+  value: string;
+}
+
+export interface PersonVehicle {
+  type: VehicleIdentifierType;
+  value: string;
+}
+
+export interface PersonAttribute {
+  field: string;
+  value: string;
+}
+
+// Canonical record produced from a single upstream record
+export interface PersonRecord {
+  botId: string;
+  names: string[];
+  phones: string[];
+  emails: string[];
+  addresses: string[];
+  documents: PersonDocument[];
+  dates: PersonDate[];
+  vehicles: PersonVehicle[];
+  socialAccounts: string[];
+  other: PersonAttribute[];
+  sourceDatabase?: string;
+  leakDate?: string;
+}
+
+// Dictionary entry describing what an upstream field name means
+export interface FieldDefinition {
+  category: DataCategory;
+  field: string;
+  documentType?: DocumentType;
+  vehicleType?: VehicleIdentifierType;
+  dateType?: PersonDate['type'];
+  namePart?: 'last' | 'first' | 'middle';
+}
+
+// A bot (and upstream database) where a merged value was found
+export interface ExposureSource {
+  botId: string;
+  botName: string;
+  sourceDatabase?: string;
+  leakDate?: string;
+}
+
+// A single value clustered across all bots that returned it
+export interface MergedProfileValue {
+  category: DataCategory;
+  field: string;
+  value: string;
+  variants: string[];
+  sources: ExposureSource[];
+  botCount: number;
+  confidence: number;
+}
+
+// Cross-bot exposure profile built from all per-bot results
+export interface MergedProfile {
+  values: MergedProfileValue[];
+  byCategory: Partial<Record<DataCategory, MergedProfileValue[]>>;
+  totalUniqueValues: number;
+  totalBotsContributing: number;
+}
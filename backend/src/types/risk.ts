@@ -0,0 +1,22 @@
+/**
+ * Exposure risk scoring types
+ */
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export type RiskFactorType = 'sensitive_fields' | 'source_count' | 'recency';
+
+// One component of the risk score with its contribution
+export interface RiskFactor {
+  factor: RiskFactorType;
+  points: number;
+  maxPoints: number;
+  description: string;
+  details: string[];
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  breakdown: RiskFactor[];
+}
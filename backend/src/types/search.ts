@@ -2,8 +2,24 @@
  * Search-related types and interfaces
  */
 
-// Search input types
-export type SearchType = 'phone' | 'email' | 'inn' | 'snils' | 'passport';
+import { DataCategory, PersonRecord } from './person';
+
+// Search input types. Names may end with a birth date (YYYY-MM-DD) to narrow the search
+export const SEARCH_TYPES = [
+  'phone',
+  'email',
+  'inn',
+  'snils',
+  'passport',
+  'name',
+  'address',
+  'plate_number',
+  'vin',
+  'username',
+  'telegram_id'
+] as const;
+
+export type SearchType = typeof SEARCH_TYPES[number];
 
 export interface SearchRequest {
   type: SearchType;
@@ -21,12 +37,15 @@ export interface FoundDataItem {
   value: string;
   source?: string;
   confidence?: number;
+  category?: DataCategory;
+  leakDate?: string;
 }
 
 export interface SearchResult {
   botId: string;
   botName: string; // зашифрованное название
   foundData: FoundDataItem[];
+  records?: PersonRecord[];
   hasData: boolean;
   status: SearchStatus;
   errorMessage?: string;
@@ -60,5 +79,7 @@ export enum SearchStatus {
   ERROR = 'error',
   NO_DATA = 'no_data',
   PENDING = 'pending',
-  TIMEOUT = 'timeout'
+  TIMEOUT = 'timeout',
+  // The bot cannot search by the request's type and was not asked
+  NOT_SUPPORTED = 'not_supported'
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+/**
+ * JSON Path Utilities
+ * Minimal JSONPath-style field extraction used by declarative bot descriptors
+ *
+ * Supported syntax: `$.data.items`, `data.items[0].name`, `List.*.Data`, `hits[*]`.
+ * A wildcard flattens arrays and object values, so the result of a path with
+ * wildcards is always an array.
+ */
+
+type PathSegment = string | number | '*';
+
+function parsePath(path: string): PathSegment[] {
+  const normalized = path.trim().replace(/^\$\.?/, '');
+  if (normalized.length === 0) {
+    return [];
+  }
+
+  const segments: PathSegment[] = [];
+  const pattern = /([^.[\]]+)|\[(\*|\d+)\]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(normalized)) !== null) {
+    if (match[1] !== undefined) {
+      segments.push(match[1] === '*' ? '*' : match[1]);
+    } else if (match[2] === '*') {
+      segments.push('*');
+    } else {
+      segments.push(Number(match[2]));
+    }
+  }
+
+  return segments;
+}
+
+function step(values: any[], segment: PathSegment): any[] {
+  const next: any[] = [];
+
+  for (const value of values) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    if (segment === '*') {
+      if (Array.isArray(value)) {
+        next.push(...value);
+      } else if (typeof value === 'object') {
+        next.push(...Object.values(value));
+      }
+      continue;
+    }
+
+    const child = value[segment as keyof typeof value];
+    if (child !== undefined) {
+      next.push(child);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Extract a value from an object by path.
+ * Returns undefined when the path does not resolve.
+ */
+export function extractPath(source: unknown, path: string): any {
+  const segments = parsePath(path);
+  const hasWildcard = segments.includes('*');
+
+  let values: any[] = [source];
+  for (const segment of segments) {
+    values = step(values, segment);
+    if (values.length === 0) {
+      return hasWildcard ? [] : undefined;
+    }
+  }
+
+  return hasWildcard ? values : values[0];
+}
+
+/**
+ * Extract a list by path, wrapping single values and dropping empty results
+ */
+export function extractList(source: unknown, path: string): any[] {
+  const value = extractPath(source, path);
+
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  return Array.isArray(value) ? value : [value];
+}
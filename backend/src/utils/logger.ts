@@ -51,7 +51,7 @@ function sanitizeLogData(data: any): any {
     return data;
   }
 
-  const sensitiveFields = ['phone', 'email', 'passport', 'inn', 'snils', 'searchValue', 'query'];
+  const sensitiveFields = ['phone', 'email', 'passport', 'inn', 'snils', 'plate_number', 'vin', 'telegram_id', 'searchValue', 'query'];
   const sanitized = { ...data };
 
   for (const field of sensitiveFields) {
@@ -0,0 +1,46 @@
+/**
+ * Push Service Worker
+ * Shows Web Push notifications sent by the backend and opens the app on click
+ */
+
+self.addEventListener('push', (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch (error) {
+    payload = { title: 'DataTrace', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'DataTrace', {
+      body: payload.body,
+      tag: payload.notificationId,
+      requireInteraction: payload.priority === 'urgent',
+      data: { url: payload.url || '/' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = new URL((event.notification.data && event.notification.data.url) || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      for (const client of windows) {
+        if (client.url.startsWith(self.location.origin) && 'focus' in client) {
+          if ('navigate' in client) {
+            client.navigate(url);
+          }
+          return client.focus();
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
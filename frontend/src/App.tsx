@@ -6,6 +6,10 @@ import { HomePage } from './components/pages/HomePage';
 import { ResultsPage } from './components/pages/ResultsPage';
 import { InstructionsPage } from './components/pages/InstructionsPage';
 import { TariffsPage } from './components/pages/TariffsPage';
+import { HistoryPage } from './components/pages/HistoryPage';
+import { HistoryDiffPage } from './components/pages/HistoryDiffPage';
+import { MonitorsPage } from './components/pages/MonitorsPage';
+import { RemovalCasesPage } from './components/pages/RemovalCasesPage';
 import { NotFoundPage } from './components/pages/NotFoundPage';
 import { ErrorBoundary } from './components/common/ErrorBoundary';
 import { NotificationContainer } from './components/common/NotificationContainer';
@@ -23,6 +27,10 @@ function App() {
                 <Route path="/results" element={<ResultsPage />} />
                 <Route path="/instructions/:botId" element={<InstructionsPage />} />
                 <Route path="/tariffs" element={<TariffsPage />} />
+                <Route path="/history" element={<HistoryPage />} />
+                <Route path="/history/diff/:fromId/:toId" element={<HistoryDiffPage />} />
+                <Route path="/monitors" element={<MonitorsPage />} />
+                <Route path="/removal-cases" element={<RemovalCasesPage />} />
                 <Route path="*" element={<NotFoundPage />} />
               </Routes>
             </Layout>
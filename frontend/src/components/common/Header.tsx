@@ -40,6 +40,15 @@ export function Header() {
           <Link to="/" className={`nav-link ${isActive('/')}`}>
             Главная
           </Link>
+          <Link to="/history" className={`nav-link ${isActive('/history')}`}>
+            История
+          </Link>
+          <Link to="/monitors" className={`nav-link ${isActive('/monitors')}`}>
+            Мониторинг
+          </Link>
+          <Link to="/removal-cases" className={`nav-link ${isActive('/removal-cases')}`}>
+            Заявки
+          </Link>
           <Link to="/tariffs" className={`nav-link ${isActive('/tariffs')}`}>
             Тарифы
           </Link>
@@ -49,6 +49,30 @@ export function Sidebar() {
           🏠 Главная
         </Link>
         
+        <Link 
+          to="/history" 
+          className={`sidebar-link ${isActive('/history')}`}
+          onClick={toggleSidebar}
+        >
+          🕘 История
+        </Link>
+
+        <Link 
+          to="/monitors" 
+          className={`sidebar-link ${isActive('/monitors')}`}
+          onClick={toggleSidebar}
+        >
+          📡 Мониторинг
+        </Link>
+
+        <Link 
+          to="/removal-cases" 
+          className={`sidebar-link ${isActive('/removal-cases')}`}
+          onClick={toggleSidebar}
+        >
+          📨 Заявки на удаление
+        </Link>
+
         <Link 
           to="/tariffs" 
           className={`sidebar-link ${isActive('/tariffs')}`}
@@ -8,7 +8,7 @@ import './SearchForm.css';
 import { useNavigate } from 'react-router-dom';
 import { useAppContext } from '../../contexts/AppContext';
 import { useSearch, useFormValidation } from '../../hooks/useApi';
-import { SearchType } from '../../types/api';
+import { SearchType, SEARCH_TYPES } from '../../types/api';
 import { 
   getSearchTypeLabel, 
   getSearchTypePlaceholder, 
@@ -31,12 +31,27 @@ export function SearchForm({ onSearchStart, onSearchComplete, className = '' }:
   // Form state
   const [searchType, setSearchType] = useState<SearchType>('phone');
   const [searchValue, setSearchValue] = useState('');
+  const [birthDate, setBirthDate] = useState('');
   const [validationError, setValidationError] = useState<string | null>(null);
   const [isAdvancedMode, setIsAdvancedMode] = useState(false);
   const [selectedBots, setSelectedBots] = useState<string[]>([]);
 
   // Available search types
-  const searchTypes: SearchType[] = ['phone', 'email', 'inn', 'snils', 'passport'];
+  const searchTypes: readonly SearchType[] = SEARCH_TYPES;
+
+  const searchTypeIcons: Record<SearchType, string> = {
+    phone: '📱',
+    email: '📧',
+    inn: '🏢',
+    snils: '🆔',
+    passport: '📄',
+    name: '👤',
+    address: '🏠',
+    plate_number: '🚗',
+    vin: '🔢',
+    username: '💬',
+    telegram_id: '✈️'
+  };
 
   // Available bots for advanced search
   const availableBots = [
@@ -51,6 +66,7 @@ export function SearchForm({ onSearchStart, onSearchComplete, className = '' }:
   const handleSearchTypeChange = useCallback((type: SearchType) => {
     setSearchType(type);
     setSearchValue('');
+    setBirthDate('');
     setValidationError(null);
   }, []);
 
@@ -103,8 +119,11 @@ export function SearchForm({ onSearchStart, onSearchComplete, className = '' }:
       // Store search parameters in global state
       setSearchParams(searchType, searchValue);
 
-      // Perform search
-      const searchRequest = { type: searchType, value: searchValue.trim() };
+      // Perform search; a birth date narrows a name search
+      const value = searchType === 'name' && birthDate
+        ? `${searchValue.trim()} ${birthDate}`
+        : searchValue.trim();
+      const searchRequest = { type: searchType, value };
       
       if (isAdvancedMode && selectedBots.length > 0) {
         // Search with specific bots
@@ -143,6 +162,7 @@ export function SearchForm({ onSearchStart, onSearchComplete, className = '' }:
     setSearchParams, 
     searchType, 
     searchValue, 
+    birthDate,
     isAdvancedMode, 
     selectedBots, 
     search, 
@@ -158,7 +178,13 @@ export function SearchForm({ onSearchStart, onSearchComplete, className = '' }:
       email: 'example@domain.com',
       inn: '1234567890',
       snils: '123-456-789 01',
-      passport: '1234 567890'
+      passport: '1234 567890',
+      name: 'Иванов Иван Иванович',
+      address: 'г. Москва, ул. Ленина, д. 1, кв. 1',
+      plate_number: 'А123ВС77',
+      vin: 'XTA21099012345678',
+      username: '@username',
+      telegram_id: '123456789'
     };
     
     setSearchValue(examples[searchType]);
@@ -168,6 +194,7 @@ export function SearchForm({ onSearchStart, onSearchComplete, className = '' }:
   // Clear form
   const handleClear = useCallback(() => {
     setSearchValue('');
+    setBirthDate('');
     setValidationError(null);
     setSelectedBots([]);
   }, []);
@@ -191,11 +218,7 @@ export function SearchForm({ onSearchStart, onSearchComplete, className = '' }:
                 />
                 <div className="search-type-card">
                   <div className="search-type-icon">
-                    {type === 'phone' && '📱'}
-                    {type === 'email' && '📧'}
-                    {type === 'inn' && '🏢'}
-                    {type === 'snils' && '🆔'}
-                    {type === 'passport' && '📄'}
+                    {searchTypeIcons[type]}
                   </div>
                   <div className="search-type-label">
                     {getSearchTypeLabel(type)}
@@ -234,6 +257,22 @@ export function SearchForm({ onSearchStart, onSearchComplete, className = '' }:
               )}
             </div>
 
+            {searchType === 'name' && (
+              <div className="form-group">
+                <label htmlFor="birthDate" className="form-label">
+                  Дата рождения (необязательно)
+                </label>
+                <input
+                  id="birthDate"
+                  type="date"
+                  value={birthDate}
+                  onChange={(e) => setBirthDate(e.target.value)}
+                  className="form-input"
+                  disabled={loading}
+                />
+              </div>
+            )}
+
             <div className="input-actions">
               <button
                 type="button"
@@ -6,6 +6,10 @@ export { HomePage } from './pages/HomePage';
 export { ResultsPage } from './pages/ResultsPage';
 export { InstructionsPage } from './pages/InstructionsPage';
 export { TariffsPage } from './pages/TariffsPage';
+export { HistoryPage } from './pages/HistoryPage';
+export { HistoryDiffPage } from './pages/HistoryDiffPage';
+export { MonitorsPage } from './pages/MonitorsPage';
+export { RemovalCasesPage } from './pages/RemovalCasesPage';
 export { NotFoundPage } from './pages/NotFoundPage';
 
 // Common components
@@ -20,6 +24,11 @@ export { SearchForm } from './forms/SearchForm';
 
 // Results components
 export { ResultsDisplay } from './results/ResultsDisplay';
+export { QuickScanDisplay } from './results/QuickScanDisplay';
+
+// Removal case components
+export { RemovalCaseCard } from './removal/RemovalCaseCard';
+export { RemovalCaseTracker } from './removal/RemovalCaseTracker';
 
 // Components to be created in later tasks
 // export { TariffInfo } from './tariffs/TariffInfo'; // Task 12
\ No newline at end of file
@@ -5,7 +5,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNotifications } from '../../hooks/useApi';
-import { Notification, NotificationPreferences } from '../../types/api';
+import { Notification, NotificationPreferences, TelegramLinkStatus } from '../../types/api';
 import { formatDate, formatRelativeTime } from '../../utils/helpers';
 import './NotificationCenter.css';
 
@@ -32,12 +32,22 @@ function NotificationItem({ notification, onMarkAsRead, onDelete }: Notification
       case 'search_completed': return '✅';
       case 'search_failed': return '❌';
       case 'data_found': return '🎯';
-      case 'removal_instructions': return '📋';
+      case 'new_exposure': return '🆕';
+      case 'removal_instructions':
+      case 'removal_reminder': return '📋';
       case 'removal_completed': return '🗑️';
       case 'system_maintenance': return '🔧';
       case 'security_alert': return '🚨';
-      case 'subscription_update': return '💳';
+      case 'subscription_update':
+      case 'subscription_trial_started':
+      case 'subscription_renewed':
+      case 'subscription_cancelled': return '💳';
+      case 'subscription_expiring':
+      case 'subscription_past_due':
+      case 'subscription_expired': return '⏳';
       case 'payment_reminder': return '💰';
+      case 'payment_succeeded': return '🧾';
+      case 'payment_canceled': return '❌';
       case 'welcome': return '👋';
       case 'info': return 'ℹ️';
       case 'warning': return '⚠️';
@@ -168,6 +178,7 @@ function NotificationFilters({ filters, onFiltersChange }: NotificationFiltersPr
           <option value="search_started">Поиск начат</option>
           <option value="search_completed">Поиск завершен</option>
           <option value="data_found">Данные найдены</option>
+          <option value="new_exposure">Новые утечки</option>
           <option value="removal_instructions">Инструкции</option>
           <option value="security_alert">Безопасность</option>
           <option value="system_maintenance">Система</option>
@@ -191,15 +202,21 @@ function NotificationFilters({ filters, onFiltersChange }: NotificationFiltersPr
 interface NotificationPreferencesModalProps {
   isOpen: boolean;
   preferences: NotificationPreferences | null;
+  telegramLink: TelegramLinkStatus | null;
   onClose: () => void;
   onSave: (preferences: Partial<NotificationPreferences>) => void;
+  onConnectTelegram: () => void;
+  onDisconnectTelegram: () => void;
 }
 
 function NotificationPreferencesModal({ 
   isOpen, 
   preferences, 
+  telegramLink,
   onClose, 
-  onSave 
+  onSave,
+  onConnectTelegram,
+  onDisconnectTelegram
 }: NotificationPreferencesModalProps) {
   const [localPreferences, setLocalPreferences] = useState<Partial<NotificationPreferences>>({});
 
@@ -269,7 +286,7 @@ function NotificationPreferencesModal({
               <label className="preference-item">
                 <input 
                   type="checkbox"
-                  checked={localPreferences.channels?.push ?? true}
+                  checked={localPreferences.channels?.push ?? false}
                   onChange={(e) => updateChannelPreference('push', e.target.checked)}
                 />
                 <span>Push-уведомления</span>
@@ -283,6 +300,28 @@ function NotificationPreferencesModal({
                 />
                 <span>SMS</span>
               </label>
+
+              {telegramLink?.enabled && (
+                telegramLink.linked ? (
+                  <>
+                    <label className="preference-item">
+                      <input 
+                        type="checkbox"
+                        checked={localPreferences.channels?.telegram ?? false}
+                        onChange={(e) => updateChannelPreference('telegram', e.target.checked)}
+                      />
+                      <span>Telegram{telegramLink.username ? ` (@${telegramLink.username})` : ''}</span>
+                    </label>
+                    <button type="button" className="btn btn-link" onClick={onDisconnectTelegram}>
+                      Отключить Telegram
+                    </button>
+                  </>
+                ) : (
+                  <button type="button" className="btn btn-secondary" onClick={onConnectTelegram}>
+                    Подключить Telegram
+                  </button>
+                )
+              )}
             </div>
           </div>
           
@@ -326,6 +365,21 @@ function NotificationPreferencesModal({
               </label>
             </div>
           </div>
+
+          <div className="preferences-section">
+            <h4>Язык писем</h4>
+            <select
+              className="preferences-language"
+              value={localPreferences.language ?? 'ru'}
+              onChange={(e) => setLocalPreferences(prev => ({
+                ...prev,
+                language: e.target.value as NotificationPreferences['language']
+              }))}
+            >
+              <option value="ru">Русский</option>
+              <option value="en">English</option>
+            </select>
+          </div>
         </div>
         
         <div className="modal-footer">
@@ -359,12 +413,17 @@ export default function NotificationCenter({ className = '' }: NotificationCente
     notifications,
     unreadCount,
     preferences,
+    telegramLink,
     loading,
     error,
     markAsRead,
     markAllAsRead,
     deleteNotification,
     updatePreferences,
+    enablePush,
+    disablePush,
+    connectTelegram,
+    disconnectTelegram,
     refreshNotifications
   } = useNotifications({
     limit: pageSize,
@@ -401,11 +460,20 @@ export default function NotificationCenter({ className = '' }: NotificationCente
 
   const handlePreferencesSave = useCallback(async (newPreferences: Partial<NotificationPreferences>) => {
     try {
+      const pushEnabled = newPreferences.channels?.push;
+      if (pushEnabled !== undefined && pushEnabled !== preferences?.channels.push) {
+        // The browser has to subscribe before the backend can push to it
+        const switched = pushEnabled ? await enablePush() : await disablePush();
+        if (!switched && newPreferences.channels) {
+          newPreferences = { ...newPreferences, channels: { ...newPreferences.channels, push: !pushEnabled } };
+        }
+      }
+
       await updatePreferences(newPreferences);
     } catch (error) {
       console.error('Failed to update preferences:', error);
     }
-  }, [updatePreferences]);
+  }, [preferences, updatePreferences, enablePush, disablePush]);
 
   const handleFiltersChange = useCallback((newFilters: typeof filters) => {
     setFilters(newFilters);
@@ -519,8 +587,11 @@ export default function NotificationCenter({ className = '' }: NotificationCente
       <NotificationPreferencesModal
         isOpen={showPreferences}
         preferences={preferences}
+        telegramLink={telegramLink}
         onClose={() => setShowPreferences(false)}
         onSave={handlePreferencesSave}
+        onConnectTelegram={connectTelegram}
+        onDisconnectTelegram={disconnectTelegram}
       />
     </div>
   );
@@ -0,0 +1,109 @@
+/**
+ * History Diff Page Component
+ * Shows per bot which found items disappeared, remain or are new between two
+ * runs of the same search, so users can check a removal request worked
+ */
+
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useSearchDiff } from '../../hooks/useApi';
+import { BotResultDiff, FoundDataItem } from '../../types/api';
+import { formatDate, getFieldLabel } from '../../utils/helpers';
+import './HistoryPage.css';
+
+function DiffItems({ title, items, kind }: { title: string; items: FoundDataItem[]; kind: string }) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`diff-items ${kind}`}>
+      <h4>{title} ({items.length})</h4>
+      <ul>
+        {items.map((item, index) => (
+          <li key={`${item.field}-${index}`}>
+            <span className="diff-field">{getFieldLabel(item.field)}:</span> {item.value}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function BotDiff({ bot }: { bot: BotResultDiff }) {
+  let verdict = '';
+  if (bot.inconclusive) {
+    verdict = '⚠️ Бот не ответил в одном из поисков — результат не подтверждён';
+  } else if (bot.cleared) {
+    verdict = '✅ Данные удалены';
+  } else if (bot.added.length > 0) {
+    verdict = '🆕 Появились новые данные';
+  } else if (bot.removed.length > 0) {
+    verdict = '◐ Удалена часть данных';
+  } else {
+    verdict = '⏳ Данные всё ещё доступны';
+  }
+
+  return (
+    <div className={`diff-bot ${bot.cleared ? 'cleared' : ''} ${bot.inconclusive ? 'inconclusive' : ''}`}>
+      <div className="diff-bot-header">
+        <h3>{bot.botName}</h3>
+        <span className="diff-verdict">{verdict}</span>
+      </div>
+      <DiffItems title="Исчезли" items={bot.removed} kind="removed" />
+      <DiffItems title="Остались" items={bot.remaining} kind="remaining" />
+      <DiffItems title="Новые" items={bot.added} kind="added" />
+    </div>
+  );
+}
+
+export function HistoryDiffPage() {
+  const { fromId = '', toId = '' } = useParams<{ fromId: string; toId: string }>();
+  const { data: diff, loading, error } = useSearchDiff(fromId, toId);
+
+  if (loading || (!diff && !error)) {
+    return (
+      <div className="history-page">
+        <div className="loading-spinner-large"></div>
+      </div>
+    );
+  }
+
+  if (error || !diff) {
+    return (
+      <div className="history-page">
+        <div className="history-empty">
+          <h2>Не удалось сравнить поиски</h2>
+          <p className="history-error">{error}</p>
+          <Link to="/history" className="btn btn-secondary">← К истории</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="history-page">
+      <div className="history-header">
+        <div>
+          <h2>Сравнение поисков {diff.to.maskedQuery}</h2>
+          <p className="history-retention">
+            {formatDate(diff.from.createdAt)} → {formatDate(diff.to.createdAt)}
+          </p>
+        </div>
+        <Link to="/history" className="btn btn-secondary">← К истории</Link>
+      </div>
+
+      <div className="diff-totals">
+        <span className="removed">Исчезло: {diff.totals.removed}</span>
+        <span className="remaining">Осталось: {diff.totals.remaining}</span>
+        <span className="added">Новых: {diff.totals.added}</span>
+      </div>
+
+      {diff.bots.length === 0 ? (
+        <p className="history-empty">Ни в одном из поисков данные не найдены.</p>
+      ) : (
+        diff.bots.map(bot => <BotDiff key={bot.botId} bot={bot} />)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * History Page Component
+ * Lists the user's past searches and lets them reopen, re-run, compare or delete them
+ */
+
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAppContext } from '../../contexts/AppContext';
+import { useSearchHistory } from '../../hooks/useApi';
+import { SearchHistoryItem, SearchResults } from '../../types/api';
+import { formatDate, getSearchTypeLabel } from '../../utils/helpers';
+import './HistoryPage.css';
+
+function retentionText(retentionDays: number): string {
+  if (retentionDays < 0) {
+    return 'История хранится без ограничения срока.';
+  }
+  return `История хранится ${retentionDays} дн.`;
+}
+
+export function HistoryPage() {
+  const navigate = useNavigate();
+  const { setSearchResults, addNotification } = useAppContext();
+  const {
+    entries,
+    total,
+    retentionDays,
+    offset,
+    limit,
+    loading,
+    error,
+    setOffset,
+    openEntry,
+    rerun,
+    deleteEntry,
+    clearHistory
+  } = useSearchHistory();
+  // Up to two runs of the same search picked for comparison
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const toggleCompare = (entry: SearchHistoryItem) => {
+    setCompareIds(prev => {
+      if (prev.includes(entry.id)) {
+        return prev.filter(id => id !== entry.id);
+      }
+      return [...prev, entry.id].slice(-2);
+    });
+  };
+
+  const handleCompare = () => {
+    // Compare the older run to the newer one
+    const [from, to] = compareIds
+      .map(id => entries.find(entry => entry.id === id)!)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    navigate(`/history/diff/${from.id}/${to.id}`);
+  };
+
+  const showResults = (results: SearchResults | null) => {
+    if (!results) {
+      addNotification({
+        type: 'error',
+        title: 'Не удалось открыть поиск',
+        message: 'Попробуйте ещё раз позже',
+        autoClose: true
+      });
+      return;
+    }
+    setSearchResults(results);
+    navigate('/results');
+  };
+
+  const handleOpen = async (entry: SearchHistoryItem) => {
+    showResults(await openEntry(entry.id));
+  };
+
+  const handleRerun = async (entry: SearchHistoryItem) => {
+    showResults(await rerun(entry.id));
+  };
+
+  const handleDelete = async (entry: SearchHistoryItem) => {
+    if (await deleteEntry(entry.id)) {
+      addNotification({
+        type: 'success',
+        title: 'Поиск удалён',
+        message: `Поиск ${entry.maskedQuery} удалён из истории`,
+        autoClose: true
+      });
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Удалить всю историю поиска? Это действие нельзя отменить.')) {
+      return;
+    }
+    if (await clearHistory()) {
+      addNotification({
+        type: 'success',
+        title: 'История очищена',
+        message: 'Все сохранённые поиски удалены',
+        autoClose: true
+      });
+    }
+  };
+
+  if (retentionDays === 0) {
+    return (
+      <div className="history-page">
+        <div className="history-empty">
+          <h2>История поиска</h2>
+          <p>На бесплатном тарифе история поиска не сохраняется.</p>
+          <Link to="/tariffs" className="btn btn-primary">
+            💳 Выбрать тариф
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="history-page">
+      <div className="history-header">
+        <div>
+          <h2>История поиска</h2>
+          {retentionDays !== null && <p className="history-retention">{retentionText(retentionDays)}</p>}
+        </div>
+        {entries.length > 0 && (
+          <button onClick={handleClear} className="btn btn-secondary" disabled={loading}>
+            🗑️ Очистить историю
+          </button>
+        )}
+      </div>
+
+      {error && <p className="history-error">{error}</p>}
+
+      {compareIds.length > 0 && (
+        <div className="history-compare-bar">
+          <span>
+            {compareIds.length === 1
+              ? 'Выберите ещё один поиск того же значения, чтобы проверить, исчезли ли данные'
+              : 'Выбрано два поиска'}
+          </span>
+          <button onClick={handleCompare} className="btn btn-primary" disabled={compareIds.length < 2}>
+            ⇄ Сравнить
+          </button>
+        </div>
+      )}
+
+      {!loading && entries.length === 0 && !error && (
+        <div className="history-empty">
+          <p>Здесь появятся ваши поиски.</p>
+          <Link to="/" className="btn btn-primary">
+            🔍 Выполнить поиск
+          </Link>
+        </div>
+      )}
+
+      <ul className="history-list">
+        {entries.map(entry => (
+          <li key={entry.id} className={`history-entry ${compareIds.includes(entry.id) ? 'selected' : ''}`}>
+            <div className="history-entry-info">
+              <span className="history-query">{entry.maskedQuery}</span>
+              <span className="history-meta">
+                {getSearchTypeLabel(entry.searchType)} · {formatDate(entry.createdAt)}
+              </span>
+              <span className="history-summary">
+                Найдено в {entry.totalBotsWithData} из {entry.totalBotsSearched} ботов, записей: {entry.totalRecords}
+              </span>
+              <label className="history-compare">
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(entry.id)}
+                  onChange={() => toggleCompare(entry)}
+                />
+                Сравнить
+              </label>
+            </div>
+            <div className="history-entry-actions">
+              <button onClick={() => handleOpen(entry)} className="btn btn-primary" disabled={loading}>
+                Открыть
+              </button>
+              <button onClick={() => handleRerun(entry)} className="btn btn-secondary" disabled={loading}>
+                🔄 Повторить
+              </button>
+              <button onClick={() => handleDelete(entry)} className="btn btn-secondary" disabled={loading}>
+                Удалить
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {total > limit && (
+        <div className="history-pagination">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - limit))}
+            className="btn btn-secondary"
+            disabled={loading || offset === 0}
+          >
+            ← Назад
+          </button>
+          <span>
+            {offset + 1}–{Math.min(offset + limit, total)} из {total}
+          </span>
+          <button
+            onClick={() => setOffset(offset + limit)}
+            className="btn btn-secondary"
+            disabled={loading || offset + limit >= total}
+          >
+            Вперёд →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { useAppContext } from '../../contexts/AppContext';
 import { useInstructions } from '../../hooks/useApi';
 import { BotInstructions } from '../../types/api';
 import { formatDate } from '../../utils/helpers';
+import { RemovalCaseTracker } from '../removal/RemovalCaseTracker';
 import './InstructionsPage.css';
 
 interface StepProps {
@@ -332,6 +333,9 @@ export function InstructionsPage() {
             </div>
           </div>
 
+          {/* Removal request tracking */}
+          {botId && <RemovalCaseTracker botId={botId} />}
+
           {/* Additional Information */}
           {instructions.instructions.additionalInfo && (
             <div className="additional-info">
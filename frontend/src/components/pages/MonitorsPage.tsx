@@ -0,0 +1,173 @@
+/**
+ * Monitors Page Component
+ * Identifiers re-scanned on the plan's schedule, with a form to add more
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAppContext } from '../../contexts/AppContext';
+import { useExposureMonitors } from '../../hooks/useApi';
+import { ExposureMonitor, SearchType, SEARCH_TYPES } from '../../types/api';
+import {
+  formatDate,
+  getSearchTypeLabel,
+  getSearchTypePlaceholder,
+  validateSearchValue
+} from '../../utils/helpers';
+import './MonitorsPage.css';
+
+function intervalText(intervalHours: number): string {
+  if (intervalHours % 24 === 0) {
+    const days = intervalHours / 24;
+    return days === 1 ? 'каждый день' : days === 7 ? 'каждую неделю' : `каждые ${days} дн.`;
+  }
+  return `каждые ${intervalHours} ч.`;
+}
+
+function statusText(monitor: ExposureMonitor): string {
+  switch (monitor.status) {
+    case 'pending': return 'Первая проверка ещё не проводилась';
+    case 'failed': return `Последняя проверка не удалась${monitor.lastError ? `: ${monitor.lastError}` : ''}`;
+    default: return monitor.lastScanAt ? `Проверено ${formatDate(monitor.lastScanAt)}` : 'Проверено';
+  }
+}
+
+export function MonitorsPage() {
+  const { addNotification } = useAppContext();
+  const { monitors, intervalHours, limit, loading, error, addMonitor, removeMonitor } = useExposureMonitors();
+  const [searchType, setSearchType] = useState<SearchType>('phone');
+  const [value, setValue] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const limitReached = limit >= 0 && monitors.length >= limit;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const validationError = validateSearchValue(searchType, value);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    const submitError = await addMonitor({ type: searchType, value: value.trim() });
+    setSubmitting(false);
+
+    if (submitError) {
+      setFormError(submitError);
+      return;
+    }
+
+    setValue('');
+    setFormError(null);
+    addNotification({
+      type: 'success',
+      title: 'Мониторинг включён',
+      message: 'Мы сообщим, если данные появятся в новых источниках',
+      autoClose: true
+    });
+  };
+
+  const handleRemove = async (monitor: ExposureMonitor) => {
+    if (await removeMonitor(monitor.id)) {
+      addNotification({
+        type: 'success',
+        title: 'Мониторинг выключен',
+        message: `${monitor.maskedQuery} больше не проверяется`,
+        autoClose: true
+      });
+    }
+  };
+
+  if (intervalHours === 0) {
+    return (
+      <div className="monitors-page">
+        <div className="monitors-empty">
+          <h2>Мониторинг утечек</h2>
+          <p>Мониторинг доступен на платных тарифах: мы регулярно проверяем ваши данные и сообщаем о новых утечках.</p>
+          <Link to="/tariffs" className="btn btn-primary">
+            💳 Выбрать тариф
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="monitors-page">
+      <div className="monitors-header">
+        <h2>Мониторинг утечек</h2>
+        {intervalHours !== null && (
+          <p className="monitors-interval">
+            Проверяем {intervalText(intervalHours)} и сообщаем, если данные появились в новых источниках.
+          </p>
+        )}
+      </div>
+
+      {error && <p className="monitors-error">{error}</p>}
+
+      <form className="monitors-form" onSubmit={handleSubmit}>
+        <select
+          value={searchType}
+          onChange={(e) => {
+            setSearchType(e.target.value as SearchType);
+            setFormError(null);
+          }}
+          disabled={limitReached}
+          aria-label="Тип данных"
+        >
+          {SEARCH_TYPES.map(type => (
+            <option key={type} value={type}>{getSearchTypeLabel(type)}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setFormError(null);
+          }}
+          placeholder={getSearchTypePlaceholder(searchType)}
+          disabled={limitReached}
+          aria-label="Значение"
+        />
+        <button type="submit" className="btn btn-primary" disabled={submitting || limitReached}>
+          Отслеживать
+        </button>
+      </form>
+      {formError && <p className="monitors-error">{formError}</p>}
+      {limitReached && (
+        <p className="monitors-limit">
+          На вашем тарифе можно отслеживать до {limit} идентификаторов.
+        </p>
+      )}
+
+      {!loading && monitors.length === 0 && (
+        <p className="monitors-empty">Добавьте телефон, email или документ, чтобы узнавать о новых утечках.</p>
+      )}
+
+      <ul className="monitors-list">
+        {monitors.map(monitor => (
+          <li key={monitor.id} className={`monitor-entry ${monitor.status}`}>
+            <div className="monitor-info">
+              <span className="monitor-query">{monitor.maskedQuery}</span>
+              <span className="monitor-meta">
+                {getSearchTypeLabel(monitor.searchType)} · {statusText(monitor)}
+              </span>
+              {monitor.lastExposureAt && (
+                <span className="monitor-exposure">
+                  🆕 Новые данные найдены {formatDate(monitor.lastExposureAt)}
+                </span>
+              )}
+            </div>
+            <button onClick={() => handleRemove(monitor)} className="btn btn-secondary">
+              Не отслеживать
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
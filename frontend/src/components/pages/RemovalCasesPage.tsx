@@ -0,0 +1,39 @@
+/**
+ * Removal Cases Page Component
+ * Every removal request the user is tracking, across bots
+ */
+
+import React from 'react';
+import { useRemovalCases } from '../../hooks/useApi';
+import { RemovalCaseCard } from '../removal/RemovalCaseCard';
+import '../removal/RemovalCases.css';
+
+export function RemovalCasesPage() {
+  const { cases, loading, error, updateCase, verifyCase, removeCase } = useRemovalCases();
+
+  return (
+    <div className="removal-cases-page">
+      <h2>Заявки на удаление</h2>
+      <p className="removal-tracker-hint">
+        Заявки, отправленные ботам. Новую заявку можно добавить на странице инструкций для бота.
+      </p>
+
+      {error && <p className="removal-error">{error}</p>}
+
+      {!loading && cases.length === 0 && (
+        <p className="removal-empty">Вы пока не отслеживаете ни одной заявки.</p>
+      )}
+
+      {cases.map(removalCase => (
+        <RemovalCaseCard
+          key={removalCase.id}
+          removalCase={removalCase}
+          onUpdate={updateCase}
+          onVerify={verifyCase}
+          onRemove={removeCase}
+          showBot
+        />
+      ))}
+    </div>
+  );
+}
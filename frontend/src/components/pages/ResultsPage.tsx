@@ -8,13 +8,17 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAppContext } from '../../contexts/AppContext';
 import { useSearch } from '../../hooks/useApi';
 import { ResultsDisplay } from '../results/ResultsDisplay';
+import { QuickScanDisplay } from '../results/QuickScanDisplay';
 import { SearchType } from '../../types/api';
 
 export function ResultsPage() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { state, addNotification } = useAppContext();
-  const { searchResults, loading, error, search, clearResults } = useSearch();
+  const { searchResults, quickScan, loading, error, pendingBots, search, searchStream, clearResults } = useSearch();
+
+  // Fill in bot cards as each bot answers where the browser supports Server-Sent Events
+  const runSearch = typeof EventSource !== 'undefined' ? searchStream : search;
 
   // Check if we have search results or need to perform a search
   useEffect(() => {
@@ -29,7 +33,7 @@ export function ResultsPage() {
 
     if (type && value) {
       const searchRequest = { type, value };
-      search(searchRequest);
+      runSearch(searchRequest);
     } else if (!state.currentSearch.type || !state.currentSearch.value) {
       // No search parameters and no current search, redirect to home
       addNotification({
@@ -45,9 +49,9 @@ export function ResultsPage() {
         type: state.currentSearch.type,
         value: state.currentSearch.value
       };
-      search(searchRequest);
+      runSearch(searchRequest);
     }
-  }, [searchParams, state.currentSearch, search, navigate, addNotification]);
+  }, [searchParams, state.currentSearch, runSearch, navigate, addNotification]);
 
   // Handle retry search
   const handleRetry = () => {
@@ -56,7 +60,7 @@ export function ResultsPage() {
         type: state.currentSearch.type,
         value: state.currentSearch.value
       };
-      search(searchRequest);
+      runSearch(searchRequest);
     }
   };
 
@@ -66,8 +70,8 @@ export function ResultsPage() {
     navigate('/');
   };
 
-  // Loading state
-  if (loading) {
+  // Loading state, until a streaming search reports its first bots
+  if (loading && !searchResults) {
     return (
       <div className="results-page">
         <div className="loading-container">
@@ -106,6 +110,21 @@ export function ResultsPage() {
     );
   }
 
+  // Plans without full results get hit counts only
+  if (quickScan) {
+    return (
+      <div className="results-page">
+        <div className="results-actions">
+          <button onClick={handleNewSearch} className="btn btn-secondary">
+            🔍 Новый поиск
+          </button>
+        </div>
+
+        <QuickScanDisplay results={quickScan} />
+      </div>
+    );
+  }
+
   // Results state
   const results = searchResults || state.currentSearch.results;
   
@@ -138,6 +157,8 @@ export function ResultsPage() {
       <ResultsDisplay 
         results={results} 
         onRetry={handleRetry}
+        pendingBots={pendingBots}
+        inProgress={loading}
       />
     </div>
   );
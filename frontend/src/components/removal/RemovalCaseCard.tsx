@@ -0,0 +1,157 @@
+/**
+ * Removal Case Card Component
+ * One tracked removal request: its status, ticket number and the last
+ * re-search check, with controls to update or verify it
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../../contexts/AppContext';
+import { RemovalCase, RemovalCaseStatus, UpdateRemovalCaseRequest } from '../../types/api';
+import { formatDate, getFieldLabel, getSearchTypeLabel } from '../../utils/helpers';
+import './RemovalCases.css';
+
+export const REMOVAL_STATUS_LABELS: Record<RemovalCaseStatus, string> = {
+  planned: 'Запланирована',
+  submitted: 'Отправлена',
+  confirmed: 'Подтверждена ботом',
+  rejected: 'Отклонена',
+  verified: 'Удаление проверено'
+};
+
+// Statuses users can pick; 'verified' only comes from a re-search
+const USER_STATUSES: RemovalCaseStatus[] = ['planned', 'submitted', 'confirmed', 'rejected'];
+
+interface RemovalCaseCardProps {
+  removalCase: RemovalCase;
+  onUpdate: (id: string, changes: UpdateRemovalCaseRequest) => Promise<string | null>;
+  onVerify: (id: string) => Promise<RemovalCase | null>;
+  onRemove: (id: string) => Promise<boolean>;
+  // Show which bot the case is for, when cases of several bots are listed
+  showBot?: boolean;
+}
+
+function verificationText(removalCase: RemovalCase): string | null {
+  const verification = removalCase.lastVerification;
+  if (!verification) {
+    return null;
+  }
+
+  const checked = formatDate(verification.checkedAt);
+  switch (verification.result) {
+    case 'cleared':
+      return `${checked}: бот больше не возвращает данные`;
+    case 'data_found':
+      return `${checked}: данные всё ещё доступны (${(verification.remainingFields || []).map(getFieldLabel).join(', ')})`;
+    default:
+      return `${checked}: бот не ответил, проверим позже`;
+  }
+}
+
+export function RemovalCaseCard({ removalCase, onUpdate, onVerify, onRemove, showBot = false }: RemovalCaseCardProps) {
+  const { addNotification } = useAppContext();
+  const [ticketNumber, setTicketNumber] = useState(removalCase.ticketNumber || '');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setTicketNumber(removalCase.ticketNumber || '');
+  }, [removalCase.ticketNumber]);
+
+  const update = async (changes: UpdateRemovalCaseRequest) => {
+    setBusy(true);
+    const updateError = await onUpdate(removalCase.id, changes);
+    setBusy(false);
+
+    if (updateError) {
+      addNotification({ type: 'error', title: 'Не удалось сохранить', message: updateError, autoClose: true });
+    }
+  };
+
+  const handleTicketBlur = () => {
+    if (ticketNumber.trim() !== (removalCase.ticketNumber || '')) {
+      update({ ticketNumber: ticketNumber.trim() || null });
+    }
+  };
+
+  const handleVerify = async () => {
+    setBusy(true);
+    const checked = await onVerify(removalCase.id);
+    setBusy(false);
+
+    if (!checked) {
+      addNotification({
+        type: 'error',
+        title: 'Проверка не удалась',
+        message: 'Не удалось проверить удаление, попробуйте позже',
+        autoClose: true
+      });
+    } else if (checked.status === 'verified') {
+      addNotification({
+        type: 'success',
+        title: 'Данные удалены',
+        message: `${checked.botName} больше не возвращает ваши данные`,
+        autoClose: true
+      });
+    }
+  };
+
+  const verification = verificationText(removalCase);
+
+  return (
+    <div className={`removal-case ${removalCase.status}`}>
+      <div className="removal-case-header">
+        <div>
+          {showBot && <h3 className="removal-case-bot">{removalCase.botName}</h3>}
+          <span className="removal-case-identifiers">
+            {removalCase.identifiers
+              .map(identifier => `${getSearchTypeLabel(identifier.searchType)}: ${identifier.maskedQuery}`)
+              .join(' · ')}
+          </span>
+        </div>
+        {removalCase.status === 'verified' ? (
+          <span className="removal-case-verified">✅ {REMOVAL_STATUS_LABELS.verified}</span>
+        ) : (
+          <select
+            value={removalCase.status}
+            onChange={(e) => update({ status: e.target.value as RemovalCaseStatus })}
+            disabled={busy}
+            aria-label="Статус заявки"
+          >
+            {USER_STATUSES.map(status => (
+              <option key={status} value={status}>{REMOVAL_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="removal-case-fields">
+        <label>
+          Номер заявки
+          <input
+            type="text"
+            value={ticketNumber}
+            onChange={(e) => setTicketNumber(e.target.value)}
+            onBlur={handleTicketBlur}
+            disabled={busy}
+            placeholder="Не указан"
+          />
+        </label>
+        {removalCase.submittedAt && (
+          <span className="removal-case-meta">Отправлена {formatDate(removalCase.submittedAt)}</span>
+        )}
+      </div>
+
+      {verification && <p className="removal-case-check">Последняя проверка {verification}</p>}
+
+      <div className="removal-case-actions">
+        {removalCase.status !== 'verified' && removalCase.status !== 'planned' && (
+          <button onClick={handleVerify} className="btn btn-primary" disabled={busy}>
+            🔍 Проверить удаление
+          </button>
+        )}
+        <button onClick={() => onRemove(removalCase.id)} className="btn btn-secondary" disabled={busy}>
+          Удалить
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Removal Case Tracker Component
+ * Records removal requests sent to one bot, shown under its instructions
+ */
+
+import React, { useState } from 'react';
+import { useAppContext } from '../../contexts/AppContext';
+import { useRemovalCases } from '../../hooks/useApi';
+import { RemovalCaseStatus, SearchType, SEARCH_TYPES } from '../../types/api';
+import {
+  getSearchTypeLabel,
+  getSearchTypePlaceholder,
+  validateSearchValue
+} from '../../utils/helpers';
+import { RemovalCaseCard, REMOVAL_STATUS_LABELS } from './RemovalCaseCard';
+import './RemovalCases.css';
+
+export function RemovalCaseTracker({ botId }: { botId: string }) {
+  const { addNotification } = useAppContext();
+  const { cases, error, addCase, updateCase, verifyCase, removeCase } = useRemovalCases(botId);
+  const [searchType, setSearchType] = useState<SearchType>('phone');
+  const [value, setValue] = useState('');
+  const [ticketNumber, setTicketNumber] = useState('');
+  const [status, setStatus] = useState<RemovalCaseStatus>('submitted');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const validationError = validateSearchValue(searchType, value);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    const submitError = await addCase({
+      botId,
+      identifiers: [{ type: searchType, value: value.trim() }],
+      status,
+      ticketNumber: ticketNumber.trim() || undefined
+    });
+    setSubmitting(false);
+
+    if (submitError) {
+      setFormError(submitError);
+      return;
+    }
+
+    setValue('');
+    setTicketNumber('');
+    setFormError(null);
+    addNotification({
+      type: 'success',
+      title: 'Заявка сохранена',
+      message: 'Мы напомним о заявке и проверим, удалены ли данные',
+      autoClose: true
+    });
+  };
+
+  return (
+    <div className="removal-tracker">
+      <h3>Отслеживание заявки</h3>
+      <p className="removal-tracker-hint">
+        Отметьте отправленную заявку и номер, который выдал бот. Мы напомним, если статус долго не меняется,
+        и повторим поиск, чтобы проверить удаление.
+      </p>
+
+      {error && <p className="removal-error">{error}</p>}
+
+      {cases.map(removalCase => (
+        <RemovalCaseCard
+          key={removalCase.id}
+          removalCase={removalCase}
+          onUpdate={updateCase}
+          onVerify={verifyCase}
+          onRemove={removeCase}
+        />
+      ))}
+
+      <form className="removal-form" onSubmit={handleSubmit}>
+        <select
+          value={searchType}
+          onChange={(e) => {
+            setSearchType(e.target.value as SearchType);
+            setFormError(null);
+          }}
+          aria-label="Тип данных"
+        >
+          {SEARCH_TYPES.map(type => (
+            <option key={type} value={type}>{getSearchTypeLabel(type)}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setFormError(null);
+          }}
+          placeholder={getSearchTypePlaceholder(searchType)}
+          aria-label="Данные из заявки"
+        />
+        <input
+          type="text"
+          value={ticketNumber}
+          onChange={(e) => setTicketNumber(e.target.value)}
+          placeholder="Номер заявки"
+          aria-label="Номер заявки"
+        />
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as RemovalCaseStatus)}
+          aria-label="Статус заявки"
+        >
+          <option value="planned">{REMOVAL_STATUS_LABELS.planned}</option>
+          <option value="submitted">{REMOVAL_STATUS_LABELS.submitted}</option>
+        </select>
+        <button type="submit" className="btn btn-primary" disabled={submitting}>
+          Сохранить заявку
+        </button>
+      </form>
+      {formError && <p className="removal-error">{formError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Quick Scan Display Component
+ * Shows in how many sources data was found, without the records themselves
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { QuickScanResults } from '../../types/api';
+import { formatRelativeTime, getSearchTypeLabel } from '../../utils/helpers';
+import './ResultsDisplay.css';
+
+interface QuickScanDisplayProps {
+  results: QuickScanResults;
+  className?: string;
+}
+
+export function QuickScanDisplay({ results, className = '' }: QuickScanDisplayProps) {
+  const found = results.totalSourcesFound > 0;
+  const title = !results.available
+    ? 'Быстрая проверка недоступна'
+    : found ? `Найдено в ${results.totalSourcesFound} источниках` : 'Данные не найдены';
+  // Without a scan the only way to check the data is a full search
+  const offerPlans = found || !results.available;
+
+  return (
+    <div className={`results-display quick-scan ${className}`}>
+      <div className="results-header">
+        <div className="results-summary">
+          <h2>{title}</h2>
+          <div className="search-info">
+            <p className="search-query">
+              {getSearchTypeLabel(results.searchType)}:
+              <span className="query-value">{results.query}</span>
+            </p>
+            <div className="search-meta">
+              <span className="search-time">🕒 {formatRelativeTime(results.timestamp)}</span>
+              <span className="search-duration">⚡ {(results.searchDuration / 1000).toFixed(1)} сек</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="results-stats">
+          <div className={`stat-item ${found ? 'success' : ''}`}>
+            <span className="stat-value">{results.totalSourcesFound}</span>
+            <span className="stat-label">Источников</span>
+          </div>
+          <div className="stat-item">
+            <span className="stat-value">{results.totalRecords}</span>
+            <span className="stat-label">Записей</span>
+          </div>
+        </div>
+      </div>
+
+      {results.results.length > 0 && (
+        <ul className="quick-scan-bots">
+          {results.results.map(result => (
+            <li key={result.botId} className={`quick-scan-bot status-${result.status}`}>
+              <span className="quick-scan-bot-name">{result.botName}</span>
+              <span className="quick-scan-bot-count">
+                {result.status === 'success' || result.status === 'no_data'
+                  ? `${result.sourcesFound} источн. · ${result.totalRecords} записей`
+                  : 'Не удалось проверить'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="quick-scan-upgrade">
+        {results.available ? (
+          <p>
+            Это быстрая проверка: она показывает, где есть ваши данные, но не сами записи.
+            {found && ' Чтобы увидеть найденные записи и получить инструкции по удалению, перейдите на платный тариф.'}
+          </p>
+        ) : (
+          <p>
+            Сейчас ни один источник не может быстро проверить этот тип данных.
+            Проверить данные можно полным поиском на платном тарифе.
+          </p>
+        )}
+        {offerPlans && (
+          <Link to="/tariffs" className="btn btn-primary">
+            Выбрать тариф
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
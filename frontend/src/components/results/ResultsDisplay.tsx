@@ -6,14 +6,26 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAppContext } from '../../contexts/AppContext';
-import { SearchResults, SearchResult, FoundDataItem } from '../../types/api';
-import { formatDate, formatRelativeTime, getSearchTypeLabel } from '../../utils/helpers';
+import { SearchResults, SearchResult, FoundDataItem, DataCategory, PendingBot } from '../../types/api';
+import {
+  formatDate,
+  formatRelativeTime,
+  getSearchTypeLabel,
+  getDataCategoryLabel,
+  getFieldLabel,
+  DATA_CATEGORY_ORDER
+} from '../../utils/helpers';
+import { RiskGauge } from './RiskGauge';
 import './ResultsDisplay.css';
 
 interface ResultsDisplayProps {
   results: SearchResults;
   onRetry?: () => void;
   className?: string;
+  // Bots a streaming search is still waiting for
+  pendingBots?: PendingBot[];
+  // The search is still running and more results may arrive
+  inProgress?: boolean;
 }
 
 interface GroupedResults {
@@ -22,7 +34,27 @@ interface GroupedResults {
   withErrors: SearchResult[];
 }
 
-export function ResultsDisplay({ results, onRetry, className = '' }: ResultsDisplayProps) {
+// Group found values by category, keeping the canonical category order
+function groupByCategory(items: FoundDataItem[]): Array<[DataCategory, FoundDataItem[]]> {
+  const groups = new Map<DataCategory, FoundDataItem[]>();
+
+  items.forEach(item => {
+    const category = item.category || 'other';
+    groups.set(category, [...(groups.get(category) || []), item]);
+  });
+
+  return DATA_CATEGORY_ORDER
+    .filter(category => groups.has(category))
+    .map(category => [category, groups.get(category) as FoundDataItem[]]);
+}
+
+export function ResultsDisplay({
+  results,
+  onRetry,
+  className = '',
+  pendingBots = [],
+  inProgress = false
+}: ResultsDisplayProps) {
   const navigate = useNavigate();
   const { addNotification } = useAppContext();
   
@@ -136,13 +168,13 @@ export function ResultsDisplay({ results, onRetry, className = '' }: ResultsDisp
   }, [addNotification]);
 
   // Render data field
-  const renderDataField = useCallback((field: FoundDataItem, botId: string) => {
-    const fieldId = `${botId}-${field.field}`;
+  const renderDataField = useCallback((field: FoundDataItem, botId: string, index: number) => {
+    const fieldId = `${botId}-${field.field}-${index}`;
     
     return (
       <div key={fieldId} className="data-field">
         <div className="data-field-header">
-          <span className="data-field-name">{field.field}</span>
+          <span className="data-field-name">{getFieldLabel(field.field)}</span>
           {field.confidence && (
             <span className={`confidence-badge confidence-${Math.floor(field.confidence * 100 / 25)}`}>
               {Math.round(field.confidence * 100)}%
@@ -162,6 +194,7 @@ export function ResultsDisplay({ results, onRetry, className = '' }: ResultsDisp
         {field.source && (
           <div className="data-field-source">
             Источник: {field.source}
+            {field.leakDate && ` · утечка ${field.leakDate}`}
           </div>
         )}
       </div>
@@ -200,6 +233,7 @@ export function ResultsDisplay({ results, onRetry, className = '' }: ResultsDisp
                   {result.status === 'error' && '⚠️ Ошибка поиска'}
                   {result.status === 'timeout' && '⏱️ Превышено время ожидания'}
                   {result.status === 'circuit_open' && '🔌 Сервис недоступен'}
+                  {result.status === 'not_supported' && '🚫 Не ищет по этому типу данных'}
                 </span>
               </div>
             </div>
@@ -245,9 +279,14 @@ export function ResultsDisplay({ results, onRetry, className = '' }: ResultsDisp
             </div>
             
             <div className="data-fields">
-              {(isExpanded ? result.foundData : result.foundData.slice(0, 3)).map(field =>
-                renderDataField(field, result.botId)
-              )}
+              {groupByCategory(isExpanded ? result.foundData : result.foundData.slice(0, 3)).map(([category, items]) => (
+                <div key={category} className={`data-category data-category-${category}`}>
+                  <h4 className="data-category-title">
+                    {getDataCategoryLabel(category)} <span className="data-category-count">{items.length}</span>
+                  </h4>
+                  {items.map((field, index) => renderDataField(field, result.botId, index))}
+                </div>
+              ))}
               
               {!isExpanded && result.foundData.length > 3 && (
                 <div className="data-field-more">
@@ -325,6 +364,10 @@ export function ResultsDisplay({ results, onRetry, className = '' }: ResultsDisp
             <span className="stat-label">Всего записей</span>
           </div>
         </div>
+
+        {results.riskAssessment && results.totalBotsWithData > 0 && (
+          <RiskGauge assessment={results.riskAssessment} />
+        )}
       </div>
 
       {/* Bulk Actions */}
@@ -366,6 +409,31 @@ export function ResultsDisplay({ results, onRetry, className = '' }: ResultsDisp
 
       {/* Results Content */}
       <div className="results-content">
+        {/* Bots still searching */}
+        {pendingBots.length > 0 && (
+          <div className="results-section">
+            <h3 className="section-title neutral">
+              ⏳ Идёт поиск ({pendingBots.length})
+            </h3>
+            <div className="results-grid">
+              {pendingBots.map(bot => (
+                <div key={bot.botId} className="bot-result pending">
+                  <div className="bot-result-header">
+                    <div className="bot-info">
+                      <div className="bot-identity">
+                        <h3 className="bot-name">{bot.botName}</h3>
+                        <div className="bot-status">
+                          <span className="status-indicator status-pending">⏳ Идёт поиск...</span>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Bots with Data */}
         {groupedResults.withData.length > 0 && (
           <div className="results-section">
@@ -415,7 +483,7 @@ export function ResultsDisplay({ results, onRetry, className = '' }: ResultsDisp
       </div>
 
       {/* No Results */}
-      {results.totalBotsWithData === 0 && groupedResults.withErrors.length === 0 && (
+      {!inProgress && results.totalBotsWithData === 0 && groupedResults.withErrors.length === 0 && (
         <div className="no-results">
           <div className="no-results-icon">🎉</div>
           <h3>Отличные новости!</h3>
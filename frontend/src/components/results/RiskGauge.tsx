@@ -0,0 +1,60 @@
+/**
+ * Risk Gauge Component
+ * Shows the exposure risk score with its explanation breakdown
+ */
+
+import React from 'react';
+import { RiskAssessment, RiskLevel } from '../../types/api';
+
+interface RiskGaugeProps {
+  assessment: RiskAssessment;
+}
+
+const LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: 'Низкий риск',
+  medium: 'Средний риск',
+  high: 'Высокий риск',
+  critical: 'Критический риск',
+};
+
+export function RiskGauge({ assessment }: RiskGaugeProps) {
+  // Half-circle gauge: 0 points → -90deg, 100 points → 90deg
+  const needleAngle = (assessment.score / 100) * 180 - 90;
+
+  return (
+    <div className={`risk-gauge risk-${assessment.level}`}>
+      <div
+        className="risk-gauge-dial"
+        role="meter"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={assessment.score}
+        aria-label="Уровень риска"
+      >
+        <div className="risk-gauge-needle" style={{ transform: `rotate(${needleAngle}deg)` }} />
+        <div className="risk-gauge-value">{assessment.score}</div>
+      </div>
+      <div className="risk-gauge-level">{LEVEL_LABELS[assessment.level]}</div>
+
+      <ul className="risk-breakdown">
+        {assessment.breakdown.map(factor => (
+          <li key={factor.factor} className="risk-factor">
+            <div className="risk-factor-header">
+              <span className="risk-factor-name">{factor.description}</span>
+              <span className="risk-factor-points">{factor.points} / {factor.maxPoints}</span>
+            </div>
+            <div className="risk-factor-bar">
+              <div
+                className="risk-factor-fill"
+                style={{ width: `${factor.maxPoints > 0 ? (factor.points / factor.maxPoints) * 100 : 0}%` }}
+              />
+            </div>
+            {factor.details.length > 0 && (
+              <div className="risk-factor-details">{factor.details.join(' · ')}</div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -141,12 +141,37 @@ describe('ResultsDisplay', () => {
         </TestWrapper>
       );
 
-      expect(screen.getByText('email')).toBeInTheDocument();
+      expect(screen.getByText('Email')).toBeInTheDocument();
       expect(screen.getByText('user@example.com')).toBeInTheDocument();
       expect(screen.getByText('name')).toBeInTheDocument();
       expect(screen.getByText('John Doe')).toBeInTheDocument();
     });
 
+    it('groups data fields by category', () => {
+      const categorizedResults: SearchResults = {
+        ...mockResultsWithData,
+        results: [
+          {
+            ...mockResultsWithData.results[0],
+            foundData: [
+              { field: 'phone', value: '+79123456789', category: 'phone', source: 'delivery' },
+              { field: 'full_name', value: 'Иванов Иван', category: 'name', source: 'delivery', leakDate: '2021' }
+            ]
+          }
+        ]
+      };
+
+      render(
+        <TestWrapper>
+          <ResultsDisplay results={categorizedResults} />
+        </TestWrapper>
+      );
+
+      const titles = screen.getAllByRole('heading', { level: 4 }).map(el => el.textContent);
+      expect(titles).toEqual(['ФИО 1', 'Телефоны 1']);
+      expect(screen.getByText(/утечка 2021/)).toBeInTheDocument();
+    });
+
     it('shows confidence badges for data fields', () => {
       render(
         <TestWrapper>
@@ -442,4 +467,31 @@ describe('ResultsDisplay', () => {
       expect(screen.getByText('⚠️ Ограниченный режим')).toBeInTheDocument();
     });
   });
+
+  describe('Streaming Search', () => {
+    it('shows bots that are still searching', () => {
+      render(
+        <TestWrapper>
+          <ResultsDisplay
+            results={mockResultsNoData}
+            pendingBots={[{ botId: 'vektor', botName: 'Бот E' }]}
+            inProgress
+          />
+        </TestWrapper>
+      );
+
+      expect(screen.getByText('⏳ Идёт поиск (1)')).toBeInTheDocument();
+      expect(screen.getByText('Бот E')).toBeInTheDocument();
+    });
+
+    it('holds back the no results message until the search finishes', () => {
+      render(
+        <TestWrapper>
+          <ResultsDisplay results={mockResultsNoData} inProgress />
+        </TestWrapper>
+      );
+
+      expect(screen.queryByText('Отличные новости!')).not.toBeInTheDocument();
+    });
+  });
 });
\ No newline at end of file
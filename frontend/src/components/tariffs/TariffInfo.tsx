@@ -1,11 +1,13 @@
 /**
  * TariffInfo Component
- * Displays tariff plans with payment placeholder
+ * Displays tariff plans and starts checkout for paid plans
  */
 
 import React, { useState, useEffect } from 'react';
-import { useTariffs } from '../../hooks/useApi';
-import { TariffPlan } from '../../types/api';
+import { useSearchParams } from 'react-router-dom';
+import { useTariffs, useSearchQuota } from '../../hooks/useApi';
+import { TariffPlan, SearchQuota, Payment } from '../../types/api';
+import { paymentService } from '../../services/payment.service';
 import { formatDate } from '../../utils/helpers';
 import './TariffInfo.css';
 
@@ -14,14 +16,14 @@ interface TariffCardProps {
   isPopular?: boolean;
   onSelectPlan: (planId: string) => void;
   paymentAvailable: boolean;
+  isProcessing: boolean;
 }
 
-function TariffCard({ plan, isPopular, onSelectPlan, paymentAvailable }: TariffCardProps) {
+function TariffCard({ plan, isPopular, onSelectPlan, paymentAvailable, isProcessing }: TariffCardProps) {
   const handleSelectPlan = () => {
-    if (plan.isFree) {
+    if (plan.isFree || paymentAvailable) {
       onSelectPlan(plan.id);
     } else {
-      // Show payment placeholder
       alert('Оплата будет доступна позже. Пока все функции доступны бесплатно.');
     }
   };
@@ -82,9 +84,9 @@ function TariffCard({ plan, isPopular, onSelectPlan, paymentAvailable }: TariffC
         <button
           className={`select-plan-btn ${plan.isFree ? 'free-btn' : 'premium-btn'}`}
           onClick={handleSelectPlan}
-          disabled={!paymentAvailable && !plan.isFree}
+          disabled={(!paymentAvailable && !plan.isFree) || isProcessing}
         >
-          {plan.isFree ? 'Начать бесплатно' : 'Выбрать план'}
+          {plan.isFree ? 'Начать бесплатно' : isProcessing ? 'Переход к оплате...' : 'Выбрать план'}
         </button>
         
         {!plan.isFree && !paymentAvailable && (
@@ -97,6 +99,47 @@ function TariffCard({ plan, isPopular, onSelectPlan, paymentAvailable }: TariffC
   );
 }
 
+function SearchQuotaBanner({ quota }: { quota: SearchQuota }) {
+  const unlimited = quota.limit === -1;
+
+  return (
+    <div className={`search-quota-banner ${!unlimited && quota.remaining === 0 ? 'exhausted' : ''}`}>
+      <div className="quota-icon">🔎</div>
+      <div className="quota-content">
+        <p className="quota-remaining">
+          {unlimited
+            ? 'Поиски без ограничений'
+            : `Осталось поисков: ${quota.remaining} из ${quota.limit}`}
+        </p>
+        {!unlimited && (
+          <p className="quota-reset">Лимит обновится {formatDate(quota.resetDate)}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PaymentResultBanner({ payment }: { payment: Payment }) {
+  const messages: Record<Payment['status'], string> = {
+    succeeded: 'Оплата прошла успешно! Тарифный план активирован.',
+    canceled: 'Платеж отменен. Средства не были списаны.',
+    pending: 'Платеж обрабатывается. Тариф будет активирован после подтверждения оплаты.',
+    waiting_for_capture: 'Платеж обрабатывается. Тариф будет активирован после подтверждения оплаты.'
+  };
+
+  return (
+    <div className={`payment-result-banner ${payment.status}`}>
+      <div className="quota-icon">
+        {payment.status === 'succeeded' ? '✅' : payment.status === 'canceled' ? '❌' : '⏳'}
+      </div>
+      <div className="quota-content">
+        <p className="payment-result-message">{messages[payment.status]}</p>
+        <p className="quota-reset">{payment.description} — {payment.amount} {payment.currency}</p>
+      </div>
+    </div>
+  );
+}
+
 interface ComparisonTableProps {
   plans: TariffPlan[];
   features: string[];
@@ -151,18 +194,51 @@ function ComparisonTable({ plans, features, comparison }: ComparisonTableProps)
 
 export function TariffInfo() {
   const { data: tariffsData, loading, error, refetch } = useTariffs();
+  const searchQuota = useSearchQuota();
+  const [searchParams] = useSearchParams();
   const [showComparison, setShowComparison] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
+  const [returnedPayment, setReturnedPayment] = useState<Payment | null>(null);
+
+  const returnedPaymentId = searchParams.get('paymentId');
+
+  useEffect(() => {
+    if (tariffsData?.paymentStatus.available) {
+      paymentService.setAvailableProviders(tariffsData.paymentStatus.supportedProviders || []);
+    }
+  }, [tariffsData]);
+
+  // The checkout page sends the user back here with ?paymentId=...
+  useEffect(() => {
+    if (!returnedPaymentId) {
+      return;
+    }
+
+    paymentService.verifyPayment(returnedPaymentId).then(result => {
+      if (result.payment) {
+        setReturnedPayment(result.payment);
+      }
+    });
+  }, [returnedPaymentId]);
 
-  const handleSelectPlan = (planId: string) => {
+  const handleSelectPlan = async (planId: string) => {
     setSelectedPlan(planId);
-    
-    // For now, just show a message since payment is not available
+
     if (planId === 'free') {
       alert('Бесплатный план уже активен! Вы можете пользоваться всеми функциями.');
-    } else {
-      alert('Спасибо за интерес! Платные планы будут доступны в ближайшее время. Пока все функции доступны бесплатно.');
+      setSelectedPlan(null);
+      return;
+    }
+
+    const result = await paymentService.createPayment({ planId });
+
+    if (result.success && result.redirectUrl) {
+      window.location.assign(result.redirectUrl);
+      return;
     }
+
+    alert(result.error || 'Не удалось перейти к оплате. Попробуйте еще раз.');
+    setSelectedPlan(null);
   };
 
   const toggleComparison = () => {
@@ -221,6 +297,10 @@ export function TariffInfo() {
           <p className="page-subtitle">
             Выберите подходящий план для удаления ваших персональных данных
           </p>
+
+          {returnedPayment && <PaymentResultBanner payment={returnedPayment} />}
+
+          {searchQuota && <SearchQuotaBanner quota={searchQuota} />}
           
           {!paymentStatus.available && (
             <div className="payment-notice-banner">
@@ -249,6 +329,7 @@ export function TariffInfo() {
               isPopular={plan.isPopular}
               onSelectPlan={handleSelectPlan}
               paymentAvailable={paymentStatus.available}
+              isProcessing={selectedPlan === plan.id && plan.id !== 'free'}
             />
           ))}
         </div>
@@ -2,11 +2,17 @@
  * Custom hooks for API interactions
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { searchAPI, instructionsAPI, tariffsAPI, notificationsAPI } from '../services/api';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { searchAPI, instructionsAPI, tariffsAPI, notificationsAPI, quotaAPI, telegramAPI, historyAPI, monitorsAPI, removalCasesAPI } from '../services/api';
+import { subscribeBrowser, unsubscribeBrowser } from '../services/push.service';
 import { 
   SearchRequest, 
   SearchResults, 
+  SearchResult,
+  QuickScanResults,
+  SearchProgressEvent,
+  SearchProgressEventType,
+  PendingBot,
   BotInstructions, 
   TariffResponse,
   ApiResponse,
@@ -14,8 +20,16 @@ import {
   HealthStatus,
   Notification,
   NotificationPreferences,
-  NotificationListResponse
+  NotificationListResponse,
+  SearchQuota,
+  TelegramLinkStatus,
+  SearchHistoryItem,
+  ExposureMonitor,
+  RemovalCase,
+  CreateRemovalCaseRequest,
+  UpdateRemovalCaseRequest
 } from '../types/api';
+import { validateSearchValue as validateExtendedSearchValue } from '../utils/helpers';
 
 // Generic API hook
 export function useApi<T>(
@@ -52,19 +66,74 @@ export function useApi<T>(
 }
 
 // Search hooks
+const SEARCH_PROGRESS_EVENTS: SearchProgressEventType[] = [
+  'search_started',
+  'started',
+  'completed',
+  'error',
+  'timeout',
+  'search_completed',
+  'search_failed'
+];
+
+// Results so far of a streaming search, in the shape of the final results
+function buildPartialResults(
+  searchId: string,
+  request: SearchRequest,
+  startedAt: number,
+  results: SearchResult[]
+): SearchResults {
+  const botsWithData = results.filter(result => result.hasData);
+
+  return {
+    searchId,
+    timestamp: new Date(startedAt).toISOString(),
+    query: request.value,
+    searchType: request.type,
+    results,
+    totalBotsSearched: results.length,
+    totalBotsWithData: botsWithData.length,
+    totalRecords: botsWithData.reduce((sum, result) => sum + result.foundData.length, 0),
+    searchDuration: Date.now() - startedAt,
+    encryptionEnabled: true
+  };
+}
+
+function isQuickScan(data: object): data is QuickScanResults {
+  return (data as QuickScanResults).mode === 'quick';
+}
+
 export function useSearch() {
   const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+  // Set instead of searchResults when the plan only allows quick scans
+  const [quickScan, setQuickScan] = useState<QuickScanResults | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // Bots a streaming search is still waiting for
+  const [pendingBots, setPendingBots] = useState<PendingBot[]>([]);
+  const eventSourceRef = useRef<EventSource | null>(null);
+
+  const closeStream = useCallback(() => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+  }, []);
+
+  useEffect(() => closeStream, [closeStream]);
 
   const search = useCallback(async (request: SearchRequest) => {
+    closeStream();
     try {
       setLoading(true);
       setError(null);
+      setQuickScan(null);
       const response = await searchAPI.search(request);
       
       if (response.success && response.data) {
-        setSearchResults(response.data);
+        if (isQuickScan(response.data)) {
+          setQuickScan(response.data);
+        } else {
+          setSearchResults(response.data);
+        }
       } else {
         setError(response.error?.userMessage || response.error?.message || 'Search failed');
       }
@@ -73,9 +142,105 @@ export function useSearch() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [closeStream]);
+
+  // Search with results filling in bot by bot as each one answers
+  const searchStream = useCallback(async (request: SearchRequest) => {
+    closeStream();
+    setLoading(true);
+    setError(null);
+    setSearchResults(null);
+    setQuickScan(null);
+    setPendingBots([]);
+
+    try {
+      const response = await searchAPI.startStreamingSearch(request);
+
+      if (!response.success || !response.data) {
+        setError(response.error?.userMessage || response.error?.message || 'Search failed');
+        setLoading(false);
+        return;
+      }
+
+      if (isQuickScan(response.data)) {
+        setQuickScan(response.data);
+        setLoading(false);
+        return;
+      }
+
+      const { searchId, eventsUrl } = response.data;
+      const startedAt = Date.now();
+      const pending = new Map<string, PendingBot>();
+      const finished = new Map<string, SearchResult>();
+      const eventSource = searchAPI.openSearchEvents(eventsUrl);
+      eventSourceRef.current = eventSource;
+
+      const publish = () => {
+        setPendingBots(Array.from(pending.values()));
+        setSearchResults(buildPartialResults(searchId, request, startedAt, Array.from(finished.values())));
+      };
+
+      const finish = () => {
+        closeStream();
+        setPendingBots([]);
+        setLoading(false);
+      };
+
+      const handleEvent = (message: MessageEvent) => {
+        const event: SearchProgressEvent = JSON.parse(message.data);
+
+        switch (event.type) {
+          case 'started':
+            pending.set(event.botId!, { botId: event.botId!, botName: event.botName || event.botId! });
+            publish();
+            break;
+
+          case 'completed':
+          case 'error':
+          case 'timeout':
+            pending.delete(event.botId!);
+            finished.set(event.botId!, event.result || {
+              botId: event.botId!,
+              botName: event.botName || event.botId!,
+              foundData: [],
+              hasData: false,
+              status: event.type === 'completed' ? 'no_data' : event.type,
+              errorMessage: event.error
+            });
+            publish();
+            break;
+
+          case 'search_completed':
+            if (event.results) {
+              setSearchResults(event.results);
+            }
+            finish();
+            break;
+
+          case 'search_failed':
+            setError(event.error || 'Search failed');
+            finish();
+            break;
+        }
+      };
+
+      SEARCH_PROGRESS_EVENTS.forEach(type => eventSource.addEventListener(type, handleEvent as EventListener));
+
+      // EventSource reconnects by itself; a closed stream means the search is gone
+      eventSource.onerror = () => {
+        if (eventSource.readyState === EventSource.CLOSED && eventSourceRef.current === eventSource) {
+          setError('Соединение с сервером прервано');
+          finish();
+        }
+      };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+      setLoading(false);
+    }
+  }, [closeStream]);
 
   const searchSpecific = useCallback(async (request: SearchRequest, botIds: string[]) => {
+    closeStream();
     try {
       setLoading(true);
       setError(null);
@@ -91,23 +256,38 @@ export function useSearch() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [closeStream]);
 
   const clearResults = useCallback(() => {
+    closeStream();
     setSearchResults(null);
+    setQuickScan(null);
+    setPendingBots([]);
     setError(null);
-  }, []);
+  }, [closeStream]);
 
   return {
     searchResults,
+    quickScan,
     loading,
     error,
+    pendingBots,
     search,
+    searchStream,
     searchSpecific,
     clearResults
   };
 }
 
+// Search quota reported by the latest search
+export function useSearchQuota() {
+  const [quota, setQuota] = useState<SearchQuota | null>(() => quotaAPI.getSearchQuota());
+
+  useEffect(() => quotaAPI.subscribe(setQuota), []);
+
+  return quota;
+}
+
 // Instructions hooks
 export function useInstructions(botId?: string) {
   const [instructions, setInstructions] = useState<BotInstructions | null>(null);
@@ -247,6 +427,14 @@ export function useFormValidation() {
         }
         break;
       
+      case 'name':
+      case 'address':
+      case 'plate_number':
+      case 'vin':
+      case 'username':
+      case 'telegram_id':
+        return validateExtendedSearchValue(type, value);
+      
       default:
         return 'Неизвестный тип поиска';
     }
@@ -302,6 +490,7 @@ export function useNotifications(params?: {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState<number>(0);
   const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [telegramLink, setTelegramLink] = useState<TelegramLinkStatus | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -350,6 +539,17 @@ export function useNotifications(params?: {
     }
   }, []);
 
+  const fetchTelegramLink = useCallback(async () => {
+    try {
+      const response = await telegramAPI.getLink();
+      if (response.success && response.data) {
+        setTelegramLink(response.data);
+      }
+    } catch (err) {
+      console.warn('Failed to fetch Telegram link:', err);
+    }
+  }, []);
+
   const markAsRead = useCallback(async (notificationId: string) => {
     try {
       const response = await notificationsAPI.markAsRead(notificationId);
@@ -449,6 +649,61 @@ export function useNotifications(params?: {
     }
   }, []);
 
+  /**
+   * Subscribe this browser to push and register it with the backend
+   */
+  const enablePush = useCallback(async () => {
+    try {
+      const subscription = await subscribeBrowser();
+      return subscription ? await subscribeToPush(subscription) : false;
+    } catch (err) {
+      console.error('Failed to enable push notifications:', err);
+      return false;
+    }
+  }, [subscribeToPush]);
+
+  /**
+   * Remove this browser's push subscription
+   */
+  const disablePush = useCallback(async () => {
+    try {
+      const endpoint = await unsubscribeBrowser();
+      return endpoint ? await unsubscribeFromPush(endpoint) : true;
+    } catch (err) {
+      console.error('Failed to disable push notifications:', err);
+      return false;
+    }
+  }, [unsubscribeFromPush]);
+
+  /**
+   * Open the bot in Telegram; pressing Start there links the chat
+   */
+  const connectTelegram = useCallback(async () => {
+    try {
+      const response = await telegramAPI.createLink();
+      if (response.success && response.data) {
+        window.open(response.data.url, '_blank', 'noopener,noreferrer');
+      }
+      return response.success;
+    } catch (err) {
+      console.error('Failed to connect Telegram:', err);
+      return false;
+    }
+  }, []);
+
+  const disconnectTelegram = useCallback(async () => {
+    try {
+      const response = await telegramAPI.unlink();
+      if (response.success) {
+        await Promise.all([fetchTelegramLink(), fetchPreferences()]);
+      }
+      return response.success;
+    } catch (err) {
+      console.error('Failed to disconnect Telegram:', err);
+      return false;
+    }
+  }, [fetchTelegramLink, fetchPreferences]);
+
   const createTestNotification = useCallback(async (data: {
     type?: string;
     title?: string;
@@ -471,9 +726,10 @@ export function useNotifications(params?: {
     await Promise.all([
       fetchNotifications(),
       fetchUnreadCount(),
-      fetchPreferences()
+      fetchPreferences(),
+      fetchTelegramLink()
     ]);
-  }, [fetchNotifications, fetchUnreadCount, fetchPreferences]);
+  }, [fetchNotifications, fetchUnreadCount, fetchPreferences, fetchTelegramLink]);
 
   // Initial load
   useEffect(() => {
@@ -490,6 +746,7 @@ export function useNotifications(params?: {
     notifications,
     unreadCount,
     preferences,
+    telegramLink,
     loading,
     error,
     markAsRead,
@@ -498,7 +755,293 @@ export function useNotifications(params?: {
     updatePreferences,
     subscribeToPush,
     unsubscribeFromPush,
+    enablePush,
+    disablePush,
+    connectTelegram,
+    disconnectTelegram,
     createTestNotification,
     refreshNotifications
   };
-}
\ No newline at end of file
+}
+// Search history hook
+export function useSearchHistory(limit: number = 20) {
+  const [entries, setEntries] = useState<SearchHistoryItem[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [offset, setOffset] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await historyAPI.getHistory({ limit, offset });
+      if (response.success && response.data) {
+        setEntries(response.data.entries);
+        setTotal(response.data.total);
+        setRetentionDays(response.data.retentionDays);
+      } else {
+        setError(response.error?.userMessage || response.error?.message || 'Failed to load search history');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load search history');
+    } finally {
+      setLoading(false);
+    }
+  }, [limit, offset]);
+
+  // Full results of a past search
+  const openEntry = useCallback(async (id: string): Promise<SearchResults | null> => {
+    try {
+      const response = await historyAPI.getEntry(id);
+      return response.success && response.data ? response.data.results : null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open search');
+      return null;
+    }
+  }, []);
+
+  const rerun = useCallback(async (id: string): Promise<SearchResults | null> => {
+    try {
+      setLoading(true);
+      const response = await historyAPI.rerun(id);
+      if (response.success && response.data) {
+        await fetchHistory();
+        return response.data;
+      }
+      return null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run search');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchHistory]);
+
+  const deleteEntry = useCallback(async (id: string) => {
+    try {
+      const response = await historyAPI.deleteEntry(id);
+      if (response.success) {
+        setEntries(prev => prev.filter(entry => entry.id !== id));
+        setTotal(prev => Math.max(0, prev - 1));
+      }
+      return response.success;
+    } catch (err) {
+      console.error('Failed to delete search from history:', err);
+      return false;
+    }
+  }, []);
+
+  const clearHistory = useCallback(async () => {
+    try {
+      const response = await historyAPI.clear();
+      if (response.success) {
+        setEntries([]);
+        setTotal(0);
+        setOffset(0);
+      }
+      return response.success;
+    } catch (err) {
+      console.error('Failed to clear search history:', err);
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    entries,
+    total,
+    retentionDays,
+    offset,
+    limit,
+    loading,
+    error,
+    setOffset,
+    openEntry,
+    rerun,
+    deleteEntry,
+    clearHistory,
+    refreshHistory: fetchHistory
+  };
+}
+
+// Comparison of two runs of the same search
+export function useSearchDiff(fromId: string, toId: string) {
+  return useApi(() => historyAPI.getDiff(fromId, toId), [fromId, toId]);
+}
+
+// Exposure monitoring hook
+export function useExposureMonitors() {
+  const [monitors, setMonitors] = useState<ExposureMonitor[]>([]);
+  const [intervalHours, setIntervalHours] = useState<number | null>(null);
+  const [limit, setLimit] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMonitors = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await monitorsAPI.getMonitors();
+      if (response.success && response.data) {
+        setMonitors(response.data.monitors);
+        setIntervalHours(response.data.intervalHours);
+        setLimit(response.data.limit);
+      } else {
+        setError(response.error?.userMessage || response.error?.message || 'Failed to load monitors');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load monitors');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Resolves to an error message when the monitor could not be created
+  const addMonitor = useCallback(async (request: SearchRequest): Promise<string | null> => {
+    try {
+      const response = await monitorsAPI.createMonitor(request);
+      if (response.success && response.data) {
+        setMonitors(prev => [...prev, response.data!]);
+        return null;
+      }
+      return response.error?.userMessage || response.error?.message || 'Failed to add monitor';
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Failed to add monitor';
+    }
+  }, []);
+
+  const removeMonitor = useCallback(async (id: string) => {
+    try {
+      const response = await monitorsAPI.deleteMonitor(id);
+      if (response.success) {
+        setMonitors(prev => prev.filter(monitor => monitor.id !== id));
+      }
+      return response.success;
+    } catch (err) {
+      console.error('Failed to delete monitor:', err);
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMonitors();
+  }, [fetchMonitors]);
+
+  return {
+    monitors,
+    intervalHours,
+    limit,
+    loading,
+    error,
+    addMonitor,
+    removeMonitor,
+    refreshMonitors: fetchMonitors
+  };
+}
+
+// Hook for removal cases, all of them or those of one bot
+export function useRemovalCases(botId?: string) {
+  const [cases, setCases] = useState<RemovalCase[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCases = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await removalCasesAPI.getCases(botId);
+      if (response.success && response.data) {
+        setCases(response.data);
+      } else {
+        setError(response.error?.userMessage || response.error?.message || 'Failed to load removal cases');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load removal cases');
+    } finally {
+      setLoading(false);
+    }
+  }, [botId]);
+
+  const replaceCase = useCallback((updated: RemovalCase) => {
+    setCases(prev => prev.map(removalCase => removalCase.id === updated.id ? updated : removalCase));
+  }, []);
+
+  // Resolves to an error message when the case could not be created
+  const addCase = useCallback(async (request: CreateRemovalCaseRequest): Promise<string | null> => {
+    try {
+      const response = await removalCasesAPI.createCase(request);
+      if (response.success && response.data) {
+        setCases(prev => [response.data!, ...prev]);
+        return null;
+      }
+      return response.error?.userMessage || response.error?.message || 'Failed to create removal case';
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Failed to create removal case';
+    }
+  }, []);
+
+  // Resolves to an error message when the case could not be updated
+  const updateCase = useCallback(async (id: string, changes: UpdateRemovalCaseRequest): Promise<string | null> => {
+    try {
+      const response = await removalCasesAPI.updateCase(id, changes);
+      if (response.success && response.data) {
+        replaceCase(response.data);
+        return null;
+      }
+      return response.error?.userMessage || response.error?.message || 'Failed to update removal case';
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Failed to update removal case';
+    }
+  }, [replaceCase]);
+
+  // Resolves to the checked case, or null when the check could not be run
+  const verifyCase = useCallback(async (id: string): Promise<RemovalCase | null> => {
+    try {
+      const response = await removalCasesAPI.verifyCase(id);
+      if (response.success && response.data) {
+        replaceCase(response.data);
+        return response.data;
+      }
+      return null;
+    } catch (err) {
+      console.error('Failed to verify removal case:', err);
+      return null;
+    }
+  }, [replaceCase]);
+
+  const removeCase = useCallback(async (id: string) => {
+    try {
+      const response = await removalCasesAPI.deleteCase(id);
+      if (response.success) {
+        setCases(prev => prev.filter(removalCase => removalCase.id !== id));
+      }
+      return response.success;
+    } catch (err) {
+      console.error('Failed to delete removal case:', err);
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCases();
+  }, [fetchCases]);
+
+  return {
+    cases,
+    loading,
+    error,
+    addCase,
+    updateCase,
+    verifyCase,
+    removeCase,
+    refreshCases: fetchCases
+  };
+}
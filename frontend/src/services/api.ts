@@ -7,6 +7,16 @@ import axios, { AxiosInstance, AxiosError, AxiosResponse } from 'axios';
 import { 
   SearchRequest, 
   SearchResults, 
+  QuickScanResults,
+  StreamingSearchStart,
+  SearchHistoryList,
+  SearchHistoryDetails,
+  SearchHistoryDiff,
+  ExposureMonitor,
+  ExposureMonitorList,
+  RemovalCase,
+  CreateRemovalCaseRequest,
+  UpdateRemovalCaseRequest,
   ApiResponse, 
   BotInstructions, 
   TariffResponse,
@@ -15,7 +25,11 @@ import {
   AvailableBot,
   Notification,
   NotificationPreferences,
-  NotificationListResponse
+  NotificationListResponse,
+  SearchQuota,
+  Payment,
+  TelegramLinkStatus,
+  TelegramLinkRequest
 } from '../types/api';
 
 // API Configuration
@@ -30,6 +44,27 @@ const apiClient: AxiosInstance = axios.create({
   },
 });
 
+// Latest search quota seen in response headers
+let searchQuota: SearchQuota | null = null;
+const searchQuotaListeners = new Set<(quota: SearchQuota) => void>();
+
+function updateSearchQuota(headers?: AxiosResponse['headers']) {
+  const limit = headers?.['x-quota-limit'];
+  const remaining = headers?.['x-quota-remaining'];
+  const resetDate = headers?.['x-quota-reset'];
+
+  if (limit === undefined || remaining === undefined || !resetDate) {
+    return;
+  }
+
+  searchQuota = {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetDate: String(resetDate)
+  };
+  searchQuotaListeners.forEach(listener => listener(searchQuota!));
+}
+
 // Request interceptor for adding auth tokens if needed
 apiClient.interceptors.request.use(
   (config) => {
@@ -52,9 +87,12 @@ apiClient.interceptors.request.use(
 // Response interceptor for handling common errors
 apiClient.interceptors.response.use(
   (response: AxiosResponse) => {
+    updateSearchQuota(response.headers);
     return response;
   },
   (error: AxiosError) => {
+    updateSearchQuota(error.response?.headers);
+
     // Handle common HTTP errors
     if (error.response?.status === 401) {
       // Handle unauthorized - redirect to login if needed
@@ -71,17 +109,43 @@ apiClient.interceptors.response.use(
 // Search API methods
 export const searchAPI = {
   /**
-   * Search for data across all bots
+   * Search for data across all bots; plans without full results get a quick scan
    */
-  search: async (request: SearchRequest): Promise<ApiResponse<SearchResults>> => {
+  search: async (request: SearchRequest): Promise<ApiResponse<SearchResults | QuickScanResults>> => {
     try {
-      const response = await apiClient.post<ApiResponse<SearchResults>>('/api/search', request);
+      const response = await apiClient.post<ApiResponse<SearchResults | QuickScanResults>>('/api/search', request);
       return response.data;
     } catch (error) {
       throw handleApiError(error as AxiosError);
     }
   },
 
+  /**
+   * Start a search in the background; follow it with openSearchEvents.
+   * Quick scans are not streamed and come back finished.
+   */
+  startStreamingSearch: async (request: SearchRequest): Promise<ApiResponse<StreamingSearchStart | QuickScanResults>> => {
+    try {
+      const response = await apiClient.post<ApiResponse<StreamingSearchStart | QuickScanResults>>('/api/search/search', {
+        ...request,
+        stream: true
+      });
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Open the Server-Sent Events stream of a streaming search
+   */
+  openSearchEvents: (eventsUrl: string): EventSource => {
+    // EventSource cannot send the Authorization header, so the token goes in the query
+    const token = localStorage.getItem('authToken');
+    const query = token ? `${eventsUrl.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}` : '';
+    return new EventSource(`${API_BASE_URL}${eventsUrl}${query}`);
+  },
+
   /**
    * Search with specific bots only
    */
@@ -185,10 +249,77 @@ export const tariffsAPI = {
     } catch (error) {
       throw handleApiError(error as AxiosError);
     }
+  },
+
+  /**
+   * Start the one-time free trial of a paid plan
+   */
+  startTrial: async (planId: string): Promise<ApiResponse<{ subscription: any }>> => {
+    try {
+      const response = await apiClient.post<ApiResponse<{ subscription: any }>>('/api/tariffs/trial', { planId });
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Turn off renewal of the current subscription
+   */
+  cancelSubscription: async (): Promise<ApiResponse<{ subscription: any }>> => {
+    try {
+      const response = await apiClient.post<ApiResponse<{ subscription: any }>>('/api/tariffs/subscription/cancel');
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
   }
 };
 
 // Notifications API methods
+export const paymentsAPI = {
+  /**
+   * Start a payment for a paid plan. Reuse the idempotency key when retrying
+   * so the same payment is returned instead of a new one.
+   */
+  createPayment: async (planId: string, idempotencyKey: string): Promise<ApiResponse<{ payment: Payment }>> => {
+    try {
+      const response = await apiClient.post<ApiResponse<{ payment: Payment }>>(
+        '/api/payments',
+        { planId },
+        { headers: { 'Idempotency-Key': idempotencyKey } }
+      );
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Get the current status of a payment
+   */
+  getPayment: async (paymentId: string): Promise<ApiResponse<{ payment: Payment }>> => {
+    try {
+      const response = await apiClient.get<ApiResponse<{ payment: Payment }>>(`/api/payments/${paymentId}`);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * List the user's payments
+   */
+  getPayments: async (): Promise<ApiResponse<{ payments: Payment[] }>> => {
+    try {
+      const response = await apiClient.get<ApiResponse<{ payments: Payment[] }>>('/api/payments');
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+};
+
 export const notificationsAPI = {
   /**
    * Get user notifications with pagination and filtering
@@ -328,6 +459,18 @@ export const notificationsAPI = {
     }
   },
 
+  /**
+   * Get the VAPID public key used as applicationServerKey for push subscriptions
+   */
+  getPushPublicKey: async (): Promise<ApiResponse<{ publicKey: string }>> => {
+    try {
+      const response = await apiClient.get<ApiResponse<{ publicKey: string }>>('/api/notifications/push/public-key');
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
   /**
    * Create test notification (development only)
    */
@@ -346,6 +489,223 @@ export const notificationsAPI = {
   }
 };
 
+// Telegram notification bot
+export const telegramAPI = {
+  /**
+   * Get the Telegram chat linked to the account
+   */
+  getLink: async (): Promise<ApiResponse<TelegramLinkStatus>> => {
+    try {
+      const response = await apiClient.get<ApiResponse<TelegramLinkStatus>>('/api/telegram/link');
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Create a one-time deep link to the bot that connects the chat
+   */
+  createLink: async (): Promise<ApiResponse<TelegramLinkRequest>> => {
+    try {
+      const response = await apiClient.post<ApiResponse<TelegramLinkRequest>>('/api/telegram/link');
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Disconnect the linked chat
+   */
+  unlink: async (): Promise<ApiResponse<{ unlinked: boolean }>> => {
+    try {
+      const response = await apiClient.delete<ApiResponse<{ unlinked: boolean }>>('/api/telegram/link');
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+};
+
+export const historyAPI = {
+  /**
+   * List the user's past searches, newest first
+   */
+  getHistory: async (params?: { limit?: number; offset?: number }): Promise<ApiResponse<SearchHistoryList>> => {
+    try {
+      const response = await apiClient.get<ApiResponse<SearchHistoryList>>('/api/search/search/history', { params });
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Reopen a past search with its results
+   */
+  getEntry: async (id: string): Promise<ApiResponse<SearchHistoryDetails>> => {
+    try {
+      const response = await apiClient.get<ApiResponse<SearchHistoryDetails>>(`/api/search/search/history/${id}`);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Compare two runs of the same search
+   */
+  getDiff: async (fromId: string, toId: string): Promise<ApiResponse<SearchHistoryDiff>> => {
+    try {
+      const response = await apiClient.get<ApiResponse<SearchHistoryDiff>>(
+        `/api/search/search/history/${fromId}/diff/${toId}`
+      );
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Run a past search again
+   */
+  rerun: async (id: string): Promise<ApiResponse<SearchResults>> => {
+    try {
+      const response = await apiClient.post<ApiResponse<SearchResults>>(`/api/search/search/history/${id}/rerun`);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Delete one past search
+   */
+  deleteEntry: async (id: string): Promise<ApiResponse<{ id: string; deleted: boolean }>> => {
+    try {
+      const response = await apiClient.delete<ApiResponse<{ id: string; deleted: boolean }>>(
+        `/api/search/search/history/${id}`
+      );
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Delete the whole history
+   */
+  clear: async (): Promise<ApiResponse<{ deleted: number }>> => {
+    try {
+      const response = await apiClient.delete<ApiResponse<{ deleted: number }>>('/api/search/search/history');
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+};
+
+export const monitorsAPI = {
+  /**
+   * List monitored identifiers with the plan's scan interval and limit
+   */
+  getMonitors: async (): Promise<ApiResponse<ExposureMonitorList>> => {
+    try {
+      const response = await apiClient.get<ApiResponse<ExposureMonitorList>>('/api/monitors');
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Start monitoring an identifier for new leaks
+   */
+  createMonitor: async (request: SearchRequest): Promise<ApiResponse<ExposureMonitor>> => {
+    try {
+      const response = await apiClient.post<ApiResponse<ExposureMonitor>>('/api/monitors', request);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Stop monitoring an identifier
+   */
+  deleteMonitor: async (id: string): Promise<ApiResponse<{ id: string; deleted: boolean }>> => {
+    try {
+      const response = await apiClient.delete<ApiResponse<{ id: string; deleted: boolean }>>(`/api/monitors/${id}`);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+};
+
+// Removal cases API
+export const removalCasesAPI = {
+  /**
+   * List removal cases, optionally for one bot
+   */
+  getCases: async (botId?: string): Promise<ApiResponse<RemovalCase[]>> => {
+    try {
+      const response = await apiClient.get<ApiResponse<RemovalCase[]>>('/api/removal-cases', {
+        params: botId ? { botId } : undefined
+      });
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Start tracking a removal request sent to a bot
+   */
+  createCase: async (request: CreateRemovalCaseRequest): Promise<ApiResponse<RemovalCase>> => {
+    try {
+      const response = await apiClient.post<ApiResponse<RemovalCase>>('/api/removal-cases', request);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Change the status, ticket number, submission date or notes of a case
+   */
+  updateCase: async (id: string, changes: UpdateRemovalCaseRequest): Promise<ApiResponse<RemovalCase>> => {
+    try {
+      const response = await apiClient.patch<ApiResponse<RemovalCase>>(`/api/removal-cases/${id}`, changes);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  /**
+   * Search the bot again to check whether the data is gone
+   */
+  verifyCase: async (id: string): Promise<ApiResponse<RemovalCase>> => {
+    try {
+      const response = await apiClient.post<ApiResponse<RemovalCase>>(`/api/removal-cases/${id}/verify`);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  deleteCase: async (id: string): Promise<ApiResponse<{ id: string; deleted: boolean }>> => {
+    try {
+      const response = await apiClient.delete<ApiResponse<{ id: string; deleted: boolean }>>(`/api/removal-cases/${id}`);
+      return response.data;
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+};
+
 // Error handling utility
 function handleApiError(error: AxiosError): Error {
   if (error.response?.data) {
@@ -355,6 +715,7 @@ function handleApiError(error: AxiosError): Error {
       (customError as any).code = apiError.error.code;
       (customError as any).type = apiError.error.type;
       (customError as any).suggestions = apiError.error.suggestions;
+      (customError as any).resetDate = apiError.error.resetDate;
       return customError;
     }
   }
@@ -369,6 +730,24 @@ function handleApiError(error: AxiosError): Error {
   return new Error(error.message || 'Произошла неизвестная ошибка');
 }
 
+// Search quota from the latest search response
+export const quotaAPI = {
+  /**
+   * Get the last known search quota, if any search has been made
+   */
+  getSearchQuota: (): SearchQuota | null => searchQuota,
+
+  /**
+   * Subscribe to quota updates; returns an unsubscribe function
+   */
+  subscribe: (listener: (quota: SearchQuota) => void): (() => void) => {
+    searchQuotaListeners.add(listener);
+    return () => {
+      searchQuotaListeners.delete(listener);
+    };
+  }
+};
+
 // Utility functions
 export const apiUtils = {
   /**
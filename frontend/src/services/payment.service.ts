@@ -1,9 +1,10 @@
 /**
  * Payment Service
- * Prepares architecture for future payment system integration
+ * Starts plan payments through the backend and tracks their status
  */
 
-import { TariffPlan } from '../types/api';
+import { TariffPlan, Payment } from '../types/api';
+import { paymentsAPI, tariffsAPI } from './api';
 
 export interface PaymentProvider {
   id: string;
@@ -25,6 +26,7 @@ export interface PaymentResponse {
   success: boolean;
   paymentId?: string;
   redirectUrl?: string;
+  payment?: Payment;
   error?: string;
 }
 
@@ -40,6 +42,8 @@ export class PaymentService {
   private static instance: PaymentService;
   private providers: PaymentProvider[] = [];
   private isInitialized = false;
+  // Idempotency keys of payments being started, so retries reuse the same payment
+  private pendingPaymentKeys = new Map<string, string>();
 
   private constructor() {
     this.initializeProviders();
@@ -53,7 +57,8 @@ export class PaymentService {
   }
 
   /**
-   * Initialize payment providers (placeholder for future implementation)
+   * Initialize payment providers. Availability comes from the backend payment
+   * status, see setAvailableProviders().
    */
   private initializeProviders(): void {
     this.providers = [
@@ -68,7 +73,7 @@ export class PaymentService {
         id: 'yookassa',
         name: 'ЮKassa',
         icon: '🏦',
-        isAvailable: false, // Will be enabled later
+        isAvailable: false, // Enabled when the backend reports it
         supportedCurrencies: ['RUB']
       },
       {
@@ -90,6 +95,16 @@ export class PaymentService {
     this.isInitialized = true;
   }
 
+  /**
+   * Mark the providers the backend reports as enabled
+   */
+  public setAvailableProviders(providerIds: string[]): void {
+    this.providers = this.providers.map(provider => ({
+      ...provider,
+      isAvailable: providerIds.includes(provider.id)
+    }));
+  }
+
   /**
    * Get available payment providers
    */
@@ -112,31 +127,54 @@ export class PaymentService {
   }
 
   /**
-   * Create payment session (placeholder for future implementation)
+   * Create a payment for a plan; redirect the user to `redirectUrl` to pay
    */
   public async createPayment(request: PaymentRequest): Promise<PaymentResponse> {
-    // This is a placeholder implementation
-    // In the future, this will integrate with actual payment providers
-    
-    console.log('Payment request:', request);
-    
-    return {
-      success: false,
-      error: 'Оплата временно недоступна. Система оплаты находится в разработке.'
-    };
+    const idempotencyKey = this.pendingPaymentKeys.get(request.planId) || this.generateIdempotencyKey();
+    this.pendingPaymentKeys.set(request.planId, idempotencyKey);
+
+    try {
+      const response = await paymentsAPI.createPayment(request.planId, idempotencyKey);
+      const payment = response.data!.payment;
+      this.pendingPaymentKeys.delete(request.planId);
+
+      return {
+        success: true,
+        paymentId: payment.id,
+        redirectUrl: payment.confirmationUrl,
+        payment
+      };
+    } catch (error) {
+      // The key is kept so a retry returns the payment if it was created after all
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Не удалось создать платеж.'
+      };
+    }
   }
 
   /**
-   * Verify payment status (placeholder for future implementation)
+   * Get the current status of a payment, e.g. after returning from the checkout page
    */
   public async verifyPayment(paymentId: string): Promise<PaymentResponse> {
-    // This is a placeholder implementation
-    console.log('Verifying payment:', paymentId);
-    
-    return {
-      success: false,
-      error: 'Верификация платежей временно недоступна.'
-    };
+    try {
+      const response = await paymentsAPI.getPayment(paymentId);
+      const payment = response.data!.payment;
+
+      return {
+        success: payment.status === 'succeeded',
+        paymentId: payment.id,
+        redirectUrl: payment.confirmationUrl,
+        payment,
+        error: payment.status === 'canceled' ? 'Платеж отменен.' : undefined
+      };
+    } catch (error) {
+      return {
+        success: false,
+        paymentId,
+        error: error instanceof Error ? error.message : 'Не удалось проверить платеж.'
+      };
+    }
   }
 
   /**
@@ -155,16 +193,18 @@ export class PaymentService {
   }
 
   /**
-   * Cancel subscription (placeholder for future implementation)
+   * Cancel automatic renewal; the plan stays available until the paid period ends
    */
-  public async cancelSubscription(userId: string): Promise<{ success: boolean; error?: string }> {
-    // This is a placeholder implementation
-    console.log('Cancelling subscription for user:', userId);
-    
-    return {
-      success: false,
-      error: 'Отмена подписки временно недоступна.'
-    };
+  public async cancelSubscription(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await tariffsAPI.cancelSubscription();
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Не удалось отменить подписку.'
+      };
+    }
   }
 
   /**
@@ -184,27 +224,25 @@ export class PaymentService {
   }
 
   /**
-   * Get payment history (placeholder for future implementation)
+   * Get the signed-in user's payment history
    */
-  public async getPaymentHistory(userId: string): Promise<{
+  public async getPaymentHistory(): Promise<{
     success: boolean;
-    payments?: Array<{
-      id: string;
-      amount: number;
-      currency: string;
-      status: string;
-      date: Date;
-      planName: string;
-    }>;
+    payments?: Payment[];
     error?: string;
   }> {
-    // This is a placeholder implementation
-    console.log('Getting payment history for user:', userId);
-    
-    return {
-      success: true,
-      payments: [] // Empty for now
-    };
+    try {
+      const response = await paymentsAPI.getPayments();
+      return {
+        success: true,
+        payments: response.data!.payments
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Не удалось загрузить историю платежей.'
+      };
+    }
   }
 
   /**
@@ -294,6 +332,13 @@ export class PaymentService {
     message: string;
     expectedDate?: string;
   } {
+    if (this.isPaymentAvailable()) {
+      return {
+        available: true,
+        message: 'Оплата доступна'
+      };
+    }
+
     return {
       available: false,
       message: 'Оплата будет доступна позже',
@@ -301,20 +346,11 @@ export class PaymentService {
     };
   }
 
-  /**
-   * Prepare for future webhook handling
-   */
-  public handleWebhook(provider: string, payload: any): {
-    success: boolean;
-    error?: string;
-  } {
-    // This is a placeholder for future webhook handling
-    console.log('Webhook received from provider:', provider, payload);
-    
-    return {
-      success: false,
-      error: 'Webhook handling not implemented yet.'
-    };
+  private generateIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+      return crypto.randomUUID();
+    }
+    return `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 }
 
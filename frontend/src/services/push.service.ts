@@ -0,0 +1,85 @@
+/**
+ * Push Service
+ * Registers the push service worker and manages the browser's Web Push subscription
+ */
+
+import { notificationsAPI } from './api';
+
+const SERVICE_WORKER_URL = '/push-sw.js';
+
+export interface BrowserPushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  userAgent?: string;
+}
+
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+// applicationServerKey must be passed as bytes, the backend sends it base64url encoded
+const urlBase64ToUint8Array = (value: string): Uint8Array => {
+  const padding = '='.repeat((4 - (value.length % 4)) % 4);
+  const base64 = (value + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+const getRegistration = async (): Promise<ServiceWorkerRegistration> => {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  return navigator.serviceWorker.ready;
+};
+
+/**
+ * Ask for permission and subscribe this browser. Returns null when push is
+ * unsupported or the user declined.
+ */
+export const subscribeBrowser = async (): Promise<BrowserPushSubscription | null> => {
+  if (!isPushSupported()) {
+    return null;
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    return null;
+  }
+
+  const response = await notificationsAPI.getPushPublicKey();
+  if (!response.success || !response.data) {
+    throw new Error(response.error?.message || 'Push notifications are not available');
+  }
+
+  const registration = await getRegistration();
+  const subscription = await registration.pushManager.getSubscription() ||
+    await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(response.data.publicKey)
+    });
+
+  const json = subscription.toJSON();
+  return {
+    endpoint: subscription.endpoint,
+    keys: { p256dh: json.keys?.p256dh || '', auth: json.keys?.auth || '' },
+    userAgent: navigator.userAgent
+  };
+};
+
+/**
+ * Remove this browser's subscription. Returns the endpoint that was removed.
+ */
+export const unsubscribeBrowser = async (): Promise<string | null> => {
+  if (!isPushSupported()) {
+    return null;
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) {
+    return null;
+  }
+
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+};
@@ -4,19 +4,51 @@
  */
 
 // Search types
-export type SearchType = 'phone' | 'email' | 'inn' | 'snils' | 'passport';
+// A name may end with a birth date (YYYY-MM-DD) to narrow the search
+export const SEARCH_TYPES = [
+  'phone',
+  'email',
+  'inn',
+  'snils',
+  'passport',
+  'name',
+  'address',
+  'plate_number',
+  'vin',
+  'username',
+  'telegram_id'
+] as const;
+
+export type SearchType = typeof SEARCH_TYPES[number];
+
+// 'quick' only counts hits per source; full records need a paid plan
+export type SearchMode = 'quick' | 'full';
 
 export interface SearchRequest {
   type: SearchType;
   value: string;
   botIds?: string[];
+  mode?: SearchMode;
 }
 
+export type DataCategory =
+  | 'name'
+  | 'phone'
+  | 'email'
+  | 'address'
+  | 'document'
+  | 'date'
+  | 'vehicle'
+  | 'social'
+  | 'other';
+
 export interface FoundDataItem {
   field: string;
   value: string;
   source?: string;
   confidence?: number;
+  category?: DataCategory;
+  leakDate?: string;
 }
 
 export interface SearchResult {
@@ -24,10 +56,51 @@ export interface SearchResult {
   botName: string; // зашифрованное название
   foundData: FoundDataItem[];
   hasData: boolean;
-  status: 'success' | 'error' | 'no_data' | 'timeout' | 'circuit_open';
+  // 'not_supported' bots cannot search by this type and were not asked
+  status: 'success' | 'error' | 'no_data' | 'timeout' | 'circuit_open' | 'not_supported';
   errorMessage?: string;
 }
 
+export interface ExposureSource {
+  botId: string;
+  botName: string;
+  sourceDatabase?: string;
+  leakDate?: string;
+}
+
+export interface MergedProfileValue {
+  category: DataCategory;
+  field: string;
+  value: string;
+  variants: string[];
+  sources: ExposureSource[];
+  botCount: number;
+  confidence: number;
+}
+
+export interface MergedProfile {
+  values: MergedProfileValue[];
+  byCategory: Partial<Record<DataCategory, MergedProfileValue[]>>;
+  totalUniqueValues: number;
+  totalBotsContributing: number;
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface RiskFactor {
+  factor: 'sensitive_fields' | 'source_count' | 'recency';
+  points: number;
+  maxPoints: number;
+  description: string;
+  details: string[];
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  breakdown: RiskFactor[];
+}
+
 export interface SearchResults {
   searchId: string;
   timestamp: string;
@@ -40,6 +113,180 @@ export interface SearchResults {
   searchDuration: number;
   encryptionEnabled: boolean;
   isDegraded?: boolean;
+  mergedProfile?: MergedProfile;
+  riskAssessment?: RiskAssessment;
+}
+
+export interface QuickScanBotResult {
+  botId: string;
+  botName: string;
+  status: SearchResult['status'];
+  totalRecords: number;
+  sourcesFound: number;
+}
+
+// Result of a quick scan: how many sources hold data on the query, without the records
+export interface QuickScanResults {
+  searchId: string;
+  timestamp: string;
+  query: string;
+  searchType: SearchType;
+  mode: 'quick';
+  // False when no bot could count hits for this type, so nothing was checked
+  available: boolean;
+  results: QuickScanBotResult[];
+  totalBotsSearched: number;
+  totalBotsWithData: number;
+  totalSourcesFound: number;
+  totalRecords: number;
+  searchDuration: number;
+}
+
+// Search started with `stream: true`; progress arrives over Server-Sent Events
+export interface StreamingSearchStart {
+  searchId: string;
+  status: 'running';
+  eventsUrl: string;
+}
+
+export type SearchProgressEventType =
+  | 'search_started'
+  | 'started'
+  | 'completed'
+  | 'error'
+  | 'timeout'
+  | 'search_completed'
+  | 'search_failed';
+
+export interface SearchProgressEvent {
+  id: number;
+  type: SearchProgressEventType;
+  searchId: string;
+  timestamp: string;
+  botId?: string;
+  botName?: string;
+  result?: SearchResult;
+  // Final results, on 'search_completed'
+  results?: SearchResults;
+  error?: string;
+}
+
+// Bot that has been asked but has not answered yet
+export interface PendingBot {
+  botId: string;
+  botName: string;
+}
+
+// Past search kept in the user's history; the query is masked
+export interface SearchHistoryItem {
+  id: string;
+  searchType: SearchType;
+  maskedQuery: string;
+  totalBotsSearched: number;
+  totalBotsWithData: number;
+  totalRecords: number;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string | null;
+}
+
+export interface SearchHistoryDetails extends SearchHistoryItem {
+  results: SearchResults;
+}
+
+// Identifier re-scanned on the plan's schedule for new leaks
+export interface ExposureMonitor {
+  id: string;
+  searchType: SearchType;
+  maskedQuery: string;
+  // 'pending' until the first scan has recorded what is already known
+  status: 'pending' | 'ok' | 'failed';
+  lastError?: string;
+  lastScanAt?: string;
+  lastExposureAt?: string;
+  nextScanAt: string;
+  createdAt: string;
+}
+
+export interface ExposureMonitorList {
+  monitors: ExposureMonitor[];
+  // Hours between scans on the current plan; 0 means no monitoring
+  intervalHours: number;
+  // Identifiers the plan can monitor; -1 means without limit
+  limit: number;
+}
+
+// 'verified' is set by the server once a re-search finds nothing
+export type RemovalCaseStatus = 'planned' | 'submitted' | 'confirmed' | 'rejected' | 'verified';
+
+export interface RemovalVerification {
+  checkedAt: string;
+  result: 'cleared' | 'data_found' | 'inconclusive';
+  // Fields the bot still returned
+  remainingFields?: string[];
+}
+
+export interface RemovalCase {
+  id: string;
+  botId: string;
+  botName: string;
+  identifiers: Array<{ searchType: SearchType; maskedQuery: string }>;
+  status: RemovalCaseStatus;
+  ticketNumber?: string;
+  submittedAt?: string;
+  notes?: string;
+  statusHistory: Array<{ status: RemovalCaseStatus; at: string }>;
+  lastVerification?: RemovalVerification;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRemovalCaseRequest {
+  botId: string;
+  identifiers: SearchRequest[];
+  status?: RemovalCaseStatus;
+  ticketNumber?: string;
+  submittedAt?: string;
+  notes?: string;
+}
+
+// null clears a field
+export interface UpdateRemovalCaseRequest {
+  status?: RemovalCaseStatus;
+  ticketNumber?: string | null;
+  submittedAt?: string | null;
+  notes?: string | null;
+}
+
+// Changes in what one bot returns between two runs of the same search
+export interface BotResultDiff {
+  botId: string;
+  botName: string;
+  removed: FoundDataItem[];
+  remaining: FoundDataItem[];
+  added: FoundDataItem[];
+  // The bot did not answer in one of the runs, so missing items prove nothing
+  inconclusive: boolean;
+  // Everything the bot had before is gone
+  cleared: boolean;
+}
+
+export interface SearchHistoryDiff {
+  from: SearchHistoryItem;
+  to: SearchHistoryItem;
+  bots: BotResultDiff[];
+  totals: {
+    removed: number;
+    remaining: number;
+    added: number;
+  };
+}
+
+export interface SearchHistoryList {
+  entries: SearchHistoryItem[];
+  total: number;
+  // Days entries are kept on the current plan: 0 keeps none, -1 keeps them without limit
+  retentionDays: number;
 }
 
 // API Response wrapper
@@ -54,6 +301,7 @@ export interface ApiResponse<T = any> {
     isOperational?: boolean;
     details?: any;
     suggestions?: string[];
+    resetDate?: string;
   };
   meta?: {
     timestamp: string;
@@ -109,10 +357,35 @@ export interface TariffResponse {
     available: boolean;
     message: string;
     expectedDate?: string;
+    supportedProviders?: string[];
   };
   totalPlans: number;
 }
 
+// Payment for a paid plan, as returned by /api/payments
+export type PaymentState = 'pending' | 'waiting_for_capture' | 'succeeded' | 'canceled';
+
+export interface Payment {
+  id: string;
+  kind: 'checkout' | 'renewal';
+  planId: string;
+  amount: string;
+  currency: string;
+  status: PaymentState;
+  description: string;
+  confirmationUrl?: string;
+  failureReason?: string;
+  createdAt: string;
+  paidAt?: string;
+}
+
+// Search quota reported by the backend in X-Quota-* response headers
+export interface SearchQuota {
+  limit: number; // -1 means unlimited
+  remaining: number; // -1 means unlimited
+  resetDate: string;
+}
+
 // Error types
 export interface ApiError {
   message: string;
@@ -174,12 +447,22 @@ export type NotificationType =
   | 'search_completed'
   | 'search_failed'
   | 'data_found'
+  | 'new_exposure'
   | 'removal_instructions'
+  | 'removal_reminder'
   | 'removal_completed'
   | 'system_maintenance'
   | 'security_alert'
   | 'subscription_update'
+  | 'subscription_trial_started'
+  | 'subscription_renewed'
+  | 'subscription_expiring'
+  | 'subscription_past_due'
+  | 'subscription_cancelled'
+  | 'subscription_expired'
   | 'payment_reminder'
+  | 'payment_succeeded'
+  | 'payment_canceled'
   | 'welcome'
   | 'info'
   | 'warning'
@@ -206,6 +489,8 @@ export interface NotificationPreferences {
     system_notifications: boolean;
     marketing: boolean;
   };
+  // Language of email and other notifications sent outside the app
+  language?: 'ru' | 'en';
   quietHours?: {
     enabled: boolean;
     start: string;
@@ -214,6 +499,21 @@ export interface NotificationPreferences {
   };
 }
 
+// Telegram chat connected for notifications
+export interface TelegramLinkStatus {
+  // Whether the server has a Telegram bot configured
+  enabled: boolean;
+  linked: boolean;
+  username?: string;
+  linkedAt?: string;
+}
+
+export interface TelegramLinkRequest {
+  // t.me deep link that connects the chat when the user presses Start
+  url: string;
+  expiresAt: string;
+}
+
 export interface NotificationListResponse {
   notifications: Notification[];
   pagination: {
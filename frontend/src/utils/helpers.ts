@@ -2,7 +2,7 @@
  * Utility helper functions
  */
 
-import { SearchType } from '../types/api';
+import { SearchType, DataCategory } from '../types/api';
 
 // Date formatting utilities
 export const formatDate = (date: Date | string): string => {
@@ -43,10 +43,64 @@ export const getSearchTypeLabel = (type: SearchType): string => {
     inn: 'ИНН',
     snils: 'СНИЛС',
     passport: 'Паспорт',
+    name: 'ФИО',
+    address: 'Адрес',
+    plate_number: 'Госномер авто',
+    vin: 'VIN',
+    username: 'Telegram username',
+    telegram_id: 'Telegram ID',
   };
   return labels[type] || type;
 };
 
+// Found data category utilities
+export const DATA_CATEGORY_ORDER: DataCategory[] = [
+  'name',
+  'phone',
+  'email',
+  'address',
+  'document',
+  'date',
+  'vehicle',
+  'social',
+  'other',
+];
+
+export const getDataCategoryLabel = (category: DataCategory): string => {
+  const labels: Record<DataCategory, string> = {
+    name: 'ФИО',
+    phone: 'Телефоны',
+    email: 'Email адреса',
+    address: 'Адреса',
+    document: 'Документы',
+    date: 'Даты',
+    vehicle: 'Транспорт',
+    social: 'Аккаунты',
+    other: 'Прочее',
+  };
+  return labels[category] || category;
+};
+
+export const getFieldLabel = (field: string): string => {
+  const labels: Record<string, string> = {
+    full_name: 'ФИО',
+    phone: 'Телефон',
+    email: 'Email',
+    address: 'Адрес',
+    passport: 'Паспорт',
+    inn: 'ИНН',
+    snils: 'СНИЛС',
+    driver_license: 'Водительское удостоверение',
+    birth_date: 'Дата рождения',
+    date: 'Дата',
+    plate_number: 'Госномер',
+    vin: 'VIN',
+    social_account: 'Аккаунт',
+    relatives: 'Родственники',
+  };
+  return labels[field] || field;
+};
+
 export const getSearchTypePlaceholder = (type: SearchType): string => {
   const placeholders: Record<SearchType, string> = {
     phone: '+7 (999) 123-45-67',
@@ -54,6 +108,12 @@ export const getSearchTypePlaceholder = (type: SearchType): string => {
     inn: '1234567890',
     snils: '123-456-789 01',
     passport: '1234 567890',
+    name: 'Иванов Иван Иванович',
+    address: 'г. Москва, ул. Ленина, д. 1, кв. 1',
+    plate_number: 'А123ВС77',
+    vin: 'XTA21099012345678',
+    username: '@username',
+    telegram_id: '123456789',
   };
   return placeholders[type] || '';
 };
@@ -65,6 +125,12 @@ export const getSearchTypeDescription = (type: SearchType): string => {
     inn: 'Введите ИНН (10 или 12 цифр)',
     snils: 'Введите СНИЛС (11 цифр)',
     passport: 'Введите серию и номер паспорта',
+    name: 'Введите фамилию, имя и отчество. Дата рождения уточнит поиск',
+    address: 'Введите адрес: город, улица, дом и квартира',
+    plate_number: 'Введите госномер автомобиля с регионом',
+    vin: 'Введите VIN из 17 символов',
+    username: 'Введите имя пользователя Telegram или ссылку t.me',
+    telegram_id: 'Введите числовой ID аккаунта Telegram',
   };
   return descriptions[type] || '';
 };
@@ -146,6 +212,49 @@ export const validateSearchValue = (type: SearchType, value: string): string | n
         return 'Неверный формат паспорта (4 цифры + 6 цифр)';
       }
       break;
+
+    case 'name':
+      const nameRegex = /^[A-Za-zА-Яа-яЁё-]+(\s+[A-Za-zА-Яа-яЁё-]+){1,3}(\s+\d{4}-\d{2}-\d{2})?$/;
+      if (!nameRegex.test(value.trim())) {
+        return 'Укажите минимум фамилию и имя';
+      }
+      break;
+
+    case 'address':
+      const address = value.trim();
+      if (address.length < 5 || address.length > 200) {
+        return 'Адрес должен содержать от 5 до 200 символов';
+      }
+      break;
+
+    case 'plate_number':
+      const plateRegex = /^[АВЕКМНОРСТУХABEKMHOPCTYX]\d{3}[АВЕКМНОРСТУХABEKMHOPCTYX]{2}\d{2,3}$/i;
+      if (!plateRegex.test(value.replace(/[\s\-]/g, ''))) {
+        return 'Неверный формат госномера (например, А123ВС77)';
+      }
+      break;
+
+    case 'vin':
+      const vinRegex = /^[A-HJ-NPR-Z0-9]{17}$/i;
+      if (!vinRegex.test(value.trim())) {
+        return 'VIN должен содержать 17 символов (без I, O, Q)';
+      }
+      break;
+
+    case 'username':
+      const usernameRegex = /^[A-Za-z][A-Za-z0-9_]{4,31}$/;
+      const cleanUsername = value.trim().replace(/^(https?:\/\/)?t\.me\//i, '').replace(/^@/, '');
+      if (!usernameRegex.test(cleanUsername)) {
+        return 'Неверный формат имени пользователя Telegram';
+      }
+      break;
+
+    case 'telegram_id':
+      const telegramIdRegex = /^\d{5,15}$/;
+      if (!telegramIdRegex.test(value.trim())) {
+        return 'Telegram ID должен содержать от 5 до 15 цифр';
+      }
+      break;
   }
 
   return null;
@@ -3,6 +3,7 @@
  */
 
 import { SearchType } from '../types/api';
+import { validateSearchValue } from './helpers';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -34,6 +35,17 @@ export function validateSearchInput(type: SearchType, value: string): Validation
       return validateSNILS(trimmedValue);
     case 'passport':
       return validatePassport(trimmedValue);
+    case 'plate_number':
+      return validatePlateNumber(trimmedValue);
+    case 'vin':
+      return validateVIN(trimmedValue);
+    case 'name':
+    case 'address':
+    case 'username':
+    case 'telegram_id': {
+      const error = validateSearchValue(type, trimmedValue);
+      return error ? { isValid: false, error } : { isValid: true };
+    }
     default:
       return {
         isValid: false,
@@ -300,6 +312,46 @@ function validatePassport(value: string): ValidationResult {
   return { isValid: true };
 }
 
+/**
+ * Validate vehicle plate number
+ */
+function validatePlateNumber(value: string): ValidationResult {
+  const cleanValue = value.replace(/[\s\-]/g, '').toUpperCase();
+
+  if (!/^[АВЕКМНОРСТУХABEKMHOPCTYX]\d{3}[АВЕКМНОРСТУХABEKMHOPCTYX]{2}\d{2,3}$/.test(cleanValue)) {
+    return {
+      isValid: false,
+      error: 'Неверный формат госномера',
+      suggestions: [
+        'Формат: А123ВС77 или А123ВС777',
+        'Используются буквы А, В, Е, К, М, Н, О, Р, С, Т, У, Х'
+      ]
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validate vehicle identification number
+ */
+function validateVIN(value: string): ValidationResult {
+  const cleanValue = value.replace(/\s/g, '').toUpperCase();
+
+  if (!/^[A-HJ-NPR-Z0-9]{17}$/.test(cleanValue)) {
+    return {
+      isValid: false,
+      error: 'VIN должен содержать 17 символов',
+      suggestions: [
+        'VIN состоит из латинских букв и цифр',
+        'Буквы I, O и Q в VIN не используются'
+      ]
+    };
+  }
+
+  return { isValid: true };
+}
+
 /**
  * Get input mask for different search types
  */